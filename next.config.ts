@@ -11,6 +11,24 @@ const nextConfig: NextConfig = {
     // your project has ESLint errors.
     ignoreDuringBuilds: true,
   },
+  // sql.js loads its WebAssembly binary relative to its own module file
+  serverExternalPackages: ["sql.js"],
+  async headers() {
+    return [
+      {
+        // Embedded dashboards may be framed by any site; the loader script is fetched cross-origin
+        source: "/embed/:path*",
+        headers: [{ key: "Content-Security-Policy", value: "frame-ancestors *" }],
+      },
+      {
+        source: "/embed.js",
+        headers: [
+          { key: "Access-Control-Allow-Origin", value: "*" },
+          { key: "Cache-Control", value: "public, max-age=3600" },
+        ],
+      },
+    ];
+  },
   experimental: {
     // Turbopack configurations if needed
   },
@@ -0,0 +1,55 @@
+/**
+ * ORIN.AI dashboard embed loader.
+ *
+ *   <div data-orinai-dashboard="SHARE_ID" data-theme="light"></div>
+ *   <script src="https://your-orinai-host/embed.js" async></script>
+ *
+ * Replaces each placeholder with an iframe of /embed/SHARE_ID and keeps the iframe
+ * as tall as the dashboard. data-width and data-height (px) fix the size instead.
+ */
+(function () {
+  var script = document.currentScript;
+  if (!script) return;
+  var origin = new URL(script.src).origin;
+  var RESIZE_MESSAGE = "orinai:embed-resize";
+  var DEFAULT_HEIGHT = 480;
+
+  function mount(placeholder) {
+    if (placeholder.getAttribute("data-orinai-mounted")) return;
+    placeholder.setAttribute("data-orinai-mounted", "true");
+
+    var shareId = placeholder.getAttribute("data-orinai-dashboard");
+    var theme = placeholder.getAttribute("data-theme");
+    var width = placeholder.getAttribute("data-width");
+    var height = placeholder.getAttribute("data-height");
+
+    var query = [];
+    if (theme) query.push("theme=" + encodeURIComponent(theme));
+    if (width) query.push("width=" + encodeURIComponent(width));
+    if (height) query.push("height=" + encodeURIComponent(height));
+
+    var frame = document.createElement("iframe");
+    frame.src = origin + "/embed/" + encodeURIComponent(shareId) + (query.length ? "?" + query.join("&") : "");
+    frame.title = placeholder.getAttribute("data-title") || "ORIN.AI dashboard";
+    frame.loading = "lazy";
+    frame.style.border = "0";
+    frame.style.width = width ? width + "px" : "100%";
+    frame.style.height = (height || DEFAULT_HEIGHT) + "px";
+    if (!height) frame.setAttribute("data-orinai-autosize", "true");
+    placeholder.appendChild(frame);
+  }
+
+  window.addEventListener("message", function (event) {
+    var data = event.data;
+    if (event.origin !== origin || !data || data.type !== RESIZE_MESSAGE) return;
+    var frames = document.querySelectorAll("iframe[data-orinai-autosize]");
+    for (var i = 0; i < frames.length; i++) {
+      if (frames[i].contentWindow === event.source) {
+        frames[i].style.height = data.height + "px";
+      }
+    }
+  });
+
+  var placeholders = document.querySelectorAll("[data-orinai-dashboard]");
+  for (var i = 0; i < placeholders.length; i++) mount(placeholders[i]);
+})();
@@ -0,0 +1,33 @@
+/**
+ * Consolidates every user's memories now, as the server's memory maintenance
+ * does. With --dry-run, reports the duplicates and facts without changing
+ * anything (the model is still called).
+ *
+ * Usage: npm run memory:consolidate -- [--dry-run]
+ */
+import { consolidateAllMemories } from "../src/lib/memory/consolidation";
+
+async function consolidateMemories() {
+  const dryRun = process.argv.includes("--dry-run");
+  console.log(`🧠 Consolidating memories${dryRun ? " (dry run)" : ""}`);
+
+  const reports = await consolidateAllMemories({ dryRun });
+  for (const report of reports) {
+    console.log(`\n${report.userId}: ${report.duplicates.length} duplicates, ${report.clusters.length} clusters`);
+    for (const cluster of report.clusters) {
+      console.log(`   ${cluster.memoryIds.length} memories → ${cluster.facts.join(" | ")}`);
+    }
+    if (Object.values(report.preferences).some(Boolean)) {
+      console.log("   Preferences:", report.preferences);
+    }
+  }
+
+  const removed = reports.reduce((total, report) => total + report.memoriesRemoved, 0);
+  const facts = reports.reduce((total, report) => total + report.factsStored, 0);
+  console.log(`\n✅ ${dryRun ? "Dry run finished" : `${removed} memories replaced by ${facts} facts`} across ${reports.length} users`);
+}
+
+consolidateMemories().catch(error => {
+  console.error("❌ Memory consolidation failed:", error);
+  process.exit(1);
+});
@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { Client, Databases, Permission, Role } from 'node-appwrite';
+import { Client, Databases, Permission, Role, Storage } from 'node-appwrite';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -13,11 +13,18 @@ const client = new Client()
   .setKey(process.env.APPWRITE_API_KEY || '');
 
 const databases = new Databases(client);
+const storage = new Storage(client);
 const DATABASE_ID = process.env.APPWRITE_DATABASE_ID || 'orinai_db';
 
 // Collection names from environment variables
 const USER_PROFILES_COLLECTION = process.env.APPWRITE_COLLECTION_USER_PROFILE || 'user_profiles';
 const USER_MEMORY_METADATA_COLLECTION = process.env.APPWRITE_COLLECTION_USER_MEMORY_METADATA || 'user_memory_metadata';
+const USER_DOCUMENTS_COLLECTION = process.env.APPWRITE_COLLECTION_USER_DOCUMENTS || 'user_documents';
+const USER_DATASETS_COLLECTION = process.env.APPWRITE_COLLECTION_USER_DATASETS || 'user_datasets';
+const DATASETS_BUCKET = process.env.APPWRITE_BUCKET_DATASETS || 'datasets';
+const SHARED_DASHBOARDS_COLLECTION = process.env.APPWRITE_COLLECTION_SHARED_DASHBOARDS || 'shared_dashboards';
+const SAVED_QUERIES_COLLECTION = process.env.APPWRITE_COLLECTION_SAVED_QUERIES || 'saved_queries';
+const DASHBOARD_SNAPSHOTS_COLLECTION = process.env.APPWRITE_COLLECTION_DASHBOARD_SNAPSHOTS || 'dashboard_snapshots';
 
 async function createUserProfilesCollection() {
   console.log('📝 Creating user_profiles collection...');
@@ -149,13 +156,12 @@ async function createUserMemoryMetadataCollection() {
   
   const attributes = [
     { key: 'userId', size: 255, required: true, type: 'string' },
-    { key: 'vectorId', size: 255, required: true, type: 'string' },
-    { key: 'content', size: 10000, required: true, type: 'string' },
-    { key: 'context', size: 1000, required: false, type: 'string' },
-    { key: 'type', size: 50, required: true, type: 'string' },
-    { key: 'tags', size: 1000, required: false, type: 'string' },
-    { key: 'metadata', size: 5000, required: false, type: 'string' },
+    { key: 'memoryId', size: 255, required: true, type: 'string' },
+    { key: 'topic', size: 255, required: false, type: 'string' },
+    { key: 'importance', required: true, type: 'integer', min: 1, max: 10 },
+    { key: 'pinned', required: false, type: 'boolean' },
     { key: 'createdAt', required: true, type: 'datetime' },
+    { key: 'updatedAt', required: true, type: 'datetime' },
     { key: 'lastAccessed', required: false, type: 'datetime' },
     { key: 'accessCount', required: false, type: 'integer', min: 0, max: 1000000, default: 0 }
   ];
@@ -190,6 +196,14 @@ async function createUserMemoryMetadataCollection() {
           attr.default
         );
         console.log(`   ✅ Created integer attribute: ${attr.key}`);
+      } else if (attr.type === 'boolean') {
+        await databases.createBooleanAttribute(
+          DATABASE_ID,
+          USER_MEMORY_METADATA_COLLECTION,
+          attr.key,
+          attr.required
+        );
+        console.log(`   ✅ Created boolean attribute: ${attr.key}`);
       }
     } catch (error) {
       if (error.code === 409) {
@@ -207,9 +221,9 @@ async function createUserMemoryMetadataCollection() {
 
   const indexes = [
     { key: 'userId_index', type: 'key', attributes: ['userId'] },
-    { key: 'vectorId_index', type: 'key', attributes: ['vectorId'] },
-    { key: 'type_index', type: 'key', attributes: ['type'] },
-    { key: 'userId_type_index', type: 'key', attributes: ['userId', 'type'] },
+    { key: 'memoryId_index', type: 'key', attributes: ['memoryId'] },
+    { key: 'userId_topic_index', type: 'key', attributes: ['userId', 'topic'] },
+    { key: 'userId_createdAt_index', type: 'key', attributes: ['userId', 'createdAt'] },
     { key: 'createdAt_index', type: 'key', attributes: ['createdAt'] }
   ];
 
@@ -235,6 +249,572 @@ async function createUserMemoryMetadataCollection() {
   console.log('✅ User memory metadata indexes processed');
 }
 
+async function createUserDocumentsCollection() {
+  console.log('📝 Creating user_documents collection...');
+  
+  try {
+    const collection = await databases.createCollection(
+      DATABASE_ID,
+      USER_DOCUMENTS_COLLECTION,
+      'User Documents',
+      [
+        Permission.create(Role.users()),
+        Permission.read(Role.users()),
+        Permission.update(Role.users()),
+        Permission.delete(Role.users())
+      ]
+    );
+
+    console.log('✅ User documents collection created:', collection.$id);
+  } catch (error) {
+    if (error.code === 409) {
+      console.log('⚠️  User documents collection already exists');
+    } else {
+      console.error('❌ Failed to create user documents collection:', error);
+      throw error;
+    }
+  }
+
+  console.log('📋 Adding attributes to user_documents...');
+
+  const attributes = [
+    { key: 'userId', size: 255, required: true, type: 'string' },
+    { key: 'documentId', size: 64, required: true, type: 'string' },
+    { key: 'fileName', size: 512, required: true, type: 'string' },
+    { key: 'format', size: 20, required: true, type: 'string' },
+    { key: 'size', required: true, type: 'integer', min: 0, max: 1000000000 },
+    { key: 'pageCount', required: false, type: 'integer', min: 0, max: 100000, default: 0 },
+    { key: 'chunkCount', required: false, type: 'integer', min: 0, max: 1000000, default: 0 },
+    { key: 'createdAt', required: true, type: 'datetime' }
+  ];
+
+  for (const attr of attributes) {
+    try {
+      if (attr.type === 'string') {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          USER_DOCUMENTS_COLLECTION,
+          attr.key,
+          attr.size,
+          attr.required
+        );
+        console.log(`   ✅ Created string attribute: ${attr.key}`);
+      } else if (attr.type === 'datetime') {
+        await databases.createDatetimeAttribute(
+          DATABASE_ID,
+          USER_DOCUMENTS_COLLECTION,
+          attr.key,
+          attr.required
+        );
+        console.log(`   ✅ Created datetime attribute: ${attr.key}`);
+      } else if (attr.type === 'integer') {
+        await databases.createIntegerAttribute(
+          DATABASE_ID,
+          USER_DOCUMENTS_COLLECTION,
+          attr.key,
+          attr.required,
+          attr.min,
+          attr.max,
+          attr.default
+        );
+        console.log(`   ✅ Created integer attribute: ${attr.key}`);
+      }
+    } catch (error) {
+      if (error.code === 409) {
+        console.log(`   ⚠️  Attribute ${attr.key} already exists`);
+      } else {
+        console.log(`   ❌ Failed to create attribute ${attr.key}:`, error.message);
+      }
+    }
+  }
+
+  console.log('✅ User documents attributes processed');
+
+  console.log('🔍 Creating indexes for user_documents...');
+
+  const indexes = [
+    { key: 'userId_createdAt_index', type: 'key', attributes: ['userId', 'createdAt'] }
+  ];
+
+  for (const index of indexes) {
+    try {
+      await databases.createIndex(
+        DATABASE_ID,
+        USER_DOCUMENTS_COLLECTION,
+        index.key,
+        index.type,
+        index.attributes
+      );
+      console.log(`   ✅ Created index: ${index.key}`);
+    } catch (error) {
+      if (error.code === 409) {
+        console.log(`   ⚠️  Index ${index.key} already exists`);
+      } else {
+        console.log(`   ❌ Failed to create index ${index.key}:`, error.message);
+      }
+    }
+  }
+
+  console.log('✅ User documents indexes processed');
+}
+
+async function createUserDatasetsCollection() {
+  console.log('📝 Creating user_datasets collection...');
+  
+  try {
+    const collection = await databases.createCollection(
+      DATABASE_ID,
+      USER_DATASETS_COLLECTION,
+      'User Datasets',
+      [
+        Permission.create(Role.users()),
+        Permission.read(Role.users()),
+        Permission.update(Role.users()),
+        Permission.delete(Role.users())
+      ]
+    );
+
+    console.log('✅ User datasets collection created:', collection.$id);
+  } catch (error) {
+    if (error.code === 409) {
+      console.log('⚠️  User datasets collection already exists');
+    } else {
+      console.error('❌ Failed to create user datasets collection:', error);
+      throw error;
+    }
+  }
+
+  console.log('📋 Adding attributes to user_datasets...');
+
+  const attributes = [
+    { key: 'userId', size: 255, required: true, type: 'string' },
+    { key: 'datasetId', size: 64, required: true, type: 'string' },
+    { key: 'name', size: 512, required: true, type: 'string' },
+    { key: 'format', size: 20, required: true, type: 'string' },
+    { key: 'rowCount', required: true, type: 'integer', min: 0, max: 1000000000 },
+    { key: 'schema', size: 65535, required: true, type: 'string' },
+    { key: 'fileId', size: 64, required: true, type: 'string' },
+    { key: 'createdAt', required: true, type: 'datetime' }
+  ];
+
+  for (const attr of attributes) {
+    try {
+      if (attr.type === 'string') {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          USER_DATASETS_COLLECTION,
+          attr.key,
+          attr.size,
+          attr.required
+        );
+        console.log(`   ✅ Created string attribute: ${attr.key}`);
+      } else if (attr.type === 'datetime') {
+        await databases.createDatetimeAttribute(
+          DATABASE_ID,
+          USER_DATASETS_COLLECTION,
+          attr.key,
+          attr.required
+        );
+        console.log(`   ✅ Created datetime attribute: ${attr.key}`);
+      } else if (attr.type === 'integer') {
+        await databases.createIntegerAttribute(
+          DATABASE_ID,
+          USER_DATASETS_COLLECTION,
+          attr.key,
+          attr.required,
+          attr.min,
+          attr.max,
+          attr.default
+        );
+        console.log(`   ✅ Created integer attribute: ${attr.key}`);
+      }
+    } catch (error) {
+      if (error.code === 409) {
+        console.log(`   ⚠️  Attribute ${attr.key} already exists`);
+      } else {
+        console.log(`   ❌ Failed to create attribute ${attr.key}:`, error.message);
+      }
+    }
+  }
+
+  console.log('✅ User datasets attributes processed');
+
+  console.log('🔍 Creating indexes for user_datasets...');
+
+  const indexes = [
+    { key: 'userId_createdAt_index', type: 'key', attributes: ['userId', 'createdAt'] }
+  ];
+
+  for (const index of indexes) {
+    try {
+      await databases.createIndex(
+        DATABASE_ID,
+        USER_DATASETS_COLLECTION,
+        index.key,
+        index.type,
+        index.attributes
+      );
+      console.log(`   ✅ Created index: ${index.key}`);
+    } catch (error) {
+      if (error.code === 409) {
+        console.log(`   ⚠️  Index ${index.key} already exists`);
+      } else {
+        console.log(`   ❌ Failed to create index ${index.key}:`, error.message);
+      }
+    }
+  }
+
+  console.log('✅ User datasets indexes processed');
+}
+
+async function createSharedDashboardsCollection() {
+  console.log('📝 Creating shared_dashboards collection...');
+  
+  try {
+    // No client permissions: links are resolved server-side, which checks visibility
+    const collection = await databases.createCollection(
+      DATABASE_ID,
+      SHARED_DASHBOARDS_COLLECTION,
+      'Shared Dashboards',
+      []
+    );
+
+    console.log('✅ Shared dashboards collection created:', collection.$id);
+  } catch (error) {
+    if (error.code === 409) {
+      console.log('⚠️  Shared dashboards collection already exists');
+    } else {
+      console.error('❌ Failed to create shared dashboards collection:', error);
+      throw error;
+    }
+  }
+
+  console.log('📋 Adding attributes to shared_dashboards...');
+
+  const attributes = [
+    { key: 'shareId', size: 64, required: true, type: 'string' },
+    { key: 'userId', size: 255, required: true, type: 'string' },
+    { key: 'title', size: 512, required: true, type: 'string' },
+    { key: 'dashboard', size: 1000000, required: true, type: 'string' },
+    { key: 'visibility', size: 20, required: true, type: 'string' },
+    { key: 'expiresAt', required: false, type: 'datetime' },
+    { key: 'revokedAt', required: false, type: 'datetime' },
+    { key: 'createdAt', required: true, type: 'datetime' },
+    { key: 'updatedAt', required: true, type: 'datetime' }
+  ];
+
+  for (const attr of attributes) {
+    try {
+      if (attr.type === 'string') {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          SHARED_DASHBOARDS_COLLECTION,
+          attr.key,
+          attr.size,
+          attr.required
+        );
+        console.log(`   ✅ Created string attribute: ${attr.key}`);
+      } else if (attr.type === 'datetime') {
+        await databases.createDatetimeAttribute(
+          DATABASE_ID,
+          SHARED_DASHBOARDS_COLLECTION,
+          attr.key,
+          attr.required
+        );
+        console.log(`   ✅ Created datetime attribute: ${attr.key}`);
+      }
+    } catch (error) {
+      if (error.code === 409) {
+        console.log(`   ⚠️  Attribute ${attr.key} already exists`);
+      } else {
+        console.log(`   ❌ Failed to create attribute ${attr.key}:`, error.message);
+      }
+    }
+  }
+
+  console.log('✅ Shared dashboards attributes processed');
+
+  console.log('🔍 Creating indexes for shared_dashboards...');
+
+  const indexes = [
+    { key: 'userId_createdAt_index', type: 'key', attributes: ['userId', 'createdAt'] }
+  ];
+
+  for (const index of indexes) {
+    try {
+      await databases.createIndex(
+        DATABASE_ID,
+        SHARED_DASHBOARDS_COLLECTION,
+        index.key,
+        index.type,
+        index.attributes
+      );
+      console.log(`   ✅ Created index: ${index.key}`);
+    } catch (error) {
+      if (error.code === 409) {
+        console.log(`   ⚠️  Index ${index.key} already exists`);
+      } else {
+        console.log(`   ❌ Failed to create index ${index.key}:`, error.message);
+      }
+    }
+  }
+
+  console.log('✅ Shared dashboards indexes processed');
+}
+
+async function createSavedQueriesCollection() {
+  console.log('📝 Creating saved_queries collection...');
+  
+  try {
+    // No client permissions: the API and the scheduler read and write on the owner's behalf
+    const collection = await databases.createCollection(
+      DATABASE_ID,
+      SAVED_QUERIES_COLLECTION,
+      'Saved Queries',
+      []
+    );
+
+    console.log('✅ Saved queries collection created:', collection.$id);
+  } catch (error) {
+    if (error.code === 409) {
+      console.log('⚠️  Saved queries collection already exists');
+    } else {
+      console.error('❌ Failed to create saved queries collection:', error);
+      throw error;
+    }
+  }
+
+  console.log('📋 Adding attributes to saved_queries...');
+
+  const attributes = [
+    { key: 'savedQueryId', size: 64, required: true, type: 'string' },
+    { key: 'userId', size: 255, required: true, type: 'string' },
+    { key: 'name', size: 255, required: true, type: 'string' },
+    { key: 'query', size: 2000, required: true, type: 'string' },
+    { key: 'schedule', size: 100, required: true, type: 'string' },
+    { key: 'datasetId', size: 64, required: false, type: 'string' },
+    { key: 'sqlSourceId', size: 64, required: false, type: 'string' },
+    { key: 'useMemory', required: true, type: 'boolean' },
+    { key: 'enabled', required: true, type: 'boolean' },
+    { key: 'nextRunAt', required: false, type: 'datetime' },
+    { key: 'lastRunAt', required: false, type: 'datetime' },
+    { key: 'lastStatus', size: 20, required: false, type: 'string' },
+    { key: 'lastError', size: 1000, required: false, type: 'string' },
+    { key: 'createdAt', required: true, type: 'datetime' },
+    { key: 'updatedAt', required: true, type: 'datetime' }
+  ];
+
+  for (const attr of attributes) {
+    try {
+      if (attr.type === 'string') {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          SAVED_QUERIES_COLLECTION,
+          attr.key,
+          attr.size,
+          attr.required
+        );
+        console.log(`   ✅ Created string attribute: ${attr.key}`);
+      } else if (attr.type === 'datetime') {
+        await databases.createDatetimeAttribute(
+          DATABASE_ID,
+          SAVED_QUERIES_COLLECTION,
+          attr.key,
+          attr.required
+        );
+        console.log(`   ✅ Created datetime attribute: ${attr.key}`);
+      } else if (attr.type === 'integer') {
+        await databases.createIntegerAttribute(
+          DATABASE_ID,
+          SAVED_QUERIES_COLLECTION,
+          attr.key,
+          attr.required,
+          attr.min,
+          attr.max,
+          attr.default
+        );
+        console.log(`   ✅ Created integer attribute: ${attr.key}`);
+      } else if (attr.type === 'boolean') {
+        await databases.createBooleanAttribute(
+          DATABASE_ID,
+          SAVED_QUERIES_COLLECTION,
+          attr.key,
+          attr.required
+        );
+        console.log(`   ✅ Created boolean attribute: ${attr.key}`);
+      }
+    } catch (error) {
+      if (error.code === 409) {
+        console.log(`   ⚠️  Attribute ${attr.key} already exists`);
+      } else {
+        console.log(`   ❌ Failed to create attribute ${attr.key}:`, error.message);
+      }
+    }
+  }
+
+  console.log('✅ Saved queries attributes processed');
+
+  console.log('🔍 Creating indexes for saved_queries...');
+
+  const indexes = [
+    { key: 'userId_createdAt_index', type: 'key', attributes: ['userId', 'createdAt'] },
+    { key: 'enabled_nextRunAt_index', type: 'key', attributes: ['enabled', 'nextRunAt'] }
+  ];
+
+  for (const index of indexes) {
+    try {
+      await databases.createIndex(
+        DATABASE_ID,
+        SAVED_QUERIES_COLLECTION,
+        index.key,
+        index.type,
+        index.attributes
+      );
+      console.log(`   ✅ Created index: ${index.key}`);
+    } catch (error) {
+      if (error.code === 409) {
+        console.log(`   ⚠️  Index ${index.key} already exists`);
+      } else {
+        console.log(`   ❌ Failed to create index ${index.key}:`, error.message);
+      }
+    }
+  }
+
+  console.log('✅ Saved queries indexes processed');
+}
+
+async function createDashboardSnapshotsCollection() {
+  console.log('📝 Creating dashboard_snapshots collection...');
+  
+  try {
+    // No client permissions: history is read through the API, which checks ownership
+    const collection = await databases.createCollection(
+      DATABASE_ID,
+      DASHBOARD_SNAPSHOTS_COLLECTION,
+      'Dashboard Snapshots',
+      []
+    );
+
+    console.log('✅ Dashboard snapshots collection created:', collection.$id);
+  } catch (error) {
+    if (error.code === 409) {
+      console.log('⚠️  Dashboard snapshots collection already exists');
+    } else {
+      console.error('❌ Failed to create dashboard snapshots collection:', error);
+      throw error;
+    }
+  }
+
+  console.log('📋 Adding attributes to dashboard_snapshots...');
+
+  const attributes = [
+    { key: 'snapshotId', size: 64, required: true, type: 'string' },
+    { key: 'savedQueryId', size: 64, required: true, type: 'string' },
+    { key: 'userId', size: 255, required: true, type: 'string' },
+    { key: 'version', required: true, type: 'integer', min: 1 },
+    { key: 'dashboard', size: 1000000, required: true, type: 'string' },
+    { key: 'createdAt', required: true, type: 'datetime' }
+  ];
+
+  for (const attr of attributes) {
+    try {
+      if (attr.type === 'string') {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          DASHBOARD_SNAPSHOTS_COLLECTION,
+          attr.key,
+          attr.size,
+          attr.required
+        );
+        console.log(`   ✅ Created string attribute: ${attr.key}`);
+      } else if (attr.type === 'datetime') {
+        await databases.createDatetimeAttribute(
+          DATABASE_ID,
+          DASHBOARD_SNAPSHOTS_COLLECTION,
+          attr.key,
+          attr.required
+        );
+        console.log(`   ✅ Created datetime attribute: ${attr.key}`);
+      } else if (attr.type === 'integer') {
+        await databases.createIntegerAttribute(
+          DATABASE_ID,
+          DASHBOARD_SNAPSHOTS_COLLECTION,
+          attr.key,
+          attr.required,
+          attr.min,
+          attr.max,
+          attr.default
+        );
+        console.log(`   ✅ Created integer attribute: ${attr.key}`);
+      } else if (attr.type === 'boolean') {
+        await databases.createBooleanAttribute(
+          DATABASE_ID,
+          DASHBOARD_SNAPSHOTS_COLLECTION,
+          attr.key,
+          attr.required
+        );
+        console.log(`   ✅ Created boolean attribute: ${attr.key}`);
+      }
+    } catch (error) {
+      if (error.code === 409) {
+        console.log(`   ⚠️  Attribute ${attr.key} already exists`);
+      } else {
+        console.log(`   ❌ Failed to create attribute ${attr.key}:`, error.message);
+      }
+    }
+  }
+
+  console.log('✅ Dashboard snapshots attributes processed');
+
+  console.log('🔍 Creating indexes for dashboard_snapshots...');
+
+  const indexes = [
+    { key: 'savedQueryId_version_index', type: 'key', attributes: ['savedQueryId', 'version'] }
+  ];
+
+  for (const index of indexes) {
+    try {
+      await databases.createIndex(
+        DATABASE_ID,
+        DASHBOARD_SNAPSHOTS_COLLECTION,
+        index.key,
+        index.type,
+        index.attributes
+      );
+      console.log(`   ✅ Created index: ${index.key}`);
+    } catch (error) {
+      if (error.code === 409) {
+        console.log(`   ⚠️  Index ${index.key} already exists`);
+      } else {
+        console.log(`   ❌ Failed to create index ${index.key}:`, error.message);
+      }
+    }
+  }
+
+  console.log('✅ Dashboard snapshots indexes processed');
+}
+
+async function createDatasetsBucket() {
+  console.log('🪣 Creating datasets storage bucket...');
+
+  try {
+    const bucket = await storage.createBucket(
+      DATASETS_BUCKET,
+      'Datasets',
+      [],
+      false
+    );
+    console.log('✅ Datasets bucket created:', bucket.$id);
+  } catch (error) {
+    if (error.code === 409) {
+      console.log('⚠️  Datasets bucket already exists');
+    } else {
+      console.error('❌ Failed to create datasets bucket:', error);
+      throw error;
+    }
+  }
+}
+
 async function setupCollections() {
   console.log('🚀 Setting up Appwrite collections for RAG system');
   console.log('==============================================\n');
@@ -255,17 +835,35 @@ async function setupCollections() {
   console.log(`   Project ID: ${process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID}`);
   console.log(`   Endpoint: ${process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT}`);
   console.log(`   User Profiles Collection: ${USER_PROFILES_COLLECTION}`);
-  console.log(`   User Memory Metadata Collection: ${USER_MEMORY_METADATA_COLLECTION}\n`);
+  console.log(`   User Memory Metadata Collection: ${USER_MEMORY_METADATA_COLLECTION}`);
+  console.log(`   User Documents Collection: ${USER_DOCUMENTS_COLLECTION}`);
+  console.log(`   User Datasets Collection: ${USER_DATASETS_COLLECTION}`);
+  console.log(`   Datasets Bucket: ${DATASETS_BUCKET}`);
+  console.log(`   Shared Dashboards Collection: ${SHARED_DASHBOARDS_COLLECTION}`);
+  console.log(`   Saved Queries Collection: ${SAVED_QUERIES_COLLECTION}`);
+  console.log(`   Dashboard Snapshots Collection: ${DASHBOARD_SNAPSHOTS_COLLECTION}\n`);
 
   try {
     // Create collections
     await createUserProfilesCollection();
     await createUserMemoryMetadataCollection();
+    await createUserDocumentsCollection();
+    await createUserDatasetsCollection();
+    await createDatasetsBucket();
+    await createSharedDashboardsCollection();
+    await createSavedQueriesCollection();
+    await createDashboardSnapshotsCollection();
 
     console.log('\n🎉 All collections created successfully!');
     console.log('\n📋 Collections Summary:');
     console.log(`   • ${USER_PROFILES_COLLECTION}: User profile data and preferences`);
     console.log(`   • ${USER_MEMORY_METADATA_COLLECTION}: Metadata for Pinecone vectors`);
+    console.log(`   • ${USER_DOCUMENTS_COLLECTION}: Uploaded documents indexed for RAG`);
+    console.log(`   • ${USER_DATASETS_COLLECTION}: Uploaded datasets and their inferred schemas`);
+    console.log(`   • ${DATASETS_BUCKET} (bucket): Parsed dataset rows`);
+    console.log(`   • ${SHARED_DASHBOARDS_COLLECTION}: Published dashboard permalinks`);
+    console.log(`   • ${SAVED_QUERIES_COLLECTION}: Queries rerun on a schedule`);
+    console.log(`   • ${DASHBOARD_SNAPSHOTS_COLLECTION}: Versioned results of saved query runs`);
     
     console.log('\n💡 Next Steps:');
     console.log('   1. Set up your Pinecone index with 1536 dimensions');
@@ -0,0 +1,28 @@
+/**
+ * Applies every user's memory retention period now, as the server's periodic sweep
+ * does. With --dry-run, only reports what would be deleted.
+ *
+ * Usage: npm run memory:sweep -- [--dry-run]
+ */
+import { sweepExpiredMemories } from "../src/lib/memory/retention";
+
+async function sweepMemories() {
+  const dryRun = process.argv.includes("--dry-run");
+  console.log(`🧹 Sweeping expired memories${dryRun ? " (dry run)" : ""}`);
+
+  const reports = await sweepExpiredMemories({ dryRun });
+  for (const report of reports) {
+    console.log(`\n${report.userId}: ${report.expired.length} older than ${report.retentionDays} days (before ${report.cutoff})`);
+    for (const memory of report.expired) {
+      console.log(`   ${memory.timestamp}  [${memory.importance}]  ${memory.context}`);
+    }
+  }
+
+  const total = reports.reduce((sum, report) => sum + report.expired.length, 0);
+  console.log(`\n✅ ${total} ${total === 1 ? "memory" : "memories"} ${dryRun ? "would be deleted" : "deleted"} across ${reports.length} users`);
+}
+
+sweepMemories().catch(error => {
+  console.error("❌ Memory sweep failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+/**
+ * Checks the chart editor's edits and their validation: field detection, typed
+ * cells, rows, config changes and what the UI schema validator accepts.
+ *
+ * Usage: npm run test:editor
+ */
+import type { DashboardOutput } from "../src/types";
+import {
+  addRow,
+  listDataFields,
+  parseCellValue,
+  removeRow,
+  updateCell,
+  updateConfig,
+  validateDashboardEdit,
+} from "../src/lib/charts/editor";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const revenue: DashboardOutput = {
+  type: "bar_chart",
+  title: "Revenue by quarter",
+  data: [
+    { label: "Q1", value: 120, region: "EU" },
+    { label: "Q2", value: 135, region: "EU" },
+    { label: "Q3", value: 160 },
+  ],
+  config: { legend: true, colors: ["#336699"] },
+};
+
+async function testChartEditor() {
+  console.log("🧪 Testing the chart editor");
+
+  const fields = listDataFields(revenue.data);
+  assert(fields.map(field => `${field.key}:${field.numeric}`).join() === "label:false,value:true,region:false", `Fields: ${JSON.stringify(fields)}`);
+
+  assert(parseCellValue(" 1,250.5 ", true) === 1250.5, "Numbers are parsed in numeric columns");
+  assert(parseCellValue("n/a", true) === "n/a", "Unparseable numbers are kept as typed, for the validator to flag");
+  assert(parseCellValue("42", false) === "42", "Text columns keep text");
+  assert(parseCellValue("  ", false) === undefined, "Empty cells clear the key");
+
+  const edited = updateCell(revenue.data, 2, "value", 170);
+  assert(edited[2].value === 170 && revenue.data[2].value === 160, "Cells are updated without touching the original");
+  assert(!("region" in updateCell(revenue.data, 0, "region", undefined)[0]), "Clearing a cell removes the key");
+
+  const added = addRow(revenue.data);
+  assert(added.length === 4 && added[3].label === "Item 4" && added[3].value === 0 && added[3].region === "", `New rows: ${JSON.stringify(added[3])}`);
+  assert(removeRow(revenue.data, 0)[0].label === "Q2", "Rows are removed by position");
+  console.log("✅ Data edits");
+
+  const restyled = updateConfig(revenue, { gridLines: true, legend: false, colors: undefined });
+  assert(restyled.config?.gridLines === true && restyled.config.legend === false, "Toggles are set");
+  assert(!("colors" in (restyled.config ?? {})), "Undefined values remove config keys");
+  console.log("✅ Config edits");
+
+  const valid = await validateDashboardEdit({ ...revenue, type: "line_chart" });
+  assert(valid.isValid && !valid.warnings.some(warning => warning.includes("classified type")), `A type switch is valid: ${valid.errors.join("; ")}`);
+
+  const badValue = await validateDashboardEdit({ ...revenue, data: updateCell(revenue.data, 1, "value", "n/a") });
+  assert(!badValue.isValid && badValue.errors.some(error => error.includes("data.1")), `Text in a numeric column is rejected: ${badValue.errors.join("; ")}`);
+
+  const noTitle = await validateDashboardEdit({ ...revenue, title: "" });
+  assert(!noTitle.isValid, "A title is required");
+
+  const pieWithoutValues = await validateDashboardEdit({ ...revenue, type: "pie_chart", data: [{ label: "A" }] });
+  assert(!pieWithoutValues.isValid, "Chart types keep their data requirements");
+  console.log("✅ Validation");
+
+  console.log("\n🎉 Chart editor checks passed");
+}
+
+testChartEditor().catch(error => {
+  console.error("❌ Chart editor test failed:", error);
+  process.exit(1);
+});
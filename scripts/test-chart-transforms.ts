@@ -0,0 +1,85 @@
+/**
+ * Checks the data reshaping behind the waterfall, sankey, candlestick and histogram
+ * renderers, and the detection rules that pick those types.
+ *
+ * Usage: npm run test:charts
+ */
+import { detectChartConfig, detectOptimalChartType } from "../src/lib/charts/detection";
+import { toCandles, toHistogramBins, toHistogramData, toSankeyGraph, toWaterfallSteps } from "../src/lib/charts/transforms";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function testChartTransforms() {
+  console.log("🧪 Testing chart transforms and detection");
+
+  const steps = toWaterfallSteps([
+    { label: "Revenue", value: 100 },
+    { label: "Costs", value: -140 },
+    { label: "Refund", value: 10 },
+    { label: "Net", isTotal: true },
+  ]);
+  assert(steps[0].range[0] === 0 && steps[0].range[1] === 100 && steps[0].kind === "increase", "Steps float from the running total");
+  assert(steps[1].range[0] === -40 && steps[1].range[1] === 100 && steps[1].kind === "decrease", "Decreases can cross zero");
+  assert(steps[3].kind === "total" && steps[3].delta === -30 && steps[3].range[0] === -30, "Totals show where the steps landed");
+  console.log("✅ Waterfall steps");
+
+  const graph = toSankeyGraph([
+    { source: "Visits", target: "Signups", value: 40 },
+    { source: "Signups", target: "Paid", value: 10 },
+    { source: "Paid", target: "Visits", value: 5 }, // would close a cycle
+    { source: "Paid", target: "Paid", value: 5 },
+    { source: "Visits", target: "Bounced", value: 0 },
+  ]);
+  assert(graph.nodes.map(node => node.name).join(",") === "Visits,Signups,Paid", "Nodes are collected in order");
+  assert(graph.links.length === 2, "Cycles, self links and empty flows are dropped");
+  const custom = toSankeyGraph([{ from: "A", to: "B", amount: 3 }], {
+    chartSpecific: { sankeySource: "from", sankeyTarget: "to", sankeyValue: "amount" },
+  });
+  assert(custom.links[0]?.value === 3, "Configured sankey keys are honoured");
+  console.log("✅ Sankey graph");
+
+  const candles = toCandles([
+    { label: "Mon", open: 10, high: 12, low: 9, close: 11 },
+    { label: "Tue", open: 11, high: 10.5, low: 10, close: 12 },
+    { label: "Bad", open: 1 },
+  ]);
+  assert(candles.length === 2, "Candles without open/close are skipped");
+  assert(candles[1].high === 12 && candles[1].range[1] === 12, "The wick always covers the body");
+  console.log("✅ Candles");
+
+  const bins = toHistogramBins([1, 2, 2, 3, 3, 3, 4, 4, 5, 10]);
+  assert(bins.length === 5, "Sturges' rule picks the bin count");
+  assert(bins.reduce((sum, bin) => sum + bin.count, 0) === 10, "Every sample lands in a bin");
+  assert(bins[bins.length - 1].count === 1, "The maximum falls in the last bin");
+  assert(toHistogramBins([7, 7, 7]).every(bin => bin.end > bin.start), "Constant samples still get a bin");
+  const counted = toHistogramData([{ label: "0-10", value: 4 }, { label: "10-20", value: 9 }]);
+  assert(counted[1].count === 9, "Labelled points are bins that are already counted");
+  console.log("✅ Histogram bins");
+
+  assert(detectOptimalChartType([{ label: "Mon", open: 1, high: 2, low: 0.5, close: 1.5 }]) === "candlestick_chart", "OHLC → candlestick");
+  assert(detectOptimalChartType([{ source: "A", target: "B", value: 1 }]) === "sankey_diagram", "Flows → sankey");
+  assert(detectOptimalChartType([{ x: 1, y: 2, size: 3 }, { x: 2, y: 3, size: 1 }]) === "bubble_chart", "XY with size → bubble");
+  assert(detectOptimalChartType([{ x: 1, y: 2 }, { x: 2, y: 3 }]) === "scatter_plot", "XY → scatter");
+  assert(
+    detectOptimalChartType([{ label: "Start", value: 10 }, { label: "End", value: 10, isTotal: true }]) === "waterfall_chart",
+    "Flagged totals → waterfall"
+  );
+  const samples = Array.from({ length: 20 }, (_, index) => ({ value: (index * 7) % 11 }));
+  assert(detectOptimalChartType(samples) === "histogram", "Unlabelled samples → histogram");
+  assert(detectOptimalChartType(samples.slice(0, 5).map((point, index) => ({ ...point, label: `#${index}` }))) === "pie_chart", "Labelled values stay categorical");
+
+  const scatterConfig = detectChartConfig([{ label: "A", x: 1, y: 2 }], "scatter_plot");
+  assert(scatterConfig.xAxis === "x" && scatterConfig.yAxis === "y", "Scatter axes stay numeric even with a label column");
+  console.log("✅ Detection rules");
+
+  console.log("\n🎉 Chart transform checks passed");
+}
+
+try {
+  testChartTransforms();
+} catch (error) {
+  console.error("❌ Chart transform test failed:", error);
+  process.exit(1);
+}
@@ -0,0 +1,92 @@
+/**
+ * Checks dashboard diffing: changed and added/removed points, series changes,
+ * the word-level summary diff, citation changes and the chart comparison rows.
+ *
+ * Usage: npm run test:diff
+ */
+import type { DashboardOutput } from "../src/types";
+import { compareChartData, diffDashboards, diffText, hasChanges, pairCharts } from "../src/lib/charts/diff";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function testDashboardDiff() {
+  console.log("🧪 Testing dashboard diffs");
+
+  const before: DashboardOutput = {
+    type: "line_chart",
+    title: "Revenue by quarter",
+    summary: "Revenue grew steadily in 2024.",
+    config: { xAxis: "quarter", yAxis: "revenue" },
+    data: [
+      { quarter: "Q1", revenue: 10, cost: 6 },
+      { quarter: "Q2", revenue: 12, cost: 7 },
+      { quarter: "Q3", revenue: 15, cost: 8 },
+    ],
+    citations: [
+      { title: "Annual report", url: "https://example.com/report" },
+      { title: "Old blog post", url: "https://example.com/blog" },
+    ],
+  };
+  const after: DashboardOutput = {
+    ...before,
+    title: "Revenue and margin by quarter",
+    summary: "Revenue grew sharply in 2024.",
+    data: [
+      { quarter: "Q1", revenue: 10, margin: 0.4 },
+      { quarter: "Q2", revenue: 13, margin: 0.42 },
+      { quarter: "Q4", revenue: 18, margin: 0.5 },
+    ],
+    citations: [
+      { title: "Annual report (updated)", url: "https://example.com/report" },
+      { title: "Q4 earnings call", url: "https://example.com/q4" },
+    ],
+  };
+
+  assert(!hasChanges(diffDashboards(before, before)), "A dashboard does not differ from itself");
+
+  const diff = diffDashboards(before, after);
+  assert(diff.title?.after === "Revenue and margin by quarter", "Title changes are reported");
+
+  const series = diff.series.map(change => `${change.kind}:${change.series}`).sort().join();
+  assert(series === "added:margin,removed:cost", `Series changes: ${series}`);
+  assert(diff.points.every(point => point.series === "revenue"), "Points of added or removed series are left to the series list");
+  const points = Object.fromEntries(diff.points.map(point => [point.label, point]));
+  assert(diff.points.length === 3, `Changed points only: ${JSON.stringify(diff.points)}`);
+  assert(points.Q2.kind === "changed" && points.Q2.delta === 1, "Q2 changed by +1");
+  assert(points.Q3.kind === "removed" && points.Q3.before === 15, "Q3 was removed");
+  assert(points.Q4.kind === "added" && points.Q4.after === 18, "Q4 was added");
+  console.log("✅ Points and series");
+
+  const summary = diff.summary?.parts.map(part => `${part.kind}:${part.text}`).join("|");
+  assert(summary === "same:Revenue grew |removed:steadily|added:sharply|same: in 2024.", `Summary diff: ${summary}`);
+  const replaced = diffText("", "New summary");
+  assert(replaced.length === 1 && replaced[0].kind === "added", "A new summary is all added");
+  console.log("✅ Summary text");
+
+  // Matched by URL: a retitled source is not a change of sources
+  assert(diff.citations.added.map(citation => citation.title).join() === "Q4 earnings call", "Added citations");
+  assert(diff.citations.removed.map(citation => citation.title).join() === "Old blog post", "Removed citations");
+  console.log("✅ Citations");
+
+  const comparison = compareChartData(before, after);
+  assert(comparison?.series === "revenue", "Compares the y axis series");
+  assert(comparison.rows.map(row => row.label).join() === "Q1,Q2,Q4,Q3", "Rows follow the newer version, removed rows last");
+  assert(comparison.rows.map(row => row.kind).join() === "same,changed,added,removed", "Rows carry their change");
+  assert(compareChartData({ ...before, data: [{ quarter: "Q1" }] }, { ...after, data: [{ quarter: "Q1" }] }) === null, "Nothing numeric, nothing to draw");
+
+  const board = { ...before, charts: [before, after] };
+  const pairs = pairCharts(board, { ...board, charts: [after] });
+  assert(pairs.length === 3 && pairs[2][1].data.length === 0, "Missing panels pair with an empty copy");
+  console.log("✅ Chart comparison");
+
+  console.log("\n🎉 Dashboard diff checks passed");
+}
+
+try {
+  testDashboardDiff();
+} catch (error) {
+  console.error("❌ Dashboard diff test failed:", error);
+  process.exit(1);
+}
@@ -0,0 +1,131 @@
+/**
+ * Checks the dashboard exporters that run without a browser: the standalone HTML
+ * document, the PDF report, CSV/JSON/XLSX data and export file names.
+ *
+ * Usage: npm run test:export
+ */
+import type { DashboardOutput } from "../src/types";
+import * as XLSX from "xlsx";
+import {
+  buildPdfReport,
+  buildStandaloneHtml,
+  dashboardDataSheets,
+  dashboardToCsv,
+  dashboardToJson,
+  dashboardToXlsx,
+  exportFileName,
+} from "../src/lib/export";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const board: DashboardOutput = {
+  type: "analytics_summary",
+  title: "Q3 <Revenue> Review",
+  query: "How did revenue do in Q3?",
+  summary: "Revenue grew across every region.",
+  data: [{ label: "Revenue", value: 120 }],
+  layout: {
+    columns: 12,
+    kpis: [{ label: "Revenue", value: 120, unit: "$", change: 4.5 }],
+    panels: [
+      { chart: 0, x: 0, y: 0, w: 6, h: 1 },
+      { chart: 1, x: 6, y: 0, w: 6, h: 1 },
+    ],
+  },
+  charts: [
+    { type: "bar_chart", title: "By region", data: [{ label: "North", value: 70 }, { label: "South", value: 50 }] },
+    {
+      type: "text",
+      title: "Highlights",
+      data: [{ heading: "Growth", description: "North led the quarter.", bullets: ["New stores", "Pricing"] }],
+    },
+  ],
+  citations: [{ title: "Annual report", url: "https://example.com/report", snippet: "Revenue was $120m" }],
+};
+
+async function testDashboardExport() {
+  console.log("🧪 Testing dashboard export");
+
+  const html = buildStandaloneHtml(
+    { ...board, summary: "Ends early? </script><script>alert(1)</script>" },
+    new Date("2025-01-02T03:04:05Z")
+  );
+  assert(html.startsWith("<!doctype html>"), "A full HTML document is produced");
+  assert(html.includes("<title>Q3 &#60;Revenue&#62; Review</title>"), "The title is escaped");
+  assert(!html.includes("</script><script>alert(1)"), "Embedded JSON cannot close its script tag");
+  assert(!/<(script|link)[^>]+src=|<link[^>]+href=/.test(html), "Nothing is loaded from the network");
+
+  const embedded = html.match(/<script id="dashboard-data" type="application\/json">([\s\S]*?)<\/script>/);
+  assert(embedded, "The dashboard JSON is embedded");
+  const parsed = JSON.parse(embedded[1]) as DashboardOutput;
+  assert(parsed.charts?.length === 2 && parsed.citations?.[0].url === "https://example.com/report", "The embedded JSON round-trips");
+  console.log("✅ Standalone HTML");
+
+  const pdf = await buildPdfReport(board, { panels: [], extras: [] }, new Date("2025-01-02T03:04:05Z"));
+  const text = Buffer.from(pdf).toString("latin1");
+  assert(text.startsWith("%PDF-"), "A PDF document is produced");
+  assert(text.includes("By region") && text.includes("North led the quarter."), "Charts and text sections are written");
+  assert(text.includes("https://example.com/report"), "Citations are listed");
+
+  const long = await buildPdfReport({
+    type: "bar_chart",
+    title: "Long",
+    data: Array.from({ length: 25 }, (_, index) => ({ label: `Row ${index}`, value: index, note: "x".repeat(200) })),
+  });
+  const pages = Buffer.from(long).toString("latin1").match(/\/Type \/Page\b/g) ?? [];
+  assert(pages.length > 1, "Long reports break across pages");
+  console.log("✅ PDF report");
+
+  const exportedAt = new Date("2025-01-02T03:04:05Z");
+  const sheets = dashboardDataSheets(board);
+  assert(sheets.map(sheet => sheet.name).join("|") === "Q3 <Revenue> Review|By region|Highlights", `Sheet names: ${sheets.map(sheet => sheet.name)}`);
+  const ordered = dashboardDataSheets({
+    type: "bar_chart",
+    title: "Sales",
+    config: { xAxis: "month", yAxis: "sales" },
+    data: [{ id: 1, sales: 10, region: "North", month: "Jan" }],
+  });
+  assert(ordered[0].columns.map(column => column.name).join() === "month,sales,id,region", "Axis columns lead");
+  const detected = dashboardDataSheets({ type: "line_chart", title: "Visits", data: [{ visits: 4, day: "Mon" }] });
+  assert(detected[0].columns[0].name === "day", "Detected axes are used when the config has none");
+  assert(
+    dashboardDataSheets({ type: "bar_chart", title: "A/B [test]", data: [{ label: "x", value: 1 }], charts: [{ type: "bar_chart", title: "a/b [TEST]", data: [{ label: "y", value: 2 }] }] })
+      .map(sheet => sheet.name).join("|") === "A B test|a b TEST 2",
+    "Sheet names are cleaned and unique"
+  );
+
+  assert(
+    dashboardToCsv({ type: "bar_chart", title: "Single", data: [{ label: "North", value: 70 }] }) === "label,value\r\nNorth,70",
+    "A single chart is plain CSV"
+  );
+  const csv = dashboardToCsv(board, exportedAt);
+  assert(csv.includes("By region\r\nlabel,value\r\nNorth,70\r\nSouth,50"), "Each sheet is labelled");
+  assert(csv.includes("Query,How did revenue do in Q3?,"), "CSV ends with provenance");
+
+  const json = JSON.parse(dashboardToJson(board, exportedAt));
+  assert(json.query === "How did revenue do in Q3?" && json.charts.length === 3, "JSON carries every chart and the query");
+  assert(json.charts[1].xAxis === "label" && json.charts[1].data[0].value === 70, "JSON keeps axes and raw data");
+
+  const workbook = XLSX.read(await dashboardToXlsx(board, exportedAt), { type: "array" });
+  assert(workbook.SheetNames.join("|") === "Q3 <Revenue> Review|By region|Highlights|Provenance", `Workbook sheets: ${workbook.SheetNames}`);
+  const provenance = XLSX.utils.sheet_to_json<Record<string, string>>(workbook.Sheets.Provenance);
+  assert(provenance.some(row => row.field === "Query" && row.value === "How did revenue do in Q3?"), "The originating query is recorded");
+  assert(provenance.some(row => row.field === "Citation 1" && row.url === "https://example.com/report"), "Citations are listed with their URLs");
+  const regions = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets["By region"]);
+  assert(regions[1].label === "South" && regions[1].value === 50, "Numbers stay numeric in Excel");
+  console.log("✅ CSV, JSON and Excel data");
+
+  assert(exportFileName("Q3 <Revenue> Review", "pdf") === "q3-revenue-review.pdf", "Titles are slugged");
+  assert(exportFileName("Café Müller", "png") === "cafe-muller.png", "Accents are folded");
+  assert(exportFileName("???", "html") === "dashboard.html", "Empty slugs fall back");
+  console.log("✅ File names");
+
+  console.log("\n🎉 Dashboard export checks passed");
+}
+
+testDashboardExport().catch(error => {
+  console.error("❌ Dashboard export test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,136 @@
+/**
+ * Checks the multi-panel dashboard layout: grid packing, layout validation and the
+ * summarizer's board generation for "dashboard" complexity queries.
+ *
+ * Usage: npm run test:layout
+ */
+import type { ClassificationResult, DashboardOutput } from "../src/types";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const series = (type: DashboardOutput["type"], points = 4): DashboardOutput => ({
+  type,
+  title: `Sample ${type}`,
+  data: Array.from({ length: points }, (_, index) => ({ label: `Item ${index + 1}`, value: (index + 1) * 10 })),
+});
+
+async function testDashboardLayout() {
+  console.log("🧪 Testing multi-panel dashboard layouts");
+
+  delete process.env.LLM_REPLAY_MODE;
+  process.env.LLM_PROVIDER = "layout-test";
+
+  const { composeDashboardLayout, findLayoutProblems, resolveDashboardLayout, LAYOUT_COLUMNS } = await import("../src/lib/charts/layout");
+  const { dashboardSchema } = await import("../src/lib/schemas/dashboard");
+  const { registerChatProvider } = await import("../src/lib/azure/providers");
+  const { assembleBoard, summarizerAgent } = await import("../src/lib/langchain/agents/summarizer");
+
+  // Packing: line (medium) + pie (small) share a row, the 30-point bar takes the next one
+  const charts = [series("line_chart"), series("pie_chart"), series("bar_chart", 30), series("gauge_chart", 1)];
+  const layout = composeDashboardLayout(charts);
+  assert(layout.columns === LAYOUT_COLUMNS, "Layouts use the 12-column grid");
+  assert(layout.panels.length === charts.length, "Every chart is placed");
+  assert(findLayoutProblems(layout, charts.length).length === 0, "Composed layouts are valid");
+  const [line, pie, bar, gauge] = layout.panels;
+  assert(line.y === 0 && pie.y === 0 && line.w === 6 && pie.x === 6, "Medium and small panels share the first row");
+  assert(pie.w === 6, "The last panel of a row stretches to fill it");
+  assert(bar.y === 1 && bar.w === 12, "Dense series take a full row");
+  assert(gauge.y === 2 && gauge.w === 12, "A lone trailing panel fills its row");
+
+  const sized = composeDashboardLayout(charts.slice(0, 2), { sizes: ["large", undefined] });
+  assert(sized.panels[0].w === 12 && sized.panels[1].y === 1, "Size hints override the defaults");
+  console.log("✅ Panels pack onto the grid");
+
+  const overlapping = { columns: 12, panels: [{ chart: 0, x: 0, y: 0, w: 8, h: 1 }, { chart: 1, x: 6, y: 0, w: 6, h: 1 }] };
+  assert(findLayoutProblems(overlapping, 2).some(problem => problem.includes("overlaps")), "Overlaps are reported");
+  assert(findLayoutProblems({ columns: 12, panels: [{ chart: 3, x: 0, y: 0, w: 6, h: 1 }] }, 2).length > 0, "Unknown charts are reported");
+  const repaired = resolveDashboardLayout({ charts: charts.slice(0, 2), layout: { ...overlapping, kpis: [{ label: "Revenue", value: 10 }] } });
+  assert(findLayoutProblems(repaired, 2).length === 0 && repaired.kpis?.length === 1, "Broken layouts are recomposed, keeping KPIs");
+  assert(
+    !dashboardSchema.safeParse({ ...series("analytics_summary"), charts: charts.slice(0, 2), layout: overlapping }).success,
+    "The schema rejects broken layouts"
+  );
+  console.log("✅ Invalid layouts are caught and recomposed");
+
+  // Board assembly drops panels in the wrong shape
+  const board = assembleBoard("sales overview", {
+    title: "Sales overview",
+    panels: [
+      { ...series("line_chart"), size: "large" },
+      { type: "scatter_plot", title: "Broken scatter", data: [{ label: "A", value: 1 }] },
+      series("pie_chart"),
+    ],
+  });
+  assert(board, "Two valid panels make a board");
+  assert(board.charts?.length === 2, "Invalid panels are dropped");
+  assert(board.layout?.panels[0].w === 12, "Size hints reach the layout");
+  assert(!board.layout?.kpis && board.data.every(point => point.value === undefined), "No KPIs are made up when the model gives none");
+  dashboardSchema.parse(board);
+  assert(assembleBoard("single", { panels: [series("bar_chart")] }) === null, "One panel is not a board");
+  console.log("✅ Boards assemble from valid panels only");
+
+  // End to end through the summarizer with a scripted model
+  registerChatProvider({
+    id: "layout-test",
+    isConfigured: () => true,
+    resolveModel: () => "scripted",
+    async invoke() {
+      const content = JSON.stringify({
+        title: "Comprehensive sales dashboard",
+        summary: "Revenue, regions and channels at a glance.",
+        kpis: [
+          { label: "Revenue", value: 1250000, change: 8.2, unit: "$" },
+          { label: "Orders", value: "2.4k" },
+        ],
+        panels: [
+          { ...series("line_chart", 12), title: "Monthly revenue", size: "large" },
+          { ...series("bar_chart"), title: "Revenue by region", size: "small" },
+          { ...series("pie_chart"), title: "Revenue by channel", size: "small" },
+          { type: "gauge_chart", title: "Quota attainment", data: [{ label: "Quota", value: 82 }], config: { chartSpecific: { min: 0, max: 100 } }, size: "small" },
+        ],
+      });
+      return { id: "scripted", choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }] };
+    },
+  });
+
+  const classification: ClassificationResult = {
+    type: "analytics_summary",
+    complexity: "dashboard",
+    requiresRAG: false,
+    requiresExternal: false,
+    requiresImage: false,
+  };
+  const generated = await summarizerAgent({ query: "comprehensive sales dashboard", context: null, classification });
+  assert(generated.charts?.length === 4 && generated.layout, "The summarizer should produce every panel");
+  assert(generated.layout.kpis?.[1].value === "2.4k", "Model KPIs are kept");
+  assert(generated.data.some(point => point.display === "2.4k"), "Text KPIs stay in the data as display values");
+  assert(findLayoutProblems(generated.layout, 4).length === 0, "Generated layouts are valid");
+  const rows = new Set(generated.layout.panels.map(panel => panel.y));
+  assert(rows.size === 2, "Small panels should share a row instead of stacking");
+  console.log("✅ Dashboard queries produce multi-panel boards");
+
+  // A broken board answer falls back to a single chart, not sample panels
+  registerChatProvider({
+    id: "layout-test",
+    isConfigured: () => true,
+    resolveModel: () => "scripted",
+    async invoke(messages) {
+      const content = messages[0].content.includes("multi-panel")
+        ? "not json"
+        : JSON.stringify({ ...series("bar_chart"), title: "Revenue by region" });
+      return { id: "scripted", choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }] };
+    },
+  });
+  const single = await summarizerAgent({ query: "comprehensive sales dashboard", context: null, classification });
+  assert(!single.charts && single.title === "Revenue by region", `Failed boards become a single chart: ${single.title}`);
+  console.log("✅ Failed boards fall back to a single chart");
+
+  console.log("\n🎉 Dashboard layout checks passed");
+}
+
+testDashboardLayout().catch(error => {
+  console.error("❌ Dashboard layout test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,131 @@
+/**
+ * Checks that the canonical dashboardSchema accepts every VisualizationType the
+ * renderers can draw, keeps charts/mermaidDiagrams/rich config, and rejects data
+ * in the wrong shape for its type.
+ *
+ * Usage: npm run test:schema
+ */
+import type { DashboardOutput, VisualizationType } from "../src/types";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const SAMPLE_DATA: Partial<Record<VisualizationType, DashboardOutput["data"]>> = {
+  scatter_plot: [{ label: "A", x: 1, y: 2 }],
+  bubble_chart: [{ label: "A", x: 1, y: 2, size: 3 }],
+  radar_chart: [{ subject: "Speed", value: 80 }],
+  candlestick_chart: [{ label: "Day 1", open: 1, high: 3, low: 0.5, close: 2 }],
+  sankey_diagram: [{ source: "Visits", target: "Signups", value: 40 }],
+  comparison: [{ heading: "Before", bullets: ["slow"] }],
+};
+
+async function testDashboardSchema() {
+  console.log("🧪 Testing the canonical dashboard schema");
+
+  const { cleanCitations, dashboardSchema, classificationSchema, visualizationTypes } = await import("../src/lib/schemas/dashboard");
+  const { uiSchemaValidator } = await import("../src/lib/langchain/agents/ui-schema-validator");
+
+  for (const type of visualizationTypes) {
+    const dashboard = {
+      type,
+      title: `Sample ${type}`,
+      data: SAMPLE_DATA[type] ?? [{ label: "Item", value: 10 }],
+    };
+    assert(dashboardSchema.safeParse(dashboard).success, `${type} should be accepted`);
+    assert(
+      classificationSchema.safeParse({ type, complexity: "simple", requiresRAG: false, requiresExternal: false, requiresImage: false }).success,
+      `${type} should be a valid classification`
+    );
+  }
+  console.log(`✅ All ${visualizationTypes.length} visualization types accepted`);
+
+  const rich = dashboardSchema.parse({
+    type: "analytics_summary",
+    title: "Quarterly overview",
+    data: [{ label: "Revenue", value: 120 }],
+    config: {
+      tooltip: { enabled: true, format: "$0,0" },
+      chartSpecific: { min: 0, max: 200 },
+      theme: "dark",
+    },
+    mermaidDiagrams: ["graph TD; A-->B"],
+    charts: [
+      { type: "area_chart", title: "Revenue trend", data: [{ label: "Q1", value: 30 }] },
+      { type: "gauge_chart", title: "Quota attainment", data: [{ label: "Quota", value: 72 }] },
+    ],
+  });
+  assert(rich.charts?.length === 2 && rich.charts[0].type === "area_chart", "Nested charts should be kept");
+  assert(rich.mermaidDiagrams?.length === 1, "Mermaid diagrams should be kept");
+  assert(rich.config?.tooltip?.format === "$0,0" && rich.config.chartSpecific?.max === 200, "Rich config should be kept");
+  assert(rich.config?.theme === "dark", "Unknown config keys should pass through");
+  console.log("✅ charts, mermaidDiagrams and rich config survive parsing");
+
+  const rejects = (dashboard: Record<string, unknown>, message: string) => {
+    assert(!dashboardSchema.safeParse(dashboard).success, message);
+  };
+  rejects({ type: "bar_chart", title: "Revenue by region", data: [{ label: "North", value: "12" }] }, "String values should be rejected for bar charts");
+  rejects({ type: "pie_chart", title: "Market share", data: [{ value: 12 }] }, "Pie slices need a label");
+  rejects({ type: "scatter_plot", title: "Price vs units", data: [{ label: "A", value: 1 }] }, "Scatter points need x and y");
+  rejects({ type: "gauge_chart", title: "Quota attainment", data: [{ label: "Quota" }] }, "Gauges need a numeric value");
+  rejects(
+    { type: "gauge_chart", title: "Quota attainment", data: [{ value: 5 }], config: { chartSpecific: { min: 10, max: 0 } } },
+    "Gauge min must be below max"
+  );
+  rejects({ type: "candlestick_chart", title: "Daily prices", data: [{ label: "Day 1", open: 1, close: 2 }] }, "Candles need OHLC");
+  rejects({ type: "sankey_diagram", title: "Signup flow", data: [{ source: "Visits", value: 4 }] }, "Sankey links need a target");
+  rejects({ type: "table", title: "Empty table", data: [] }, "Generated dashboards need data");
+  rejects(
+    { type: "bar_chart", title: "Nested check", data: [{ label: "A", value: 1 }], charts: [{ type: "scatter_plot", title: "Nested scatter", data: [{ value: 1 }] }] },
+    "Nested charts should be validated too"
+  );
+  console.log("✅ Data in the wrong shape is rejected");
+
+  const custom = dashboardSchema.parse({
+    type: "line_chart",
+    title: "Revenue by month",
+    data: [{ month: "Jan", revenue: 10 }],
+    config: { xAxis: "month", yAxis: "revenue" },
+  });
+  assert(custom.data[0].revenue === 10, "Configured axes should satisfy the measure check");
+  assert(
+    dashboardSchema.safeParse({ type: "text", title: "From your memory", data: [], isFromMemory: true }).success,
+    "Memory answers carry no data"
+  );
+  console.log("✅ Configured axes and memory answers accepted");
+
+  const classification = { type: "waterfall_chart", complexity: "simple", requiresRAG: false, requiresExternal: false, requiresImage: false } as const;
+  const validation = await uiSchemaValidator(
+    { type: "waterfall_chart", title: "Profit bridge", data: [{ label: "Revenue", value: 100 }] },
+    classification
+  );
+  assert(validation.isValid, `Validator should accept every schema type: ${validation.errors.join("; ")}`);
+  console.log("✅ UI validator shares the schema");
+
+  const cited = cleanCitations({
+    type: "bar_chart",
+    title: "Cited chart",
+    data: [{ label: "A", value: 1 }],
+    citations: [
+      { title: "Report", url: "https://example.com/report" },
+      { title: "Statista", url: "Statista" },
+      { title: "Agency", url: "iea.org/reports/ev-outlook" },
+      { title: "My notes", url: "/documents#notes" },
+    ],
+    charts: [{ type: "pie_chart", title: "Nested", data: [{ label: "B", value: 2 }], citations: [{ title: "Wikipedia", url: "Wikipedia" }] }],
+  });
+  const parsedCited = dashboardSchema.parse(cited);
+  assert(
+    parsedCited.citations?.map(citation => citation.url).join() === "https://example.com/report,https://iea.org/reports/ev-outlook,/documents#notes",
+    `Bare source names are dropped and domains fixed: ${parsedCited.citations?.map(citation => citation.url).join()}`
+  );
+  assert(parsedCited.charts?.[0].citations === undefined, "Nested charts are cleaned too");
+  console.log("✅ Unusable citations are cleaned before parsing");
+
+  console.log("\n🎉 Dashboard schema checks passed");
+}
+
+testDashboardSchema().catch(error => {
+  console.error("❌ Dashboard schema test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,136 @@
+/**
+ * Checks dataset parsing, schema inference, query planning and the computed dashboards
+ * built from uploaded CSV/XLSX/JSON files. Runs without Appwrite (in-process store).
+ *
+ * Usage: npm run test:datasets
+ */
+import type { ClassificationResult } from "../src/types";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const SALES_CSV = [
+  "Order Date,Region,Product,Revenue,Units",
+  "2024-01-15,North,Widget,\"1,200.50\",10",
+  "2024-01-20,South,Widget,800,8",
+  "2024-02-03,North,Gadget,450,3",
+  "2024-02-18,East,Gadget,300,2",
+  "2024-03-09,South,Widget,700,7",
+  "2024-03-30,North,Widget,,1",
+].join("\n");
+
+const classification = (type: ClassificationResult["type"]): ClassificationResult => ({
+  type,
+  complexity: "simple",
+  requiresRAG: false,
+  requiresExternal: false,
+  requiresImage: false,
+});
+
+async function testDatasets() {
+  console.log("🧪 Testing dataset upload and computed dashboards");
+
+  for (const key of ["APPWRITE_ENDPOINT", "APPWRITE_PROJECT_ID", "APPWRITE_API_KEY"]) {
+    delete process.env[key];
+  }
+
+  const { parseDatasetFile, DatasetError } = await import("../src/lib/datasets/parse");
+  const { inferSchema } = await import("../src/lib/datasets/schema");
+  const { planDatasetQuery } = await import("../src/lib/datasets/query");
+  const { buildDatasetDashboard } = await import("../src/lib/datasets/dashboard");
+  const { createDataset, getDataset, listDatasets, deleteDataset } = await import("../src/lib/datasets/store");
+  const { runDatasetQuery } = await import("../src/lib/datasets/query");
+  const { detectOptimalChartType, detectChartConfig } = await import("../src/lib/charts/detection");
+  const { dashboardSchema } = await import("../src/lib/schemas/dashboard");
+  const XLSX = await import("xlsx");
+  const encode = (text: string) => new TextEncoder().encode(text);
+
+  // Schema inference
+  const csv = await parseDatasetFile("sales.csv", encode(SALES_CSV));
+  const { schema, rows } = inferSchema(csv.rows);
+  const types = Object.fromEntries(schema.columns.map(column => [column.name, column.type]));
+  console.log("Inferred:", types);
+  assert(types["Order Date"] === "date", "Order Date should be a date column");
+  assert(types.Region === "category", "Region should be a category column");
+  assert(types.Revenue === "number" && types.Units === "number", "Revenue and Units should be numeric");
+  assert(rows[0].Revenue === 1200.5, "Thousands separators should be parsed");
+  assert(schema.columns.find(column => column.name === "Revenue")?.nullCount === 1, "Empty cells count as nulls");
+
+  // XLSX and JSON produce the same rows
+  const sheet = XLSX.utils.aoa_to_sheet([["Region", "Revenue"], ["North", 10], ["South", 5]]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Sales");
+  const xlsx = await parseDatasetFile("sales.xlsx", new Uint8Array(XLSX.write(workbook, { type: "array", bookType: "xlsx" })));
+  assert(xlsx.format === "xlsx" && xlsx.rows.length === 2 && xlsx.rows[0].Region === "North", "XLSX rows not read");
+  const json = await parseDatasetFile("sales.json", encode(JSON.stringify({ data: [{ Region: "North", Revenue: 10 }] })));
+  assert(json.rows.length === 1 && json.rows[0].Revenue === 10, "JSON envelope not unwrapped");
+
+  for (const [name, data] of [["sales.txt", encode("x")], ["bad.json", encode("{\"a\": 1}")]] as const) {
+    try {
+      await parseDatasetFile(name, data);
+      throw new Error(`${name} should have been rejected`);
+    } catch (error) {
+      assert(error instanceof DatasetError, `${name} should raise DatasetError`);
+    }
+  }
+
+  // Planning
+  const byRegion = planDatasetQuery("revenue by region", schema);
+  assert(byRegion.measure === "Revenue" && byRegion.groupBy === "Region" && byRegion.aggregation === "sum", "revenue by region plan");
+  const trend = planDatasetQuery("monthly units trend", schema);
+  assert(trend.groupBy === "Order Date" && trend.dateGrain === "month" && trend.measure === "Units", "monthly trend plan");
+  assert(planDatasetQuery("average revenue per product", schema).aggregation === "avg", "average plan");
+
+  // Store + computed dashboard
+  const summary = await createDataset({ userId: "user-1", fileName: "sales.csv", data: encode(SALES_CSV) });
+  assert((await listDatasets("user-1")).length === 1, "Dataset should be listed for its owner");
+  assert((await getDataset("user-2", summary.datasetId)) === null, "Other users must not read the dataset");
+  const dataset = await getDataset("user-1", summary.datasetId);
+  assert(dataset, "Dataset should load");
+
+  const result = runDatasetQuery(dataset, "revenue by region");
+  const dashboard = buildDatasetDashboard("revenue by region", classification("text"), result);
+  console.log("Dashboard:", dashboard.type, dashboard.title, dashboard.data);
+  assert(dashboard.type === "bar_chart", "Categorical grouping should render as a bar chart");
+  assert(dashboard.title === "Total Revenue by Region", "Unexpected title");
+  const totals = Object.fromEntries(dashboard.data.map(point => [point.label, point.value]));
+  assert(totals.North === 1650.5 && totals.South === 1500 && totals.East === 300, "Sums should match the file");
+  assert(dashboard.config?.xAxis === "Region" && dashboard.config?.yAxis === "Revenue", "Axes should use column names");
+  assert(dashboard.citations?.[0].url === `/datasets?datasetId=${summary.datasetId}`, "Citation should link to the dataset");
+  dashboardSchema.parse(dashboard);
+
+  const monthly = buildDatasetDashboard("monthly units trend", classification("text"), runDatasetQuery(dataset, "monthly units trend"));
+  assert(monthly.type === "line_chart", "Date grouping should render as a line chart");
+  assert(monthly.data.map(point => point.label).join() === "2024-01,2024-02,2024-03", "Months should be in order");
+  assert(monthly.data.map(point => point.value).join() === "18,5,8", "Monthly units should be summed");
+
+  const average = buildDatasetDashboard("average revenue by region", classification("pie_chart"), runDatasetQuery(dataset, "average revenue by region"));
+  assert(average.type === "bar_chart", "Averages should not be drawn as pie shares");
+
+  // Min and max over one large group (spreading 150k values into Math.max overflows the stack)
+  const large = {
+    ...dataset,
+    rows: Array.from({ length: 150_000 }, (_, index) => ({ ...dataset.rows[0], Region: "North", Revenue: index + 1 })),
+  };
+  const maximum = runDatasetQuery(large, "maximum revenue by region");
+  assert(maximum.plan.aggregation === "max", "maximum plan");
+  assert(maximum.rows.length === 1 && maximum.rows[0].value === 150_000, "Max over a large group");
+  assert(runDatasetQuery(large, "minimum revenue by region").rows[0].value === 1, "Min over a large group");
+
+  // Detection uses column types when they are known
+  const columns = [{ name: "Order Date", type: "date" as const }, { name: "Revenue", type: "number" as const }];
+  const points = [{ "Order Date": "2024-01", Revenue: 1 }, { "Order Date": "2024-02", Revenue: 2 }];
+  assert(detectOptimalChartType(points, columns) === "line_chart", "Date dimension should detect a line chart");
+  assert(detectChartConfig(points, "line_chart", columns).xAxis === "Order Date", "Detection should use schema names");
+
+  assert(await deleteDataset("user-1", summary.datasetId), "Owner should be able to delete");
+  assert((await listDatasets("user-1")).length === 0, "Deleted dataset should be gone");
+
+  console.log("\n🎉 Dataset checks passed");
+}
+
+testDatasets().catch(error => {
+  console.error("❌ Dataset test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+/**
+ * Checks document parsing, chunking and citation building for uploaded files.
+ * Pinecone storage is not exercised; see test:rag for that.
+ *
+ * Usage: npm run test:documents
+ */
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+// Two-page PDF with one line of text per page. pdf.js rebuilds the xref table, so no offsets are needed.
+function buildPdf(pages: string[]): Uint8Array {
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${3 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+  ];
+  const fontId = 3 + pages.length * 2;
+
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${4 + i * 2} 0 R /Resources << /Font << /F1 ${fontId} 0 R >> >> >>`);
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+
+  const body = objects.map((object, i) => `${i + 1} 0 obj\n${object}\nendobj`).join("\n");
+  return new TextEncoder().encode(`%PDF-1.4\n${body}\ntrailer\n<< /Root 1 0 R /Size ${objects.length + 1} >>\n%%EOF\n`);
+}
+
+async function testDocumentIngestion() {
+  console.log("🧪 Testing document parsing and chunking");
+
+  const { parseDocument, DocumentIngestionError } = await import("../src/lib/documents/parsers");
+  const { chunkDocument } = await import("../src/lib/documents/chunking");
+  const { parseCsv } = await import("../src/lib/documents/csv");
+  const { documentsToRetrievalResult } = await import("../src/lib/langchain/agents/retriever");
+  const encode = (text: string) => new TextEncoder().encode(text);
+
+  // CSV
+  assert(
+    JSON.stringify(parseCsv('name,notes\n"Acme, Inc.","said ""hi""\nthen left"\n')) ===
+      JSON.stringify([["name", "notes"], ["Acme, Inc.", 'said "hi"\nthen left']]),
+    "CSV quoting was not handled"
+  );
+  const csv = await parseDocument("sales.csv", encode("region;revenue\nNorth;120\nSouth;95\n"));
+  assert(csv.format === "csv", "CSV format not detected");
+  assert(csv.pages[0].text.includes("region: North; revenue: 120"), "CSV rows should keep column names");
+
+  // Markdown
+  const paragraphs = Array.from({ length: 12 }, (_, i) => `## Section ${i + 1}\n\n${"Quarterly results were strong. ".repeat(8)}`);
+  const markdown = await parseDocument("report.md", encode(paragraphs.join("\n\n")));
+  const markdownChunks = chunkDocument(markdown, { chunkSize: 600, overlap: 100 });
+  assert(markdownChunks.length > 1, "Long markdown should produce several chunks");
+  assert(markdownChunks.every(chunk => chunk.text.length <= 900), "Chunks should stay near the target size");
+  assert(markdownChunks.every(chunk => chunk.page === undefined), "Markdown has no pages");
+
+  // PDF
+  const pdf = await parseDocument("board-deck.pdf", buildPdf(["Revenue grew 18 percent", "Churn fell to 3 percent"]));
+  console.log("PDF pages:", pdf.pages);
+  assert(pdf.pages.length === 2, "PDF should have two pages");
+  const pdfChunks = chunkDocument(pdf);
+  assert(pdfChunks[1]?.page === 2 && pdfChunks[1].text.includes("Churn"), "PDF chunks should keep their page numbers");
+
+  // Unsupported / unreadable files
+  for (const [name, data] of [["image.png", encode("png")], ["broken.pdf", encode("not a pdf")]] as const) {
+    try {
+      await parseDocument(name, data);
+      throw new Error(`${name} should have been rejected`);
+    } catch (error) {
+      assert(error instanceof DocumentIngestionError, `${name} should raise DocumentIngestionError`);
+    }
+  }
+
+  // Citations carry file and page
+  const retrieval = documentsToRetrievalResult([
+    { documentId: "doc-1", fileName: "board-deck.pdf", page: 2, content: "Churn fell to 3 percent", similarity: 0.82 },
+    { documentId: "doc-1", fileName: "board-deck.pdf", page: 2, content: "Churn fell to 3 percent (dup)", similarity: 0.8 },
+    { documentId: "doc-2", fileName: "sales.csv", content: "region: North; revenue: 120", similarity: 0.7 },
+  ]);
+  assert(retrieval.citations.length === 2, "Duplicate page citations should be merged");
+  assert(retrieval.citations[0].title === "board-deck.pdf, page 2", "Citation title should include the page");
+  assert(retrieval.citations[0].url === "/documents?documentId=doc-1&page=2", "Citation should link to the document");
+  assert(retrieval.citations[1].page === undefined, "Unpaginated citations have no page");
+
+  console.log("\n🎉 Document ingestion checks passed");
+}
+
+testDocumentIngestion().catch(error => {
+  console.error("❌ Document ingestion test failed:", error);
+  process.exit(1);
+});
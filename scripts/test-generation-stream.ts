@@ -0,0 +1,114 @@
+/**
+ * Checks streamed generation: SSE framing, and that a run through the pipeline
+ * sends its phase events in order, partial fields before they are final, and a
+ * single `complete` frame last. Uses a scripted model, so it runs offline.
+ *
+ * Usage: npm run test:stream
+ */
+import type { DashboardOutput } from "../src/types";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const ANSWER: DashboardOutput = {
+  type: "bar_chart",
+  title: "Revenue by region",
+  summary: "North leads this quarter.",
+  data: [
+    { label: "North", value: 42 },
+    { label: "South", value: 25 },
+    { label: "West", value: 35 },
+  ],
+};
+
+// Split text into uneven chunks so frames arrive cut in the middle
+function chunkedStream(text: string, size: number): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  return new ReadableStream({
+    start(controller) {
+      for (let start = 0; start < bytes.length; start += size) {
+        controller.enqueue(bytes.slice(start, start + size));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function testGenerationStream() {
+  console.log("🧪 Testing streamed dashboard generation");
+
+  delete process.env.LLM_REPLAY_MODE;
+  process.env.LLM_PROVIDER = "stream-test";
+  process.env.PIPELINE_EXECUTORS = "orchestrator";
+  process.env.VECTOR_STORE = "off";
+
+  const { encodeSSEMessage, readSSEStream } = await import("../src/lib/streaming/sse");
+  const { createGenerationStream } = await import("../src/lib/streaming/generation");
+  const { registerChatProvider } = await import("../src/lib/azure/providers");
+
+  // 1. Framing
+  assert(encodeSSEMessage("phase", { a: "line\nbreak" }) === 'event: phase\ndata: {"a":"line\\nbreak"}\n\n', "Frames are one JSON data line");
+  const raw = `: keep-alive\n\n${encodeSSEMessage("partial", { n: 1 })}${encodeSSEMessage("complete", { n: 2 }).replace(/\n/g, "\r\n")}event: note\ndata: plain`;
+  const frames = [];
+  for await (const message of readSSEStream(chunkedStream(raw, 7))) frames.push(message);
+  assert(
+    JSON.stringify(frames) === '[{"event":"partial","data":{"n":1}},{"event":"complete","data":{"n":2}},{"event":"note","data":"plain"}]',
+    `Frames survive chunking, CRLF and a missing final blank line: ${JSON.stringify(frames)}`
+  );
+  console.log("✅ SSE framing");
+
+  // 2. A pipeline run
+  registerChatProvider({
+    id: "stream-test",
+    isConfigured: () => true,
+    resolveModel: intent => intent,
+    async invoke(_messages, options) {
+      const content =
+        options.intent === "classification"
+          ? { type: "bar_chart", complexity: "simple", requiresRAG: false, requiresExternal: false, requiresImage: false }
+          : ANSWER;
+      return { id: "scripted", choices: [{ index: 0, message: { role: "assistant", content: JSON.stringify(content) }, finish_reason: "stop" }] };
+    },
+  });
+
+  const events: Array<{ event: string; data: Record<string, unknown> }> = [];
+  for await (const message of readSSEStream(createGenerationStream("Revenue by region", "stream-test-user", { useMemory: false }))) {
+    events.push(message as { event: string; data: Record<string, unknown> });
+  }
+
+  assert(events.every(({ event, data }) => event === data.type), "The SSE event name is the event type");
+  assert(events[events.length - 1].event === "complete", `The stream ends with complete: ${events.map(({ event }) => event).join()}`);
+  assert(events.filter(({ event }) => event === "complete" || event === "error").length === 1, "Exactly one final frame");
+
+  const phases = events.filter(({ event }) => event === "phase").map(({ data }) => `${data.phase}:${data.status}`);
+  const order = ["classification", "retrieval", "summarization", "validation"];
+  const started = phases.filter(phase => phase.endsWith(":started")).map(phase => phase.split(":")[0]);
+  assert(started.join() === order.join(), `Phases start in order: ${phases.join()}`);
+  for (const phase of order) {
+    const start = phases.indexOf(`${phase}:started`);
+    const end = phases.findIndex(entry => entry.startsWith(`${phase}:`) && !entry.endsWith(":started"));
+    assert(end > start, `${phase} ends after it starts`);
+  }
+  console.log("✅ Phase events in order");
+
+  const position = (predicate: (entry: (typeof events)[number]) => boolean) => events.findIndex(predicate);
+  const typeFirst = position(({ event, data }) => event === "partial" && !("title" in (data.dashboard as object)));
+  const titled = position(({ event, data }) => event === "partial" && (data.dashboard as DashboardOutput).title === ANSWER.title);
+  const classified = position(({ data }) => data.phase === "classification" && data.status === "completed");
+  const summarised = position(({ data }) => data.phase === "summarization" && data.status === "completed");
+  const validating = position(({ data }) => data.phase === "validation" && data.status === "started");
+  assert(typeFirst > classified && (events[typeFirst].data.dashboard as DashboardOutput).type === "bar_chart", "The chart type is sent once classified");
+  assert(titled > summarised && titled < validating, "Title and summary are sent before validation");
+
+  const complete = events[events.length - 1].data.dashboard as DashboardOutput;
+  assert(complete.title === ANSWER.title && complete.data.length === 3, "The complete frame carries the final dashboard");
+  console.log("✅ Partial fields before the final dashboard");
+
+  console.log("\n🎉 Generation stream checks passed");
+}
+
+testGenerationStream().catch(error => {
+  console.error("❌ Generation stream test failed:", error);
+  process.exit(1);
+});
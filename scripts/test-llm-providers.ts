@@ -0,0 +1,86 @@
+/**
+ * Runs the classifier/summarizer chain against a local OpenAI-compatible stand-in,
+ * the same way a llama.cpp or Ollama server would be used for offline development.
+ *
+ * Usage: npm run test:providers
+ */
+
+import { createServer, type IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.on("data", chunk => (body += chunk));
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+async function testLLMProviders() {
+  console.log("🧪 Testing LLM provider registry with a local OpenAI-compatible server");
+
+  const requests: Array<{ model: string; responseFormat?: unknown }> = [];
+
+  const server = createServer(async (request, response) => {
+    if (request.method !== "POST" || request.url !== "/v1/chat/completions") {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const payload = JSON.parse(await readBody(request));
+    requests.push({ model: payload.model, responseFormat: payload.response_format });
+
+    const isClassification = payload.model === "local-classifier";
+    const content = isClassification
+      ? { type: "bar_chart", complexity: "simple", requiresRAG: false, requiresExternal: false, requiresImage: false }
+      : { type: "bar_chart", title: "Local Model Comparison", data: [{ label: "A", value: 1 }, { label: "B", value: 2 }, { label: "C", value: 3 }] };
+
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({
+      id: "local-1",
+      choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: JSON.stringify(content) } }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    }));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  process.env.LLM_PROVIDER = "openai-compatible";
+  process.env.OPENAI_COMPATIBLE_BASE_URL = `http://127.0.0.1:${port}/v1`;
+  process.env.LLM_CLASSIFICATION_MODEL = "local-classifier";
+  process.env.OPENAI_COMPATIBLE_MODEL = "local-summarizer";
+
+  try {
+    const { classifierAgent } = await import("../src/lib/langchain/agents/classifier");
+    const { summarizerAgent } = await import("../src/lib/langchain/agents/summarizer");
+
+    const classification = await classifierAgent("Compare sales between regions");
+    console.log("Classification:", classification);
+
+    const dashboard = await summarizerAgent({
+      query: "Compare sales between regions",
+      context: null,
+      classification,
+    });
+    console.log("Dashboard:", { type: dashboard.type, title: dashboard.title, points: dashboard.data.length });
+
+    const models = requests.map(entry => entry.model);
+    if (!models.includes("local-classifier") || !models.includes("local-summarizer")) {
+      throw new Error(`Expected per-intent models, got: ${models.join(", ")}`);
+    }
+    if (dashboard.title !== "Local Model Comparison") {
+      throw new Error("Summarizer did not use the local provider response");
+    }
+
+    console.log("✅ Provider registry routed every intent to the local server");
+  } catch (error) {
+    console.error("❌ Provider registry test failed:", error);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+}
+
+testLLMProviders();
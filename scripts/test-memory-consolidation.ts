@@ -0,0 +1,119 @@
+/**
+ * Checks memory consolidation without Pinecone or a model: compact dashboard
+ * memories, near-duplicate detection, clustering and preference merging.
+ *
+ * Usage: npm run test:consolidation
+ */
+import type { DashboardOutput } from "../src/types";
+import type { MemoryVector } from "../src/lib/memory/user-memory";
+import {
+  clusterMemories,
+  describeDashboardForMemory,
+  describeMemoryForPrompt,
+  findNearDuplicates,
+  mergePreferences,
+} from "../src/lib/memory/consolidation";
+import { cosineSimilarity } from "../src/lib/memory/vector-store";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const evShare: DashboardOutput = {
+  type: "bar_chart",
+  title: "EV market share in the EU",
+  summary: "Tesla and VW lead battery-electric sales.",
+  data: [
+    { label: "Tesla", value: 18 },
+    { label: "VW", value: 15 },
+    { label: "Stellantis", value: 9 },
+  ],
+  config: { legend: true },
+};
+
+function memory(id: string, values: number[], overrides: Partial<MemoryVector> = {}): MemoryVector {
+  return {
+    id,
+    content: `Memory ${id}`,
+    context: "User asked: ev market",
+    similarity: 0,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    importance: 5,
+    storedImportance: 5,
+    pinned: false,
+    metadata: { topic: "ev market" },
+    values,
+    ...overrides,
+  };
+}
+
+function testDescriptions() {
+  const described = describeDashboardForMemory(evShare);
+  assert(
+    described === 'bar chart "EV market share in the EU". Tesla and VW lead battery-electric sales. Covers Tesla, VW, Stellantis',
+    `Dashboards are described, not serialised: ${described}`
+  );
+  assert(!described.includes("{"), "No JSON in the description");
+
+  assert(describeMemoryForPrompt(JSON.stringify(evShare)).startsWith('bar chart "EV market share'), "Legacy JSON memories are described");
+  assert(describeMemoryForPrompt("{not json") === "{not json", "Broken JSON stays text");
+  assert(describeMemoryForPrompt("x".repeat(600)).length === 503, "Long memories are cut");
+  console.log("✅ Compact memories");
+}
+
+function testSimilarity() {
+  assert(cosineSimilarity([1, 0], [1, 0]) === 1, "Same direction");
+  assert(cosineSimilarity([1, 0], [0, 1]) === 0, "Orthogonal");
+  assert(cosineSimilarity([0, 0], [1, 1]) === 0, "Zero vectors are not similar to anything");
+
+  const duplicates = findNearDuplicates([
+    memory("old", [1, 0, 0], { timestamp: "2026-01-01T00:00:00.000Z" }),
+    memory("new", [1, 0.01, 0], { timestamp: "2026-02-01T00:00:00.000Z" }),
+    memory("important", [0, 1, 0], { importance: 9 }),
+    memory("echo", [0, 1, 0.01]),
+    memory("other", [0, 0, 1]),
+  ]);
+  assert(duplicates.sort().join() === "echo,old", `The newest and most important copies are kept: ${duplicates.join()}`);
+
+  const pinned = findNearDuplicates([memory("pinned", [1, 0], { pinned: true }), memory("copy", [1, 0], { importance: 10 })]);
+  assert(pinned.join() === "copy", "Pinned memories win and are never dropped");
+  console.log("✅ Near-duplicates");
+}
+
+function testClustering() {
+  const clusters = clusterMemories([
+    memory("ev-1", [1, 0.1, 0], { timestamp: "2026-01-01T00:00:00.000Z" }),
+    memory("cloud-1", [0, 1, 0], { timestamp: "2026-01-02T00:00:00.000Z" }),
+    memory("ev-2", [1, 0.2, 0], { timestamp: "2026-01-03T00:00:00.000Z" }),
+    memory("lonely", [0, 0, 1], { timestamp: "2026-01-04T00:00:00.000Z" }),
+    memory("ev-3", [0.9, 0.3, 0], { timestamp: "2026-01-05T00:00:00.000Z" }),
+  ]);
+  assert(clusters.length === 1, `Only groups of related memories are clusters: ${clusters.length}`);
+  assert(clusters[0].map(entry => entry.id).join() === "ev-1,ev-2,ev-3", "Clusters list memories oldest first");
+  console.log("✅ Clustering");
+}
+
+function testPreferences() {
+  const merged = mergePreferences(
+    { interests: ["Energy"], communicationStyle: "formal" },
+    { interests: ["energy", "EV market"], topics: ["automotive"], communicationStyle: "", expertiseLevel: "advanced" }
+  );
+  assert(merged.interests?.join() === "Energy,EV market", `Lists merge without repeats: ${merged.interests?.join()}`);
+  assert(merged.topics?.join() === "automotive", "New lists are added");
+  assert(merged.communicationStyle === "formal" && merged.expertiseLevel === "advanced", "Unstated values are kept");
+  console.log("✅ Preferences");
+}
+
+async function testConsolidation() {
+  console.log("🧪 Testing memory consolidation");
+  testDescriptions();
+  testSimilarity();
+  testClustering();
+  testPreferences();
+  console.log("\n🎉 Memory consolidation checks passed");
+}
+
+testConsolidation().catch(error => {
+  console.error("❌ Memory consolidation test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+/**
+ * Checks newest-first memory listing through the Appwrite metadata rows: order,
+ * the cursor handed from one page to the next, and the last page. Appwrite is a
+ * local stand-in that keeps the metadata collection in memory; vectors live in the
+ * local vector store.
+ *
+ * Usage: npm run test:memory-list
+ */
+
+import { createServer, type IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.on("data", chunk => (body += chunk));
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+type Row = Record<string, unknown> & { $id: string };
+interface AppwriteQuery {
+  method: string;
+  attribute?: string;
+  values?: unknown[];
+}
+
+// listDocuments as Appwrite answers it, for the queries the metadata helpers send
+function listRows(rows: Row[], queries: AppwriteQuery[]): Row[] {
+  let result = [...rows];
+  for (const query of queries) {
+    if (query.method === "equal") {
+      result = result.filter(row => query.values!.includes(row[query.attribute!]));
+    } else if (query.method === "orderDesc") {
+      const key = query.attribute!;
+      result.sort((a, b) => String(b[key]).localeCompare(String(a[key])));
+    }
+  }
+  const cursor = queries.find(query => query.method === "cursorAfter")?.values?.[0];
+  if (cursor) {
+    result = result.slice(result.findIndex(row => row.$id === cursor) + 1);
+  }
+  const limit = queries.find(query => query.method === "limit")?.values?.[0] as number | undefined;
+  return result.slice(0, limit ?? 25);
+}
+
+async function testMemoryListing() {
+  console.log("🧪 Testing newest-first memory listing");
+
+  const rows: Row[] = [];
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url!, "http://localhost");
+    if (!url.pathname.endsWith("/collections/user_memory_metadata/documents")) {
+      response.writeHead(404, { "Content-Type": "application/json" }).end(JSON.stringify({ message: "Not found" }));
+      return;
+    }
+
+    let body: unknown;
+    if (request.method === "POST") {
+      const { data } = JSON.parse(await readBody(request));
+      const row = { $id: `row-${rows.length + 1}`, ...data };
+      rows.push(row);
+      body = row;
+    } else {
+      const queries = [...url.searchParams].filter(([key]) => key.startsWith("queries[")).map(([, value]) => JSON.parse(value));
+      const documents = listRows(rows, queries);
+      body = { total: documents.length, documents };
+    }
+    response.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  for (const key of ["PINECONE_API_KEY", "HUGGINGFACE_API_KEY", "OPENAI_API_KEY"]) {
+    delete process.env[key];
+  }
+  process.env.APPWRITE_ENDPOINT = `http://127.0.0.1:${port}/v1`;
+  process.env.APPWRITE_PROJECT_ID = "memory-list-test";
+  process.env.APPWRITE_API_KEY = "memory-list-test";
+
+  try {
+    const { UserMemoryManager } = await import("../src/lib/memory/user-memory");
+    const { createLocalVectorStore } = await import("../src/lib/memory/vector-store");
+
+    const store = createLocalVectorStore();
+    const memory = new UserMemoryManager(store);
+    const ids: string[] = [];
+    for (let index = 1; index <= 5; index++) {
+      ids.push((await memory.storeMemory("user-1", `Memory ${index}`, `User asked: topic ${index}`))!);
+      // Rows are ordered by createdAt, which has millisecond precision
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    await memory.storeMemory("user-2", "Someone else's memory", "User asked: other");
+    assert(rows.length === 6, `Every memory gets a metadata row: ${rows.length}`);
+    const newestFirst = [...ids].reverse();
+
+    // 1. Order and cursor handoff
+    const first = await memory.listMemories("user-1", { limit: 2 });
+    assert(first.memories.map(entry => entry.id).join() === newestFirst.slice(0, 2).join(), "The first page holds the newest memories");
+    assert(first.nextCursor === "row-4", `The cursor is the last row on the page: ${first.nextCursor}`);
+
+    const second = await memory.listMemories("user-1", { limit: 2, cursor: first.nextCursor! });
+    assert(second.memories.map(entry => entry.id).join() === newestFirst.slice(2, 4).join(), "The next page continues where the first stopped");
+
+    const last = await memory.listMemories("user-1", { limit: 2, cursor: second.nextCursor! });
+    assert(last.memories.map(entry => entry.id).join() === ids[0], "The last page holds the oldest memory");
+    assert(last.nextCursor === null, "The last page has no cursor");
+    console.log("✅ Pages newest first");
+
+    // 2. Page boundaries
+    const whole = await memory.listMemories("user-1", { limit: 5 });
+    assert(whole.memories.length === 5 && whole.nextCursor === null, "A page that ends exactly at the last memory has no cursor");
+    const past = await memory.listMemories("user-1", { limit: 2, cursor: "row-1" });
+    assert(past.memories.length === 0 && past.nextCursor === null, "A cursor past the end is an empty last page");
+    assert((await memory.getRecentMemories("user-1", 3)).map(entry => entry.id).join() === newestFirst.slice(0, 3).join(), "Recent memories use the same order");
+    console.log("✅ Page boundaries");
+
+    // 3. Rows and vectors out of step
+    await store.delete("", [ids[3]]);
+    const skipped = await memory.listMemories("user-1", { limit: 2 });
+    assert(skipped.memories.map(entry => entry.id).join() === ids[4], "Rows whose vector is gone are skipped");
+    assert(skipped.nextCursor === "row-4", "Skipped rows still move the cursor on");
+    assert((await memory.listMemories("user-2")).memories.length === 1, "Users only see their own rows");
+    console.log("✅ Missing vectors");
+
+    console.log("\n🎉 Memory listing checks passed");
+  } finally {
+    server.close();
+  }
+}
+
+testMemoryListing().catch(error => {
+  console.error("❌ Memory listing test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+/**
+ * Checks the memory settings on the local vector store: the retention sweep and
+ * its dry run (for a user with more memories than one vector query returns), the
+ * importance threshold and enableMemory.
+ *
+ * Usage: npm run test:retention
+ */
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-06-01T00:00:00.000Z");
+
+function memoryRecord(id: string, storedAt: Date, { pinned = false, legacy = false, userId = "user-1" } = {}) {
+  return {
+    id,
+    values: [1, (id.length % 7) / 7, 0.5],
+    metadata: {
+      userId,
+      content: `Memory ${id}`,
+      context: "User asked: ev market",
+      timestamp: storedAt.toISOString(),
+      // Memories stored before storedAt was recorded only have the ISO timestamp
+      ...(legacy ? {} : { storedAt: storedAt.getTime() }),
+      importance: 5,
+      pinned,
+    },
+  };
+}
+
+async function testMemoryRetention() {
+  console.log("🧪 Testing memory retention and settings");
+
+  for (const key of ["PINECONE_API_KEY", "HUGGINGFACE_API_KEY", "OPENAI_API_KEY", "APPWRITE_ENDPOINT"]) {
+    delete process.env[key];
+  }
+  const directory = await mkdtemp(path.join(tmpdir(), "orinai-retention-"));
+  const file = path.join(directory, "vectors.json");
+
+  // 1,200 expired memories, more than the 1,000 one vector query returns
+  const expiredIds: string[] = [];
+  const records = [];
+  for (let index = 0; index < 1200; index++) {
+    expiredIds.push(`old-${index}`);
+    records.push(memoryRecord(`old-${index}`, new Date(NOW.getTime() - 60 * DAY_MS - index * 60_000)));
+  }
+  expiredIds.push("legacy-old");
+  records.push(memoryRecord("legacy-old", new Date(NOW.getTime() - 90 * DAY_MS), { legacy: true }));
+  records.push(memoryRecord("legacy-new", new Date(NOW.getTime() - DAY_MS), { legacy: true }));
+  records.push(memoryRecord("pinned-old", new Date(NOW.getTime() - 90 * DAY_MS), { pinned: true }));
+  records.push(memoryRecord("recent", new Date(NOW.getTime() - 2 * DAY_MS)));
+  records.push(memoryRecord("other-user", new Date(NOW.getTime() - 90 * DAY_MS), { userId: "user-2" }));
+  await writeFile(file, JSON.stringify({ namespaces: { "": records } }));
+
+  process.env.VECTOR_STORE = "local";
+  process.env.LOCAL_VECTOR_STORE_PATH = file;
+
+  try {
+    const { sweepUserMemories } = await import("../src/lib/memory/retention");
+    const { UserMemoryManager, userMemoryManager } = await import("../src/lib/memory/user-memory");
+    const { createLocalVectorStore } = await import("../src/lib/memory/vector-store");
+    // Read back from the file, as a restarted server would
+    const reopened = () => new UserMemoryManager(createLocalVectorStore({ file }));
+    const { applyMemorySettings } = await import("../src/lib/langchain/pipeline-with-memory");
+
+    // 1. Retention
+    const preview = await sweepUserMemories("user-1", 30, { dryRun: true, now: NOW });
+    assert(preview.cutoff === new Date(NOW.getTime() - 30 * DAY_MS).toISOString(), "The cutoff is retentionDays before now");
+    assert(preview.dryRun && preview.deleted === 0, "A dry run deletes nothing");
+    assert(
+      preview.expired.map(memory => memory.id).sort().join() === [...expiredIds].sort().join(),
+      `The dry run lists every expired memory: ${preview.expired.length} of ${expiredIds.length}`
+    );
+    assert((await reopened().getMemory("user-1", "old-0"))?.id === "old-0", "Memories survive a dry run");
+    console.log("✅ Dry run");
+
+    const sweep = await sweepUserMemories("user-1", 30, { now: NOW });
+    assert(sweep.deleted === expiredIds.length, `Every expired memory is deleted: ${sweep.deleted}`);
+    const remaining = reopened();
+    const left = (await remaining.listMemoryVectors("user-1")).map(memory => memory.id).sort();
+    assert(left.join() === "legacy-new,pinned-old,recent", `Pinned and recent memories are kept: ${left.join()}`);
+    assert((await remaining.getMemory("user-2", "other-user"))?.id === "other-user", "Other users are not swept");
+    assert((await sweepUserMemories("user-1", 30, { now: NOW })).expired.length === 0, "A second sweep finds nothing");
+    console.log("✅ Retention sweep");
+
+    // 2. Importance threshold
+    const before = (await userMemoryManager.listMemoryVectors("user-3")).length;
+    await userMemoryManager.processConversation("user-3", "revenue by region", "A bar chart", undefined, undefined, { importanceThreshold: 8 });
+    assert((await userMemoryManager.listMemoryVectors("user-3")).length === before, "Conversations below the threshold are not stored");
+    await userMemoryManager.processConversation("user-3", "revenue by region", "A bar chart", undefined, undefined, { importanceThreshold: 5 });
+    assert((await userMemoryManager.listMemoryVectors("user-3")).length === before + 2, "Conversations at the threshold are stored");
+    console.log("✅ Importance threshold");
+
+    // 3. enableMemory
+    const settings = { enableMemory: false, retentionDays: 30, importanceThreshold: 7 };
+    assert(applyMemorySettings({ useMemory: true }, settings).useMemory === false, "enableMemory: false turns memory off");
+    const enabled = applyMemorySettings({ useMemory: true }, { ...settings, enableMemory: true });
+    assert(enabled.useMemory === true && enabled.importanceThreshold === 7, "The user's threshold applies");
+    assert(applyMemorySettings({ useMemory: true, importanceThreshold: 3 }, settings).importanceThreshold === 3, "A caller's threshold wins");
+    assert(applyMemorySettings({ useMemory: false }, { ...settings, enableMemory: true }).useMemory === false, "Settings never turn memory on");
+    assert(applyMemorySettings({ useMemory: true }, undefined).useMemory === true, "Without a profile memory stays on");
+    console.log("✅ enableMemory");
+
+    console.log("\n🎉 Memory retention checks passed");
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+testMemoryRetention().catch(error => {
+  console.error("❌ Memory retention test failed:", error);
+  process.exit(1);
+});
@@ -1,5 +1,9 @@
 import { userMemoryManager } from "@/lib/memory/user-memory";
 
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
 async function testMemorySystem() {
   console.log("Testing User Memory System...");
   
@@ -8,7 +12,7 @@ async function testMemorySystem() {
   try {
     // Test storing a memory
     console.log("1. Storing test memory...");
-    await userMemoryManager.storeMemory(
+    const memoryId = await userMemoryManager.storeMemory(
       testUserId,
       "I am interested in quantum computing and machine learning",
       "User preferences and interests",
@@ -52,11 +56,34 @@ async function testMemorySystem() {
     );
     
     console.log("User context:", context);
+
+    if (userMemoryManager.isMemoryEnabled()) {
+      assert(memoryId, "The memory should be stored");
+
+      // Test managing a single memory
+      console.log("4. Pinning and editing the memory...");
+      const updated = await userMemoryManager.updateMemory(testUserId, memoryId, {
+        pinned: true,
+        content: "I am interested in quantum computing, machine learning and robotics",
+      });
+      assert(updated?.pinned, "The memory should be pinned");
+      assert(updated.content.endsWith("robotics"), "The memory should be edited");
+      assert((await userMemoryManager.getMemory("someone-else", memoryId)) === null, "Another user must not see the memory");
+
+      const bulk = await userMemoryManager.deleteMemories(testUserId, { topic: "technology" });
+      assert(!bulk.some(memory => memory.id === memoryId), "Bulk deletes should skip pinned memories");
+      assert((await userMemoryManager.getMemory(testUserId, memoryId))?.pinned, "The pinned memory should survive a bulk delete");
+
+      console.log("5. Deleting the memory...");
+      assert(await userMemoryManager.deleteMemory(testUserId, memoryId), "The owner should be able to delete the memory");
+      assert((await userMemoryManager.getMemory(testUserId, memoryId)) === null, "The deleted memory should be gone");
+    }
     
     console.log("✅ Memory system test completed successfully!");
     
   } catch (error) {
     console.error("❌ Memory system test failed:", error);
+    process.exit(1);
   }
 }
 
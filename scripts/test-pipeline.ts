@@ -0,0 +1,128 @@
+/**
+ * Checks the Pipeline API: executor fallback order, shared post-processing for every
+ * executor, custom stages and the error raised when the whole chain fails.
+ * Executors are scripted, so no model is called.
+ *
+ * Usage: npm run test:pipeline
+ */
+import type { DashboardOutput } from "../src/types";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+async function testPipeline() {
+  console.log("🧪 Testing the Pipeline API");
+
+  const { Pipeline, PipelineError, createDefaultPipeline } = await import("../src/lib/pipeline");
+  const { normalizeTitleStage, validateSchemaStage, logQueryStage } = await import("../src/lib/pipeline/stages");
+
+  const calls: string[] = [];
+  const dashboard = (title: string): DashboardOutput => ({
+    type: "bar_chart",
+    title,
+    data: [{ label: "A", value: 1 }],
+  });
+
+  const failing = {
+    id: "failing",
+    async execute() {
+      calls.push("failing");
+      throw new Error("model unavailable");
+    },
+  };
+  const datasetOnly = {
+    id: "dataset-only",
+    supports: (context: { options: { datasetId?: string } }) => !!context.options.datasetId,
+    async execute() {
+      calls.push("dataset-only");
+      return dashboard("From the dataset executor");
+    },
+  };
+  const fallback = {
+    id: "fallback",
+    async execute() {
+      calls.push("fallback");
+      return { ...dashboard("x".repeat(200)), unexpected: true } as DashboardOutput;
+    },
+  };
+
+  const pipeline = new Pipeline({
+    stages: [normalizeTitleStage, validateSchemaStage, logQueryStage],
+    executors: [failing, datasetOnly, fallback],
+  });
+
+  // Fallback chain + shared post-processing
+  const result = await pipeline.run("sales by region", "pipeline-test-user");
+  assert(calls.join() === "failing,fallback", `Unexpected executor order: ${calls.join()}`);
+  assert(result.title.length === 120 && result.title.endsWith("..."), "Titles from any executor should be truncated");
+  assert(!("unexpected" in result), "Every executor's output should be validated by dashboardSchema");
+
+  calls.length = 0;
+  const fromDataset = await pipeline.run("sales by region", "pipeline-test-user", { datasetId: "ds-1" });
+  assert(calls.join() === "failing,dataset-only" && fromDataset.title === "From the dataset executor", "supports() should gate executors");
+
+  // Custom stages slot in by id
+  const seen: string[] = [];
+  pipeline.addStage(
+    {
+      id: "fact-check",
+      when: "after",
+      async run(context) {
+        seen.push(`${context.executorId}:${context.dashboard!.title.length}`);
+        context.dashboard!.summary = "Checked";
+      },
+    },
+    { before: "validate" }
+  );
+  assert(pipeline.getStageIds().join() === "normalize-title,fact-check,validate,log-query", "Stage should be inserted before validate");
+  const checked = await pipeline.run("sales by region", "pipeline-test-user");
+  assert(seen[0] === "fallback:120" && checked.summary === "Checked", "Custom stage should see the normalised dashboard");
+
+  // A "before" stage can answer without running any executor
+  calls.length = 0;
+  const cached = new Pipeline({
+    stages: [
+      {
+        id: "cache",
+        when: "before",
+        async run(context) {
+          context.dashboard = dashboard("Cached answer");
+          context.executorId = "cache";
+        },
+      },
+      validateSchemaStage,
+    ],
+    executors: [fallback],
+  });
+  assert((await cached.run("q", "u")).title === "Cached answer" && calls.length === 0, "Executors should be skipped");
+
+  // Whole chain failing
+  try {
+    await new Pipeline({ stages: [], executors: [failing] }).run("q", "u");
+    throw new Error("Pipeline should have failed");
+  } catch (error) {
+    assert(error instanceof PipelineError, "Expected PipelineError");
+    assert(error.failures[0].executor === "failing" && error.message.includes("model unavailable"), "Failures should be reported");
+  }
+
+  // Declared default chain
+  delete process.env.PIPELINE_EXECUTORS;
+  assert(createDefaultPipeline().getExecutorIds().join() === "orchestrator,langchain,gemini", "Default fallback chain changed");
+  process.env.PIPELINE_EXECUTORS = "gemini";
+  assert(createDefaultPipeline().getExecutorIds().join() === "gemini", "PIPELINE_EXECUTORS should override the chain");
+  process.env.PIPELINE_EXECUTORS = "missing";
+  try {
+    createDefaultPipeline();
+    throw new Error("Unknown executors should be rejected");
+  } catch (error) {
+    assert(error instanceof Error && error.message.includes('Unknown pipeline executor "missing"'), "Unknown executor error expected");
+  }
+
+  console.log("\n🎉 Pipeline checks passed");
+}
+
+testPipeline().catch(error => {
+  console.error("❌ Pipeline test failed:", error);
+  process.exit(1);
+});
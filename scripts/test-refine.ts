@@ -0,0 +1,114 @@
+/**
+ * Checks conversational refinement without an LLM: which follow-ups the rules
+ * understand, what they do to a dashboard, and the pipeline's refine mode.
+ *
+ * Usage: npm run test:refine
+ */
+import type { DashboardOutput } from "../src/types";
+import { applyRefinementRules, looksLikeRefinement, parseRefinement } from "../src/lib/charts/refine";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const cloud: DashboardOutput = {
+  type: "bar_chart",
+  title: "Cloud market share",
+  query: "Cloud market share by provider",
+  data: [
+    { label: "Azure", value: 25 },
+    { label: "AWS", value: 31 },
+    { label: "Oracle", value: 2 },
+    { label: "Google", value: 11 },
+    { label: "Alibaba", value: 4 },
+    { label: "Other", value: 27 },
+  ],
+};
+
+function testParsing() {
+  assert(parseRefinement("Make it a line chart")?.type === "line_chart", "Chart type switches");
+  assert(parseRefinement("show as a table please")?.type === "table", "Tables");
+  assert(parseRefinement("only top 5")?.limit?.count === 5, "Top N");
+  assert(parseRefinement("switch to percentages")?.percentages, "Percentages");
+  assert(parseRefinement("sort lowest to highest")?.sort === "asc", "Sort direction");
+  assert(parseRefinement("add 2023 data") === null, "New data needs a model");
+  assert(parseRefinement("make it a line chart for Europe") === null, "Partly understood instructions are left to the model");
+  assert(parseRefinement("What is the capital of France?") === null, "Questions are not refinements");
+
+  assert(looksLikeRefinement("add 2023 data"), "Edits a model has to make still read as refinements");
+  assert(looksLikeRefinement("only top 5"), "Rule-based edits read as refinements");
+  assert(!looksLikeRefinement("Explain quantum computing in simple terms"), "New questions do not");
+  console.log("✅ Instruction parsing");
+}
+
+function testRules() {
+  const line = applyRefinementRules(cloud, "make it a line chart");
+  assert(line?.type === "line_chart" && line.data.length === 6 && line.query === cloud.query, "Type switches keep the data");
+
+  const top = applyRefinementRules(cloud, "only top 3");
+  assert(top?.data.map(point => point.label).join() === "AWS,Other,Azure", `Top N keeps the largest: ${JSON.stringify(top?.data)}`);
+  assert(cloud.data[0].label === "Azure", "The original dashboard is not modified");
+
+  const shares = applyRefinementRules(cloud, "top 2 as percentages");
+  assert(shares?.data.map(point => point.value).join() === "31,27" && shares.title === "Cloud market share (%)", `Shares of the whole: ${JSON.stringify(shares)}`);
+
+  const sorted = applyRefinementRules(cloud, "sort ascending");
+  assert(sorted?.data[0].label === "Oracle" && sorted.data[5].label === "AWS", "Sorting");
+
+  const negative: DashboardOutput = { ...cloud, data: [{ label: "A", value: 5 }, { label: "B", value: -2 }] };
+  assert(applyRefinementRules(negative, "as percentages") === null, "Percentages need non-negative values");
+  const scatter: DashboardOutput = { type: "scatter_plot", title: "Spend vs revenue", data: [{ label: "A", x: 1, y: 2 }] };
+  assert(applyRefinementRules(scatter, "make it a pie chart") === null, "Types with another data shape are left to the model");
+  assert(applyRefinementRules({ ...cloud, charts: [cloud] }, "only top 3") === null, "Boards are left to the model");
+  console.log("✅ Rule-based edits");
+}
+
+async function testPipeline() {
+  delete process.env.APPWRITE_ENDPOINT;
+  const { createDefaultPipeline, registerPipelineExecutor } = await import("../src/lib/pipeline");
+
+  const executed: string[] = [];
+  registerPipelineExecutor({
+    id: "refine-stand-in",
+    async execute(context) {
+      executed.push(context.query);
+      return { type: "bar_chart", title: "A new answer", data: [{ label: "A", value: 1 }] };
+    },
+  });
+  process.env.PIPELINE_EXECUTORS = "refine-stand-in";
+
+  const pipeline = createDefaultPipeline();
+  assert(pipeline.getStageIds()[0] === "refine", `Refinement runs first: ${pipeline.getStageIds().join()}`);
+
+  const refined = await pipeline.run("make it a pie chart", "refine-test-user", { refine: cloud });
+  assert(executed.length === 0, "Refinements do not run the executors");
+  assert(refined.type === "pie_chart" && refined.query === cloud.query, `Refined: ${JSON.stringify(refined)}`);
+
+  await pipeline.run("make it a pie chart", "refine-test-user");
+  assert(executed.join() === "make it a pie chart", "Without a dashboard to refine the query is answered afresh");
+
+  // Too large to send to the model, so the refinement fails before any call
+  const huge: DashboardOutput = { ...cloud, data: Array.from({ length: 2000 }, (_, index) => ({ label: `Item ${index}`, value: index })) };
+  let failed = false;
+  try {
+    await pipeline.run("add 2023 data", "refine-test-user", { refine: huge });
+  } catch (error) {
+    failed = error instanceof Error && error.message.includes("too large to refine");
+  }
+  assert(failed && executed.join() === "make it a pie chart", "Failed refinements surface instead of answering a different question");
+  delete process.env.PIPELINE_EXECUTORS;
+  console.log("✅ Pipeline refine mode");
+}
+
+async function testRefine() {
+  console.log("🧪 Testing conversational refinement");
+  testParsing();
+  testRules();
+  await testPipeline();
+  console.log("\n🎉 Refinement checks passed");
+}
+
+testRefine().catch(error => {
+  console.error("❌ Refinement test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,113 @@
+/**
+ * End-to-end check of the LLM record/replay layer.
+ *
+ * Records processQueryWithMemory against a local OpenAI-compatible stand-in, shuts the
+ * server down, then replays the same queries offline and checks the dashboards match.
+ *
+ * To replay real recordings instead, capture them once with live keys:
+ *   LLM_REPLAY_MODE=record npx tsx --conditions=react-server scripts/test-full-pipeline.ts
+ * and commit the files written to tests/fixtures/llm.
+ *
+ * Usage: npm run test:replay
+ */
+
+import { createServer } from "http";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+
+const QUERIES = ["Compare sales between regions", "Show market share by browser"];
+
+async function testReplayPipeline() {
+  console.log("🧪 Testing LLM record/replay through processQueryWithMemory");
+
+  let serverCalls = 0;
+  const server = createServer((request, response) => {
+    serverCalls++;
+    let body = "";
+    request.on("data", chunk => (body += chunk));
+    request.on("end", () => {
+      const payload = JSON.parse(body);
+      const isClassification = payload.model === "local-classifier";
+      const content = isClassification
+        ? { type: "bar_chart", complexity: "simple", requiresRAG: false, requiresExternal: false, requiresImage: false }
+        : {
+            type: "bar_chart",
+            title: `Recorded answer #${serverCalls}`,
+            data: [{ label: "North", value: 40 + serverCalls }, { label: "South", value: 25 }, { label: "West", value: 35 }],
+            summary: "Recorded from the local stand-in server",
+          };
+
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({
+        id: `local-${serverCalls}`,
+        choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: JSON.stringify(content) } }],
+      }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const fixtureDir = await mkdtemp(path.join(tmpdir(), "orinai-replay-"));
+
+  delete process.env.PINECONE_API_KEY;
+  process.env.VECTOR_STORE = "off";
+  process.env.LLM_PROVIDER = "openai-compatible";
+  process.env.OPENAI_COMPATIBLE_BASE_URL = `http://127.0.0.1:${port}/v1`;
+  process.env.LLM_CLASSIFICATION_MODEL = "local-classifier";
+  process.env.OPENAI_COMPATIBLE_MODEL = "local-summarizer";
+  process.env.LLM_REPLAY_DIR = fixtureDir;
+
+  try {
+    const { processQueryWithMemory } = await import("../src/lib/langchain/pipeline-with-memory");
+    const { getReplayStats } = await import("../src/lib/replay/fixtures");
+
+    // 1. Record
+    process.env.LLM_REPLAY_MODE = "record";
+    const recorded = [];
+    for (const query of QUERIES) {
+      recorded.push(await processQueryWithMemory(query, "replay-test-user"));
+    }
+
+    const fixtureFiles = await readdir(path.join(fixtureDir, "chat"));
+    console.log(`📼 Recorded ${fixtureFiles.length} fixtures from ${serverCalls} server calls`);
+    if (getReplayStats().recorded === 0 || fixtureFiles.length === 0) {
+      throw new Error("Record mode did not write any fixtures");
+    }
+
+    // 2. Replay with the server gone
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    process.env.OPENAI_COMPATIBLE_BASE_URL = "http://127.0.0.1:9/v1";
+    process.env.LLM_REPLAY_MODE = "replay";
+
+    const callsBeforeReplay = serverCalls;
+    for (const [index, query] of QUERIES.entries()) {
+      const replayed = await processQueryWithMemory(query, "replay-test-user");
+      const expected = recorded[index];
+
+      if (replayed.title !== expected.title || JSON.stringify(replayed.data) !== JSON.stringify(expected.data)) {
+        throw new Error(`Replayed dashboard for "${query}" differs from the recording`);
+      }
+      console.log(`✅ "${query}" replayed as "${replayed.title}"`);
+    }
+
+    const stats = getReplayStats();
+    if (stats.misses > 0) {
+      throw new Error(`${stats.misses} replay fixture(s) were missing`);
+    }
+    if (serverCalls !== callsBeforeReplay) {
+      throw new Error("Replay mode reached the network");
+    }
+
+    console.log(`\n🎉 Replay served ${stats.hits} responses offline`);
+  } finally {
+    server.close();
+    await rm(fixtureDir, { recursive: true, force: true });
+  }
+}
+
+testReplayPipeline().catch(error => {
+  console.error("❌ Replay test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,156 @@
+/**
+ * Runs every external retrieval connector against a local HTTP stand-in that mimics
+ * a SearXNG instance, the Wikipedia REST API, RSS/Atom feeds and a JSON knowledge base.
+ *
+ * Usage: npm run test:retrieval
+ */
+
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+
+const RSS_FEED = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Energy Wire</title>
+  <item><title>Solar capacity hits record</title><link>https://energy.example/solar</link>
+    <description><![CDATA[<p>Global <b>solar</b> capacity grew 24% in 2024.</p>]]></description></item>
+  <item><title>Oil prices steady</title><link>https://energy.example/oil</link>
+    <description>Brent unchanged this week.</description></item>
+</channel></rss>`;
+
+const ATOM_FEED = `<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom"><title>Grid Notes</title>
+  <entry><title>Wind and solar growth &amp; storage</title>
+    <link rel="alternate" href="https://grid.example/wind-solar"/>
+    <summary>Renewable growth outpaced forecasts.</summary></entry>
+</feed>`;
+
+function sendJson(response: import("http").ServerResponse, body: unknown) {
+  response.writeHead(200, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+async function testRetrievalConnectors() {
+  console.log("🧪 Testing external retrieval connectors with a local stand-in server");
+
+  const requests: string[] = [];
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    requests.push(url.pathname);
+
+    switch (url.pathname) {
+      case "/search":
+        if (request.headers.authorization !== "Bearer search-key") {
+          response.writeHead(401).end();
+          return;
+        }
+        sendJson(response, {
+          results: [
+            { title: "Renewables 2024 report", url: "https://iea.example/renewables-2024", content: `Report on ${url.searchParams.get("q")}` },
+            { title: "No URL result", content: "dropped" },
+          ],
+        });
+        return;
+      case "/w/rest.php/v1/search/page":
+        sendJson(response, { pages: [{ key: "Solar_power", title: "Solar power", excerpt: "<span class=\"searchmatch\">Solar</span> power" }] });
+        return;
+      case "/api/rest_v1/page/summary/Solar_power":
+        sendJson(response, {
+          title: "Solar power",
+          extract: "Solar power is the conversion of energy from sunlight into electricity.",
+          content_urls: { desktop: { page: "https://wiki.example/wiki/Solar_power" } },
+        });
+        return;
+      case "/feed.xml":
+        response.writeHead(200, { "Content-Type": "application/rss+xml" });
+        response.end(RSS_FEED);
+        return;
+      case "/atom.xml":
+        response.writeHead(200, { "Content-Type": "application/atom+xml" });
+        response.end(ATOM_FEED);
+        return;
+      case "/kb":
+        sendJson(response, {
+          data: {
+            items: [{ name: "Internal solar memo", body: { text: "Q3 solar installs up 12%." }, link: "https://kb.example/memo/7" }],
+          },
+        });
+        return;
+      default:
+        response.writeHead(500).end("broken feed");
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const base = `http://127.0.0.1:${port}`;
+
+  delete process.env.PINECONE_API_KEY;
+  process.env.VECTOR_STORE = "off";
+  process.env.WEB_SEARCH_API_URL = `${base}/search`;
+  process.env.WEB_SEARCH_API_KEY = "search-key";
+  process.env.WIKIPEDIA_BASE_URL = base;
+  process.env.RSS_FEED_URLS = `${base}/feed.xml, ${base}/atom.xml, ${base}/missing.xml`;
+  process.env.HTTP_JSON_URL = `${base}/kb?search={query}`;
+  process.env.HTTP_JSON_RESULTS_PATH = "data.items";
+  process.env.HTTP_JSON_TITLE_FIELD = "name";
+  process.env.HTTP_JSON_TEXT_FIELD = "body.text";
+  process.env.HTTP_JSON_URL_FIELD = "link";
+
+  try {
+    const { retrieveExternalContext, getActiveConnectors } = await import("../src/lib/retrieval/connectors");
+    const { parseFeed } = await import("../src/lib/retrieval/connectors/rss");
+
+    assert(getActiveConnectors().length === 4, "Expected all four connectors to be active");
+
+    const atom = parseFeed(ATOM_FEED);
+    assert(atom[0]?.url === "https://grid.example/wind-solar", "Atom link was not parsed");
+    assert(atom[0]?.title === "Wind and solar growth & storage", "Atom entities were not decoded");
+
+    const result = await retrieveExternalContext("solar energy growth");
+    console.log("Citations:", result.citations.map(citation => citation.url));
+
+    const urls = result.citations.map(citation => citation.url);
+    for (const expected of [
+      "https://iea.example/renewables-2024",
+      "https://wiki.example/wiki/Solar_power",
+      "https://energy.example/solar",
+      "https://grid.example/wind-solar",
+      "https://kb.example/memo/7",
+    ]) {
+      assert(urls.includes(expected), `Missing citation ${expected}`);
+    }
+    assert(!urls.includes("https://energy.example/oil"), "Irrelevant RSS item should be filtered out");
+    assert(result.chunks.every(chunk => !/<[^>]+>/.test(chunk.text)), "Chunks should be plain text");
+    assert(result.chunks.some(chunk => chunk.text.includes("Q3 solar installs")), "HTTP JSON text field missing");
+
+    // Connector failures are isolated and allow-listing narrows the set
+    process.env.RETRIEVAL_CONNECTORS = "wikipedia";
+    process.env.WIKIPEDIA_BASE_URL = `${base}/broken`;
+    const empty = await retrieveExternalContext("solar energy growth");
+    assert(empty.chunks.length === 0, "Failed connector should return no chunks");
+
+    // retrieverAgent uses connectors when external data is required
+    process.env.RETRIEVAL_CONNECTORS = "web-search";
+    const { retrieverAgent } = await import("../src/lib/langchain/agents/retriever");
+    const retrieval = await retrieverAgent("solar energy growth", "retrieval-test-user", {
+      type: "bar_chart",
+      complexity: "simple",
+      requiresRAG: false,
+      requiresExternal: true,
+      requiresImage: false,
+    });
+    assert(retrieval.citations[0]?.url === "https://iea.example/renewables-2024", "retrieverAgent did not use the web search connector");
+
+    console.log(`\n🎉 Connectors passed (${requests.length} stand-in requests)`);
+  } finally {
+    server.close();
+  }
+}
+
+testRetrievalConnectors().catch(error => {
+  console.error("❌ Retrieval connector test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,156 @@
+/**
+ * Checks scheduled saved queries without Appwrite or an LLM: cron parsing, the
+ * runner (through a stand-in pipeline executor), snapshot history and diffs.
+ *
+ * Usage: npm run test:schedules
+ */
+import type { DashboardOutput } from "../src/types";
+import { nextRun, parseCron, ScheduleError, validateSchedule } from "../src/lib/schedules/cron";
+import { diffDashboards } from "../src/lib/charts/diff";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function throwsScheduleError(run: () => unknown, message: string) {
+  try {
+    run();
+  } catch (error) {
+    assert(error instanceof ScheduleError, `${message}: ${error}`);
+    return;
+  }
+  throw new Error(`${message}: expected a ScheduleError`);
+}
+
+function testCron() {
+  const at = (iso: string) => new Date(iso);
+  const next = (expression: string, after: string) => nextRun(expression, at(after)).toISOString();
+
+  assert(next("@hourly", "2025-03-10T10:15:30Z") === "2025-03-10T11:00:00.000Z", "Hourly runs on the hour");
+  assert(next("0 9 * * *", "2025-03-10T09:00:00Z") === "2025-03-11T09:00:00.000Z", "Runs are strictly after the given time");
+  // 2025-03-14 is a Friday
+  assert(next("0 9 * * 1-5", "2025-03-14T10:00:00Z") === "2025-03-17T09:00:00.000Z", "Weekday schedules skip the weekend");
+  assert(next("*/15 8-9 * * *", "2025-03-10T09:50:00Z") === "2025-03-11T08:00:00.000Z", "Steps and ranges combine");
+  assert(next("30 6 1,15 * *", "2025-03-02T00:00:00Z") === "2025-03-15T06:30:00.000Z", "Lists of days");
+  assert(next("0 0 * * 7", "2025-03-10T00:00:00Z") === "2025-03-16T00:00:00.000Z", "7 is Sunday");
+  // Both day fields restricted: either matches (the 13th, or any Friday)
+  assert(next("0 0 13 * 5", "2025-03-10T00:00:00Z") === "2025-03-13T00:00:00.000Z", "Day of month or day of week");
+  assert(next("0 0 29 2 *", "2025-03-01T00:00:00Z") === "2028-02-29T00:00:00.000Z", "Leap days are found");
+  assert(parseCron("@DAILY").minutes.has(0), "Presets are case-insensitive");
+
+  throwsScheduleError(() => parseCron("* * * *"), "Four fields");
+  throwsScheduleError(() => parseCron("60 * * * *"), "Minute out of range");
+  throwsScheduleError(() => parseCron("0 9 * * mon"), "Names are not supported");
+  throwsScheduleError(() => nextRun("0 0 31 2 *", at("2025-01-01T00:00:00Z")), "February 31st never fires");
+  throwsScheduleError(() => validateSchedule("*/5 * * * *"), "Every 5 minutes is too often");
+  validateSchedule("*/15 * * * *");
+  console.log("✅ Cron parsing");
+}
+
+function testDiff() {
+  const before: DashboardOutput = {
+    type: "bar_chart",
+    title: "Cloud market share",
+    summary: "AWS leads.",
+    data: [{ label: "AWS", value: 31 }, { label: "Azure", value: 25 }, { label: "IBM", value: 3 }],
+  };
+  const after: DashboardOutput = {
+    ...before,
+    summary: "AWS still leads.",
+    data: [{ label: "AWS", value: 30 }, { label: "Azure", value: 25 }, { label: "Google", value: 11 }],
+  };
+
+  const diff = diffDashboards(before, after);
+  assert(diff.title === null && diff.summary?.after === "AWS still leads.", "Summary changes are reported");
+  const byLabel = Object.fromEntries(diff.points.map(point => [point.label, point]));
+  assert(diff.points.length === 3, `Unchanged points are left out: ${JSON.stringify(diff.points)}`);
+  assert(byLabel.AWS.kind === "changed" && byLabel.AWS.delta === -1, "Changed values carry their delta");
+  assert(byLabel.Google.kind === "added" && byLabel.IBM.kind === "removed", "Added and removed points");
+
+  const board = diffDashboards({ ...before, charts: [before] }, { ...before, charts: [before, after] });
+  assert(board.points.length === 3 && board.points.every(point => point.kind === "added"), "New panels are all added");
+  console.log("✅ Snapshot diffs");
+}
+
+async function testRunner() {
+  // Saved queries and snapshots fall back to process memory without Appwrite credentials
+  delete process.env.APPWRITE_ENDPOINT;
+  const { registerPipelineExecutor } = await import("../src/lib/pipeline");
+  const { createSavedQuery, editSavedQuery, listSavedQueries, listSnapshots, removeSavedQuery } = await import("../src/lib/schedules/store");
+  const { runDueSavedQueries } = await import("../src/lib/schedules/runner");
+
+  let share = 30;
+  let fail = false;
+  const seen: Array<{ query: string; userId: string; datasetId?: string; useMemory: boolean }> = [];
+  registerPipelineExecutor({
+    id: "scheduled-stand-in",
+    async execute(context) {
+      seen.push({ query: context.query, userId: context.userId, datasetId: context.options.datasetId, useMemory: context.useMemory });
+      if (fail) throw new Error("model unavailable");
+      return { type: "bar_chart", title: "Cloud market share", data: [{ label: "AWS", value: share++ }] };
+    },
+  });
+  process.env.PIPELINE_EXECUTORS = "scheduled-stand-in";
+
+  const created = await createSavedQuery(
+    "owner",
+    { query: "Current market share of cloud providers", schedule: "@daily", datasetId: "ds1" },
+    new Date("2025-03-10T10:00:00Z")
+  );
+  assert(created.nextRunAt === "2025-03-11T00:00:00.000Z" && created.enabled && !created.useMemory, `Created: ${JSON.stringify(created)}`);
+  assert(created.name === "Current market share of cloud providers", "Names default to the query");
+
+  assert((await runDueSavedQueries(new Date("2025-03-10T23:59:00Z"))) === 0, "Nothing runs before it is due");
+  // Two days late: the missed runs collapse into one
+  assert((await runDueSavedQueries(new Date("2025-03-13T08:00:00Z"))) === 1, "Due queries run");
+  assert((await runDueSavedQueries(new Date("2025-03-13T08:01:00Z"))) === 0, "A run claims the next slot");
+  assert(seen[0].userId === "owner" && seen[0].datasetId === "ds1" && !seen[0].useMemory, `Run context: ${JSON.stringify(seen[0])}`);
+
+  let [listed] = await listSavedQueries("owner");
+  assert(listed.nextRunAt === "2025-03-14T00:00:00.000Z" && listed.lastStatus === "success", `After a run: ${JSON.stringify(listed)}`);
+
+  await runDueSavedQueries(new Date("2025-03-14T00:00:00Z"));
+  fail = true;
+  await runDueSavedQueries(new Date("2025-03-15T00:00:00Z"));
+  [listed] = await listSavedQueries("owner");
+  assert(listed.lastStatus === "error" && listed.lastError?.includes("model unavailable"), "Failures are recorded");
+  assert(listed.nextRunAt === "2025-03-16T00:00:00.000Z", "Failed runs still move to the next slot");
+
+  const snapshots = await listSnapshots("owner", created.savedQueryId);
+  assert(snapshots?.map(snapshot => snapshot.version).join() === "2,1", "Snapshots are versioned, newest first");
+  assert(snapshots[0].dashboard.data[0].value === 31 && snapshots[0].dashboard.query === created.query, "Snapshots hold the generated dashboard");
+  assert((await listSnapshots("stranger", created.savedQueryId)) === null, "History is private to the owner");
+  console.log("✅ Runner and history");
+
+  const paused = await editSavedQuery("owner", created.savedQueryId, { enabled: false });
+  assert(paused?.nextRunAt === null, "Pausing clears the next run");
+  assert((await runDueSavedQueries(new Date("2025-04-01T00:00:00Z"))) === 0, "Paused queries do not run");
+  const resumed = await editSavedQuery("owner", created.savedQueryId, { enabled: true, schedule: "0 9 * * 1" }, new Date("2025-04-01T00:00:00Z"));
+  assert(resumed?.nextRunAt === "2025-04-07T09:00:00.000Z", `Resuming schedules the next run: ${resumed?.nextRunAt}`);
+  assert((await editSavedQuery("stranger", created.savedQueryId, { enabled: false })) === null, "Only the owner can edit");
+
+  let rejected = false;
+  try {
+    await createSavedQuery("owner", { query: "", schedule: "@daily" });
+  } catch (error) {
+    rejected = error instanceof ScheduleError;
+  }
+  assert(rejected, "Empty queries are rejected");
+
+  assert(await removeSavedQuery("owner", created.savedQueryId), "Owners can delete");
+  assert((await listSnapshots("owner", created.savedQueryId)) === null && (await listSavedQueries("owner")).length === 0, "Deleting removes history");
+  console.log("✅ Editing and deletion");
+}
+
+async function testSchedules() {
+  console.log("🧪 Testing scheduled queries");
+  testCron();
+  testDiff();
+  await testRunner();
+  console.log("\n🎉 Scheduled query checks passed");
+}
+
+testSchedules().catch(error => {
+  console.error("❌ Scheduled query test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+/**
+ * Checks dashboard permalinks without Appwrite: publishing, visibility rules,
+ * expiry, revocation and ownership checks, plus the embed options and snippets.
+ *
+ * Usage: npm run test:shares
+ */
+import type { DashboardOutput } from "../src/types";
+import { embedPath, iframeSnippet, isEmbeddable, parseEmbedOptions, scriptSnippet } from "../src/lib/sharing/embed";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+async function testShares() {
+  console.log("🧪 Testing dashboard permalinks");
+
+  // Shares fall back to process memory without Appwrite credentials
+  delete process.env.APPWRITE_ENDPOINT;
+  const { checkShareAccess, listSharedDashboards, loadSharedDashboard, publishDashboard, ShareError, updateShare } =
+    await import("../src/lib/sharing/store");
+
+  const dashboard: DashboardOutput = {
+    type: "bar_chart",
+    title: "Revenue by region",
+    data: [{ label: "North", value: 70 }, { label: "South", value: 50 }],
+  };
+
+  const linkShare = await publishDashboard({ userId: "owner", dashboard, visibility: "link" });
+  assert(/^\/d\/[0-9a-f]{32}$/.test(linkShare.path), `Share path: ${linkShare.path}`);
+  const anonymous = await loadSharedDashboard(linkShare.shareId, null);
+  assert(anonymous.status === "ok" && anonymous.dashboard.title === "Revenue by region", "Link shares open without login");
+
+  const privateShare = await publishDashboard({ userId: "owner", dashboard, visibility: "private" });
+  assert((await loadSharedDashboard(privateShare.shareId, null)).status === "forbidden", "Anonymous visitors must sign in");
+  assert((await loadSharedDashboard(privateShare.shareId, "stranger")).status === "not_found", "Other users cannot see private shares");
+  assert((await loadSharedDashboard(privateShare.shareId, "owner")).status === "ok", "Owners see their private shares");
+  assert((await loadSharedDashboard("missing", null)).status === "not_found", "Unknown ids are not found");
+  console.log("✅ Visibility");
+
+  const rejects = async (promise: Promise<unknown>, message: string) => {
+    try {
+      await promise;
+    } catch (error) {
+      assert(error instanceof ShareError, `${message}: ${error}`);
+      return;
+    }
+    throw new Error(`${message}: expected a ShareError`);
+  };
+  await rejects(publishDashboard({ userId: "owner", dashboard, visibility: "everyone" }), "Unknown visibility");
+  await rejects(publishDashboard({ userId: "owner", dashboard, visibility: "link", expiresAt: "2000-01-01T00:00:00Z" }), "Past expiry");
+  await rejects(publishDashboard({ userId: "owner", dashboard: { ...dashboard, data: [] }, visibility: "link" }), "Invalid dashboard");
+  console.log("✅ Validation");
+
+  const record = {
+    shareId: "abc",
+    userId: "owner",
+    title: "T",
+    dashboard: JSON.stringify(dashboard),
+    visibility: "public",
+    expiresAt: "2025-01-02T00:00:00.000Z",
+    revokedAt: null,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+  };
+  assert(checkShareAccess(record, null, new Date("2025-01-01T12:00:00Z")).status === "ok", "Shares open before they expire");
+  assert(checkShareAccess(record, null, new Date("2025-01-02T00:00:00Z")).status === "expired", "Shares close when they expire");
+
+  const changed = await updateShare("owner", linkShare.shareId, { visibility: "public", expiresAt: null });
+  assert(changed?.visibility === "public" && changed.expiresAt === null, "Owners can change visibility and expiry");
+  assert((await updateShare("stranger", linkShare.shareId, { visibility: "private" })) === null, "Only the owner can change a share");
+
+  const revoked = await updateShare("owner", linkShare.shareId, { revoke: true });
+  assert(revoked?.revokedAt, "Revoking records when");
+  assert((await loadSharedDashboard(linkShare.shareId, null)).status === "revoked", "Revoked links stop working");
+  const again = await updateShare("owner", linkShare.shareId, { revoke: true });
+  assert(again?.revokedAt === revoked.revokedAt, "Revoking twice keeps the first time");
+
+  const listed = await listSharedDashboards("owner");
+  assert(listed.length === 2 && (await listSharedDashboards("stranger")).length === 0, "Shares are listed per owner");
+  console.log("✅ Expiry, revocation and ownership");
+
+  const options = parseEmbedOptions({ theme: "light", width: "50", height: "abc" });
+  assert(options.theme === "light" && options.width === 120 && options.height === undefined, `Embed options: ${JSON.stringify(options)}`);
+  assert(parseEmbedOptions({ theme: "neon", height: ["600", "700"] }).theme === "dark", "Unknown themes fall back to dark");
+  assert(parseEmbedOptions({ height: ["600", "700"] }).height === 600, "Repeated parameters use the first value");
+  assert(embedPath("abc", { theme: "light", height: 600 }) === "/embed/abc?theme=light&height=600", "Embed paths carry the options");
+  assert(embedPath("abc", { theme: "dark" }) === "/embed/abc", "Defaults are left out");
+
+  const iframe = iframeSnippet("https://orin.example", "abc", 'Revenue "Q3"', { theme: "light" });
+  assert(iframe.includes('src="https://orin.example/embed/abc?theme=light"') && iframe.includes('title="Revenue &quot;Q3&quot;"'), iframe);
+  const script = scriptSnippet("https://orin.example", "abc", { width: 640 });
+  assert(script.includes('data-orinai-dashboard="abc" data-width="640"') && script.includes('src="https://orin.example/embed.js"'), script);
+  assert(!isEmbeddable("private") && isEmbeddable("link") && isEmbeddable("public"), "Private shares are not embeddable");
+  console.log("✅ Embeds");
+
+  console.log("\n🎉 Permalink checks passed");
+}
+
+testShares().catch(error => {
+  console.error("❌ Permalink test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,124 @@
+/**
+ * Checks the natural-language-to-SQL connector against the bundled SQLite sample:
+ * read-only validation, retry on a rejected query, result typing and provenance.
+ * The model is replaced by a scripted chat provider, so this runs offline.
+ *
+ * Usage: npm run test:sql
+ */
+import type { ClassificationResult } from "../src/types";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const REVENUE_BY_REGION = `SELECT c.region AS region, ROUND(SUM(o.revenue), 2) AS revenue
+FROM orders o JOIN customers c ON c.id = o.customer_id
+GROUP BY c.region ORDER BY revenue DESC;`;
+
+async function testSqlConnector() {
+  console.log("🧪 Testing NL-to-SQL connector");
+
+  delete process.env.LLM_REPLAY_MODE;
+  process.env.LLM_PROVIDER = "sql-test";
+
+  const { registerChatProvider } = await import("../src/lib/azure/providers");
+  const { SqlValidationError, validateReadOnlySql, getSqlSource, runSqlQuery, SAMPLE_SQL_SOURCE_ID } = await import("../src/lib/sql");
+  const { toSqlDataPoints, buildSqlDashboard } = await import("../src/lib/sql/dashboard");
+  const { dashboardSchema } = await import("../src/lib/schemas/dashboard");
+
+  // Validation
+  assert(validateReadOnlySql("  select 1; ") === "select 1", "Trailing semicolon should be stripped");
+  assert(validateReadOnlySql("WITH t AS (SELECT 1 AS x) SELECT x FROM t -- done") .startsWith("WITH"), "CTEs are allowed");
+  assert(validateReadOnlySql("SELECT 'drop table; delete' AS note").includes("drop table"), "Keywords inside literals are fine");
+  for (const sql of [
+    "DELETE FROM orders",
+    "SELECT 1; DROP TABLE orders",
+    "WITH gone AS (DELETE FROM orders RETURNING *) SELECT * FROM gone",
+    "SELECT * INTO copy FROM orders",
+    "PRAGMA table_info(orders)",
+    "SELECT pg_sleep(10)",
+    "SELECT query_to_xml('select pg_read_file(''/etc/passwd'')', true, false, '')",
+    "SELECT * FROM dblink_exec('dbname=other', 'drop table orders')",
+    "SELECT \"pg_sleep\"(1)",
+    "SELECT 'pg_read_file(''/etc/passwd'')' AS note",
+    "",
+  ]) {
+    try {
+      validateReadOnlySql(sql);
+      throw new Error(`Should reject: ${sql}`);
+    } catch (error) {
+      assert(error instanceof SqlValidationError, `Expected SqlValidationError for: ${sql}`);
+    }
+  }
+
+  // sql.js has no statement timeout, so a runaway recursion would block the server
+  const recursive = "WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x+1 FROM c) SELECT count(*) AS n FROM c";
+  assert(validateReadOnlySql(recursive, "postgres") === recursive, "Postgres runs recursive CTEs under statement_timeout");
+  try {
+    validateReadOnlySql(recursive, "sqlite");
+    throw new Error("Should reject a recursive CTE on SQLite");
+  } catch (error) {
+    assert(error instanceof SqlValidationError, "Expected SqlValidationError for a recursive CTE on SQLite");
+  }
+
+  // Scripted model: first answer tries to write, the retry returns a valid query
+  const prompts: string[] = [];
+  registerChatProvider({
+    id: "sql-test",
+    isConfigured: () => true,
+    resolveModel: () => "scripted",
+    async invoke(messages) {
+      const user = messages[messages.length - 1].content;
+      prompts.push(user);
+      const content = user.includes("previous query failed")
+        ? JSON.stringify({ sql: REVENUE_BY_REGION, title: "Revenue by Region" })
+        : JSON.stringify({ sql: "DELETE FROM orders", title: "Oops" });
+      return { id: "scripted", choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }] };
+    },
+  });
+
+  const source = getSqlSource(SAMPLE_SQL_SOURCE_ID);
+  assert(source, "Sample source should be registered");
+  const tables = await source.describe();
+  assert(["customers", "orders", "products"].every(name => tables.some(table => table.name === name)), "Sample tables missing");
+
+  const result = await runSqlQuery(SAMPLE_SQL_SOURCE_ID, "revenue by region");
+  console.log("Result:", result.sql, result.rows);
+  assert(prompts.length === 2 && prompts[1].includes("DELETE FROM orders"), "Rejected SQL should be fed back for a retry");
+  assert(result.rowCount === 5 && !result.truncated, "Five regions expected");
+  assert(result.columns[0].type === "category" && result.columns[1].type === "number", "Columns should be typed");
+  assert(result.rows[0].label === result.rows[0].region && result.rows[0].value === result.rows[0].revenue, "label/value should mirror the columns");
+
+  const direct = await source.execute(REVENUE_BY_REGION.replace(";", ""), { timeoutMs: 1000 });
+  assert(JSON.stringify(direct.rows.map(row => row.revenue)) === JSON.stringify(result.rows.map(row => row.revenue)), "Numbers should come from the database");
+
+  // The sample stays read-only even if a write reached the driver
+  try {
+    await source.execute("DELETE FROM orders", { timeoutMs: 1000 });
+    throw new Error("Write should fail");
+  } catch (error) {
+    assert(error instanceof Error && /readonly|read-only|query_only/i.test(error.message), "Sample database should be query_only");
+  }
+
+  // Dashboard + provenance
+  const classification: ClassificationResult = { type: "text", complexity: "simple", requiresRAG: false, requiresExternal: false, requiresImage: false };
+  const dashboard = dashboardSchema.parse(buildSqlDashboard("revenue by region", classification, result));
+  assert(dashboard.type === "bar_chart", "Categorical results should render as a bar chart");
+  assert(dashboard.provenance?.query === result.sql && dashboard.provenance.rowCount === 5, "Provenance should carry the SQL and row count");
+  assert(dashboard.config?.xAxis === "region" && dashboard.config?.yAxis === "revenue", "Axes should use result columns");
+
+  // Driver values: Postgres numerics arrive as strings, dates as Date objects
+  const typed = toSqlDataPoints({
+    columns: ["month", "total"],
+    rows: [{ month: new Date("2024-01-01T00:00:00Z"), total: "10.50" }, { month: new Date("2024-02-01T00:00:00Z"), total: "7" }],
+  });
+  assert(typed.columns[0].type === "date" && typed.rows[0].label === "2024-01-01", "Dates should become ISO labels");
+  assert(typed.rows[0].total === 10.5 && typed.rows[1].value === 7, "Numeric strings should become numbers");
+
+  console.log("\n🎉 SQL connector checks passed");
+}
+
+testSqlConnector().catch(error => {
+  console.error("❌ SQL connector test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+/**
+ * Checks the table renderer's data layer: column typing, sorting, filtering,
+ * pagination, cell formatting and CSV export.
+ *
+ * Usage: npm run test:table
+ */
+import {
+  buildTableModel,
+  filterTableRows,
+  formatTableCell,
+  paginateRows,
+  sortTableRows,
+  tableToCsv,
+} from "../src/lib/charts/table";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function testTable() {
+  console.log("🧪 Testing the table data layer");
+
+  const model = buildTableModel([
+    { name: "Widget", price: "$1,200.50", launched: "2024-03-09", active: "yes", tags: ["new", "hot"] },
+    { name: "Gadget", price: 300, launched: "2023-11-20", active: "no", tags: [] },
+    { name: "Doohickey", price: null, launched: "2024-01-02", active: "yes", tags: ["legacy"] },
+  ]);
+  const types = Object.fromEntries(model.columns.map(column => [column.name, column.type]));
+  assert(types.price === "number" && types.launched === "date" && types.active === "boolean", `Column types: ${JSON.stringify(types)}`);
+  assert(model.rows[0].price === 1200.5 && model.rows[0].tags === "new, hot", "Values are normalised and lists flattened");
+
+  const declared = buildTableModel([{ label: "North", value: 10, region: "North", revenue: 10 }], [
+    { name: "region", type: "category" },
+    { name: "revenue", type: "number" },
+  ]);
+  assert(declared.columns.map(column => column.name).join(",") === "region,revenue", "Declared columns decide what shows");
+  console.log("✅ Column typing");
+
+  const byPrice = sortTableRows(model.rows, "price", "asc").map(row => row.name);
+  assert(byPrice.join(",") === "Gadget,Widget,Doohickey", "Numbers sort numerically, empties last");
+  const byPriceDesc = sortTableRows(model.rows, "price", "desc").map(row => row.name);
+  assert(byPriceDesc.join(",") === "Widget,Gadget,Doohickey", "Empties stay last when descending");
+  const byDate = sortTableRows(model.rows, "launched", "desc").map(row => row.name);
+  assert(byDate[0] === "Widget", "Dates sort chronologically");
+  console.log("✅ Sorting");
+
+  assert(filterTableRows(model.rows, model.columns, "GADG").length === 1, "Filtering is case-insensitive");
+  assert(filterTableRows(model.rows, model.columns, "1,200.50", "$0,0.00").length === 1, "Filtering matches formatted values");
+  assert(filterTableRows(model.rows, model.columns, "  ").length === 3, "A blank filter keeps every row");
+  console.log("✅ Filtering");
+
+  const rows = Array.from({ length: 100 }, (_, index) => index);
+  const last = paginateRows(rows, 9, 12);
+  assert(last.pageCount === 9 && last.page === 8 && last.rows.length === 4, "Pages are clamped and the last page is partial");
+  assert(paginateRows([], 3, 10).pageCount === 1, "Empty tables still have one page");
+  console.log("✅ Pagination");
+
+  assert(formatTableCell(1234.5, "number", "$0,0.00") === "$1,234.50", "Currency format");
+  assert(formatTableCell(0.256, "number", "0.0%") === "25.6%", "Percent format");
+  assert(formatTableCell(1234.5, "number", "0 units") === "1235 units", "Suffix without grouping");
+  assert(formatTableCell("2024-03-09", "date", "DD MMM YYYY") === "09 Mar 2024", "Date format");
+  assert(formatTableCell("2024-03-09", "date", "$0,0") === "2024-03-09", "Number formats leave dates alone");
+  assert(formatTableCell(true, "boolean") === "Yes" && formatTableCell(null, "text") === "", "Booleans and empties");
+  console.log("✅ Formatting");
+
+  const csv = tableToCsv(
+    [{ name: "name", type: "text" }, { name: "note", type: "text" }],
+    [{ name: "A", note: 'says "hi", twice' }, { name: "B", note: null }]
+  );
+  assert(csv === 'name,note\r\nA,"says ""hi"", twice"\r\nB,', `CSV quoting: ${JSON.stringify(csv)}`);
+  console.log("✅ CSV export");
+
+  console.log("\n🎉 Table checks passed");
+}
+
+try {
+  testTable();
+} catch (error) {
+  console.error("❌ Table test failed:", error);
+  process.exit(1);
+}
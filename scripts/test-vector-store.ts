@@ -0,0 +1,120 @@
+/**
+ * Checks the local vector store and the memory manager on top of it, with no
+ * cloud services: search, filters, persistence, memory management and documents.
+ *
+ * Usage: npm run test:vector-store
+ */
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+async function testVectorStore() {
+  console.log("🧪 Testing the local vector store");
+
+  // Deterministic fallback embeddings and no Appwrite, so nothing leaves the process
+  for (const key of ["PINECONE_API_KEY", "HUGGINGFACE_API_KEY", "OPENAI_API_KEY", "APPWRITE_ENDPOINT"]) {
+    delete process.env[key];
+  }
+  const directory = await mkdtemp(path.join(tmpdir(), "orinai-vectors-"));
+  const file = path.join(directory, "vectors.json");
+  process.env.LOCAL_VECTOR_STORE_PATH = file;
+
+  try {
+    const { createLocalVectorStore, createVectorStoreFromEnv } = await import("../src/lib/memory/vector-store");
+    const { UserMemoryManager } = await import("../src/lib/memory/user-memory");
+
+    assert(createVectorStoreFromEnv()?.id === "local", "Without PINECONE_API_KEY the local store is used");
+    process.env.VECTOR_STORE = "off";
+    assert(createVectorStoreFromEnv() === null, "VECTOR_STORE=off disables memory");
+    delete process.env.VECTOR_STORE;
+
+    // 1. The store itself
+    const store = createLocalVectorStore({ file });
+    await store.upsert("", [
+      { id: "a", values: [1, 0, 0], metadata: { userId: "u1", topic: "ev" } },
+      { id: "b", values: [0.8, 0.6, 0], metadata: { userId: "u1", topic: "cloud" } },
+      { id: "c", values: [1, 0, 0], metadata: { userId: "u2", topic: "ev" } },
+    ]);
+    await store.upsert("documents-u1", [{ id: "doc#0", values: [1, 0, 0], metadata: { userId: "u1" } }]);
+
+    const nearest = await store.query("", { vector: [1, 0, 0], topK: 10, filter: { userId: { $eq: "u1" } } });
+    assert(nearest.map(match => match.id).join() === "a,b", `Filtered matches, nearest first: ${nearest.map(match => match.id).join()}`);
+    assert(nearest[0].score === 1 && Math.abs(nearest[1].score - 0.8) < 1e-9, "Scores are cosine similarities");
+    assert(nearest[0].values.length === 0, "Embeddings are only returned when asked for");
+    const withValues = await store.query("", { vector: [0, 1, 0], topK: 1, filter: { topic: { $eq: "cloud" } }, includeValues: true });
+    assert(withValues[0].id === "b" && withValues[0].values.join() === "0.8,0.6,0", "includeValues returns the embedding");
+    assert((await store.query("missing", { vector: [1, 0, 0], topK: 5 })).length === 0, "Unknown namespaces are empty");
+    console.log("✅ Query and filters");
+
+    await store.update("", "a", { metadata: { pinned: true } });
+    await store.update("", "gone", { metadata: { pinned: true } });
+    const fetched = await store.fetch("", ["a", "gone"]);
+    assert(Object.keys(fetched).join() === "a", "Fetch returns the records that exist");
+    assert(fetched.a.metadata.pinned === true && fetched.a.metadata.topic === "ev", "Updates merge metadata");
+
+    await store.delete("", ["c"]);
+    const reopened = createLocalVectorStore({ file });
+    assert(Object.keys(await reopened.fetch("", ["a", "b", "c"])).join() === "a,b", "Records survive a restart, deletes too");
+    assert(Object.keys(await reopened.fetch("documents-u1", ["doc#0"])).length === 1, "Namespaces are kept apart");
+    console.log("✅ Updates and persistence");
+
+    // 2. Memory on the local store
+    const memory = new UserMemoryManager(createLocalVectorStore());
+    assert(memory.isMemoryEnabled(), "Memory works without Pinecone");
+
+    const evId = await memory.storeMemory("user-1", "I track EV market share in the EU", "User asked: ev market", undefined, 6, { topic: "ev market" });
+    const cloudId = await memory.storeMemory("user-1", "Cloud spend by provider", "User asked: cloud spend", undefined, 4, { topic: "cloud" });
+    await memory.storeMemory("user-2", "I track EV market share in the EU", "User asked: ev market");
+    assert(evId && cloudId, "Memories are stored");
+
+    const found = await memory.searchMemories("user-1", "I track EV market share in the EU", 5, 0.99);
+    assert(found.length === 1 && found[0].id === evId, `Search stays within the user: ${found.map(entry => entry.id).join()}`);
+    assert((await memory.getMemory("user-2", evId)) === null, "Another user's memory reads as missing");
+
+    const pinned = await memory.updateMemory("user-1", evId, { pinned: true, content: "I track EV market share in Europe" });
+    assert(pinned?.pinned && pinned.content.endsWith("Europe"), "Memories can be pinned and edited");
+    assert(pinned.importance === 10 && pinned.storedImportance === 6, "Pinned memories count as importance 10");
+    assert((await memory.getMemory("user-1", evId))?.importance === 10, "Reads see the pinned importance too");
+    const unpinned = await memory.updateMemory("user-1", evId, { pinned: false });
+    assert(unpinned?.importance === 6, "Unpinning brings the memory's own importance back");
+    await memory.updateMemory("user-1", evId, { pinned: true });
+    assert((await memory.searchMemories("user-1", "I track EV market share in Europe", 5, 0.99))[0]?.id === evId, "Edited text is re-embedded");
+    assert((await memory.getPinnedMemories("user-1", "markets")).map(entry => entry.id).join() === evId, "Pinned memories are found by filter");
+
+    const page = await memory.listMemories("user-1", { limit: 1 });
+    assert(page.memories.length === 1 && page.nextCursor, "Without Appwrite memories are listed by scanning the store");
+    const nextPage = await memory.listMemories("user-1", { limit: 1, cursor: page.nextCursor });
+    assert(nextPage.memories.length === 1 && nextPage.nextCursor === null, "The scan pages through the rest");
+
+    const removed = await memory.deleteMemories("user-1", { before: new Date(Date.now() + 60_000).toISOString() });
+    assert(removed.map(entry => entry.id).join() === cloudId, "Bulk deletes keep pinned memories");
+    assert((await memory.listMemoryVectors("user-1")).map(entry => entry.id).join() === evId, "Deleted memories are gone");
+    console.log("✅ Memory management");
+
+    // 3. Uploaded documents
+    const stored = await memory.storeDocumentChunks("user-1", "report", "report.pdf", [
+      { text: "Revenue grew 12% in the third quarter", page: 3 },
+      { text: "Headcount stayed flat" },
+    ]);
+    assert(stored === 2, "Document chunks are stored");
+    const hits = await memory.searchDocuments("user-1", "Revenue grew 12% in the third quarter", 1, 0.99);
+    assert(hits.length === 1 && hits[0].fileName === "report.pdf" && hits[0].page === 3, `Documents are searched: ${JSON.stringify(hits)}`);
+    assert((await memory.searchDocuments("user-2", "Revenue grew 12% in the third quarter")).length === 0, "Documents are per user");
+    await memory.deleteDocumentChunks("user-1", "report", stored);
+    assert((await memory.searchDocuments("user-1", "Revenue grew 12% in the third quarter", 5, 0)).length === 0, "Documents can be deleted");
+    console.log("✅ Documents");
+
+    console.log("\n🎉 Vector store checks passed");
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+testVectorStore().catch(error => {
+  console.error("❌ Vector store test failed:", error);
+  process.exit(1);
+});
@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getUser } from "@/lib/appwrite/auth";
-import { saveChatMessage, getUserChatHistory, clearUserChatHistory, getUserChatSessions, getChatSessionMessages } from "@/lib/appwrite/database";
+import {
+  saveChatMessage,
+  getUserChatHistory,
+  clearUserChatHistory,
+  getUserChatSessions,
+  getChatSessionMessages,
+  getChatMessage,
+  updateChatMessage,
+} from "@/lib/appwrite/database";
+import { validateDashboardEdit } from "@/lib/charts/editor";
+import { dashboardSchema } from "@/lib/schemas/dashboard";
 
 const saveMessageSchema = z.object({
   role: z.enum(["user", "assistant"]),
@@ -10,6 +20,14 @@ const saveMessageSchema = z.object({
   dashboardData: z.string().optional(), // JSON string
 });
 
+const updateDashboardSchema = z.object({
+  messageId: z.string().min(1),
+  dashboardData: z.record(z.unknown()), // the edited DashboardOutput
+});
+
+// Size of the dashboardData attribute of the chat collection
+const MAX_DASHBOARD_DATA_LENGTH = 10000;
+
 const getHistorySchema = z.object({
   limit: z.number().min(1).max(100).optional().default(50),
 });
@@ -119,6 +137,78 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// PATCH /api/chat - Replace the dashboard of one of the user's answers (chart editor)
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { messageId, dashboardData } = updateDashboardSchema.parse(body);
+
+    const parsed = dashboardSchema.safeParse(dashboardData);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid dashboard", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const validation = await validateDashboardEdit(parsed.data);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: "Invalid dashboard", details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const serialized = JSON.stringify(parsed.data);
+    if (serialized.length > MAX_DASHBOARD_DATA_LENGTH) {
+      return NextResponse.json(
+        { error: "Dashboard is too large to save; remove some rows" },
+        { status: 400 }
+      );
+    }
+
+    const message = await getChatMessage(messageId);
+    if (!message || message.userId !== user.id || message.role !== "assistant") {
+      return NextResponse.json(
+        { error: "Message not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await updateChatMessage(messageId, { dashboardData: serialized });
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Failed to update chat message" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(updated);
+  } catch (cause) {
+    console.error("[API] Failed to update chat message", cause);
+
+    if (cause instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request payload", details: cause.flatten() },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update chat message" },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(request: NextRequest) {
   try {
     const user = await getUser();
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/lib/appwrite/auth";
+import { DatasetError } from "@/lib/datasets/parse";
+import { createDataset, deleteDataset, listDatasets } from "@/lib/datasets/store";
+
+// GET /api/datasets - List the user's uploaded datasets with their inferred schemas
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const datasets = await listDatasets(user.id);
+  return NextResponse.json({ datasets });
+}
+
+// POST /api/datasets - Upload a CSV, XLSX or JSON file (multipart form field "file")
+export async function POST(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  let file: File;
+  try {
+    const formData = await request.formData();
+    const entry = formData.get("file");
+    if (!(entry instanceof File)) {
+      return NextResponse.json(
+        { error: "A file is required in the \"file\" form field" },
+        { status: 400 }
+      );
+    }
+    file = entry;
+  } catch (error) {
+    console.error("[API] Invalid dataset upload", error);
+    return NextResponse.json({ error: "Expected multipart/form-data" }, { status: 400 });
+  }
+
+  try {
+    const dataset = await createDataset({
+      userId: user.id,
+      fileName: file.name,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+
+    return NextResponse.json({ dataset }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DatasetError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("[API] Dataset upload failed", error);
+    return NextResponse.json(
+      { error: "Failed to process dataset", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/datasets?datasetId=... - Remove a dataset and its stored rows
+export async function DELETE(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const datasetId = new URL(request.url).searchParams.get("datasetId");
+  if (!datasetId) {
+    return NextResponse.json(
+      { error: "datasetId is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deleted = await deleteDataset(user.id, datasetId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Dataset not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[API] Dataset delete failed", error);
+    return NextResponse.json({ error: "Failed to delete dataset" }, { status: 500 });
+  }
+}
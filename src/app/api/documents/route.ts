@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/lib/appwrite/auth";
+import { getUserDocuments } from "@/lib/appwrite/database";
+import { deleteDocument, ingestDocument } from "@/lib/documents/ingest";
+import { DocumentIngestionError } from "@/lib/documents/parsers";
+
+// GET /api/documents - List the user's uploaded documents
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const documents = await getUserDocuments(user.id);
+  return NextResponse.json({ documents });
+}
+
+// POST /api/documents - Upload a document (multipart form field "file") and index it for RAG
+export async function POST(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  let file: File;
+  try {
+    const formData = await request.formData();
+    const entry = formData.get("file");
+    if (!(entry instanceof File)) {
+      return NextResponse.json(
+        { error: "A file is required in the \"file\" form field" },
+        { status: 400 }
+      );
+    }
+    file = entry;
+  } catch (error) {
+    console.error("[API] Invalid document upload", error);
+    return NextResponse.json({ error: "Expected multipart/form-data" }, { status: 400 });
+  }
+
+  try {
+    const document = await ingestDocument({
+      userId: user.id,
+      fileName: file.name,
+      mimeType: file.type || undefined,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+
+    return NextResponse.json({ document }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DocumentIngestionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("[API] Document ingestion failed", error);
+    return NextResponse.json(
+      { error: "Failed to process document", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/documents?documentId=... - Remove a document and its vectors
+export async function DELETE(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const documentId = new URL(request.url).searchParams.get("documentId");
+  if (!documentId) {
+    return NextResponse.json(
+      { error: "documentId is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deleted = await deleteDocument(user.id, documentId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[API] Document delete failed", error);
+    return NextResponse.json({ error: "Failed to delete document" }, { status: 500 });
+  }
+}
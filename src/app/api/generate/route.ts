@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getUser } from "@/lib/appwrite/auth";
-import { processQueryWithMemory, processQuery } from "@/lib/langchain/pipeline-with-memory";
+import { dashboardSchema } from "@/lib/schemas/dashboard";
+import { processQueryWithMemory } from "@/lib/langchain/pipeline-with-memory";
 
 const requestSchema = z.object({
   query: z.string().min(1).max(1000), // Allow 1-1000 characters
   useMemory: z.boolean().optional().default(true),
+  datasetId: z.string().min(1).optional(),
+  sqlSourceId: z.string().min(1).optional(),
+  refine: dashboardSchema.optional(), // the dashboard a follow-up edits
 });
 
 export async function POST(request: NextRequest) {
@@ -14,22 +18,33 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     console.log("[API] Request body:", { query: body.query?.substring(0, 100), useMemory: body.useMemory });
     
-    const { query, useMemory } = requestSchema.parse(body);
+    const { query, useMemory, datasetId, sqlSourceId, refine } = requestSchema.parse(body);
     console.log("[API] Request validation passed");
 
     const user = await getUser();
     const userId = user?.id ?? "anonymous";
     console.log("[API] User info:", { hasUser: !!user, userId: userId.substring(0, 20) });
 
+    // Datasets and SQL databases are only queried for signed-in users
+    if (!user && (datasetId || sqlSourceId)) {
+      return NextResponse.json(
+        { error: "Authentication required to query datasets or databases" },
+        { status: 401 }
+      );
+    }
+
     if (!user) {
       console.info("[API] Proceeding with anonymous dashboard generation");
     }
 
-    // Use memory-enhanced pipeline for authenticated users
+    // Memory is only used for authenticated users
     console.log("[API] Calling pipeline with memory:", user && useMemory);
-    const dashboard = user && useMemory 
-      ? await processQueryWithMemory(query, userId)
-      : await processQuery(query, userId);
+    const dashboard = await processQueryWithMemory(query, userId, {
+      useMemory: !!user && useMemory,
+      datasetId,
+      sqlSourceId,
+      refine,
+    });
     
     console.log("[API] Pipeline completed successfully");
     return NextResponse.json(dashboard);
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getUser } from "@/lib/appwrite/auth";
+import { dashboardSchema } from "@/lib/schemas/dashboard";
+import { createGenerationStream } from "@/lib/streaming/generation";
+import type { DashboardOutput } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const requestSchema = z.object({
+  query: z.string().min(1).max(1000),
+  useMemory: z.boolean().optional().default(true),
+  datasetId: z.string().min(1).optional(),
+  sqlSourceId: z.string().min(1).optional(),
+  refine: dashboardSchema.optional(), // the dashboard a follow-up edits
+});
+
+// POST /api/generate/stream - Generate a dashboard and stream pipeline progress as Server-Sent Events
+export async function POST(request: NextRequest) {
+  let query: string;
+  let useMemory: boolean;
+  let datasetId: string | undefined;
+  let sqlSourceId: string | undefined;
+  let refine: DashboardOutput | undefined;
+
+  try {
+    const body = await request.json();
+    ({ query, useMemory, datasetId, sqlSourceId, refine } = requestSchema.parse(body));
+  } catch (cause) {
+    console.error("[API] Invalid stream request", cause);
+
+    if (cause instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request payload", details: cause.flatten() },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: "Invalid request payload" }, { status: 400 });
+  }
+
+  const user = await getUser();
+  // Datasets and SQL databases are only queried for signed-in users
+  if (!user && (datasetId || sqlSourceId)) {
+    return NextResponse.json(
+      { error: "Authentication required to query datasets or databases" },
+      { status: 401 }
+    );
+  }
+  const userId = user?.id ?? "anonymous";
+  console.log("[API] Streaming generation:", { hasUser: !!user, useMemory: !!user && useMemory });
+
+  const stream = createGenerationStream(query, userId, {
+    useMemory: !!user && useMemory,
+    datasetId,
+    sqlSourceId,
+    refine,
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getUser } from "@/lib/appwrite/auth";
 import { userMemoryManager } from "@/lib/memory/user-memory";
+import { sweepUserMemories } from "@/lib/memory/retention";
+import { consolidateUserMemories } from "@/lib/memory/consolidation";
 import { getUserProfile, createOrUpdateUserProfile } from "@/lib/appwrite/database";
 
 const searchMemorySchema = z.object({
@@ -10,6 +12,29 @@ const searchMemorySchema = z.object({
   minSimilarity: z.number().min(0).max(1).optional().default(0.7),
 });
 
+const recentMemorySchema = z.object({
+  limit: z.number().int().min(1).max(50).optional().default(10),
+  cursor: z.string().min(1).optional(),
+});
+
+const updateMemorySchema = z.object({
+  memoryId: z.string().min(1),
+  content: z.string().min(1).optional(),
+  context: z.string().min(1).optional(),
+  importance: z.number().int().min(1).max(10).optional(),
+  pinned: z.boolean().optional(),
+});
+
+const bulkDeleteSchema = z
+  .object({
+    topic: z.string().min(1).optional(),
+    after: z.string().datetime().optional(),
+    before: z.string().datetime().optional(),
+  })
+  .refine(filter => filter.topic || filter.after || filter.before, {
+    message: "Choose a topic or a date range",
+  });
+
 const updateProfileSchema = z.object({
   preferences: z.object({
     topics: z.array(z.string()).optional(),
@@ -24,7 +49,7 @@ const updateProfileSchema = z.object({
   }),
 });
 
-// GET /api/memory - Search user memories or get user profile
+// GET /api/memory - Search user memories, get user profile or preview the retention sweep
 export async function GET(request: NextRequest) {
   try {
     const user = await getUser();
@@ -71,14 +96,26 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ memories });
     }
     
+    if (action === "retention") {
+      // Dry run: what the retention sweep would delete now
+      const profile = await getUserProfile(user.id);
+      const report = profile
+        ? await sweepUserMemories(user.id, profile.memorySettings.retentionDays, { dryRun: true })
+        : null;
+      return NextResponse.json({ report });
+    }
+    
     if (action === "recent") {
       const limit = searchParams.get("limit");
-      const recentMemories = await userMemoryManager.getRecentMemories(
-        user.id,
-        limit ? parseInt(limit, 10) : 10
-      );
+      const validated = recentMemorySchema.parse({
+        limit: limit ? parseInt(limit, 10) : undefined,
+        cursor: searchParams.get("cursor") || undefined,
+      });
+
+      // Newest first; pass nextCursor back as `cursor` for the next page
+      const page = await userMemoryManager.listMemories(user.id, validated);
       
-      return NextResponse.json({ memories: recentMemories });
+      return NextResponse.json(page);
     }
     
     return NextResponse.json(
@@ -103,7 +140,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/memory - Update user profile or store new memory
+// POST /api/memory - Update user profile, store new memory or consolidate memories
 export async function POST(request: NextRequest) {
   try {
     const user = await getUser();
@@ -146,7 +183,7 @@ export async function POST(request: NextRequest) {
         );
       }
       
-      await userMemoryManager.storeMemory(
+      const memoryId = await userMemoryManager.storeMemory(
         user.id,
         content,
         context,
@@ -155,7 +192,12 @@ export async function POST(request: NextRequest) {
         metadata
       );
       
-      return NextResponse.json({ success: true });
+      return NextResponse.json({ success: true, memoryId });
+    }
+    
+    if (action === "consolidate") {
+      const report = await consolidateUserMemories(user.id, { dryRun: body.dryRun === true });
+      return NextResponse.json({ report });
     }
     
     return NextResponse.json(
@@ -178,4 +220,93 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// PATCH /api/memory - Edit or pin one memory
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { memoryId, ...changes } = updateMemorySchema.parse(await request.json());
+    const memory = await userMemoryManager.updateMemory(user.id, memoryId, changes);
+
+    if (!memory) {
+      return NextResponse.json(
+        { error: "Memory not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ memory });
+  } catch (cause) {
+    console.error("[API] Failed to update memory", cause);
+
+    if (cause instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request payload", details: cause.flatten() },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update memory" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/memory - Delete one memory (?memoryId=) or every unpinned memory on a topic or in a date range (?topic=&after=&before=)
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const memoryId = searchParams.get("memoryId");
+
+    if (memoryId) {
+      const deleted = await userMemoryManager.deleteMemory(user.id, memoryId);
+      if (!deleted) {
+        return NextResponse.json(
+          { error: "Memory not found" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ deleted: 1 });
+    }
+
+    const filter = bulkDeleteSchema.parse({
+      topic: searchParams.get("topic") || undefined,
+      after: searchParams.get("after") || undefined,
+      before: searchParams.get("before") || undefined,
+    });
+    const deleted = await userMemoryManager.deleteMemories(user.id, filter);
+
+    return NextResponse.json({ deleted: deleted.length });
+  } catch (cause) {
+    console.error("[API] Failed to delete memories", cause);
+
+    if (cause instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request parameters", details: cause.flatten() },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete memories" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/lib/appwrite/auth";
+import { ScheduleError } from "@/lib/schedules/cron";
+import { createSavedQuery, editSavedQuery, listSavedQueries, removeSavedQuery } from "@/lib/schedules/store";
+
+// GET /api/saved-queries - List the user's scheduled queries
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const savedQueries = await listSavedQueries(user.id);
+  return NextResponse.json({ savedQueries });
+}
+
+// POST /api/saved-queries - Save a query to rerun: { query, schedule, name?, datasetId?, sqlSourceId?, useMemory?, enabled? }
+export async function POST(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const savedQuery = await createSavedQuery(user.id, await request.json());
+    return NextResponse.json({ savedQuery }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ScheduleError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("[API] Saved query create failed", error);
+    return NextResponse.json({ error: "Failed to save query" }, { status: 500 });
+  }
+}
+
+// PATCH /api/saved-queries - Edit, pause or resume: { savedQueryId, ...fields to change }
+export async function PATCH(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    if (typeof body.savedQueryId !== "string") {
+      return NextResponse.json({ error: "savedQueryId is required" }, { status: 400 });
+    }
+
+    const savedQuery = await editSavedQuery(user.id, body.savedQueryId, body);
+    if (!savedQuery) {
+      return NextResponse.json({ error: "Saved query not found" }, { status: 404 });
+    }
+    return NextResponse.json({ savedQuery });
+  } catch (error) {
+    if (error instanceof ScheduleError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("[API] Saved query update failed", error);
+    return NextResponse.json({ error: "Failed to update saved query" }, { status: 500 });
+  }
+}
+
+// DELETE /api/saved-queries?savedQueryId=... - Remove a saved query and its snapshot history
+export async function DELETE(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const savedQueryId = new URL(request.url).searchParams.get("savedQueryId");
+  if (!savedQueryId) {
+    return NextResponse.json(
+      { error: "savedQueryId is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deleted = await removeSavedQuery(user.id, savedQueryId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Saved query not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[API] Saved query delete failed", error);
+    return NextResponse.json({ error: "Failed to delete saved query" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/lib/appwrite/auth";
+import { runSavedQuery } from "@/lib/schedules/runner";
+import { getSavedQueryRecord } from "@/lib/schedules/store";
+
+// POST /api/saved-queries/run - Refresh a saved query now, outside its schedule: { savedQueryId }
+export async function POST(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    if (typeof body.savedQueryId !== "string") {
+      return NextResponse.json({ error: "savedQueryId is required" }, { status: 400 });
+    }
+
+    const savedQuery = await getSavedQueryRecord(body.savedQueryId, user.id);
+    if (!savedQuery) {
+      return NextResponse.json({ error: "Saved query not found" }, { status: 404 });
+    }
+
+    const snapshot = await runSavedQuery(savedQuery);
+    if (!snapshot) {
+      const failed = await getSavedQueryRecord(body.savedQueryId, user.id);
+      return NextResponse.json({ error: failed?.lastError ?? "Generation failed" }, { status: 502 });
+    }
+    return NextResponse.json({ snapshot }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("[API] Saved query run failed", error);
+    return NextResponse.json({ error: "Failed to run saved query" }, { status: 500 });
+  }
+}
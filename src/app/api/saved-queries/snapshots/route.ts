@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/lib/appwrite/auth";
+import { listSnapshots } from "@/lib/schedules/store";
+
+// GET /api/saved-queries/snapshots?savedQueryId=... - A saved query's snapshot history, newest first
+export async function GET(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const savedQueryId = new URL(request.url).searchParams.get("savedQueryId");
+  if (!savedQueryId) {
+    return NextResponse.json(
+      { error: "savedQueryId is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const snapshots = await listSnapshots(user.id, savedQueryId);
+    if (!snapshots) {
+      return NextResponse.json({ error: "Saved query not found" }, { status: 404 });
+    }
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    console.error("[API] Snapshot list failed", error);
+    return NextResponse.json({ error: "Failed to load snapshots" }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUser } from "@/lib/appwrite/auth";
+import { listSharedDashboards, publishDashboard, ShareError, updateShare } from "@/lib/sharing/store";
+
+// GET /api/shares - List the dashboards the user has published
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const shares = await listSharedDashboards(user.id);
+  return NextResponse.json({ shares });
+}
+
+// POST /api/shares - Publish a dashboard: { dashboard, visibility, expiresAt? }
+export async function POST(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const share = await publishDashboard({
+      userId: user.id,
+      dashboard: body.dashboard,
+      visibility: body.visibility ?? "link",
+      expiresAt: body.expiresAt,
+    });
+
+    return NextResponse.json({ share }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ShareError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("[API] Dashboard publish failed", error);
+    return NextResponse.json({ error: "Failed to publish dashboard" }, { status: 500 });
+  }
+}
+
+// PATCH /api/shares - Change visibility or expiry: { shareId, visibility?, expiresAt? (null clears) }
+export async function PATCH(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    if (typeof body.shareId !== "string") {
+      return NextResponse.json({ error: "shareId is required" }, { status: 400 });
+    }
+
+    const share = await updateShare(user.id, body.shareId, {
+      visibility: body.visibility,
+      expiresAt: body.expiresAt,
+    });
+    if (!share) {
+      return NextResponse.json({ error: "Share not found" }, { status: 404 });
+    }
+    return NextResponse.json({ share });
+  } catch (error) {
+    if (error instanceof ShareError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("[API] Share update failed", error);
+    return NextResponse.json({ error: "Failed to update share" }, { status: 500 });
+  }
+}
+
+// DELETE /api/shares?shareId=... - Revoke a share; its link stops working for good
+export async function DELETE(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const shareId = new URL(request.url).searchParams.get("shareId");
+  if (!shareId) {
+    return NextResponse.json(
+      { error: "shareId is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const share = await updateShare(user.id, shareId, { revoke: true });
+    if (!share) {
+      return NextResponse.json({ error: "Share not found" }, { status: 404 });
+    }
+    return NextResponse.json({ share });
+  } catch (error) {
+    console.error("[API] Share revoke failed", error);
+    return NextResponse.json({ error: "Failed to revoke share" }, { status: 500 });
+  }
+}
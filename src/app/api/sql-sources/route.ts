@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getUser } from "@/lib/appwrite/auth";
+import { listSqlSources } from "@/lib/sql";
+
+// GET /api/sql-sources - SQL databases that questions can be answered from
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const sources = listSqlSources().map(({ id, label, dialect }) => ({ id, label, dialect }));
+  return NextResponse.json({ sources });
+}
@@ -0,0 +1,79 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getUser } from "@/lib/appwrite/auth";
+import { loadSharedDashboard, type ShareAccess } from "@/lib/sharing/store";
+import { ReadOnlyDashboard } from "@/components/dashboard/ReadOnlyDashboard";
+
+interface SharedDashboardPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const UNAVAILABLE: Record<Exclude<ShareAccess["status"], "ok" | "not_found">, { title: string; message: string }> = {
+  forbidden: { title: "This dashboard is private", message: "Sign in with the account that shared it to view it." },
+  expired: { title: "This link has expired", message: "Ask the owner to share the dashboard again." },
+  revoked: { title: "This link was revoked", message: "The owner has stopped sharing this dashboard." },
+};
+
+async function resolveShare(id: string): Promise<ShareAccess> {
+  // Only private shares need to know who is looking
+  const access = await loadSharedDashboard(id, null);
+  if (access.status !== "forbidden") return access;
+  const user = await getUser();
+  return user ? loadSharedDashboard(id, user.id) : access;
+}
+
+export async function generateMetadata({ params }: SharedDashboardPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const access = await resolveShare(id);
+  if (access.status !== "ok") {
+    return { title: "Shared dashboard — ORIN.AI", robots: { index: false } };
+  }
+
+  return {
+    title: `${access.dashboard.title} — ORIN.AI`,
+    description: access.dashboard.summary,
+    robots: { index: access.share.visibility === "public", follow: false },
+  };
+}
+
+// GET /d/[id] - Read-only view of a published dashboard; no login unless it is private
+export default async function SharedDashboardPage({ params }: SharedDashboardPageProps) {
+  const { id } = await params;
+  const access = await resolveShare(id);
+
+  if (access.status === "not_found") {
+    notFound();
+  }
+
+  if (access.status !== "ok") {
+    const { title, message } = UNAVAILABLE[access.status];
+    return (
+      <main className="flex min-h-screen items-center justify-center p-6">
+        <div className="max-w-md space-y-3 text-center">
+          <h1 className="text-2xl font-semibold">{title}</h1>
+          <p className="text-slate-600 dark:text-slate-400">{message}</p>
+          <Link href="/" className="inline-block text-sm font-medium text-blue-600 hover:underline dark:text-blue-400">
+            Go to ORIN.AI
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  const { dashboard, share } = access;
+  return (
+    <main className="min-h-screen bg-white text-slate-900 dark:bg-slate-950 dark:text-slate-100">
+      <ReadOnlyDashboard
+        dashboard={dashboard}
+        footer={
+          <footer className="border-t border-slate-200 pt-4 text-xs text-slate-500 dark:border-slate-800 dark:text-slate-400">
+            Shared {new Date(share.createdAt).toLocaleDateString("en-US", { dateStyle: "medium" })}
+            {share.expiresAt && ` · expires ${new Date(share.expiresAt).toLocaleDateString("en-US", { dateStyle: "medium" })}`}
+            {" · "}Read-only view generated with <Link href="/" className="underline">ORIN.AI</Link>
+          </footer>
+        }
+      />
+    </main>
+  );
+}
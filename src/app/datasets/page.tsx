@@ -0,0 +1,15 @@
+import { DatasetUploadPanel } from "@/components/datasets/DatasetUploadPanel";
+
+interface DatasetsPageProps {
+  searchParams: Promise<{ datasetId?: string }>;
+}
+
+export default async function DatasetsPage({ searchParams }: DatasetsPageProps) {
+  const { datasetId } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DatasetUploadPanel highlightedDatasetId={datasetId} />
+    </div>
+  );
+}
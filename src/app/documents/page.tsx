@@ -0,0 +1,18 @@
+import { DocumentUploadPanel } from "@/components/documents/DocumentUploadPanel";
+
+interface DocumentsPageProps {
+  searchParams: Promise<{ documentId?: string; page?: string }>;
+}
+
+export default async function DocumentsPage({ searchParams }: DocumentsPageProps) {
+  const { documentId, page } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DocumentUploadPanel
+        highlightedDocumentId={documentId}
+        highlightedPage={page ? Number(page) || undefined : undefined}
+      />
+    </div>
+  );
+}
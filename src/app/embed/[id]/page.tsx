@@ -0,0 +1,52 @@
+import type { Metadata } from "next";
+import { loadSharedDashboard, sharePath } from "@/lib/sharing/store";
+import { isEmbeddable, parseEmbedOptions } from "@/lib/sharing/embed";
+import { EmbedFrame } from "@/components/dashboard/EmbedFrame";
+import { ReadOnlyDashboard } from "@/components/dashboard/ReadOnlyDashboard";
+
+interface EmbedPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const UNAVAILABLE_MESSAGES: Record<string, string> = {
+  expired: "This embedded dashboard has expired.",
+  revoked: "This embedded dashboard is no longer shared.",
+};
+
+export const metadata: Metadata = {
+  title: "ORIN.AI dashboard",
+  robots: { index: false },
+};
+
+// GET /embed/[id]?theme=light|dark&width=&height= - A published dashboard without any
+// app chrome, for iframes. Private shares are never embedded.
+export default async function EmbedPage({ params, searchParams }: EmbedPageProps) {
+  const { id } = await params;
+  const options = parseEmbedOptions(await searchParams);
+  const access = await loadSharedDashboard(id, null);
+
+  if (access.status !== "ok" || !isEmbeddable(access.share.visibility)) {
+    return (
+      <EmbedFrame shareId={id} options={options}>
+        <p className="p-6 text-center text-sm opacity-70">
+          {UNAVAILABLE_MESSAGES[access.status] ?? "This dashboard is not available for embedding."}
+        </p>
+      </EmbedFrame>
+    );
+  }
+
+  return (
+    <EmbedFrame shareId={id} options={options}>
+      <ReadOnlyDashboard
+        dashboard={access.dashboard}
+        compact
+        footer={
+          <a href={sharePath(id)} target="_blank" rel="noopener noreferrer" className="block text-right text-xs opacity-60 hover:opacity-100">
+            Open in ORIN.AI ↗
+          </a>
+        }
+      />
+    </EmbedFrame>
+  );
+}
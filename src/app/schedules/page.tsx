@@ -0,0 +1,9 @@
+import { SavedQueriesPanel } from "@/components/schedules/SavedQueriesPanel";
+
+export default function SchedulesPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <SavedQueriesPanel />
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { motion } from "framer-motion";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { DashboardOutput } from "@/types";
+import { toCandles, type Candle } from "@/lib/charts/transforms";
+
+const UP_COLOR = "#14b8a6";
+const DOWN_COLOR = "#ef4444";
+
+interface CandlestickChartRendererProps {
+  dashboard: DashboardOutput;
+}
+
+interface CandleShapeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: Candle;
+}
+
+// The bar spans low..high; the body is placed inside it by scaling open/close
+function CandleShape({ x, y, width, height, payload }: CandleShapeProps) {
+  const { open, close, high, low } = payload;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const span = high - low || 1;
+  const toY = (price: number) => y + ((high - price) / span) * height;
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, toY(Math.min(open, close)) - bodyTop);
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1.5} />
+      <rect x={x + width * 0.2} y={bodyTop} width={width * 0.6} height={bodyHeight} fill={color} rx={1} />
+    </g>
+  );
+}
+
+function CandlestickChartRenderer({ dashboard }: CandlestickChartRendererProps) {
+  const candles = toCandles(dashboard.data);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-2xl border border-slate-800 bg-gradient-to-br from-slate-900/80 to-slate-800/60 p-8 shadow-xl"
+    >
+      <h2 className="text-2xl font-bold text-white">{dashboard.title}</h2>
+      {dashboard.summary && (
+        <p className="mt-2 text-sm text-slate-300 leading-relaxed">{dashboard.summary}</p>
+      )}
+
+      <div className="mt-8 h-[360px] w-full">
+        <ResponsiveContainer>
+          <BarChart data={candles}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis dataKey="label" stroke="#94a3b8" tickLine={false} axisLine={false} />
+            <YAxis domain={["auto", "auto"]} stroke="#94a3b8" tickLine={false} axisLine={false} />
+            <Tooltip
+              content={({ active, payload }) => {
+                const candle = active ? (payload?.[0]?.payload as Candle | undefined) : undefined;
+                if (!candle) return null;
+                return (
+                  <div className="rounded-xl border border-slate-800 bg-slate-900 px-3 py-2 text-xs text-slate-200">
+                    <div className="mb-1 font-semibold">{candle.label}</div>
+                    <div>Open {candle.open.toLocaleString()}</div>
+                    <div>High {candle.high.toLocaleString()}</div>
+                    <div>Low {candle.low.toLocaleString()}</div>
+                    <div>Close {candle.close.toLocaleString()}</div>
+                  </div>
+                );
+              }}
+            />
+            <Bar
+              dataKey="range"
+              isAnimationActive={false}
+              shape={(props: unknown) => <CandleShape {...(props as CandleShapeProps)} />}
+            />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </motion.div>
+  );
+}
+
+export default CandlestickChartRenderer;
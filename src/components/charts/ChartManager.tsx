@@ -1,7 +1,10 @@
 "use client";
 
-import type { DashboardOutput, VisualizationType } from "@/types";
+import type { DashboardOutput } from "@/types";
 import { lazy, Suspense } from "react";
+import { detectChartConfig, detectOptimalChartType } from "@/lib/charts/detection";
+
+export { detectChartConfig, detectOptimalChartType };
 
 // Lazy load all chart components for better performance
 const BarChartRenderer = lazy(() => import("./BarChartRenderer"));
@@ -14,93 +17,18 @@ const TreemapRenderer = lazy(() => import("./TreemapRenderer"));
 const HeatmapRenderer = lazy(() => import("./HeatmapRenderer"));
 const GaugeChartRenderer = lazy(() => import("./GaugeChartRenderer"));
 const FunnelChartRenderer = lazy(() => import("./FunnelChartRenderer"));
+const WaterfallChartRenderer = lazy(() => import("./WaterfallChartRenderer"));
+const SankeyDiagramRenderer = lazy(() => import("./SankeyDiagramRenderer"));
+const BubbleChartRenderer = lazy(() => import("./BubbleChartRenderer"));
+const CandlestickChartRenderer = lazy(() => import("./CandlestickChartRenderer"));
+const HistogramRenderer = lazy(() => import("./HistogramRenderer"));
+const TableRenderer = lazy(() => import("./TableRenderer"));
 const AnalyticsSummaryRenderer = lazy(() => import("./AnalyticsSummaryRenderer"));
 
 interface ChartManagerProps {
   dashboard: DashboardOutput;
 }
 
-// Chart configuration auto-detection based on data structure
-export function detectOptimalChartType(data: Record<string, unknown>[]): VisualizationType {
-  if (!data || data.length === 0) return "text";
-
-  const firstItem = data[0];
-  const hasLabel = firstItem.label || firstItem.name;
-  const hasValue = typeof firstItem.value === "number";
-  const hasXY = firstItem.x !== undefined && firstItem.y !== undefined;
-  const hasMultipleMetrics = Object.keys(firstItem).filter(key => 
-    typeof firstItem[key] === "number" && key !== "value"
-  ).length > 1;
-
-  // Detection logic
-  if (hasXY) return "scatter_plot";
-  if (hasMultipleMetrics && data.length <= 8) return "radar_chart";
-  if (data.length === 1 && hasValue) return "gauge_chart";
-  if (data.length <= 5 && hasLabel && hasValue) return "pie_chart";
-  if (data.length > 5 && data.length <= 20 && hasLabel && hasValue) return "bar_chart";
-  if (data.length > 20 && hasLabel && hasValue) return "line_chart";
-  if (data.length > 50) return "heatmap";
-  
-  return "analytics_summary";
-}
-
-// Enhanced chart configuration auto-detection
-export function detectChartConfig(data: Record<string, unknown>[], chartType: VisualizationType) {
-  const config: Record<string, unknown> = {
-    animation: true,
-    responsive: true,
-    legend: true,
-    gridLines: true,
-    tooltip: { enabled: true },
-  };
-
-  if (!data || data.length === 0) return config;
-
-  const firstItem = data[0];
-  const keys = Object.keys(firstItem);
-
-  // Auto-detect axes
-  const labelKeys = keys.filter(key => 
-    typeof firstItem[key] === "string" || key.includes("label") || key.includes("name")
-  );
-  const valueKeys = keys.filter(key => 
-    typeof firstItem[key] === "number" && !key.includes("id")
-  );
-
-  if (labelKeys.length > 0) config.xAxis = labelKeys[0];
-  if (valueKeys.length > 0) config.yAxis = valueKeys[0];
-
-  // Chart-specific configurations
-  switch (chartType) {
-    case "scatter_plot":
-      config.chartSpecific = {
-        size: valueKeys.find(key => key.includes("size")) || valueKeys[2] || "size"
-      };
-      break;
-    case "radar_chart":
-      config.chartSpecific = {
-        polarAngleAxis: labelKeys[0] || "subject",
-        polarRadiusAxis: valueKeys[0] || "value"
-      };
-      break;
-    case "gauge_chart":
-      const values = data.map(d => Number(d.value) || 0).filter(v => v > 0);
-      config.chartSpecific = {
-        min: 0,
-        max: Math.max(...values) * 1.2,
-        gaugeTarget: Math.max(...values) * 0.8
-      };
-      break;
-    case "heatmap":
-      config.chartSpecific = {
-        intensity: valueKeys[0] || "value"
-      };
-      break;
-  }
-
-  return config;
-}
-
 function ChartLoadingFallback() {
   return (
     <div className="rounded-2xl border border-slate-800 bg-gradient-to-br from-slate-900/80 to-slate-800/60 p-8 shadow-xl h-96 flex items-center justify-center">
@@ -111,12 +39,12 @@ function ChartLoadingFallback() {
 
 export function ChartManager({ dashboard }: ChartManagerProps) {
   // Auto-detect chart type if not specified or optimize existing type
-  const optimalType = detectOptimalChartType(dashboard.data);
+  const optimalType = detectOptimalChartType(dashboard.data, dashboard.columns);
   const chartType = dashboard.type === "text" || !dashboard.type ? optimalType : dashboard.type;
   
   // Auto-enhance configuration
   const enhancedConfig = {
-    ...detectChartConfig(dashboard.data, chartType),
+    ...detectChartConfig(dashboard.data, chartType, dashboard.columns),
     ...dashboard.config
   };
 
@@ -148,6 +76,18 @@ export function ChartManager({ dashboard }: ChartManagerProps) {
         return <GaugeChartRenderer dashboard={enhancedDashboard} />;
       case "funnel_chart":
         return <FunnelChartRenderer dashboard={enhancedDashboard} />;
+      case "waterfall_chart":
+        return <WaterfallChartRenderer dashboard={enhancedDashboard} />;
+      case "sankey_diagram":
+        return <SankeyDiagramRenderer dashboard={enhancedDashboard} />;
+      case "bubble_chart":
+        return <BubbleChartRenderer dashboard={enhancedDashboard} />;
+      case "candlestick_chart":
+        return <CandlestickChartRenderer dashboard={enhancedDashboard} />;
+      case "histogram":
+        return <HistogramRenderer dashboard={enhancedDashboard} />;
+      case "table":
+        return <TableRenderer dashboard={enhancedDashboard} />;
       case "analytics_summary":
         return <AnalyticsSummaryRenderer dashboard={enhancedDashboard} />;
       default:
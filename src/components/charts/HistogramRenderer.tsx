@@ -0,0 +1,58 @@
+"use client";
+
+import { motion } from "framer-motion";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { DashboardOutput } from "@/types";
+import { toHistogramData } from "@/lib/charts/transforms";
+
+interface HistogramRendererProps {
+  dashboard: DashboardOutput;
+}
+
+function HistogramRenderer({ dashboard }: HistogramRendererProps) {
+  const bins = toHistogramData(dashboard.data, dashboard.config?.yAxis ?? "value");
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-2xl border border-slate-800 bg-gradient-to-br from-slate-900/80 to-slate-800/60 p-8 shadow-xl"
+    >
+      <h2 className="text-2xl font-bold text-white">{dashboard.title}</h2>
+      {dashboard.summary && (
+        <p className="mt-2 text-sm text-slate-300 leading-relaxed">{dashboard.summary}</p>
+      )}
+
+      <div className="mt-8 h-[360px] w-full">
+        <ResponsiveContainer>
+          {/* Adjacent bars without gaps read as a continuous distribution */}
+          <BarChart data={bins} barCategoryGap={1}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis dataKey="label" stroke="#94a3b8" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} stroke="#94a3b8" tickLine={false} axisLine={false} />
+            <Tooltip
+              formatter={value => [value, "Count"]}
+              contentStyle={{
+                backgroundColor: "#0f172a",
+                borderRadius: 12,
+                border: "1px solid #1e293b",
+                color: "#e2e8f0",
+              }}
+            />
+            <Bar dataKey="count" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </motion.div>
+  );
+}
+
+export default HistogramRenderer;
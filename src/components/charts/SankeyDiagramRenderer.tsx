@@ -0,0 +1,89 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Sankey, Tooltip, ResponsiveContainer, Layer, Rectangle } from "recharts";
+import type { DashboardOutput } from "@/types";
+import { toSankeyGraph } from "@/lib/charts/transforms";
+
+const COLORS = ["#8b5cf6", "#0ea5e9", "#f97316", "#14b8a6", "#facc15", "#ef4444"];
+
+interface SankeyDiagramRendererProps {
+  dashboard: DashboardOutput;
+}
+
+interface SankeyNodeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  index: number;
+  payload: { name: string; value: number };
+  containerWidth: number;
+}
+
+function SankeyNode({ x, y, width, height, index, payload, containerWidth }: SankeyNodeProps) {
+  // Labels sit outside the node, on whichever side has room
+  const isRightEdge = x + width + 6 > containerWidth / 2;
+
+  return (
+    <Layer key={`node-${index}`}>
+      <Rectangle x={x} y={y} width={width} height={height} fill={COLORS[index % COLORS.length]} fillOpacity={0.9} />
+      <text
+        x={isRightEdge ? x - 6 : x + width + 6}
+        y={y + height / 2}
+        textAnchor={isRightEdge ? "end" : "start"}
+        dominantBaseline="middle"
+        fill="#e2e8f0"
+        fontSize="12"
+      >
+        {payload.name}
+      </text>
+    </Layer>
+  );
+}
+
+function SankeyDiagramRenderer({ dashboard }: SankeyDiagramRendererProps) {
+  const graph = toSankeyGraph(dashboard.data, dashboard.config);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-2xl border border-slate-800 bg-gradient-to-br from-slate-900/80 to-slate-800/60 p-8 shadow-xl"
+    >
+      <h2 className="text-2xl font-bold text-white">{dashboard.title}</h2>
+      {dashboard.summary && (
+        <p className="mt-2 text-sm text-slate-300 leading-relaxed">{dashboard.summary}</p>
+      )}
+
+      <div className="mt-8 h-[360px] w-full">
+        {graph.links.length === 0 ? (
+          <div className="flex h-full items-center justify-center text-sm text-slate-400">
+            No flows to draw
+          </div>
+        ) : (
+          <ResponsiveContainer>
+            <Sankey
+              data={graph}
+              nodePadding={24}
+              margin={{ top: 10, right: 20, bottom: 10, left: 20 }}
+              link={{ stroke: "#0ea5e9", strokeOpacity: 0.3 }}
+              node={(props: SankeyNodeProps) => <SankeyNode {...props} />}
+            >
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "#0f172a",
+                  borderRadius: 12,
+                  border: "1px solid #1e293b",
+                  color: "#e2e8f0",
+                }}
+              />
+            </Sankey>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+export default SankeyDiagramRenderer;
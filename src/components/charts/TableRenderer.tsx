@@ -0,0 +1,193 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import type { DashboardOutput } from "@/types";
+import {
+  buildTableModel,
+  filterTableRows,
+  formatTableCell,
+  paginateRows,
+  sortTableRows,
+  tableToCsv,
+  TABLE_PAGE_SIZES,
+  type SortDirection,
+} from "@/lib/charts/table";
+
+const TYPE_BADGES: Record<string, string> = {
+  number: "123",
+  date: "📅",
+  boolean: "✓✗",
+  category: "Aa",
+  text: "¶",
+};
+
+interface TableRendererProps {
+  dashboard: DashboardOutput;
+}
+
+function TableRenderer({ dashboard }: TableRendererProps) {
+  const model = useMemo(() => buildTableModel(dashboard.data, dashboard.columns), [dashboard.data, dashboard.columns]);
+  const format = dashboard.config?.tooltip?.format;
+
+  const [filter, setFilter] = useState("");
+  const [sort, setSort] = useState<{ column: string; direction: SortDirection } | null>(null);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState<number>(TABLE_PAGE_SIZES[0]);
+  const [copied, setCopied] = useState(false);
+
+  const visibleRows = useMemo(() => {
+    const filtered = filterTableRows(model.rows, model.columns, filter, format);
+    return sort ? sortTableRows(filtered, sort.column, sort.direction) : filtered;
+  }, [model, filter, format, sort]);
+  const current = paginateRows(visibleRows, page, pageSize);
+
+  const toggleSort = (column: string) => {
+    setSort(previous => {
+      if (previous?.column !== column) return { column, direction: "asc" };
+      return previous.direction === "asc" ? { column, direction: "desc" } : null;
+    });
+  };
+
+  const copyCsv = async () => {
+    try {
+      await navigator.clipboard.writeText(tableToCsv(model.columns, visibleRows));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy table as CSV:", error);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-2xl border border-slate-800 bg-gradient-to-br from-slate-900/80 to-slate-800/60 p-8 shadow-xl"
+    >
+      <h2 className="text-2xl font-bold text-white">{dashboard.title}</h2>
+      {dashboard.summary && (
+        <p className="mt-2 text-sm text-slate-300 leading-relaxed">{dashboard.summary}</p>
+      )}
+
+      <div className="mt-6 flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={filter}
+          onChange={event => {
+            setFilter(event.target.value);
+            setPage(0);
+          }}
+          placeholder="Filter rows…"
+          className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-900/60 px-3 py-2 text-sm text-slate-200 placeholder:text-slate-500 focus:border-sky-500 focus:outline-none"
+        />
+        <button
+          type="button"
+          onClick={copyCsv}
+          className="rounded-lg border border-slate-700 px-3 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800"
+        >
+          {copied ? "Copied!" : "Copy as CSV"}
+        </button>
+      </div>
+
+      <div className="mt-4 overflow-x-auto rounded-xl border border-slate-800">
+        <table className="w-full text-left text-sm text-slate-200">
+          <thead className="bg-slate-900/80 text-xs uppercase tracking-wide text-slate-400">
+            <tr>
+              {model.columns.map(column => {
+                const direction = sort?.column === column.name ? sort.direction : undefined;
+                return (
+                  <th
+                    key={column.name}
+                    scope="col"
+                    aria-sort={direction === "asc" ? "ascending" : direction === "desc" ? "descending" : "none"}
+                    className={`px-4 py-3 ${column.type === "number" ? "text-right" : ""}`}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column.name)}
+                      className="inline-flex items-center gap-2 font-semibold hover:text-white"
+                      title={`${column.type} column, click to sort`}
+                    >
+                      <span className="rounded bg-slate-800 px-1 text-[10px] normal-case text-slate-500">{TYPE_BADGES[column.type]}</span>
+                      {column.name}
+                      <span className="w-3 text-slate-500">{direction === "asc" ? "▲" : direction === "desc" ? "▼" : ""}</span>
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {current.rows.length === 0 ? (
+              <tr>
+                <td colSpan={model.columns.length || 1} className="px-4 py-8 text-center text-slate-400">
+                  No rows match “{filter}”
+                </td>
+              </tr>
+            ) : (
+              current.rows.map((row, index) => (
+                <tr key={index} className="border-t border-slate-800 hover:bg-slate-800/40">
+                  {model.columns.map(column => (
+                    <td
+                      key={column.name}
+                      className={`px-4 py-2 ${column.type === "number" ? "text-right tabular-nums" : ""}`}
+                    >
+                      {formatTableCell(row[column.name] ?? null, column.type, format)}
+                    </td>
+                  ))}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+        <span>
+          {visibleRows.length === model.rows.length
+            ? `${model.rows.length} rows`
+            : `${visibleRows.length} of ${model.rows.length} rows`}
+        </span>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2">
+            Rows per page
+            <select
+              value={pageSize}
+              onChange={event => {
+                setPageSize(Number(event.target.value));
+                setPage(0);
+              }}
+              className="rounded border border-slate-700 bg-slate-900 px-2 py-1 text-slate-200"
+            >
+              {TABLE_PAGE_SIZES.map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={() => setPage(current.page - 1)}
+            disabled={current.page === 0}
+            className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
+          >
+            Previous
+          </button>
+          <span>
+            Page {current.page + 1} of {current.pageCount}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage(current.page + 1)}
+            disabled={current.page >= current.pageCount - 1}
+            className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+export default TableRenderer;
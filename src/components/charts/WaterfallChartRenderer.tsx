@@ -0,0 +1,83 @@
+"use client";
+
+import { motion } from "framer-motion";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Cell,
+} from "recharts";
+import type { DashboardOutput } from "@/types";
+import { toWaterfallSteps, type WaterfallStep } from "@/lib/charts/transforms";
+
+const STEP_COLORS: Record<WaterfallStep["kind"], string> = {
+  increase: "#14b8a6",
+  decrease: "#ef4444",
+  total: "#0ea5e9",
+};
+
+interface WaterfallChartRendererProps {
+  dashboard: DashboardOutput;
+}
+
+function WaterfallChartRenderer({ dashboard }: WaterfallChartRendererProps) {
+  const steps = toWaterfallSteps(dashboard.data, dashboard.config?.yAxis ?? "value");
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-2xl border border-slate-800 bg-gradient-to-br from-slate-900/80 to-slate-800/60 p-8 shadow-xl"
+    >
+      <h2 className="text-2xl font-bold text-white">{dashboard.title}</h2>
+      {dashboard.summary && (
+        <p className="mt-2 text-sm text-slate-300 leading-relaxed">{dashboard.summary}</p>
+      )}
+
+      <div className="mt-8 h-[360px] w-full">
+        <ResponsiveContainer>
+          <BarChart data={steps}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis dataKey="label" stroke="#94a3b8" tickLine={false} axisLine={false} />
+            <YAxis stroke="#94a3b8" tickLine={false} axisLine={false} />
+            <ReferenceLine y={0} stroke="#475569" />
+            <Tooltip
+              formatter={(_range, _name, item) => {
+                const step = item.payload as WaterfallStep;
+                const sign = step.kind === "increase" ? "+" : "";
+                return [`${sign}${step.delta.toLocaleString()}`, step.kind === "total" ? "Total" : "Change"];
+              }}
+              contentStyle={{
+                backgroundColor: "#0f172a",
+                borderRadius: 12,
+                border: "1px solid #1e293b",
+                color: "#e2e8f0",
+              }}
+            />
+            <Bar dataKey="range" radius={[4, 4, 4, 4]}>
+              {steps.map((step, index) => (
+                <Cell key={`cell-${index}`} fill={STEP_COLORS[step.kind]} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 flex gap-4 text-xs text-slate-400">
+        {(Object.keys(STEP_COLORS) as WaterfallStep["kind"][]).map(kind => (
+          <span key={kind} className="flex items-center gap-2">
+            <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: STEP_COLORS[kind] }} />
+            {kind.charAt(0).toUpperCase() + kind.slice(1)}
+          </span>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
+
+export default WaterfallChartRenderer;
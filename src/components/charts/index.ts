@@ -9,6 +9,12 @@ export { default as TreemapRenderer } from "./TreemapRenderer";
 export { default as HeatmapRenderer } from "./HeatmapRenderer";
 export { default as GaugeChartRenderer } from "./GaugeChartRenderer";
 export { default as FunnelChartRenderer } from "./FunnelChartRenderer";
+export { default as WaterfallChartRenderer } from "./WaterfallChartRenderer";
+export { default as SankeyDiagramRenderer } from "./SankeyDiagramRenderer";
+export { default as BubbleChartRenderer } from "./BubbleChartRenderer";
+export { default as CandlestickChartRenderer } from "./CandlestickChartRenderer";
+export { default as HistogramRenderer } from "./HistogramRenderer";
+export { default as TableRenderer } from "./TableRenderer";
 export { default as AnalyticsSummaryRenderer } from "./AnalyticsSummaryRenderer";
 
 // Chart Management
@@ -26,6 +32,12 @@ export const SUPPORTED_CHART_TYPES = [
   "heatmap",
   "gauge_chart",
   "funnel_chart",
+  "waterfall_chart",
+  "sankey_diagram",
+  "bubble_chart",
+  "candlestick_chart",
+  "histogram",
+  "table",
   "analytics_summary"
 ] as const;
 
@@ -81,6 +93,36 @@ export const CHART_TYPE_METADATA = {
     dataRequirements: { minPoints: 3, maxPoints: 10, requiresOrder: true },
     performance: "high"
   },
+  waterfall_chart: {
+    bestFor: ["cumulative change", "profit bridges", "budget variance"],
+    dataRequirements: { minPoints: 3, maxPoints: 30, requiresOrder: true },
+    performance: "high"
+  },
+  sankey_diagram: {
+    bestFor: ["flows", "allocations", "user journeys"],
+    dataRequirements: { minPoints: 2, maxPoints: 100, requiresSourceTarget: true },
+    performance: "medium"
+  },
+  bubble_chart: {
+    bestFor: ["three-variable correlation", "portfolio analysis", "market sizing"],
+    dataRequirements: { minPoints: 3, maxPoints: 200, requiresXY: true, requiresSize: true },
+    performance: "medium"
+  },
+  candlestick_chart: {
+    bestFor: ["price movements", "trading ranges", "volatility"],
+    dataRequirements: { minPoints: 5, maxPoints: 100, requiresOHLC: true },
+    performance: "medium"
+  },
+  histogram: {
+    bestFor: ["distributions", "frequency analysis", "outlier spotting"],
+    dataRequirements: { minPoints: 10, maxPoints: 1000, requiresSamples: true },
+    performance: "high"
+  },
+  table: {
+    bestFor: ["exact values", "many attributes", "lookups"],
+    dataRequirements: { minPoints: 1, maxPoints: 100, requiresNothing: true },
+    performance: "high"
+  },
   analytics_summary: {
     bestFor: ["overview", "multiple metrics", "dashboard"],
     dataRequirements: { minPoints: 1, maxPoints: 1000, requiresNothing: true },
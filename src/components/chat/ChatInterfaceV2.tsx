@@ -1,7 +1,9 @@
 "use client";
 
-import { useCallback, useState, useEffect } from "react";
+import { useCallback, useMemo, useState, useEffect } from "react";
 import { MessageBubble } from "@/components/chat/MessageBubble";
+import { DashboardDiffModal } from "@/components/dashboard/DashboardDiffModal";
+import { ChartEditorPanel } from "@/components/dashboard/ChartEditorPanel";
 import { ProgressIndicator } from "@/components/ui/ProgressIndicator";
 import { 
   RiRobot2Line, 
@@ -11,9 +13,15 @@ import {
   RiRocketLine, 
   RiBrainLine, 
   RiGlobalLine,
-  RiSave3Line
+  RiSave3Line,
+  RiArrowGoBackLine,
+  RiArrowGoForwardLine,
+  RiEditLine
 } from "react-icons/ri";
 import type { DashboardOutput } from "@/types";
+import { looksLikeRefinement } from "@/lib/charts/refine";
+import type { GenerationStreamEvent } from "@/lib/langchain/pipeline-with-memory";
+import { readSSEStream } from "@/lib/streaming/sse";
 
 interface ChatMessage {
   id: string;
@@ -32,6 +40,30 @@ interface ChatInterfaceV2Props {
   onSessionCreated?: (sessionId: string) => void;
 }
 
+// The same question asked again: the recorded query, else the user message before the answer
+function questionKey(messages: ChatMessage[], index: number): string {
+  const query = messages[index].dashboardData?.query ?? (messages[index - 1]?.role === "user" ? messages[index - 1].content : "");
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * For every dashboard answer, the most recent earlier answer to the same question,
+ * so regenerated dashboards can be compared with what they replaced.
+ */
+function findPreviousAnswers(messages: ChatMessage[]): Map<string, DashboardOutput> {
+  const previous = new Map<string, DashboardOutput>();
+  const latestByQuestion = new Map<string, DashboardOutput>();
+  messages.forEach((message, index) => {
+    if (message.role !== "assistant" || !message.dashboardData) return;
+    const key = questionKey(messages, index);
+    if (!key) return;
+    const earlier = latestByQuestion.get(key);
+    if (earlier) previous.set(message.id, earlier);
+    latestByQuestion.set(key, message.dashboardData);
+  });
+  return previous;
+}
+
 interface ProgressStep {
   id: string;
   label: string;
@@ -45,8 +77,21 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingHistory, setIsLoadingHistory] = useState(true);
   const [progressSteps, setProgressSteps] = useState<ProgressStep[]>([]);
+  const [partialDashboard, setPartialDashboard] = useState<Partial<DashboardOutput> | null>(null);
   const [currentUser, setCurrentUser] = useState<{ id: string } | null>(null);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(sessionId || null);
+  const [datasets, setDatasets] = useState<{ datasetId: string; name: string }[]>([]);
+  const [sqlSources, setSqlSources] = useState<{ id: string; label: string }[]>([]);
+  const [selectedSource, setSelectedSource] = useState(""); // "dataset:<id>" or "sql:<id>"
+  const [comparison, setComparison] = useState<{ before: DashboardOutput; after: DashboardOutput } | null>(null);
+  const [editing, setEditing] = useState<{ messageId: string; dashboard: DashboardOutput } | null>(null);
+  const previousAnswers = useMemo(() => findPreviousAnswers(messages), [messages]);
+  // Versions of the dashboard on screen: a new answer starts over, a refinement
+  // drops whatever was undone and becomes the latest version
+  const [history, setHistory] = useState<{ versions: DashboardOutput[]; index: number }>({ versions: [], index: -1 });
+  const [refineOverride, setRefineOverride] = useState<boolean | null>(null);
+  const currentDashboard = history.versions[history.index] ?? null;
+  const refining = !!currentDashboard && (refineOverride ?? looksLikeRefinement(input));
 
   const sampleQueries = [
     "Explain quantum computing in simple terms",
@@ -57,34 +102,28 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
 
   const initializeProgressSteps = useCallback((): ProgressStep[] => [
     {
-      id: "classify",
+      id: "classification",
       label: "Analyzing Query",
       status: "pending",
       description: "Understanding your request and determining the best approach"
     },
     {
-      id: "research",
+      id: "retrieval",
       label: "Researching Content",
       status: "pending", 
-      description: "Gathering information from multiple AI services"
+      description: "Gathering context from your memory and external sources"
     },
     {
-      id: "retrieve",
-      label: "Processing Data",
-      status: "pending",
-      description: "Organizing and structuring the information"
-    },
-    {
-      id: "generate",
+      id: "summarization",
       label: "Generating Content",
       status: "pending",
       description: "Creating comprehensive analysis and visualizations"
     },
     {
-      id: "finalize",
+      id: "validation",
       label: "Finalizing Results",
       status: "pending",
-      description: "Preparing the final presentation"
+      description: "Validating the dashboard before presenting it"
     }
   ], []);
 
@@ -94,20 +133,34 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
     ));
   }, []);
 
-  const simulateProgressSteps = useCallback(async () => {
-    const stepIds = ["classify", "research", "retrieve", "generate", "finalize"];
-    
-    for (let i = 0; i < stepIds.length; i++) {
-      const stepId = stepIds[i];
-      updateProgressStep(stepId, "active");
-      
-      // Simulate processing time for each step
-      const processingTime = stepId === "research" ? 2000 : 
-                           stepId === "generate" ? 3000 : 1500;
-      
-      await new Promise(resolve => setTimeout(resolve, processingTime));
-      updateProgressStep(stepId, "completed");
+  // Read the SSE stream from /api/generate/stream, updating progress as phases report in
+  const consumeGenerationStream = useCallback(async (res: Response): Promise<DashboardOutput> => {
+    if (!res.body) {
+      throw new Error("Streaming is not supported by this browser");
     }
+
+    for await (const message of readSSEStream(res.body)) {
+      const event = message.data as GenerationStreamEvent;
+
+      switch (event.type) {
+        case "phase": {
+          const status: ProgressStep["status"] =
+            event.status === "started" ? "active" :
+            event.status === "error" ? "error" : "completed";
+          updateProgressStep(event.phase, status);
+          break;
+        }
+        case "partial":
+          setPartialDashboard(prev => ({ ...prev, ...event.dashboard }));
+          break;
+        case "complete":
+          return event.dashboard;
+        case "error":
+          throw new Error(event.message);
+      }
+    }
+
+    throw new Error("Generation stream ended before the dashboard was ready");
   }, [updateProgressStep]);
 
   const loadChatHistory = useCallback(async () => {
@@ -266,6 +319,19 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
     setCurrentSessionId(sessionId || null);
   }, [sessionId]);
 
+  // Datasets and SQL databases the user can ask questions against; charts for these are computed, not generated
+  useEffect(() => {
+    if (!currentUser) return;
+    fetch("/api/datasets")
+      .then(response => (response.ok ? response.json() : { datasets: [] }))
+      .then(data => setDatasets(data.datasets || []))
+      .catch(error => console.error("[ChatInterface] Failed to load datasets:", error));
+    fetch("/api/sql-sources")
+      .then(response => (response.ok ? response.json() : { sources: [] }))
+      .then(data => setSqlSources(data.sources || []))
+      .catch(error => console.error("[ChatInterface] Failed to load SQL sources:", error));
+  }, [currentUser]);
+
   // Add event listener for subsection requests
   useEffect(() => {
     const handleTriggerChatMessage = (event: CustomEvent<{ message: string }>) => {
@@ -316,8 +382,10 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
     }
 
     const userMsg: ChatMessage = { id: Date.now().toString(), role: "user", content: input };
+    const refineTarget = refining ? currentDashboard : null;
     setMessages(prev => [...prev, userMsg]);
     setInput("");
+    setRefineOverride(null);
     setIsLoading(true);
 
     // Save user message if user is authenticated
@@ -353,79 +421,26 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
     // Initialize progress steps
     const steps = initializeProgressSteps();
     setProgressSteps(steps);
+    setPartialDashboard(null);
 
     try {
-      // Start progress simulation
-      const progressPromise = simulateProgressSteps();
-      
-      // Make the actual API call with memory enabled
-      console.log("[ChatInterface] Making API call to /api/generate");
-      const apiPromise = fetch("/api/generate", {
+      // Stream the generation so progress reflects the real pipeline phases
+      console.log("[ChatInterface] Making API call to /api/generate/stream");
+      const res = await fetch("/api/generate/stream", {
         method: "POST",
         headers: { 
           "Content-Type": "application/json",
-          "Accept": "application/json"
+          "Accept": "text/event-stream"
         },
         body: JSON.stringify({ 
           query: userMsg.content,
-          useMemory: !!currentUser // Enable memory for authenticated users
+          useMemory: !!currentUser, // Enable memory for authenticated users
+          datasetId: selectedSource.startsWith("dataset:") ? selectedSource.slice(8) : undefined,
+          sqlSourceId: selectedSource.startsWith("sql:") ? selectedSource.slice(4) : undefined,
+          refine: refineTarget ?? undefined
         })
       });
-
-      // Wait for both to complete
-      const [, res] = await Promise.all([progressPromise, apiPromise]);
-
-      if (!res.ok) {
-        let errorMessage = `Failed to generate: ${res.statusText}`;
-        try {
-          const errorData = await res.json();
-          if (errorData.error) {
-            errorMessage = `Generation failed: ${errorData.error}`;
-          }
-        } catch (parseError) {
-          // Fallback to status text if can't parse error response
-          console.warn("Could not parse error response:", parseError);
-        }
-        
-        // Log the error for debugging
-        console.error("API request failed:", { 
-          status: res.status, 
-          statusText: res.statusText, 
-          errorMessage 
-        });
-        
-        // Don't throw, instead handle the error gracefully
-        const errorMsg: ChatMessage = { 
-          id: Date.now().toString(), 
-          role: "assistant", 
-          content: `I encountered an error: ${errorMessage}. Please try again.` 
-        };
-        setMessages(prev => [...prev, errorMsg]);
-        
-        // Mark progress as error
-        setProgressSteps(prev => prev.map(step => ({ ...step, status: "error" as const })));
-        
-        // Save error message if user is authenticated
-        if (currentUser && activeSessionId) {
-          try {
-            await fetch("/api/chat", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ 
-                role: errorMsg.role, 
-                content: errorMsg.content,
-                sessionId: activeSessionId
-              })
-            });
-          } catch (saveError) {
-            console.error("Failed to save error message:", saveError);
-          }
-        }
-        
-        return; // Exit early instead of throwing
-      }
-
-      const dashboard = await res.json();
+      const dashboard = await consumeGenerationStream(res);
       
       // Mark all steps as completed
       setProgressSteps(prev => prev.map(step => ({ ...step, status: "completed" as const })));
@@ -475,6 +490,11 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
         // Show success and generate dashboard for new content
         setTimeout(() => {
           onDashboardGenerated(dashboard);
+          setHistory(prev =>
+            refineTarget
+              ? { versions: [...prev.versions.slice(0, prev.index + 1), dashboard], index: prev.index + 1 }
+              : { versions: [dashboard], index: 0 }
+          );
           const assistantMsg: ChatMessage = { 
             id: Date.now().toString(), 
             role: "assistant", 
@@ -527,6 +547,8 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
                 if (response.ok) {
                   const savedMessage = await response.json();
                   console.log("Assistant message saved successfully:", savedMessage);
+                  // Edits from the chart editor are saved against the stored message
+                  setMessages(prev => prev.map(existing => (existing.id === message.id ? { ...existing, $id: savedMessage.$id } : existing)));
                 } else {
                   console.error("Failed to save assistant message - server error:", response.status);
                 }
@@ -599,8 +621,9 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
       }, 2000);
     } finally {
       setIsLoading(false);
+      setPartialDashboard(null);
     }
-  }, [input, isLoading, onDashboardGenerated, initializeProgressSteps, simulateProgressSteps, currentUser, currentSessionId, onSessionCreated]);
+  }, [input, isLoading, onDashboardGenerated, initializeProgressSteps, consumeGenerationStream, currentUser, currentSessionId, onSessionCreated, selectedSource, refining, currentDashboard]);
 
   const handleSampleClick = useCallback((query: string) => {
     setInput(query);
@@ -608,8 +631,50 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
 
   const handleDashboardClick = useCallback((dashboard: DashboardOutput) => {
     onDashboardGenerated(dashboard);
+    setHistory({ versions: [dashboard], index: 0 });
   }, [onDashboardGenerated]);
 
+  // Undo (-1) or redo (+1) a refinement of the dashboard on screen
+  const stepHistory = useCallback((step: -1 | 1) => {
+    const index = history.index + step;
+    const dashboard = history.versions[index];
+    if (!dashboard) return;
+    setHistory({ ...history, index });
+    onDashboardGenerated(dashboard);
+  }, [history, onDashboardGenerated]);
+
+  const closeComparison = useCallback(() => setComparison(null), []);
+  const closeEditor = useCallback(() => setEditing(null), []);
+
+  // Save a hand-edited dashboard onto its chat message and show it
+  const saveEditedDashboard = useCallback(async (dashboard: DashboardOutput) => {
+    if (!editing) return;
+    const message = messages.find(existing => existing.id === editing.messageId);
+
+    if (currentUser && message?.$id) {
+      const response = await fetch("/api/chat", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messageId: message.$id, dashboardData: dashboard })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        const details = Array.isArray(data.details) ? `: ${data.details.join("; ")}` : "";
+        throw new Error(`${data.error || "Failed to save the dashboard"}${details}`);
+      }
+    }
+
+    setMessages(prev => prev.map(existing => (existing.id === editing.messageId ? { ...existing, dashboardData: dashboard } : existing)));
+    // An edit of the dashboard on screen is one more version of it; any other starts over
+    setHistory(prev =>
+      prev.versions[prev.index] === editing.dashboard
+        ? { versions: [...prev.versions.slice(0, prev.index + 1), dashboard], index: prev.index + 1 }
+        : { versions: [dashboard], index: 0 }
+    );
+    onDashboardGenerated(dashboard);
+    setEditing(null);
+  }, [editing, messages, currentUser, onDashboardGenerated]);
+
   return (
     <div className="h-full flex flex-col rounded-3xl backdrop-blur-xl border border-white/20"
       style={{
@@ -715,6 +780,9 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
                 role={msg.role}
                 dashboardData={msg.dashboardData}
                 onDashboardClick={handleDashboardClick}
+                previousDashboard={previousAnswers.get(msg.id)}
+                onCompareClick={(before, after) => setComparison({ before, after })}
+                onEditClick={dashboard => setEditing({ messageId: msg.id, dashboard })}
               >
                 {msg.content}
               </MessageBubble>
@@ -736,6 +804,19 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
                     Processing your request...
                   </span>
                 </div>
+                {partialDashboard?.title && (
+                  <div className="mb-4 rounded-xl border border-white/10 p-4"
+                    style={{
+                      background: 'linear-gradient(145deg, rgba(255,255,255,0.06) 0%, rgba(255,255,255,0.02) 100%)'
+                    }}>
+                    <p className="text-base font-bold text-slate-900 dark:text-white">{partialDashboard.title}</p>
+                    {partialDashboard.summary && (
+                      <p className="mt-1 text-sm text-slate-600 dark:text-slate-300 leading-relaxed line-clamp-4">
+                        {partialDashboard.summary}
+                      </p>
+                    )}
+                  </div>
+                )}
                 <ProgressIndicator steps={progressSteps} className="text-sm" />
               </div>
             )}
@@ -800,12 +881,87 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
           background: 'linear-gradient(135deg, rgba(255,255,255,0.08) 0%, rgba(255,255,255,0.03) 100%)',
           boxShadow: 'inset 0 1px 0 rgba(255,255,255,0.1)'
         }}>
+        {currentDashboard && (
+          <div className="mb-3 flex items-center gap-2 text-sm">
+            <button
+              type="button"
+              onClick={() => setRefineOverride(!refining)}
+              disabled={isLoading}
+              aria-pressed={refining}
+              title={refining ? "Your message edits the dashboard on screen" : "Your message asks a new question"}
+              className={`flex items-center gap-1.5 rounded-full border px-3 py-1 font-medium transition-colors ${
+                refining
+                  ? "border-purple-500 bg-purple-500/15 text-purple-700 dark:text-purple-300"
+                  : "border-white/20 text-slate-600 dark:text-slate-400 hover:border-purple-400"
+              }`}
+            >
+              <RiEditLine />
+              {refining ? "Refining: " : "Refine: "}
+              <span className="max-w-[14rem] truncate">{currentDashboard.title}</span>
+            </button>
+            <div className="ml-auto flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => stepHistory(-1)}
+                disabled={isLoading || history.index <= 0}
+                title="Undo the last refinement"
+                aria-label="Undo refinement"
+                className="rounded-full p-2 text-slate-600 dark:text-slate-400 transition-colors hover:text-purple-600 disabled:opacity-40"
+              >
+                <RiArrowGoBackLine />
+              </button>
+              <span className="text-xs text-slate-500">
+                {history.index + 1}/{history.versions.length}
+              </span>
+              <button
+                type="button"
+                onClick={() => stepHistory(1)}
+                disabled={isLoading || history.index >= history.versions.length - 1}
+                title="Redo the refinement"
+                aria-label="Redo refinement"
+                className="rounded-full p-2 text-slate-600 dark:text-slate-400 transition-colors hover:text-purple-600 disabled:opacity-40"
+              >
+                <RiArrowGoForwardLine />
+              </button>
+            </div>
+          </div>
+        )}
         <form onSubmit={handleSubmit} data-chat-form className="flex gap-4">
+          {(datasets.length > 0 || sqlSources.length > 0) && (
+            <select
+              value={selectedSource}
+              onChange={e => setSelectedSource(e.target.value)}
+              disabled={isLoading}
+              title="Answer from an uploaded dataset or a SQL database"
+              className="max-w-[12rem] rounded-2xl px-4 py-4 text-sm font-medium text-slate-900 focus:outline-none"
+              style={{
+                background: 'linear-gradient(145deg, rgba(255,255,255,0.9) 0%, rgba(255,255,255,0.8) 100%)',
+                border: '1px solid rgba(255,255,255,0.3)',
+                fontFamily: '"Inter", "SF Pro Display", system-ui, sans-serif'
+              }}
+            >
+              <option value="">No data source</option>
+              {datasets.length > 0 && (
+                <optgroup label="Datasets">
+                  {datasets.map(dataset => (
+                    <option key={dataset.datasetId} value={`dataset:${dataset.datasetId}`}>{dataset.name}</option>
+                  ))}
+                </optgroup>
+              )}
+              {sqlSources.length > 0 && (
+                <optgroup label="Databases">
+                  {sqlSources.map(source => (
+                    <option key={source.id} value={`sql:${source.id}`}>{source.label}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          )}
           <input 
             type="text"
             value={input}
             onChange={e => setInput(e.target.value)}
-            placeholder="Ask me anything..."
+            placeholder={refining ? "Refine it: line chart, only top 5, as percentages..." : "Ask me anything..."}
             className="flex-1 rounded-2xl px-6 py-4 text-base font-medium text-slate-900 dark:text-white placeholder-slate-500 focus:outline-none transition-all duration-300 focus:scale-[1.02]"
             style={{
               background: 'linear-gradient(145deg, rgba(255,255,255,0.9) 0%, rgba(255,255,255,0.8) 100%)',
@@ -845,6 +1001,9 @@ export function ChatInterfaceV2({ onDashboardGenerated, onUserAuthenticated, ini
           </button>
         </form>
       </div>
+
+      {comparison && <DashboardDiffModal before={comparison.before} after={comparison.after} onClose={closeComparison} />}
+      {editing && <ChartEditorPanel dashboard={editing.dashboard} onSave={saveEditedDashboard} onClose={closeEditor} />}
     </div>
   );
 }
\ No newline at end of file
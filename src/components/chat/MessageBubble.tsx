@@ -9,9 +9,12 @@ interface MessageBubbleProps {
   children: ReactNode;
   dashboardData?: DashboardOutput;
   onDashboardClick?: (dashboard: DashboardOutput) => void;
+  previousDashboard?: DashboardOutput; // an earlier answer to the same question
+  onCompareClick?: (before: DashboardOutput, after: DashboardOutput) => void;
+  onEditClick?: (dashboard: DashboardOutput) => void;
 }
 
-export function MessageBubble({ role, children, dashboardData, onDashboardClick }: MessageBubbleProps) {
+export function MessageBubble({ role, children, dashboardData, onDashboardClick, previousDashboard, onCompareClick, onEditClick }: MessageBubbleProps) {
   const isUser = role === "user";
 
   return (
@@ -36,6 +39,22 @@ export function MessageBubble({ role, children, dashboardData, onDashboardClick
               </svg>
               View Dashboard
             </button>
+            {previousDashboard && (
+              <button
+                onClick={() => onCompareClick?.(previousDashboard, dashboardData)}
+                className="ml-2 inline-flex items-center gap-2 px-4 py-2 border border-slate-400/30 hover:border-blue-600/50 text-slate-600 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 rounded-lg text-sm font-medium transition-all duration-200"
+              >
+                Compare with previous
+              </button>
+            )}
+            {onEditClick && (
+              <button
+                onClick={() => onEditClick(dashboardData)}
+                className="ml-2 inline-flex items-center gap-2 px-4 py-2 border border-slate-400/30 hover:border-blue-600/50 text-slate-600 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 rounded-lg text-sm font-medium transition-all duration-200"
+              >
+                Edit chart
+              </button>
+            )}
           </div>
         )}
       </div>
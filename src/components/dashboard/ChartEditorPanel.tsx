@@ -0,0 +1,287 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useTheme } from "@/components/ui/ThemeToggle";
+import { visualizationTypes } from "@/lib/schemas/dashboard";
+import {
+  addRow,
+  EDITOR_TOGGLES,
+  listDataFields,
+  parseCellValue,
+  removeRow,
+  updateCell,
+  updateConfig,
+  validateDashboardEdit,
+  type EditorToggle,
+} from "@/lib/charts/editor";
+import type { ValidationResult } from "@/lib/langchain/agents/ui-schema-validator";
+import type { DashboardOutput, VisualizationType } from "@/types";
+import { ReadOnlyDashboard } from "./ReadOnlyDashboard";
+
+interface ChartEditorPanelProps {
+  dashboard: DashboardOutput;
+  onSave: (dashboard: DashboardOutput) => Promise<void>; // rejects with a message to show
+  onClose: () => void;
+}
+
+const TOGGLE_LABELS: Record<EditorToggle, string> = {
+  legend: "Legend",
+  dataLabels: "Data labels",
+  gridLines: "Grid lines",
+  zoom: "Zoom",
+  brush: "Brush",
+};
+
+const DEFAULT_COLOR = "#6366f1";
+
+const inputClass =
+  "w-full rounded-md border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 px-2 py-1 text-sm";
+
+// Edit a dashboard by hand: type, axes, colours, display toggles and the data rows,
+// with a live preview and the UI schema validator's verdict before saving
+export function ChartEditorPanel({ dashboard, onSave, onClose }: ChartEditorPanelProps) {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState(dashboard);
+  const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [revision, setRevision] = useState(0); // remounts the uncontrolled cells after a reset
+  const fields = useMemo(() => listDataFields(draft.data), [draft.data]);
+  const config = draft.config ?? {};
+  const isDirty = draft !== dashboard;
+
+  useEffect(() => {
+    let cancelled = false;
+    validateDashboardEdit(draft).then(result => {
+      if (!cancelled) setValidation(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [draft]);
+
+  useEffect(() => {
+    document.body.style.overflow = "hidden";
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKey);
+    return () => {
+      document.body.style.overflow = "unset";
+      document.removeEventListener("keydown", handleKey);
+    };
+  }, [onClose]);
+
+  const save = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(draft);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : "Failed to save the dashboard");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const colors = config.colors ?? [];
+  const setColors = (next: string[]) => setDraft(updateConfig(draft, { colors: next.length > 0 ? next : undefined }));
+
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-label="Edit dashboard">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+      <div className={`absolute inset-y-0 right-0 flex w-full max-w-6xl ${theme === "dark" ? "dark" : ""}`}>
+        <div className="hidden flex-1 overflow-y-auto bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100 lg:block">
+          <ReadOnlyDashboard dashboard={draft} compact />
+        </div>
+
+        <aside className="flex w-full flex-col bg-white dark:bg-slate-950 text-slate-900 dark:text-slate-100 shadow-2xl lg:w-[28rem]">
+          <div className="flex items-center justify-between border-b border-slate-200 dark:border-slate-800 p-4">
+            <h2 className="text-lg font-semibold">Edit dashboard</h2>
+            <button onClick={onClose} className="text-sm text-slate-500 hover:text-slate-900 dark:hover:text-white">
+              Close
+            </button>
+          </div>
+
+          <div className="flex-1 space-y-5 overflow-y-auto p-4 text-sm">
+            <div>
+              <label htmlFor="editorTitle" className="mb-1 block font-medium">Title</label>
+              <input
+                id="editorTitle"
+                value={draft.title}
+                onChange={e => setDraft({ ...draft, title: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="editorType" className="mb-1 block font-medium">Chart type</label>
+              <select
+                id="editorType"
+                value={draft.type}
+                onChange={e => setDraft({ ...draft, type: e.target.value as VisualizationType })}
+                className={inputClass}
+              >
+                {visualizationTypes.map(type => (
+                  <option key={type} value={type}>{type.replace(/_/g, " ")}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {(["xAxis", "yAxis"] as const).map(axis => (
+                <div key={axis}>
+                  <label htmlFor={`editor-${axis}`} className="mb-1 block font-medium">{axis === "xAxis" ? "X axis" : "Y axis"}</label>
+                  <select
+                    id={`editor-${axis}`}
+                    value={config[axis] ?? ""}
+                    onChange={e => setDraft(updateConfig(draft, { [axis]: e.target.value || undefined }))}
+                    className={inputClass}
+                  >
+                    <option value="">Automatic</option>
+                    {fields
+                      .filter(field => (axis === "yAxis" ? field.numeric : true))
+                      .map(field => (
+                        <option key={field.key} value={field.key}>{field.key}</option>
+                      ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <fieldset>
+              <legend className="mb-1 font-medium">Colours</legend>
+              <div className="flex flex-wrap items-center gap-2">
+                {colors.map((color, index) => (
+                  <span key={index} className="flex items-center gap-1">
+                    <input
+                      type="color"
+                      value={/^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_COLOR}
+                      onChange={e => setColors(colors.map((existing, position) => (position === index ? e.target.value : existing)))}
+                      aria-label={`Colour ${index + 1}`}
+                      className="h-8 w-8 cursor-pointer rounded border border-slate-300 dark:border-slate-700"
+                    />
+                    <button
+                      onClick={() => setColors(colors.filter((_, position) => position !== index))}
+                      aria-label={`Remove colour ${index + 1}`}
+                      className="text-slate-400 hover:text-red-600"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+                <button
+                  onClick={() => setColors([...colors, DEFAULT_COLOR])}
+                  className="rounded-md border border-slate-300 dark:border-slate-700 px-2 py-1 hover:border-blue-500"
+                >
+                  + Colour
+                </button>
+              </div>
+            </fieldset>
+
+            <fieldset>
+              <legend className="mb-1 font-medium">Display</legend>
+              <div className="grid grid-cols-2 gap-2">
+                {EDITOR_TOGGLES.map(toggle => (
+                  <label key={toggle} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={config[toggle] ?? false}
+                      onChange={e => setDraft(updateConfig(draft, { [toggle]: e.target.checked }))}
+                    />
+                    {TOGGLE_LABELS[toggle]}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset>
+              <legend className="mb-1 font-medium">Data ({draft.data.length} rows)</legend>
+              <div className="max-h-80 overflow-auto rounded-md border border-slate-200 dark:border-slate-800">
+                <table className="w-full text-left">
+                  <thead className="sticky top-0 bg-slate-100 dark:bg-slate-900 text-xs uppercase text-slate-500">
+                    <tr>
+                      {fields.map(field => (
+                        <th key={field.key} className="px-2 py-1">{field.key}</th>
+                      ))}
+                      <th className="w-6" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft.data.map((row, rowIndex) => (
+                      <tr key={`${revision}-${rowIndex}-${draft.data.length}`} className="border-t border-slate-200 dark:border-slate-800">
+                        {fields.map(field => (
+                          <td key={field.key} className="p-1">
+                            {/* Committed on blur, so half-typed numbers like "1." are not reformatted */}
+                            <input
+                              defaultValue={row[field.key] === undefined || row[field.key] === null ? "" : String(row[field.key])}
+                              onBlur={e =>
+                                setDraft({ ...draft, data: updateCell(draft.data, rowIndex, field.key, parseCellValue(e.target.value, field.numeric)) })
+                              }
+                              inputMode={field.numeric ? "decimal" : "text"}
+                              aria-label={`${field.key}, row ${rowIndex + 1}`}
+                              className={`${inputClass} min-w-[5rem]`}
+                            />
+                          </td>
+                        ))}
+                        <td className="p-1">
+                          <button
+                            onClick={() => setDraft({ ...draft, data: removeRow(draft.data, rowIndex) })}
+                            aria-label={`Remove row ${rowIndex + 1}`}
+                            className="text-slate-400 hover:text-red-600"
+                          >
+                            ×
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <button
+                onClick={() => setDraft({ ...draft, data: addRow(draft.data) })}
+                className="mt-2 rounded-md border border-slate-300 dark:border-slate-700 px-2 py-1 hover:border-blue-500"
+              >
+                + Row
+              </button>
+            </fieldset>
+
+            {validation && (validation.errors.length > 0 || validation.warnings.length > 0) && (
+              <ul className="space-y-1 text-xs">
+                {validation.errors.map((error, index) => (
+                  <li key={`error-${index}`} className="text-red-600 dark:text-red-400">{error}</li>
+                ))}
+                {validation.warnings.map((warning, index) => (
+                  <li key={`warning-${index}`} className="text-amber-600 dark:text-amber-400">{warning}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-3 border-t border-slate-200 dark:border-slate-800 p-4">
+            {saveError ? <p className="text-sm text-red-600">{saveError}</p> : <span />}
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  setDraft(dashboard);
+                  setRevision(revision + 1);
+                }}
+                disabled={!isDirty || isSaving}
+                className="rounded-md border border-slate-300 dark:border-slate-700 px-4 py-2 disabled:opacity-40"
+              >
+                Reset
+              </button>
+              <button
+                onClick={save}
+                disabled={!isDirty || isSaving || !validation?.isValid}
+                className="rounded-md bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect } from "react";
+import { useTheme } from "@/components/ui/ThemeToggle";
+import type { DashboardOutput } from "@/types";
+import { DashboardDiffView } from "./DashboardDiffView";
+
+interface DashboardDiffModalProps {
+  before: DashboardOutput;
+  after: DashboardOutput;
+  onClose: () => void;
+}
+
+// "What changed" for a question that was asked again in the same chat
+export function DashboardDiffModal({ before, after, onClose }: DashboardDiffModalProps) {
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    document.body.style.overflow = "hidden";
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKey);
+    return () => {
+      document.body.style.overflow = "unset";
+      document.removeEventListener("keydown", handleKey);
+    };
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-label="Dashboard changes">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+      <div className={`relative z-10 mx-auto mt-10 max-h-[calc(100vh-5rem)] max-w-4xl overflow-y-auto rounded-2xl ${theme === "dark" ? "dark" : ""}`}>
+        <div className="bg-white dark:bg-slate-950 text-slate-900 dark:text-slate-100 p-6">
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-lg font-semibold">What changed: {after.title}</h2>
+            <button
+              onClick={onClose}
+              className="rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-100 dark:bg-slate-800/50 px-4 py-2 text-slate-700 dark:text-slate-200 transition hover:border-blue-500 hover:bg-slate-200 dark:hover:bg-slate-800"
+            >
+              Close
+            </button>
+          </div>
+          <DashboardDiffView before={before} after={after} beforeLabel="Previous answer" afterLabel="This answer" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useMemo } from "react";
+import type { DashboardOutput } from "@/types";
+import {
+  compareChartData,
+  diffDashboards,
+  hasChanges,
+  pairCharts,
+  type ChartComparison,
+  type DataPointChange,
+} from "@/lib/charts/diff";
+import { DeltaChart } from "./DeltaChart";
+
+interface DashboardDiffViewProps {
+  before: DashboardOutput;
+  after: DashboardOutput;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+function formatNumber(value: number | undefined): string {
+  return value === undefined ? "—" : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function pointClass(point: DataPointChange): string {
+  if (point.kind === "added") return "text-sky-600 dark:text-sky-400";
+  if (point.kind === "removed") return "text-slate-500 dark:text-slate-400";
+  return (point.delta ?? 0) > 0 ? "text-teal-600 dark:text-teal-400" : "text-rose-600 dark:text-rose-400";
+}
+
+// What changed between two versions of a dashboard: title, summary text, series,
+// data points (also drawn on the charts) and sources
+export function DashboardDiffView({ before, after, beforeLabel = "Before", afterLabel = "After" }: DashboardDiffViewProps) {
+  const diff = useMemo(() => diffDashboards(before, after), [before, after]);
+  const comparisons = useMemo(
+    () =>
+      pairCharts(before, after)
+        .map(([previous, next]) => compareChartData(previous, next))
+        .filter((comparison): comparison is ChartComparison => Boolean(comparison?.rows.some(row => row.kind !== "same"))),
+    [before, after]
+  );
+  const showChartNames = new Set(diff.points.map(point => point.chart)).size > 1;
+
+  if (!hasChanges(diff)) {
+    return <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">{afterLabel} is identical to {beforeLabel.toLowerCase()}.</p>;
+  }
+
+  return (
+    <div className="space-y-6 text-sm">
+      <p className="text-slate-500 dark:text-slate-400">
+        Changes from <span className="font-medium text-slate-700 dark:text-slate-200">{beforeLabel}</span> to{" "}
+        <span className="font-medium text-slate-700 dark:text-slate-200">{afterLabel}</span>:{" "}
+        {diff.points.length} data {diff.points.length === 1 ? "point" : "points"}, {diff.series.length} series,{" "}
+        {diff.citations.added.length + diff.citations.removed.length}{" "}
+        {diff.citations.added.length + diff.citations.removed.length === 1 ? "source" : "sources"}
+      </p>
+
+      {diff.title && (
+        <section>
+          <h3 className="font-semibold">Title</h3>
+          <p className="mt-1">
+            <del className="text-rose-600 dark:text-rose-400">{diff.title.before}</del> →{" "}
+            <ins className="text-teal-700 no-underline dark:text-teal-300">{diff.title.after}</ins>
+          </p>
+        </section>
+      )}
+
+      {diff.summary && (
+        <section>
+          <h3 className="font-semibold">Summary</h3>
+          <p className="mt-1 leading-relaxed">
+            {diff.summary.parts.map((part, index) =>
+              part.kind === "added" ? (
+                <ins key={index} className="rounded bg-teal-500/15 text-teal-800 no-underline dark:text-teal-200">{part.text}</ins>
+              ) : part.kind === "removed" ? (
+                <del key={index} className="rounded bg-rose-500/15 text-rose-700 dark:text-rose-300">{part.text}</del>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            )}
+          </p>
+        </section>
+      )}
+
+      {comparisons.map((comparison, index) => (
+        <section key={index}>
+          <h3 className="font-semibold">
+            {comparison.chart} <span className="font-normal text-slate-500 dark:text-slate-400">· {comparison.series}</span>
+          </h3>
+          <DeltaChart comparison={comparison} />
+        </section>
+      ))}
+
+      {diff.series.length > 0 && (
+        <section>
+          <h3 className="font-semibold">Series</h3>
+          <ul className="mt-1 space-y-1">
+            {diff.series.map((change, index) => (
+              <li key={index} className={change.kind === "added" ? "text-sky-600 dark:text-sky-400" : "text-slate-500 dark:text-slate-400"}>
+                {change.kind === "added" ? "+" : "−"} {change.series}
+                {showChartNames && <span className="text-slate-500 dark:text-slate-400"> · {change.chart}</span>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {diff.points.length > 0 && (
+        <section>
+          <h3 className="font-semibold">Data points</h3>
+          <table className="mt-1 w-full text-left">
+            <thead className="text-xs uppercase text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="py-1">Point</th>
+                <th className="py-1">{beforeLabel}</th>
+                <th className="py-1">{afterLabel}</th>
+                <th className="py-1">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.points.map((point, index) => (
+                <tr key={index} className="border-t border-slate-200 dark:border-slate-800">
+                  <td className="py-1">
+                    {point.label}
+                    <span className="text-xs text-slate-500 dark:text-slate-400">
+                      {" "}· {point.series}
+                      {showChartNames && ` · ${point.chart}`}
+                    </span>
+                  </td>
+                  <td className="py-1">{formatNumber(point.before)}</td>
+                  <td className="py-1">{formatNumber(point.after)}</td>
+                  <td className={`py-1 ${pointClass(point)}`}>
+                    {point.kind === "changed" ? `${(point.delta ?? 0) > 0 ? "+" : ""}${formatNumber(point.delta)}` : point.kind}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {(diff.citations.added.length > 0 || diff.citations.removed.length > 0) && (
+        <section>
+          <h3 className="font-semibold">Sources</h3>
+          <ul className="mt-1 space-y-1">
+            {diff.citations.added.map((citation, index) => (
+              <li key={`added-${index}`} className="text-teal-700 dark:text-teal-300">
+                + {/^https?:/i.test(citation.url) ? <a href={citation.url} target="_blank" rel="noopener noreferrer" className="hover:underline">{citation.title}</a> : citation.title}
+              </li>
+            ))}
+            {diff.citations.removed.map((citation, index) => (
+              <li key={`removed-${index}`} className="text-rose-600 line-through dark:text-rose-400">
+                − {citation.title}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
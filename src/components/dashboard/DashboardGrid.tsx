@@ -0,0 +1,76 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { motion } from "framer-motion";
+import type { DashboardKpi, DashboardOutput } from "@/types";
+import { resolveDashboardLayout } from "@/lib/charts/layout";
+import { ChartManager } from "../charts/ChartManager";
+
+interface DashboardGridProps {
+  dashboard: DashboardOutput;
+}
+
+function formatKpiValue(kpi: DashboardKpi): string {
+  const value = typeof kpi.value === "number" ? kpi.value.toLocaleString() : kpi.value;
+  if (!kpi.unit) return value;
+  // Currency symbols lead, everything else (%, ms, users) trails
+  return /^[$€£¥]$/.test(kpi.unit) ? `${kpi.unit}${value}` : `${value} ${kpi.unit}`;
+}
+
+function KpiTile({ kpi, index }: { kpi: DashboardKpi; index: number }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.05 }}
+      className="rounded-2xl border border-slate-800 bg-gradient-to-br from-slate-900/80 to-slate-800/60 p-5 shadow-xl"
+    >
+      <div className="text-sm font-medium text-slate-400">{kpi.label}</div>
+      <div className="mt-1 text-2xl font-bold text-white">{formatKpiValue(kpi)}</div>
+      {typeof kpi.change === "number" && (
+        <div className={`mt-1 text-xs font-semibold ${kpi.change >= 0 ? "text-emerald-400" : "text-rose-400"}`}>
+          {kpi.change >= 0 ? "▲" : "▼"} {Math.abs(kpi.change).toFixed(1)}%
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+// Composes a multi-panel board: KPI row on top, then each chart at its grid placement.
+// Below the md breakpoint panels stack in placement order.
+export function DashboardGrid({ dashboard }: DashboardGridProps) {
+  const charts = dashboard.charts ?? [];
+  const layout = resolveDashboardLayout(dashboard);
+  const panels = [...layout.panels].sort((a, b) => a.y - b.y || a.x - b.x);
+
+  return (
+    <div className="space-y-6">
+      {layout.kpis && layout.kpis.length > 0 && (
+        <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+          {layout.kpis.map((kpi, index) => (
+            <KpiTile key={kpi.label} kpi={kpi} index={index} />
+          ))}
+        </div>
+      )}
+
+      <div
+        className="grid grid-cols-1 gap-6 md:[grid-template-columns:repeat(var(--layout-columns),minmax(0,1fr))]"
+        style={{ "--layout-columns": layout.columns } as CSSProperties}
+      >
+        {panels.map(panel => (
+          <div
+            key={panel.chart}
+            data-export-panel={panel.chart}
+            className="min-w-0 md:[grid-column:var(--panel-column)] md:[grid-row:var(--panel-row)]"
+            style={{
+              "--panel-column": `${panel.x + 1} / span ${panel.w}`,
+              "--panel-row": `${panel.y + 1} / span ${panel.h}`,
+            } as CSSProperties}
+          >
+            <ChartManager dashboard={charts[panel.chart]} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import {
+  Bar,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  LabelList,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { ChartComparison, ChartComparisonRow } from "@/lib/charts/diff";
+
+const DELTA_COLORS = {
+  increase: "#14b8a6",
+  decrease: "#ef4444",
+  added: "#0ea5e9",
+  removed: "#94a3b8",
+  same: "#64748b",
+};
+const BEFORE_COLOR = "#94a3b8";
+
+const LINE_TYPES = new Set(["line_chart", "area_chart"]);
+
+function rowColor(row: ChartComparisonRow): string {
+  if (row.kind === "changed") return (row.delta ?? 0) > 0 ? DELTA_COLORS.increase : DELTA_COLORS.decrease;
+  return DELTA_COLORS[row.kind];
+}
+
+function formatDelta(row: ChartComparisonRow): string {
+  if (row.kind === "added") return "new";
+  if (row.kind === "removed") return "removed";
+  if (row.kind !== "changed" || row.delta === undefined) return "";
+  const sign = row.delta > 0 ? "+" : "−";
+  return `${sign}${Math.abs(row.delta).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+interface DeltaChartProps {
+  comparison: ChartComparison;
+}
+
+// Both versions of a chart drawn together: the older one muted, the newer one
+// coloured by how each point moved and labelled with the change
+export function DeltaChart({ comparison }: DeltaChartProps) {
+  const rows = comparison.rows.map(row => ({
+    ...row,
+    deltaLabel: row.kind === "removed" ? "" : formatDelta(row),
+    removedLabel: row.kind === "removed" ? formatDelta(row) : "",
+  }));
+  const isLine = LINE_TYPES.has(comparison.type);
+
+  return (
+    <div className="h-[300px] w-full">
+      <ResponsiveContainer>
+        <ComposedChart data={rows} margin={{ top: 24, right: 16, bottom: 8, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#cbd5e1" strokeOpacity={0.4} />
+          <XAxis dataKey="label" stroke="#94a3b8" tickLine={false} axisLine={false} />
+          <YAxis stroke="#94a3b8" tickLine={false} axisLine={false} />
+          <Tooltip
+            formatter={(value, name) => [typeof value === "number" ? value.toLocaleString() : "—", name === "before" ? "Before" : "After"]}
+            contentStyle={{
+              backgroundColor: "#0f172a",
+              borderRadius: 12,
+              border: "1px solid #1e293b",
+              color: "#e2e8f0",
+            }}
+          />
+          <Legend formatter={value => (value === "before" ? "Before" : "After")} />
+          {isLine ? (
+            <>
+              <Line type="monotone" dataKey="before" stroke={BEFORE_COLOR} strokeDasharray="5 5" dot={false} connectNulls />
+              <Line
+                type="monotone"
+                dataKey="after"
+                stroke="#6366f1"
+                connectNulls
+                dot={({ cx, cy, payload, index }) => (
+                  <circle
+                    key={index}
+                    cx={cx}
+                    cy={cy}
+                    r={payload.kind === "same" ? 3 : 6}
+                    fill={rowColor(payload as ChartComparisonRow)}
+                    stroke="white"
+                    strokeWidth={1}
+                  />
+                )}
+              >
+                <LabelList dataKey="deltaLabel" position="top" fontSize={11} fill="#64748b" />
+              </Line>
+            </>
+          ) : (
+            <>
+              <Bar dataKey="before" fill={BEFORE_COLOR} fillOpacity={0.45} radius={[4, 4, 0, 0]}>
+                <LabelList dataKey="removedLabel" position="top" fontSize={11} fill={DELTA_COLORS.removed} />
+              </Bar>
+              <Bar dataKey="after" radius={[4, 4, 0, 0]}>
+                {rows.map((row, index) => (
+                  <Cell key={`cell-${index}`} fill={rowColor(row)} />
+                ))}
+                <LabelList dataKey="deltaLabel" position="top" fontSize={11} fill="#64748b" />
+              </Bar>
+            </>
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
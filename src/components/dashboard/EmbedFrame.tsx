@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { ThemeProvider } from "@/components/ui/ThemeToggle";
+import { EMBED_RESIZE_MESSAGE, type EmbedOptions, type EmbedResizeMessage } from "@/lib/sharing/embed";
+
+interface EmbedFrameProps {
+  shareId: string;
+  options: EmbedOptions;
+  children: React.ReactNode;
+}
+
+// Chrome-free wrapper for /embed/[id]. Without a fixed height it reports its height
+// to the host page so the loader script (or the host's own listener) can size the iframe.
+export function EmbedFrame({ shareId, options, children }: EmbedFrameProps) {
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame || options.height || window.parent === window) return;
+
+    let lastHeight = 0;
+    const postHeight = () => {
+      const height = Math.ceil(frame.getBoundingClientRect().height);
+      if (height === lastHeight) return;
+      lastHeight = height;
+      const message: EmbedResizeMessage = { type: EMBED_RESIZE_MESSAGE, shareId, height };
+      // Only a height is sent, so any host may receive it
+      window.parent.postMessage(message, "*");
+    };
+
+    const observer = new ResizeObserver(postHeight);
+    observer.observe(frame);
+    postHeight();
+    return () => observer.disconnect();
+  }, [shareId, options.height]);
+
+  return (
+    <ThemeProvider forcedTheme={options.theme}>
+      <div
+        ref={frameRef}
+        className={options.theme === "dark" ? "dark bg-slate-950 text-slate-100" : "bg-white text-slate-900"}
+        style={{
+          maxWidth: options.width,
+          height: options.height,
+          overflowY: options.height ? "auto" : undefined,
+        }}
+      >
+        {children}
+      </div>
+    </ThemeProvider>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useRef, useState, type RefObject } from "react";
+import type { DashboardOutput } from "@/types";
+import { EXPORT_FORMATS, exportDashboard, type ExportFormat } from "@/lib/export";
+
+const MENU_GROUPS = [
+  { kind: "view", label: "Dashboard" },
+  { kind: "data", label: "Data" },
+] as const;
+
+interface ExportMenuProps {
+  dashboard: DashboardOutput;
+  // Element the dashboard is rendered into; chart SVGs are read from here
+  contentRef: RefObject<HTMLElement | null>;
+}
+
+export function ExportMenu({ dashboard, contentRef }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!contentRef.current) return;
+    setBusyFormat(format);
+    setError(null);
+    try {
+      await exportDashboard(format, dashboard, contentRef.current);
+      setIsOpen(false);
+    } catch (err) {
+      console.error(`Failed to export dashboard as ${format}:`, err);
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-100 dark:bg-slate-800/50 px-4 py-2 text-slate-700 dark:text-slate-200 transition hover:border-blue-500 hover:bg-slate-200 dark:hover:bg-slate-800 flex items-center gap-2"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        {busyFormat ? "Exporting…" : "Export"}
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-72 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-2 shadow-xl"
+        >
+          {MENU_GROUPS.map(group => (
+            <div key={group.kind} role="group" aria-label={group.label}>
+              <div className="px-3 pb-1 pt-2 text-[11px] font-semibold uppercase tracking-wide text-slate-400">{group.label}</div>
+              {EXPORT_FORMATS.filter(entry => entry.kind === group.kind).map(({ format, label, description }) => (
+                <button
+                  key={format}
+                  type="button"
+                  role="menuitem"
+                  disabled={busyFormat !== null}
+                  onClick={() => handleExport(format)}
+                  className="w-full rounded-lg px-3 py-2 text-left transition hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50"
+                >
+                  <div className="text-sm font-medium">{busyFormat === format ? `${label}…` : label}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">{description}</div>
+                </button>
+              ))}
+            </div>
+          ))}
+          {error && (
+            <p role="alert" className="mt-1 rounded-lg bg-rose-500/10 px-3 py-2 text-xs text-rose-600 dark:text-rose-400">
+              {error}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
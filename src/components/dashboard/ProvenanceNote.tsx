@@ -0,0 +1,32 @@
+"use client";
+
+import type { DashboardProvenance } from "@/types";
+
+interface ProvenanceNoteProps {
+  provenance: DashboardProvenance;
+}
+
+// Shows where the numbers of a data-backed dashboard came from, including the executed SQL
+export function ProvenanceNote({ provenance }: ProvenanceNoteProps) {
+  const isSql = provenance.sourceType === "sql";
+
+  return (
+    <div id="provenance" className="mt-6 rounded-2xl border border-white/10 p-4 text-sm text-slate-700 dark:text-slate-300"
+      style={{ background: 'linear-gradient(145deg, rgba(255,255,255,0.05) 0%, rgba(255,255,255,0.02) 100%)' }}>
+      <p className="font-semibold">
+        Source: {provenance.source}
+        {provenance.dialect && ` (${provenance.dialect === "postgres" ? "PostgreSQL" : "SQLite"})`}
+      </p>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+        {isSql
+          ? `${provenance.rowCount} rows returned${provenance.truncated ? ", more rows matched than are shown" : ""}`
+          : `${provenance.rowCount.toLocaleString()} rows read`}
+        {` · ${new Date(provenance.generatedAt).toLocaleString()}`}
+      </p>
+      <details className="mt-2">
+        <summary className="cursor-pointer text-xs font-medium">{isSql ? "Show query" : "Show aggregation"}</summary>
+        <pre className="mt-2 whitespace-pre-wrap break-words rounded-lg bg-black/5 p-3 text-xs font-mono">{provenance.query}</pre>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import type { DashboardOutput } from "@/types";
+import { TEXT_BLOCK_TYPES, toTextSections } from "@/lib/wiki/blocks";
+import { ChartManager } from "../charts/ChartManager";
+import { MermaidRenderer } from "../charts/MermaidRenderer";
+import { DashboardGrid } from "./DashboardGrid";
+import { ProvenanceNote } from "./ProvenanceNote";
+
+interface ReadOnlyDashboardProps {
+  dashboard: DashboardOutput;
+  footer?: React.ReactNode;
+  compact?: boolean; // tighter spacing for embeds
+}
+
+// The dashboard without chat, sublinks or follow-up actions: what visitors of a
+// published link see. Server-rendered; only the charts hydrate.
+export function ReadOnlyDashboard({ dashboard, footer, compact = false }: ReadOnlyDashboardProps) {
+  const isTextOnly = TEXT_BLOCK_TYPES.includes(dashboard.type) && !dashboard.charts?.length;
+  const sections = isTextOnly ? toTextSections(dashboard.data) : [];
+
+  return (
+    <article className={compact ? "space-y-4 p-4" : "mx-auto max-w-6xl space-y-8 p-6 md:p-10"}>
+      <header className={compact ? "space-y-1" : "space-y-3"}>
+        <h1 className={compact ? "text-xl font-semibold" : "text-3xl font-bold tracking-tight md:text-4xl"}>{dashboard.title}</h1>
+        {dashboard.summary && (
+          <p className={`max-w-3xl leading-relaxed opacity-80 ${compact ? "text-sm" : "text-lg"}`}>{dashboard.summary}</p>
+        )}
+      </header>
+
+      {isTextOnly ? (
+        <div className="space-y-6">
+          {sections.map((section, index) => (
+            <section key={index} className="rounded-2xl border border-slate-200 p-6 dark:border-slate-800">
+              {section.heading && <h2 className="text-xl font-semibold">{section.heading}</h2>}
+              {section.paragraph && <p className="mt-2 leading-relaxed text-slate-700 dark:text-slate-300">{section.paragraph}</p>}
+              {section.bullets.length > 0 && (
+                <ul className="mt-3 list-disc space-y-1 pl-5 text-slate-700 dark:text-slate-300">
+                  {section.bullets.map((bullet, bulletIndex) => (
+                    <li key={bulletIndex}>{bullet}</li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          ))}
+        </div>
+      ) : dashboard.charts?.length ? (
+        <DashboardGrid dashboard={dashboard} />
+      ) : dashboard.data.length > 0 ? (
+        <div data-export-panel={0}>
+          <ChartManager dashboard={dashboard} />
+        </div>
+      ) : null}
+
+      {dashboard.mermaidDiagrams?.map((diagram, index) => (
+        <MermaidRenderer key={index} diagram={diagram} title={`Diagram ${index + 1}`} />
+      ))}
+
+      {dashboard.provenance && <ProvenanceNote provenance={dashboard.provenance} />}
+
+      {dashboard.citations && dashboard.citations.length > 0 && (
+        <section>
+          <h2 className="text-lg font-semibold">Sources</h2>
+          <ol className="mt-3 list-decimal space-y-2 pl-5 text-sm">
+            {dashboard.citations.map((citation, index) => (
+              <li key={index}>
+                {/^https?:/i.test(citation.url) ? (
+                  <a href={citation.url} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-600 hover:underline dark:text-blue-400">
+                    {citation.title}
+                  </a>
+                ) : (
+                  <span className="font-medium">{citation.title}</span>
+                )}
+                {citation.snippet && <p className="text-slate-500 dark:text-slate-400">{citation.snippet}</p>}
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      {footer}
+    </article>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { DashboardOutput, SharedDashboardSummary, ShareVisibility } from "@/types";
+import { iframeSnippet, isEmbeddable, scriptSnippet, type EmbedTheme } from "@/lib/sharing/embed";
+
+const VISIBILITY_OPTIONS: Array<{ value: ShareVisibility; label: string; description: string }> = [
+  { value: "link", label: "Anyone with the link", description: "Not listed or indexed" },
+  { value: "public", label: "Public", description: "Search engines may index it" },
+  { value: "private", label: "Only me", description: "Requires signing in" },
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 0, label: "Never expires" },
+  { days: 1, label: "Expires in 1 day" },
+  { days: 7, label: "Expires in 7 days" },
+  { days: 30, label: "Expires in 30 days" },
+];
+
+interface ShareMenuProps {
+  dashboard: DashboardOutput;
+}
+
+function expiryFromDays(days: number): string | null {
+  return days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null;
+}
+
+export function ShareMenu({ dashboard }: ShareMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [visibility, setVisibility] = useState<ShareVisibility>("link");
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [share, setShare] = useState<SharedDashboardSummary | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [embedTheme, setEmbedTheme] = useState<EmbedTheme>("dark");
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // A new dashboard in the modal starts a new share
+  useEffect(() => {
+    setShare(null);
+    setError(null);
+  }, [dashboard]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const request = async (init: RequestInit, query = "") => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/shares${query}`, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error ?? "Request failed");
+      setShare(body.share);
+    } catch (err) {
+      console.error("Dashboard sharing failed:", err);
+      setError(err instanceof Error ? err.message : "Sharing failed");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const createLink = () =>
+    request({ method: "POST", body: JSON.stringify({ dashboard, visibility, expiresAt: expiryFromDays(expiryDays) }) });
+
+  const updateLink = (changes: { visibility?: ShareVisibility; expiresAt?: string | null }) =>
+    share && request({ method: "PATCH", body: JSON.stringify({ shareId: share.shareId, ...changes }) });
+
+  const revokeLink = () => share && request({ method: "DELETE" }, `?shareId=${encodeURIComponent(share.shareId)}`);
+
+  const origin = typeof window === "undefined" ? "" : window.location.origin;
+  const url = share ? `${origin}${share.path}` : "";
+  const snippets = share
+    ? [
+        { key: "iframe", label: "Iframe (wikis, Notion)", code: iframeSnippet(origin, share.shareId, share.title, { theme: embedTheme }) },
+        { key: "script", label: "Script (auto-resizing)", code: scriptSnippet(origin, share.shareId, { theme: embedTheme }) },
+      ]
+    : [];
+
+  const copy = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy to clipboard:", err);
+    }
+  };
+
+  const isRevoked = Boolean(share?.revokedAt);
+  const isLive = share && !isRevoked;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        className="rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-100 dark:bg-slate-800/50 px-4 py-2 text-slate-700 dark:text-slate-200 transition hover:border-blue-500 hover:bg-slate-200 dark:hover:bg-slate-800 flex items-center gap-2"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+        </svg>
+        Share
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Share dashboard"
+          className="absolute right-0 mt-2 w-80 space-y-3 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-4 shadow-xl"
+        >
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-400">
+            Who can view
+            <select
+              value={share?.visibility ?? visibility}
+              disabled={isBusy || isRevoked}
+              onChange={event => {
+                const value = event.target.value as ShareVisibility;
+                setVisibility(value);
+                if (share) updateLink({ visibility: value });
+              }}
+              className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-700 bg-transparent px-2 py-2 text-sm normal-case tracking-normal text-slate-800 dark:text-slate-100"
+            >
+              {VISIBILITY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label} — {option.description}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-400">
+            Expiry
+            <select
+              value={expiryDays}
+              disabled={isBusy || isRevoked}
+              onChange={event => {
+                const days = Number(event.target.value);
+                setExpiryDays(days);
+                if (share) updateLink({ expiresAt: expiryFromDays(days) });
+              }}
+              className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-700 bg-transparent px-2 py-2 text-sm normal-case tracking-normal text-slate-800 dark:text-slate-100"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {!share && (
+            <button
+              type="button"
+              onClick={createLink}
+              disabled={isBusy}
+              className="w-full rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white transition hover:bg-blue-500 disabled:opacity-50"
+            >
+              {isBusy ? "Publishing…" : "Create link"}
+            </button>
+          )}
+
+          {isLive && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  value={url}
+                  onFocus={event => event.target.select()}
+                  className="min-w-0 flex-1 rounded-lg border border-slate-300 dark:border-slate-700 bg-transparent px-2 py-2 text-xs"
+                />
+                <button
+                  type="button"
+                  onClick={() => copy("link", url)}
+                  className="rounded-lg border border-slate-300 dark:border-slate-700 px-3 py-2 text-xs font-medium transition hover:border-blue-500"
+                >
+                  {copied === "link" ? "Copied!" : "Copy"}
+                </button>
+              </div>
+              {share && isEmbeddable(share.visibility) && (
+                <details className="rounded-lg border border-slate-200 dark:border-slate-800 p-2 text-xs">
+                  <summary className="cursor-pointer font-medium">Embed</summary>
+                  <div className="mt-2 space-y-2">
+                    <label className="flex items-center justify-between gap-2">
+                      Theme
+                      <select
+                        value={embedTheme}
+                        onChange={event => setEmbedTheme(event.target.value as EmbedTheme)}
+                        className="rounded border border-slate-300 dark:border-slate-700 bg-transparent px-1 py-0.5"
+                      >
+                        <option value="dark">Dark</option>
+                        <option value="light">Light</option>
+                      </select>
+                    </label>
+                    {snippets.map(snippet => (
+                      <div key={snippet.key}>
+                        <div className="flex items-center justify-between">
+                          <span className="text-slate-500 dark:text-slate-400">{snippet.label}</span>
+                          <button type="button" onClick={() => copy(snippet.key, snippet.code)} className="font-medium hover:underline">
+                            {copied === snippet.key ? "Copied!" : "Copy"}
+                          </button>
+                        </div>
+                        <textarea
+                          readOnly
+                          rows={3}
+                          value={snippet.code}
+                          onFocus={event => event.target.select()}
+                          className="mt-1 w-full resize-none rounded border border-slate-300 dark:border-slate-700 bg-transparent p-1 font-mono text-[10px]"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              )}
+              <button
+                type="button"
+                onClick={revokeLink}
+                disabled={isBusy}
+                className="text-xs font-medium text-rose-600 hover:underline disabled:opacity-50 dark:text-rose-400"
+              >
+                Revoke link
+              </button>
+            </div>
+          )}
+
+          {isRevoked && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Link revoked. Anyone opening it now sees that it was revoked.
+            </p>
+          )}
+
+          {error && (
+            <p role="alert" className="rounded-lg bg-rose-500/10 px-3 py-2 text-xs text-rose-600 dark:text-rose-400">
+              {error}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
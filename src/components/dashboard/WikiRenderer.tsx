@@ -8,82 +8,15 @@ import { KnowledgeGraph } from "../wiki/KnowledgeGraph";
 import { WikiModeToggle } from "../wiki/WikiModeToggle";
 import { TermHighlight } from "../wiki/TermHighlight";
 import { ChartManager } from "../charts/ChartManager";
+import { ProvenanceNote } from "./ProvenanceNote";
+import { DashboardGrid } from "./DashboardGrid";
 import { MermaidRenderer } from "../charts/MermaidRenderer";
 import { SublinksPanel, generateEnhancedSublinks } from "./SublinksPanel";
+import { HEADING_KEYS, LIST_KEYS, PARAGRAPH_KEYS, pickFirstString, pickList, type TextBlock } from "@/lib/wiki/blocks";
 import { type EnhancedDashboard, type ImageResult, type MermaidDiagram } from "../../lib/services/VisualizationService";
 
-const HEADING_KEYS = ["heading", "title", "label", "name", "category"] as const;
-const PARAGRAPH_KEYS = ["description", "summary", "text", "content", "body", "details"] as const;
-const LIST_KEYS = ["bullets", "points", "items", "highlights", "list", "entries"] as const;
-
-type TextBlock = Record<string, unknown>;
 type WikiMode = "simple" | "detailed" | "interactive";
 
-function pickFirstString(block: TextBlock, keys: readonly string[]): string | undefined {
-  for (const key of keys) {
-    const value = block[key];
-    if (typeof value === "string" && value.trim().length > 0) {
-      return value;
-    }
-  }
-  return undefined;
-}
-
-function toBulletStrings(value: unknown): string[] | undefined {
-  if (!Array.isArray(value) || value.length === 0) {
-    return undefined;
-  }
-
-  if (value.every((entry) => typeof entry === "string")) {
-    return value as string[];
-  }
-
-  if (value.every((entry) => typeof entry === "number")) {
-    return (value as number[]).map((num) => num.toString());
-  }
-
-  if (value.every((entry) => entry && typeof entry === "object")) {
-    return (value as Array<Record<string, unknown>>)
-      .map((entry) => {
-        const label = pickFirstString(entry, ["label", "title", "name"]);
-        const desc = pickFirstString(entry, ["description", "text", "summary", "details"]);
-        const rawValue = entry.value;
-
-        if (label && desc) {
-          const statement = `${label} – ${desc}`.trim();
-          return statement.length > 0 ? statement : undefined;
-        }
-
-        if (label && (typeof rawValue === "string" || typeof rawValue === "number")) {
-          const valueText = typeof rawValue === "number" ? rawValue.toLocaleString() : rawValue;
-          const statement = `${label}: ${valueText}`.trim();
-          return statement.length > 0 ? statement : undefined;
-        }
-
-        if (typeof desc === "string") {
-          const statement = desc.trim();
-          return statement.length > 0 ? statement : undefined;
-        }
-
-        return undefined;
-      })
-      .filter((item): item is string => typeof item === "string");
-  }
-
-  return undefined;
-}
-
-function pickList(block: TextBlock): string[] | undefined {
-  for (const key of LIST_KEYS) {
-    const value = block[key];
-    const list = toBulletStrings(value);
-    if (list && list.length > 0) {
-      return list;
-    }
-  }
-  return undefined;
-}
-
 interface WikiRendererProps {
   dashboard: DashboardOutput;
   onSubsectionRequest?: (query: string) => void;
@@ -596,8 +529,11 @@ export function WikiRenderer({ dashboard, onSubsectionRequest }: WikiRendererPro
                       background: 'linear-gradient(145deg, rgba(255,255,255,0.05) 0%, rgba(255,255,255,0.02) 100%)',
                       boxShadow: 'inset 0 1px 0 rgba(255,255,255,0.05), 0 2px 10px rgba(0,0,0,0.05)'
                     }}>
-                    <ChartManager dashboard={dashboard} />
+                    {dashboard.charts && dashboard.charts.length > 0
+                      ? <DashboardGrid dashboard={dashboard} />
+                      : <div data-export-panel={0}><ChartManager dashboard={dashboard} /></div>}
                   </div>
+                  {dashboard.provenance && <ProvenanceNote provenance={dashboard.provenance} />}
                 </div>
               )}
 
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import type { DatasetSchema } from "@/types";
+
+interface DatasetSummary {
+  datasetId: string;
+  name: string;
+  format: string;
+  rowCount: number;
+  schema: DatasetSchema;
+  createdAt: string;
+}
+
+interface DatasetUploadPanelProps {
+  highlightedDatasetId?: string;
+}
+
+const ACCEPTED_TYPES = ".csv,.tsv,.xlsx,.xls,.json";
+
+const TYPE_STYLES: Record<string, string> = {
+  number: "bg-blue-100 text-blue-800",
+  date: "bg-green-100 text-green-800",
+  category: "bg-purple-100 text-purple-800",
+  text: "bg-gray-100 text-gray-800",
+  boolean: "bg-amber-100 text-amber-800",
+};
+
+export function DatasetUploadPanel({ highlightedDatasetId }: DatasetUploadPanelProps) {
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadDatasets();
+  }, []);
+
+  const loadDatasets = async () => {
+    try {
+      const response = await fetch("/api/datasets");
+      if (response.ok) {
+        const data = await response.json();
+        setDatasets(data.datasets || []);
+      }
+    } catch (error) {
+      console.error("Failed to load datasets:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const uploadFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setIsUploading(true);
+    setError(null);
+
+    for (const file of Array.from(files)) {
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+
+        const response = await fetch("/api/datasets", { method: "POST", body: formData });
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.details || data.error || `Failed to upload ${file.name}`);
+          continue;
+        }
+
+        setDatasets(previous => [data.dataset, ...previous]);
+      } catch (error) {
+        console.error("Failed to upload dataset:", error);
+        setError(`Failed to upload ${file.name}`);
+      }
+    }
+
+    setIsUploading(false);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const deleteDataset = async (datasetId: string) => {
+    if (!confirm("Delete this dataset? Dashboards built from it will no longer refresh.")) return;
+
+    try {
+      const response = await fetch(`/api/datasets?datasetId=${encodeURIComponent(datasetId)}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        setDatasets(previous => previous.filter(dataset => dataset.datasetId !== datasetId));
+      } else {
+        alert("Failed to delete dataset");
+      }
+    } catch (error) {
+      console.error("Failed to delete dataset:", error);
+      alert("Failed to delete dataset");
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-2">Your Datasets</h1>
+      <p className="text-sm text-gray-600 mb-6">
+        Upload a spreadsheet, select it in chat and ask questions like &ldquo;revenue by region&rdquo;. Charts are computed from your rows, not generated.
+      </p>
+
+      {/* Upload */}
+      <div
+        className="bg-white rounded-lg shadow-sm border border-dashed border-gray-300 p-6 mb-6 text-center"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          uploadFiles(e.dataTransfer.files);
+        }}
+      >
+        <p className="text-gray-700 mb-3">Drag files here or choose them from your computer</p>
+        <p className="text-xs text-gray-500 mb-4">CSV, Excel (.xlsx) or JSON, up to 20 MB</p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_TYPES}
+          onChange={(e) => uploadFiles(e.target.files)}
+          className="hidden"
+          id="datasetUpload"
+        />
+        <label
+          htmlFor="datasetUpload"
+          className={`inline-block bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 cursor-pointer ${
+            isUploading ? "opacity-50 pointer-events-none" : ""
+          }`}
+        >
+          {isUploading ? "Processing..." : "Choose Files"}
+        </label>
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      </div>
+
+      {/* Dataset list */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h2 className="text-lg font-semibold mb-4">Uploaded Datasets</h2>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : datasets.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No datasets uploaded yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {datasets.map((dataset) => (
+              <div
+                key={dataset.datasetId}
+                id={dataset.datasetId}
+                className={`border-l-4 pl-4 py-2 ${
+                  dataset.datasetId === highlightedDatasetId ? "border-amber-500 bg-amber-50" : "border-blue-500"
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{dataset.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {dataset.format.toUpperCase()} · {dataset.rowCount.toLocaleString()} rows ·{" "}
+                      {new Date(dataset.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => deleteDataset(dataset.datasetId)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {dataset.schema.columns.map((column) => (
+                    <span
+                      key={column.name}
+                      className={`text-xs px-2 py-1 rounded ${TYPE_STYLES[column.type] ?? TYPE_STYLES.text}`}
+                      title={`${column.distinctCount} distinct, ${column.nullCount} empty`}
+                    >
+                      {column.name}: {column.type}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+
+interface UserDocument {
+  documentId: string;
+  fileName: string;
+  format: string;
+  size: number;
+  pageCount: number;
+  chunkCount: number;
+  createdAt: string;
+}
+
+interface DocumentUploadPanelProps {
+  highlightedDocumentId?: string;
+  highlightedPage?: number;
+}
+
+const ACCEPTED_TYPES = ".pdf,.docx,.md,.markdown,.csv,.txt";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function DocumentUploadPanel({ highlightedDocumentId, highlightedPage }: DocumentUploadPanelProps) {
+  const [documents, setDocuments] = useState<UserDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadDocuments();
+  }, []);
+
+  const loadDocuments = async () => {
+    try {
+      const response = await fetch("/api/documents");
+      if (response.ok) {
+        const data = await response.json();
+        setDocuments(data.documents || []);
+      }
+    } catch (error) {
+      console.error("Failed to load documents:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const uploadFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setIsUploading(true);
+    setError(null);
+
+    for (const file of Array.from(files)) {
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+
+        const response = await fetch("/api/documents", { method: "POST", body: formData });
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.details || data.error || `Failed to upload ${file.name}`);
+          continue;
+        }
+
+        setDocuments(previous => [data.document, ...previous]);
+      } catch (error) {
+        console.error("Failed to upload document:", error);
+        setError(`Failed to upload ${file.name}`);
+      }
+    }
+
+    setIsUploading(false);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const deleteDocument = async (documentId: string) => {
+    if (!confirm("Delete this document? It will no longer be used to answer your questions.")) return;
+
+    try {
+      const response = await fetch(`/api/documents?documentId=${encodeURIComponent(documentId)}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        setDocuments(previous => previous.filter(document => document.documentId !== documentId));
+      } else {
+        alert("Failed to delete document");
+      }
+    } catch (error) {
+      console.error("Failed to delete document:", error);
+      alert("Failed to delete document");
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-2">Your Documents</h1>
+      <p className="text-sm text-gray-600 mb-6">
+        Upload files and ask about &ldquo;my data&rdquo; or &ldquo;my uploaded report&rdquo; in chat. Answers cite the file and page they came from.
+      </p>
+
+      {/* Upload */}
+      <div
+        className="bg-white rounded-lg shadow-sm border border-dashed border-gray-300 p-6 mb-6 text-center"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          uploadFiles(e.dataTransfer.files);
+        }}
+      >
+        <p className="text-gray-700 mb-3">Drag files here or choose them from your computer</p>
+        <p className="text-xs text-gray-500 mb-4">PDF, Word (.docx), Markdown, CSV or plain text, up to 10 MB</p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_TYPES}
+          onChange={(e) => uploadFiles(e.target.files)}
+          className="hidden"
+          id="documentUpload"
+        />
+        <label
+          htmlFor="documentUpload"
+          className={`inline-block bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 cursor-pointer ${
+            isUploading ? "opacity-50 pointer-events-none" : ""
+          }`}
+        >
+          {isUploading ? "Processing..." : "Choose Files"}
+        </label>
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      </div>
+
+      {/* Document list */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h2 className="text-lg font-semibold mb-4">Uploaded Documents</h2>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : documents.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No documents uploaded yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {documents.map((document) => {
+              const isHighlighted = document.documentId === highlightedDocumentId;
+              return (
+                <div
+                  key={document.documentId}
+                  id={document.documentId}
+                  className={`flex items-center justify-between border-l-4 pl-4 py-2 ${
+                    isHighlighted ? "border-amber-500 bg-amber-50" : "border-blue-500"
+                  }`}
+                >
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{document.fileName}</p>
+                    <p className="text-xs text-gray-500">
+                      {document.format.toUpperCase()} · {formatSize(document.size)}
+                      {document.pageCount > 0 && ` · ${document.pageCount} pages`}
+                      {` · ${document.chunkCount} chunks · ${new Date(document.createdAt).toLocaleDateString()}`}
+                    </p>
+                    {isHighlighted && highlightedPage && (
+                      <p className="text-xs text-amber-700 mt-1">Cited from page {highlightedPage}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => deleteDocument(document.documentId)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
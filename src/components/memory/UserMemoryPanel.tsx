@@ -17,10 +17,14 @@ interface UserProfile {
 }
 
 interface MemorySearchResult {
+  id: string;
   content: string;
   context: string;
   similarity: number;
   timestamp: string;
+  importance: number; // 10 while pinned
+  storedImportance: number;
+  pinned: boolean;
   metadata: {
     queryType?: string;
     entities?: string[];
@@ -32,10 +36,19 @@ interface MemorySearchResult {
 export function UserMemoryPanel() {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [memories, setMemories] = useState<MemorySearchResult[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null); // more recent memories to load
   const [searchQuery, setSearchQuery] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [isSearching, setIsSearching] = useState(false);
   const [activeTab, setActiveTab] = useState<"profile" | "memories">("profile");
+  const [editing, setEditing] = useState<{ id: string; content: string; importance: number } | null>(null);
+  const [bulkFilter, setBulkFilter] = useState({ topic: "", from: "", to: "" });
+  const [isConsolidating, setIsConsolidating] = useState(false);
+  const [consolidationMessage, setConsolidationMessage] = useState<string | null>(null);
+  const [retentionPreview, setRetentionPreview] = useState<{
+    cutoff: string;
+    expired: Array<Pick<MemorySearchResult, "id" | "context" | "timestamp">>;
+  } | null>(null);
 
   useEffect(() => {
     loadUserProfile();
@@ -63,12 +76,15 @@ export function UserMemoryPanel() {
     }
   };
 
-  const loadRecentMemories = async () => {
+  const loadRecentMemories = async (cursor?: string) => {
     try {
-      const response = await fetch("/api/memory?action=recent&limit=10");
+      const response = await fetch(
+        `/api/memory?action=recent&limit=10${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""}`
+      );
       if (response.ok) {
         const data = await response.json();
-        setMemories(data.memories || []);
+        setMemories(current => (cursor ? [...current, ...(data.memories || [])] : data.memories || []));
+        setNextCursor(data.nextCursor ?? null);
       }
     } catch (error) {
       console.error("Failed to load recent memories:", error);
@@ -86,6 +102,7 @@ export function UserMemoryPanel() {
       if (response.ok) {
         const data = await response.json();
         setMemories(data.memories || []);
+        setNextCursor(null);
       }
     } catch (error) {
       console.error("Failed to search memories:", error);
@@ -94,6 +111,112 @@ export function UserMemoryPanel() {
     }
   };
 
+  const refreshMemories = () => (searchQuery.trim() ? searchMemories() : loadRecentMemories());
+
+  const patchMemory = async (memoryId: string, changes: Partial<Pick<MemorySearchResult, "content" | "importance" | "pinned">>) => {
+    try {
+      const response = await fetch("/api/memory", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ memoryId, ...changes }),
+      });
+      if (!response.ok) throw new Error(`Request failed with ${response.status}`);
+
+      const { memory } = await response.json();
+      setMemories(current => current.map(existing => (existing.id === memoryId ? { ...existing, ...memory } : existing)));
+      return true;
+    } catch (error) {
+      console.error("Failed to update memory:", error);
+      alert("Failed to update memory");
+      return false;
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    if (await patchMemory(editing.id, { content: editing.content, importance: editing.importance })) {
+      setEditing(null);
+    }
+  };
+
+  const deleteMemory = async (memory: MemorySearchResult) => {
+    if (!confirm("Delete this memory?")) return;
+
+    try {
+      const response = await fetch(`/api/memory?memoryId=${encodeURIComponent(memory.id)}`, { method: "DELETE" });
+      if (!response.ok) throw new Error(`Request failed with ${response.status}`);
+      setMemories(current => current.filter(existing => existing.id !== memory.id));
+    } catch (error) {
+      console.error("Failed to delete memory:", error);
+      alert("Failed to delete memory");
+    }
+  };
+
+  const bulkDelete = async () => {
+    const params = new URLSearchParams();
+    if (bulkFilter.topic.trim()) params.set("topic", bulkFilter.topic.trim());
+    if (bulkFilter.from) params.set("after", new Date(bulkFilter.from).toISOString());
+    if (bulkFilter.to) {
+      // The "to" day is included
+      const before = new Date(bulkFilter.to);
+      before.setUTCDate(before.getUTCDate() + 1);
+      params.set("before", before.toISOString());
+    }
+    if (!params.toString()) return;
+    if (!confirm("Delete every unpinned memory matching these filters?")) return;
+
+    try {
+      const response = await fetch(`/api/memory?${params}`, { method: "DELETE" });
+      if (!response.ok) throw new Error(`Request failed with ${response.status}`);
+
+      const { deleted } = await response.json();
+      alert(`Deleted ${deleted} ${deleted === 1 ? "memory" : "memories"}`);
+      setBulkFilter({ topic: "", from: "", to: "" });
+      await refreshMemories();
+    } catch (error) {
+      console.error("Failed to delete memories:", error);
+      alert("Failed to delete memories");
+    }
+  };
+
+  const consolidateMemories = async () => {
+    setIsConsolidating(true);
+    setConsolidationMessage(null);
+    try {
+      const response = await fetch("/api/memory", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "consolidate" }),
+      });
+      if (!response.ok) throw new Error(`Request failed with ${response.status}`);
+
+      const { report } = await response.json();
+      setConsolidationMessage(
+        report.memoriesRemoved > 0
+          ? `Replaced ${report.memoriesRemoved} memories with ${report.factsStored} facts.`
+          : "Nothing to consolidate yet."
+      );
+      await refreshMemories();
+    } catch (error) {
+      console.error("Failed to consolidate memories:", error);
+      setConsolidationMessage("Failed to consolidate memories.");
+    } finally {
+      setIsConsolidating(false);
+    }
+  };
+
+  const previewRetention = async () => {
+    try {
+      const response = await fetch("/api/memory?action=retention");
+      if (response.ok) {
+        const data = await response.json();
+        setRetentionPreview(data.report ?? { cutoff: "", expired: [] });
+      }
+    } catch (error) {
+      console.error("Failed to preview retention:", error);
+    }
+  };
+
   const updateProfile = async () => {
     if (!profile) return;
     
@@ -199,6 +322,33 @@ export function UserMemoryPanel() {
                   })}
                   className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                 />
+                <div className="mt-2 text-sm text-gray-500">
+                  Older memories are deleted automatically; pinned memories are kept.{" "}
+                  <button onClick={previewRetention} className="text-blue-600 hover:text-blue-800">
+                    Preview with saved settings
+                  </button>
+                </div>
+                {retentionPreview && (
+                  <div className="mt-2 rounded-md bg-gray-50 p-3 text-sm text-gray-700">
+                    {retentionPreview.expired.length === 0 ? (
+                      <p>No memories would be deleted.</p>
+                    ) : (
+                      <>
+                        <p className="mb-1">
+                          {retentionPreview.expired.length} {retentionPreview.expired.length === 1 ? "memory" : "memories"} from
+                          before {new Date(retentionPreview.cutoff).toLocaleDateString()} would be deleted:
+                        </p>
+                        <ul className="list-disc pl-5 text-xs text-gray-600">
+                          {retentionPreview.expired.slice(0, 10).map((memory) => (
+                            <li key={memory.id}>
+                              {new Date(memory.timestamp).toLocaleDateString()}: {memory.context}
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
               
               <div>
@@ -344,14 +494,22 @@ export function UserMemoryPanel() {
               </p>
             ) : (
               <div className="space-y-4">
-                {memories.map((memory, index) => (
-                  <div key={index} className="border-l-4 border-blue-500 pl-4 py-2">
+                {memories.map((memory) => (
+                  <div
+                    key={memory.id}
+                    className={`border-l-4 pl-4 py-2 ${memory.pinned ? "border-amber-500" : "border-blue-500"}`}
+                  >
                     <div className="flex items-center justify-between mb-1">
                       <span className="text-sm font-medium text-blue-600">
+                        {memory.pinned && <span className="mr-1 text-amber-600">Pinned ·</span>}
                         {memory.context}
                       </span>
                       <span className="text-xs text-gray-500">
                         {new Date(memory.timestamp).toLocaleDateString()}
+                        <span className="ml-2">
+                          Importance {memory.importance}
+                          {memory.pinned && memory.storedImportance !== memory.importance && ` (${memory.storedImportance} unpinned)`}
+                        </span>
                         {searchQuery && (
                           <span className="ml-2 bg-blue-100 text-blue-800 px-2 py-1 rounded text-xs">
                             {Math.round(memory.similarity * 100)}% match
@@ -359,12 +517,46 @@ export function UserMemoryPanel() {
                         )}
                       </span>
                     </div>
-                    <p className="text-gray-700 text-sm">
-                      {memory.content.length > 200 
-                        ? memory.content.substring(0, 200) + "..." 
-                        : memory.content
-                      }
-                    </p>
+                    {editing?.id === memory.id ? (
+                      <div className="space-y-2">
+                        <textarea
+                          value={editing.content}
+                          onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                          rows={4}
+                          className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <div className="flex items-center gap-3">
+                          <label className="text-sm text-gray-700">
+                            Importance
+                            <input
+                              type="number"
+                              min="1"
+                              max="10"
+                              value={editing.importance}
+                              onChange={(e) => setEditing({ ...editing, importance: parseInt(e.target.value, 10) || 1 })}
+                              className="ml-2 w-16 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                          </label>
+                          <button
+                            onClick={saveEdit}
+                            disabled={!editing.content.trim()}
+                            className="bg-blue-600 text-white px-3 py-1 rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                          <button onClick={() => setEditing(null)} className="text-sm text-gray-600 hover:text-gray-900">
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-gray-700 text-sm">
+                        {memory.content.length > 200 
+                          ? memory.content.substring(0, 200) + "..." 
+                          : memory.content
+                        }
+                      </p>
+                    )}
                     {memory.metadata.keywords && memory.metadata.keywords.length > 0 && (
                       <div className="mt-2 flex flex-wrap gap-1">
                         {memory.metadata.keywords.slice(0, 5).map((keyword, i) => (
@@ -377,11 +569,95 @@ export function UserMemoryPanel() {
                         ))}
                       </div>
                     )}
+                    {editing?.id !== memory.id && (
+                      <div className="mt-2 flex gap-3 text-xs">
+                        <button
+                          onClick={() => patchMemory(memory.id, { pinned: !memory.pinned })}
+                          className="text-amber-600 hover:text-amber-800"
+                        >
+                          {memory.pinned ? "Unpin" : "Pin"}
+                        </button>
+                        <button
+                          onClick={() => setEditing({ id: memory.id, content: memory.content, importance: memory.storedImportance })}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Edit
+                        </button>
+                        <button onClick={() => deleteMemory(memory)} className="text-red-600 hover:text-red-800">
+                          Delete
+                        </button>
+                      </div>
+                    )}
                   </div>
                 ))}
+                {nextCursor && !searchQuery && (
+                  <button
+                    onClick={() => loadRecentMemories(nextCursor)}
+                    className="w-full py-2 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Load older memories
+                  </button>
+                )}
               </div>
             )}
           </div>
+
+          {/* Consolidation */}
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h2 className="text-lg font-semibold mb-1">Consolidate Memories</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Summarise related memories into short facts about you and drop duplicates. This also runs automatically.
+              Pinned memories are kept as they are.
+            </p>
+            <button
+              onClick={consolidateMemories}
+              disabled={isConsolidating}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              {isConsolidating ? "Consolidating..." : "Consolidate Now"}
+            </button>
+            {consolidationMessage && <p className="mt-2 text-sm text-gray-700">{consolidationMessage}</p>}
+          </div>
+
+          {/* Bulk Delete */}
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h2 className="text-lg font-semibold mb-1">Delete Memories</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Delete every memory on a topic, stored in a date range, or both. Pinned memories are kept.
+            </p>
+
+            <div className="grid gap-3 sm:grid-cols-3">
+              <input
+                type="text"
+                value={bulkFilter.topic}
+                onChange={(e) => setBulkFilter({ ...bulkFilter, topic: e.target.value })}
+                placeholder="Topic, e.g. science"
+                aria-label="Topic"
+                className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <input
+                type="date"
+                value={bulkFilter.from}
+                onChange={(e) => setBulkFilter({ ...bulkFilter, from: e.target.value })}
+                aria-label="From"
+                className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <input
+                type="date"
+                value={bulkFilter.to}
+                onChange={(e) => setBulkFilter({ ...bulkFilter, to: e.target.value })}
+                aria-label="To"
+                className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              onClick={bulkDelete}
+              disabled={!bulkFilter.topic.trim() && !bulkFilter.from && !bulkFilter.to}
+              className="mt-4 bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              Delete Matching Memories
+            </button>
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,316 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { SavedQuery } from "@/types";
+import { SnapshotHistory } from "./SnapshotHistory";
+
+interface DatasetOption {
+  datasetId: string;
+  name: string;
+}
+
+// Schedules are evaluated in UTC
+const SCHEDULE_PRESETS = [
+  { value: "@hourly", label: "Every hour" },
+  { value: "0 9 * * *", label: "Every day at 09:00 UTC" },
+  { value: "0 9 * * 1-5", label: "Weekdays at 09:00 UTC" },
+  { value: "0 9 * * 1", label: "Mondays at 09:00 UTC" },
+  { value: "@monthly", label: "First of the month" },
+];
+const CUSTOM_SCHEDULE = "custom";
+
+function describeSchedule(schedule: string): string {
+  return SCHEDULE_PRESETS.find(preset => preset.value === schedule)?.label ?? `cron: ${schedule} (UTC)`;
+}
+
+export function SavedQueriesPanel() {
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>([]);
+  const [datasets, setDatasets] = useState<DatasetOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [name, setName] = useState("");
+  const [preset, setPreset] = useState(SCHEDULE_PRESETS[1].value);
+  const [customSchedule, setCustomSchedule] = useState("");
+  const [datasetId, setDatasetId] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
+
+  useEffect(() => {
+    loadSavedQueries();
+    loadDatasets();
+  }, []);
+
+  const loadSavedQueries = async () => {
+    try {
+      const response = await fetch("/api/saved-queries");
+      if (response.ok) {
+        const data = await response.json();
+        setSavedQueries(data.savedQueries || []);
+      }
+    } catch (error) {
+      console.error("Failed to load saved queries:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadDatasets = async () => {
+    try {
+      const response = await fetch("/api/datasets");
+      if (response.ok) {
+        const data = await response.json();
+        setDatasets(data.datasets || []);
+      }
+    } catch (error) {
+      console.error("Failed to load datasets:", error);
+    }
+  };
+
+  const replaceSavedQuery = (savedQuery: SavedQuery) =>
+    setSavedQueries(previous => previous.map(item => (item.savedQueryId === savedQuery.savedQueryId ? savedQuery : item)));
+
+  const createSavedQuery = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/saved-queries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query,
+          name: name || undefined,
+          schedule: preset === CUSTOM_SCHEDULE ? customSchedule : preset,
+          datasetId: datasetId || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to save query");
+        return;
+      }
+
+      setSavedQueries(previous => [data.savedQuery, ...previous]);
+      setQuery("");
+      setName("");
+    } catch (error) {
+      console.error("Failed to save query:", error);
+      setError("Failed to save query");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setEnabled = async (savedQuery: SavedQuery, enabled: boolean) => {
+    try {
+      const response = await fetch("/api/saved-queries", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ savedQueryId: savedQuery.savedQueryId, enabled }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        replaceSavedQuery(data.savedQuery);
+      } else {
+        alert(data.error || "Failed to update saved query");
+      }
+    } catch (error) {
+      console.error("Failed to update saved query:", error);
+      alert("Failed to update saved query");
+    }
+  };
+
+  const runNow = async (savedQuery: SavedQuery) => {
+    setRunningId(savedQuery.savedQueryId);
+    try {
+      const response = await fetch("/api/saved-queries/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ savedQueryId: savedQuery.savedQueryId }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || "Failed to run query");
+      }
+      setSelectedId(savedQuery.savedQueryId);
+      setHistoryKey(key => key + 1);
+      await loadSavedQueries();
+    } catch (error) {
+      console.error("Failed to run saved query:", error);
+      alert("Failed to run query");
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const deleteSavedQuery = async (savedQueryId: string) => {
+    if (!confirm("Delete this saved query and all of its snapshots?")) return;
+
+    try {
+      const response = await fetch(`/api/saved-queries?savedQueryId=${encodeURIComponent(savedQueryId)}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        setSavedQueries(previous => previous.filter(item => item.savedQueryId !== savedQueryId));
+        if (selectedId === savedQueryId) setSelectedId(null);
+      } else {
+        alert("Failed to delete saved query");
+      }
+    } catch (error) {
+      console.error("Failed to delete saved query:", error);
+      alert("Failed to delete saved query");
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-2">Scheduled Queries</h1>
+      <p className="text-sm text-gray-600 mb-6">
+        Save a question to rerun on a schedule. Every run is kept as a snapshot, so you can scroll back through earlier answers and compare versions.
+      </p>
+
+      {/* New saved query */}
+      <form onSubmit={createSavedQuery} className="bg-white rounded-lg shadow-sm border p-6 mb-6 space-y-4">
+        <div>
+          <label htmlFor="savedQuery" className="block text-sm font-medium text-gray-700 mb-1">Query</label>
+          <textarea
+            id="savedQuery"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            rows={2}
+            required
+            placeholder="Current market share of cloud providers"
+            className="w-full border rounded-md px-3 py-2 text-sm"
+          />
+        </div>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label htmlFor="savedQueryName" className="block text-sm font-medium text-gray-700 mb-1">Name (optional)</label>
+            <input
+              id="savedQueryName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="savedQueryDataset" className="block text-sm font-medium text-gray-700 mb-1">Answer from</label>
+            <select
+              id="savedQueryDataset"
+              value={datasetId}
+              onChange={(e) => setDatasetId(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">Web and model knowledge</option>
+              {datasets.map(dataset => (
+                <option key={dataset.datasetId} value={dataset.datasetId}>{dataset.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="savedQuerySchedule" className="block text-sm font-medium text-gray-700 mb-1">Schedule</label>
+            <select
+              id="savedQuerySchedule"
+              value={preset}
+              onChange={(e) => setPreset(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            >
+              {SCHEDULE_PRESETS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+              <option value={CUSTOM_SCHEDULE}>Custom cron expression</option>
+            </select>
+          </div>
+          {preset === CUSTOM_SCHEDULE && (
+            <div>
+              <label htmlFor="savedQueryCron" className="block text-sm font-medium text-gray-700 mb-1">Cron (UTC)</label>
+              <input
+                id="savedQueryCron"
+                value={customSchedule}
+                onChange={(e) => setCustomSchedule(e.target.value)}
+                required
+                placeholder="30 6 * * 1-5"
+                className="w-full border rounded-md px-3 py-2 text-sm font-mono"
+              />
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Save Query"}
+          </button>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </form>
+
+      {/* Saved query list */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h2 className="text-lg font-semibold mb-4">Saved Queries</h2>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : savedQueries.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No saved queries yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {savedQueries.map((savedQuery) => (
+              <div key={savedQuery.savedQueryId} className={`border-l-4 pl-4 py-2 ${savedQuery.enabled ? "border-blue-500" : "border-gray-300"}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">{savedQuery.name}</p>
+                    {savedQuery.name !== savedQuery.query && <p className="text-sm text-gray-700 truncate">{savedQuery.query}</p>}
+                    <p className="text-xs text-gray-500">
+                      {describeSchedule(savedQuery.schedule)} ·{" "}
+                      {savedQuery.enabled && savedQuery.nextRunAt ? `next run ${new Date(savedQuery.nextRunAt).toLocaleString()}` : "paused"}
+                      {savedQuery.lastRunAt && ` · last run ${new Date(savedQuery.lastRunAt).toLocaleString()}`}
+                    </p>
+                    {savedQuery.lastStatus === "error" && (
+                      <p className="text-xs text-red-600 mt-1">Last run failed: {savedQuery.lastError}</p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-3 text-sm">
+                    <button
+                      onClick={() => runNow(savedQuery)}
+                      disabled={runningId !== null}
+                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      {runningId === savedQuery.savedQueryId ? "Running..." : "Run now"}
+                    </button>
+                    <button
+                      onClick={() => setSelectedId(selectedId === savedQuery.savedQueryId ? null : savedQuery.savedQueryId)}
+                      className="text-gray-700 hover:text-gray-900"
+                    >
+                      {selectedId === savedQuery.savedQueryId ? "Hide history" : "History"}
+                    </button>
+                    <button onClick={() => setEnabled(savedQuery, !savedQuery.enabled)} className="text-gray-700 hover:text-gray-900">
+                      {savedQuery.enabled ? "Pause" : "Resume"}
+                    </button>
+                    <button onClick={() => deleteSavedQuery(savedQuery.savedQueryId)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                {selectedId === savedQuery.savedQueryId && (
+                  <div className="mt-4">
+                    <SnapshotHistory savedQueryId={savedQuery.savedQueryId} refreshKey={historyKey} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
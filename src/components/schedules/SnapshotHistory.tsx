@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { DashboardSnapshot } from "@/types";
+import { DashboardDiffView } from "../dashboard/DashboardDiffView";
+import { ReadOnlyDashboard } from "../dashboard/ReadOnlyDashboard";
+
+interface SnapshotHistoryProps {
+  savedQueryId: string;
+  refreshKey: number; // bump to reload after a run
+}
+
+// Scroll through a saved query's snapshots and compare any one with an earlier version
+export function SnapshotHistory({ savedQueryId, refreshKey }: SnapshotHistoryProps) {
+  const [snapshots, setSnapshots] = useState<DashboardSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [position, setPosition] = useState(0); // 0 is the newest snapshot
+  const [compareWith, setCompareWith] = useState<number | null>(null); // a version number
+
+  useEffect(() => {
+    const loadSnapshots = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/saved-queries/snapshots?savedQueryId=${encodeURIComponent(savedQueryId)}`);
+        if (response.ok) {
+          const data = await response.json();
+          setSnapshots(data.snapshots || []);
+          setPosition(0);
+          setCompareWith(null);
+        }
+      } catch (error) {
+        console.error("Failed to load snapshots:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadSnapshots();
+  }, [savedQueryId, refreshKey]);
+
+  const current = snapshots[position];
+  const baseline = snapshots.find(snapshot => snapshot.version === compareWith);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!current) {
+    return <p className="text-gray-500 text-center py-8">No snapshots yet. Run the query or wait for its schedule.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPosition(position + 1)}
+            disabled={position >= snapshots.length - 1}
+            className="px-3 py-1 text-sm border rounded-md hover:bg-gray-50 disabled:opacity-40"
+          >
+            ← Older
+          </button>
+          <span className="text-sm text-gray-700">
+            Version {current.version} of {snapshots[0].version} · {new Date(current.createdAt).toLocaleString()}
+          </span>
+          <button
+            onClick={() => setPosition(position - 1)}
+            disabled={position === 0}
+            className="px-3 py-1 text-sm border rounded-md hover:bg-gray-50 disabled:opacity-40"
+          >
+            Newer →
+          </button>
+        </div>
+
+        <label className="text-sm text-gray-700 flex items-center gap-2">
+          Compare with
+          <select
+            value={compareWith ?? ""}
+            onChange={(e) => setCompareWith(e.target.value ? Number(e.target.value) : null)}
+            className="border rounded-md px-2 py-1 text-sm"
+          >
+            <option value="">—</option>
+            {snapshots
+              .filter(snapshot => snapshot.version !== current.version)
+              .map(snapshot => (
+                <option key={snapshot.snapshotId} value={snapshot.version}>
+                  Version {snapshot.version} ({new Date(snapshot.createdAt).toLocaleDateString()})
+                </option>
+              ))}
+          </select>
+        </label>
+      </div>
+
+      {baseline && (
+        <div className="border rounded-md p-4 bg-gray-50">
+          <DashboardDiffView
+            before={baseline.dashboard}
+            after={current.dashboard}
+            beforeLabel={`Version ${baseline.version}`}
+            afterLabel={`Version ${current.version}`}
+          />
+        </div>
+      )}
+
+      <div className="border rounded-md">
+        <ReadOnlyDashboard dashboard={current.dashboard} compact />
+      </div>
+    </div>
+  );
+}
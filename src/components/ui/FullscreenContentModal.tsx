@@ -1,7 +1,9 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { DashboardRenderer } from "@/components/dashboard/DashboardRenderer";
+import { ExportMenu } from "@/components/dashboard/ExportMenu";
+import { ShareMenu } from "@/components/dashboard/ShareMenu";
 import { useTheme } from "@/components/ui/ThemeToggle";
 import type { DashboardOutput } from "@/types";
 
@@ -22,6 +24,7 @@ export function FullscreenContentModal({
 }: FullscreenContentModalProps) {
   const { theme } = useTheme();
   const [isVisible, setIsVisible] = useState(false);
+  const contentRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -74,6 +77,8 @@ export function FullscreenContentModal({
               </div>
 
               <div className="flex items-center gap-2">
+                {dashboard && !isLoading && <ShareMenu dashboard={dashboard} />}
+                {dashboard && !isLoading && <ExportMenu dashboard={dashboard} contentRef={contentRef} />}
                 <button
                   onClick={handleClose}
                   className="rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-100 dark:bg-slate-800/50 px-4 py-2 text-slate-700 dark:text-slate-200 transition hover:border-blue-500 hover:bg-slate-200 dark:hover:bg-slate-800 flex items-center gap-2"
@@ -89,7 +94,7 @@ export function FullscreenContentModal({
 
           {/* Content */}
           <div className="h-[calc(100vh-80px)] overflow-y-auto">
-            <div className="max-w-7xl mx-auto p-6">
+            <div ref={contentRef} className="max-w-7xl mx-auto p-6">
               {dashboard ? (
                 <DashboardRenderer 
                   dashboard={dashboard} 
@@ -2,7 +2,7 @@
 
 import { createContext, useContext, useEffect, useState } from "react";
 
-type Theme = "dark" | "light";
+export type Theme = "dark" | "light";
 
 interface ThemeContextType {
   theme: Theme;
@@ -11,10 +11,13 @@ interface ThemeContextType {
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
-export function ThemeProvider({ children }: { children: React.ReactNode }) {
-  const [theme, setTheme] = useState<Theme>("dark");
+// A forced theme (embedded dashboards) is fixed for the subtree: it ignores the saved
+// preference and never touches the document class or localStorage
+export function ThemeProvider({ children, forcedTheme }: { children: React.ReactNode; forcedTheme?: Theme }) {
+  const [theme, setTheme] = useState<Theme>(forcedTheme ?? "dark");
 
   useEffect(() => {
+    if (forcedTheme) return;
     // Check for saved theme preference or default to dark
     const savedTheme = localStorage.getItem("theme") as Theme;
     if (savedTheme) {
@@ -22,9 +25,10 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
     } else {
       setTheme("dark");
     }
-  }, []);
+  }, [forcedTheme]);
 
   useEffect(() => {
+    if (forcedTheme) return;
     // Apply theme to document
     if (theme === "dark") {
       document.documentElement.classList.add("dark");
@@ -34,9 +38,10 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
     
     // Save theme preference
     localStorage.setItem("theme", theme);
-  }, [theme]);
+  }, [theme, forcedTheme]);
 
   const toggleTheme = () => {
+    if (forcedTheme) return;
     setTheme(prev => prev === "dark" ? "light" : "dark");
   };
 
@@ -0,0 +1,12 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Scheduled saved queries and memory maintenance need Node (crypto, long-lived
+  // timers); set SCHEDULER_ENABLED=false on all but one instance when running several
+  if (process.env.NEXT_RUNTIME !== "nodejs" || process.env.SCHEDULER_ENABLED === "false") return;
+
+  const { startScheduler } = await import("@/lib/schedules/runner");
+  startScheduler();
+
+  const { startMemoryMaintenance } = await import("@/lib/memory/maintenance");
+  startMemoryMaintenance();
+}
@@ -1,4 +1,5 @@
 import "server-only";
+import { withReplay } from "@/lib/replay/fixtures";
 
 export interface PerplexitySource {
   title?: string;
@@ -212,6 +213,10 @@ function mergeMultiServiceContent(
 }
 
 export async function queryMultipleAIServices(query: string): Promise<MultiServiceResponse> {
+  return withReplay("multi-service", { query }, () => queryAllServices(query));
+}
+
+async function queryAllServices(query: string): Promise<MultiServiceResponse> {
   console.log("[MultiAI] Querying multiple AI services for:", query);
 
   // Run all services in parallel for better performance
@@ -6,6 +6,11 @@ const QUERY_COLLECTION_ID = process.env.APPWRITE_COLLECTION_QUERIES ?? "queries"
 const USER_CHAT_COLLECTION_ID = process.env.APPWRITE_COLLECTION_USER_CHAT ?? "user_chat";
 const USER_PROFILE_COLLECTION_ID = process.env.APPWRITE_COLLECTION_USER_PROFILE ?? "user_profiles";
 const USER_MEMORY_METADATA_COLLECTION_ID = process.env.APPWRITE_COLLECTION_USER_MEMORY_METADATA ?? "user_memory_metadata";
+const USER_DOCUMENTS_COLLECTION_ID = process.env.APPWRITE_COLLECTION_USER_DOCUMENTS ?? "user_documents";
+const USER_DATASETS_COLLECTION_ID = process.env.APPWRITE_COLLECTION_USER_DATASETS ?? "user_datasets";
+const SHARED_DASHBOARDS_COLLECTION_ID = process.env.APPWRITE_COLLECTION_SHARED_DASHBOARDS ?? "shared_dashboards";
+const SAVED_QUERIES_COLLECTION_ID = process.env.APPWRITE_COLLECTION_SAVED_QUERIES ?? "saved_queries";
+const DASHBOARD_SNAPSHOTS_COLLECTION_ID = process.env.APPWRITE_COLLECTION_DASHBOARD_SNAPSHOTS ?? "dashboard_snapshots";
 
 export interface QueryLogEntry {
   userId: string;
@@ -57,12 +62,79 @@ export interface UserMemoryMetadata {
   memoryId: string; // ID from Pinecone
   topic: string;
   importance: number;
+  pinned: boolean;
   lastAccessed: string;
   accessCount: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface UserDocument {
+  $id?: string;
+  userId: string;
+  documentId: string; // Also the Pinecone vector id prefix
+  fileName: string;
+  format: string;
+  size: number;
+  pageCount: number;
+  chunkCount: number;
+  createdAt: string;
+}
+
+export interface UserDatasetRecord {
+  $id?: string;
+  userId: string;
+  datasetId: string;
+  name: string;
+  format: string;
+  rowCount: number;
+  schema: string; // JSON string of DatasetSchema
+  fileId: string; // Appwrite Storage file holding the normalised rows
+  createdAt: string;
+}
+
+export interface SharedDashboardRecord {
+  $id?: string;
+  shareId: string;
+  userId: string; // owner
+  title: string;
+  dashboard: string; // JSON string of DashboardOutput
+  visibility: string;
+  expiresAt?: string | null;
+  revokedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedQueryRecord {
+  $id?: string;
+  savedQueryId: string;
+  userId: string; // owner; scheduled runs generate on their behalf
+  name: string;
+  query: string;
+  schedule: string; // cron expression
+  datasetId?: string | null;
+  sqlSourceId?: string | null;
+  useMemory: boolean;
+  enabled: boolean;
+  nextRunAt?: string | null;
+  lastRunAt?: string | null;
+  lastStatus?: string | null;
+  lastError?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DashboardSnapshotRecord {
+  $id?: string;
+  snapshotId: string;
+  savedQueryId: string;
+  userId: string;
+  version: number;
+  dashboard: string; // JSON string of DashboardOutput
+  createdAt: string;
+}
+
 export async function logQuery(entry: Omit<QueryLogEntry, "createdAt">): Promise<void> {
   const hasConfig =
     Boolean(process.env.APPWRITE_ENDPOINT) &&
@@ -128,6 +200,67 @@ export async function saveChatMessage(message: Omit<ChatMessage, "$id" | "create
   }
 }
 
+export async function getChatMessage(messageId: string): Promise<ChatMessage | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping chat message retrieval: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const document = await databases.getDocument(DATABASE_ID, USER_CHAT_COLLECTION_ID, messageId);
+    return mapChatMessage(document);
+  } catch (error) {
+    console.error("[Appwrite] Failed to get chat message", error);
+    return null;
+  }
+}
+
+export async function updateChatMessage(
+  messageId: string,
+  changes: Partial<Pick<ChatMessage, "content" | "dashboardData">>
+): Promise<ChatMessage | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping chat message update: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const updated = await databases.updateDocument(DATABASE_ID, USER_CHAT_COLLECTION_ID, messageId, {
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    });
+    return mapChatMessage(updated);
+  } catch (error) {
+    console.error("[Appwrite] Failed to update chat message", error);
+    return null;
+  }
+}
+
+function mapChatMessage(doc: Record<string, unknown> & { $id: string }): ChatMessage {
+  return {
+    $id: doc.$id,
+    userId: doc.userId as string,
+    role: doc.role as ChatMessage["role"],
+    content: doc.content as string,
+    sessionId: (doc.sessionId as string | null) ?? undefined,
+    dashboardData: (doc.dashboardData as string | null) ?? undefined,
+    createdAt: doc.createdAt as string,
+    updatedAt: doc.updatedAt as string | undefined,
+  };
+}
+
 export async function getUserChatHistory(userId: string, limit: number = 50): Promise<ChatMessage[]> {
   const hasConfig =
     Boolean(process.env.APPWRITE_ENDPOINT) &&
@@ -467,6 +600,45 @@ export async function createOrUpdateUserProfile(profile: Omit<UserProfile, "$id"
   }
 }
 
+// A page of every user's profile, for jobs that apply each user's settings. Pass the
+// last profile's $id as `cursor` for the next page.
+export async function listUserProfiles(cursor?: string, limit: number = 100): Promise<UserProfile[]> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping user profile list: missing server credentials");
+    return [];
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    const response = await databases.listDocuments(
+      DATABASE_ID,
+      USER_PROFILE_COLLECTION_ID,
+      [
+        Query.limit(limit),
+        ...(cursor ? [Query.cursorAfter(cursor)] : [])
+      ]
+    );
+
+    return response.documents.map(doc => ({
+      $id: doc.$id,
+      userId: doc.userId,
+      preferences: doc.preferences,
+      memorySettings: doc.memorySettings,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    }));
+  } catch (error) {
+    console.error("[Appwrite] Failed to list user profiles", error);
+    return [];
+  }
+}
+
 // Memory Metadata Management
 export async function saveMemoryMetadata(metadata: Omit<UserMemoryMetadata, "$id" | "createdAt" | "updatedAt">): Promise<UserMemoryMetadata | null> {
   const hasConfig =
@@ -492,6 +664,7 @@ export async function saveMemoryMetadata(metadata: Omit<UserMemoryMetadata, "$id
         memoryId: metadata.memoryId,
         topic: metadata.topic,
         importance: metadata.importance,
+        pinned: metadata.pinned,
         lastAccessed: metadata.lastAccessed,
         accessCount: metadata.accessCount,
         createdAt: now,
@@ -499,17 +672,7 @@ export async function saveMemoryMetadata(metadata: Omit<UserMemoryMetadata, "$id
       }
     );
 
-    return {
-      $id: document.$id,
-      userId: document.userId,
-      memoryId: document.memoryId,
-      topic: document.topic,
-      importance: document.importance,
-      lastAccessed: document.lastAccessed,
-      accessCount: document.accessCount,
-      createdAt: document.createdAt,
-      updatedAt: document.updatedAt,
-    };
+    return mapMemoryMetadata(document);
   } catch (error) {
     console.error("[Appwrite] Failed to save memory metadata", error);
     return null;
@@ -557,3 +720,810 @@ export async function updateMemoryAccess(memoryId: string, userId: string): Prom
     console.error("[Appwrite] Failed to update memory access", error);
   }
 }
+
+// Newest first. Pass the last row's $id as `cursor` for the next page.
+export async function listMemoryMetadata(userId: string, limit: number = 25, cursor?: string): Promise<UserMemoryMetadata[]> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping memory metadata list: missing server credentials");
+    return [];
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    const response = await databases.listDocuments(
+      DATABASE_ID,
+      USER_MEMORY_METADATA_COLLECTION_ID,
+      [
+        Query.equal("userId", userId),
+        Query.orderDesc("createdAt"),
+        Query.limit(limit),
+        ...(cursor ? [Query.cursorAfter(cursor)] : [])
+      ]
+    );
+
+    return response.documents.map(mapMemoryMetadata);
+  } catch (error) {
+    console.error("[Appwrite] Failed to list memory metadata", error);
+    return [];
+  }
+}
+
+// Null when the memory has no metadata row, e.g. one stored before metadata was recorded
+export async function updateMemoryMetadata(
+  memoryId: string,
+  userId: string,
+  changes: Partial<Pick<UserMemoryMetadata, "topic" | "importance" | "pinned">>
+): Promise<UserMemoryMetadata | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping memory metadata update: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    const response = await databases.listDocuments(
+      DATABASE_ID,
+      USER_MEMORY_METADATA_COLLECTION_ID,
+      [
+        Query.equal("memoryId", memoryId),
+        Query.equal("userId", userId),
+        Query.limit(1)
+      ]
+    );
+    if (response.documents.length === 0) return null;
+
+    const updated = await databases.updateDocument(
+      DATABASE_ID,
+      USER_MEMORY_METADATA_COLLECTION_ID,
+      response.documents[0].$id,
+      {
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      }
+    );
+    return mapMemoryMetadata(updated);
+  } catch (error) {
+    console.error("[Appwrite] Failed to update memory metadata", error);
+    return null;
+  }
+}
+
+export async function deleteMemoryMetadata(userId: string, memoryIds: string[]): Promise<boolean> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping memory metadata delete: missing server credentials");
+    return false;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    // Query.equal takes at most 100 values
+    for (let start = 0; start < memoryIds.length; start += 100) {
+      const response = await databases.listDocuments(
+        DATABASE_ID,
+        USER_MEMORY_METADATA_COLLECTION_ID,
+        [
+          Query.equal("memoryId", memoryIds.slice(start, start + 100)),
+          Query.equal("userId", userId),
+          Query.limit(100)
+        ]
+      );
+
+      await Promise.all(
+        response.documents.map(doc => databases.deleteDocument(DATABASE_ID, USER_MEMORY_METADATA_COLLECTION_ID, doc.$id))
+      );
+    }
+    return true;
+  } catch (error) {
+    console.error("[Appwrite] Failed to delete memory metadata", error);
+    return false;
+  }
+}
+
+function mapMemoryMetadata(doc: Record<string, unknown> & { $id: string }): UserMemoryMetadata {
+  return {
+    $id: doc.$id,
+    userId: doc.userId as string,
+    memoryId: doc.memoryId as string,
+    topic: doc.topic as string,
+    importance: doc.importance as number,
+    pinned: (doc.pinned as boolean | undefined) ?? false,
+    lastAccessed: doc.lastAccessed as string,
+    accessCount: doc.accessCount as number,
+    createdAt: doc.createdAt as string,
+    updatedAt: doc.updatedAt as string,
+  };
+}
+
+export async function saveUserDocument(document: Omit<UserDocument, "$id" | "createdAt">): Promise<UserDocument | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping document record save: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const now = new Date().toISOString();
+
+    const record = await databases.createDocument(
+      DATABASE_ID,
+      USER_DOCUMENTS_COLLECTION_ID,
+      ID.custom(document.documentId),
+      {
+        userId: document.userId,
+        documentId: document.documentId,
+        fileName: document.fileName,
+        format: document.format,
+        size: document.size,
+        pageCount: document.pageCount,
+        chunkCount: document.chunkCount,
+        createdAt: now,
+      }
+    );
+
+    return mapUserDocument(record);
+  } catch (error) {
+    console.error("[Appwrite] Failed to save document record", error);
+    return null;
+  }
+}
+
+export async function getUserDocuments(userId: string, limit: number = 100): Promise<UserDocument[]> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping document list: missing server credentials");
+    return [];
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    const response = await databases.listDocuments(
+      DATABASE_ID,
+      USER_DOCUMENTS_COLLECTION_ID,
+      [
+        Query.equal("userId", userId),
+        Query.orderDesc("createdAt"),
+        Query.limit(limit)
+      ]
+    );
+
+    return response.documents.map(mapUserDocument);
+  } catch (error) {
+    console.error("[Appwrite] Failed to list documents", error);
+    return [];
+  }
+}
+
+export async function getUserDocument(userId: string, documentId: string): Promise<UserDocument | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping document lookup: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const record = await databases.getDocument(DATABASE_ID, USER_DOCUMENTS_COLLECTION_ID, documentId);
+
+    // Never hand out another user's document
+    return record.userId === userId ? mapUserDocument(record) : null;
+  } catch (error) {
+    console.error("[Appwrite] Failed to get document record", error);
+    return null;
+  }
+}
+
+export async function deleteUserDocument(userId: string, documentId: string): Promise<boolean> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping document delete: missing server credentials");
+    return false;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const record = await databases.getDocument(DATABASE_ID, USER_DOCUMENTS_COLLECTION_ID, documentId);
+
+    if (record.userId !== userId) {
+      return false;
+    }
+
+    await databases.deleteDocument(DATABASE_ID, USER_DOCUMENTS_COLLECTION_ID, documentId);
+    return true;
+  } catch (error) {
+    console.error("[Appwrite] Failed to delete document record", error);
+    return false;
+  }
+}
+
+function mapUserDocument(doc: Record<string, unknown> & { $id: string }): UserDocument {
+  return {
+    $id: doc.$id,
+    userId: doc.userId as string,
+    documentId: doc.documentId as string,
+    fileName: doc.fileName as string,
+    format: doc.format as string,
+    size: doc.size as number,
+    pageCount: doc.pageCount as number,
+    chunkCount: doc.chunkCount as number,
+    createdAt: doc.createdAt as string,
+  };
+}
+
+export async function saveDatasetRecord(dataset: Omit<UserDatasetRecord, "$id" | "createdAt">): Promise<UserDatasetRecord | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping dataset record save: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    const record = await databases.createDocument(
+      DATABASE_ID,
+      USER_DATASETS_COLLECTION_ID,
+      ID.custom(dataset.datasetId),
+      {
+        ...dataset,
+        createdAt: new Date().toISOString(),
+      }
+    );
+
+    return mapDatasetRecord(record);
+  } catch (error) {
+    console.error("[Appwrite] Failed to save dataset record", error);
+    return null;
+  }
+}
+
+export async function getUserDatasets(userId: string, limit: number = 100): Promise<UserDatasetRecord[]> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping dataset list: missing server credentials");
+    return [];
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    const response = await databases.listDocuments(
+      DATABASE_ID,
+      USER_DATASETS_COLLECTION_ID,
+      [
+        Query.equal("userId", userId),
+        Query.orderDesc("createdAt"),
+        Query.limit(limit)
+      ]
+    );
+
+    return response.documents.map(mapDatasetRecord);
+  } catch (error) {
+    console.error("[Appwrite] Failed to list datasets", error);
+    return [];
+  }
+}
+
+export async function getDatasetRecord(userId: string, datasetId: string): Promise<UserDatasetRecord | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping dataset lookup: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const record = await databases.getDocument(DATABASE_ID, USER_DATASETS_COLLECTION_ID, datasetId);
+
+    return record.userId === userId ? mapDatasetRecord(record) : null;
+  } catch (error) {
+    console.error("[Appwrite] Failed to get dataset record", error);
+    return null;
+  }
+}
+
+export async function deleteDatasetRecord(datasetId: string): Promise<boolean> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping dataset delete: missing server credentials");
+    return false;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    await databases.deleteDocument(DATABASE_ID, USER_DATASETS_COLLECTION_ID, datasetId);
+    return true;
+  } catch (error) {
+    console.error("[Appwrite] Failed to delete dataset record", error);
+    return false;
+  }
+}
+
+function mapDatasetRecord(doc: Record<string, unknown> & { $id: string }): UserDatasetRecord {
+  return {
+    $id: doc.$id,
+    userId: doc.userId as string,
+    datasetId: doc.datasetId as string,
+    name: doc.name as string,
+    format: doc.format as string,
+    rowCount: doc.rowCount as number,
+    schema: doc.schema as string,
+    fileId: doc.fileId as string,
+    createdAt: doc.createdAt as string,
+  };
+}
+
+export async function saveSharedDashboard(share: Omit<SharedDashboardRecord, "$id" | "createdAt" | "updatedAt">): Promise<SharedDashboardRecord | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping shared dashboard save: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const now = new Date().toISOString();
+
+    const record = await databases.createDocument(
+      DATABASE_ID,
+      SHARED_DASHBOARDS_COLLECTION_ID,
+      ID.custom(share.shareId),
+      {
+        ...share,
+        createdAt: now,
+        updatedAt: now,
+      }
+    );
+
+    return mapSharedDashboard(record);
+  } catch (error) {
+    console.error("[Appwrite] Failed to save shared dashboard", error);
+    return null;
+  }
+}
+
+// Not scoped to a user: anonymous viewers open links too. Callers check visibility.
+export async function getSharedDashboard(shareId: string): Promise<SharedDashboardRecord | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping shared dashboard lookup: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const record = await databases.getDocument(DATABASE_ID, SHARED_DASHBOARDS_COLLECTION_ID, shareId);
+    return mapSharedDashboard(record);
+  } catch (error) {
+    console.error("[Appwrite] Failed to get shared dashboard", error);
+    return null;
+  }
+}
+
+export async function getUserSharedDashboards(userId: string, limit: number = 100): Promise<SharedDashboardRecord[]> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping shared dashboard list: missing server credentials");
+    return [];
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    const response = await databases.listDocuments(
+      DATABASE_ID,
+      SHARED_DASHBOARDS_COLLECTION_ID,
+      [
+        Query.equal("userId", userId),
+        Query.orderDesc("createdAt"),
+        Query.limit(limit)
+      ]
+    );
+
+    return response.documents.map(mapSharedDashboard);
+  } catch (error) {
+    console.error("[Appwrite] Failed to list shared dashboards", error);
+    return [];
+  }
+}
+
+export async function updateSharedDashboard(
+  userId: string,
+  shareId: string,
+  changes: Partial<Pick<SharedDashboardRecord, "visibility" | "expiresAt" | "revokedAt">>
+): Promise<SharedDashboardRecord | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping shared dashboard update: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const record = await databases.getDocument(DATABASE_ID, SHARED_DASHBOARDS_COLLECTION_ID, shareId);
+
+    if (record.userId !== userId) {
+      return null;
+    }
+
+    const updated = await databases.updateDocument(DATABASE_ID, SHARED_DASHBOARDS_COLLECTION_ID, shareId, {
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    });
+    return mapSharedDashboard(updated);
+  } catch (error) {
+    console.error("[Appwrite] Failed to update shared dashboard", error);
+    return null;
+  }
+}
+
+function mapSharedDashboard(doc: Record<string, unknown> & { $id: string }): SharedDashboardRecord {
+  return {
+    $id: doc.$id,
+    shareId: doc.shareId as string,
+    userId: doc.userId as string,
+    title: doc.title as string,
+    dashboard: doc.dashboard as string,
+    visibility: doc.visibility as string,
+    expiresAt: (doc.expiresAt as string | null | undefined) ?? null,
+    revokedAt: (doc.revokedAt as string | null | undefined) ?? null,
+    createdAt: doc.createdAt as string,
+    updatedAt: doc.updatedAt as string,
+  };
+}
+
+export async function saveSavedQuery(savedQuery: Omit<SavedQueryRecord, "$id" | "createdAt" | "updatedAt">): Promise<SavedQueryRecord | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping saved query save: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const now = new Date().toISOString();
+
+    const record = await databases.createDocument(
+      DATABASE_ID,
+      SAVED_QUERIES_COLLECTION_ID,
+      ID.custom(savedQuery.savedQueryId),
+      {
+        ...savedQuery,
+        createdAt: now,
+        updatedAt: now,
+      }
+    );
+
+    return mapSavedQuery(record);
+  } catch (error) {
+    console.error("[Appwrite] Failed to save saved query", error);
+    return null;
+  }
+}
+
+// Not scoped to a user: the scheduler reads queries on their owners' behalf
+export async function getSavedQuery(savedQueryId: string): Promise<SavedQueryRecord | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping saved query lookup: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const record = await databases.getDocument(DATABASE_ID, SAVED_QUERIES_COLLECTION_ID, savedQueryId);
+    return mapSavedQuery(record);
+  } catch (error) {
+    console.error("[Appwrite] Failed to get saved query", error);
+    return null;
+  }
+}
+
+export async function getUserSavedQueries(userId: string, limit: number = 100): Promise<SavedQueryRecord[]> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping saved query list: missing server credentials");
+    return [];
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    const response = await databases.listDocuments(
+      DATABASE_ID,
+      SAVED_QUERIES_COLLECTION_ID,
+      [
+        Query.equal("userId", userId),
+        Query.orderDesc("createdAt"),
+        Query.limit(limit)
+      ]
+    );
+
+    return response.documents.map(mapSavedQuery);
+  } catch (error) {
+    console.error("[Appwrite] Failed to list saved queries", error);
+    return [];
+  }
+}
+
+export async function getDueSavedQueries(now: string, limit: number = 25): Promise<SavedQueryRecord[]> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping due saved query list: missing server credentials");
+    return [];
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    const response = await databases.listDocuments(
+      DATABASE_ID,
+      SAVED_QUERIES_COLLECTION_ID,
+      [
+        Query.equal("enabled", true),
+        Query.lessThanEqual("nextRunAt", now),
+        Query.orderAsc("nextRunAt"),
+        Query.limit(limit)
+      ]
+    );
+
+    return response.documents.map(mapSavedQuery);
+  } catch (error) {
+    console.error("[Appwrite] Failed to list due saved queries", error);
+    return [];
+  }
+}
+
+export async function updateSavedQuery(
+  savedQueryId: string,
+  changes: Partial<Omit<SavedQueryRecord, "$id" | "savedQueryId" | "userId" | "createdAt" | "updatedAt">>
+): Promise<SavedQueryRecord | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping saved query update: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    const updated = await databases.updateDocument(DATABASE_ID, SAVED_QUERIES_COLLECTION_ID, savedQueryId, {
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    });
+    return mapSavedQuery(updated);
+  } catch (error) {
+    console.error("[Appwrite] Failed to update saved query", error);
+    return null;
+  }
+}
+
+export async function deleteSavedQuery(savedQueryId: string): Promise<boolean> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping saved query delete: missing server credentials");
+    return false;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    await databases.deleteDocument(DATABASE_ID, SAVED_QUERIES_COLLECTION_ID, savedQueryId);
+    return true;
+  } catch (error) {
+    console.error("[Appwrite] Failed to delete saved query", error);
+    return false;
+  }
+}
+
+function mapSavedQuery(doc: Record<string, unknown> & { $id: string }): SavedQueryRecord {
+  return {
+    $id: doc.$id,
+    savedQueryId: doc.savedQueryId as string,
+    userId: doc.userId as string,
+    name: doc.name as string,
+    query: doc.query as string,
+    schedule: doc.schedule as string,
+    datasetId: (doc.datasetId as string | null | undefined) ?? null,
+    sqlSourceId: (doc.sqlSourceId as string | null | undefined) ?? null,
+    useMemory: doc.useMemory as boolean,
+    enabled: doc.enabled as boolean,
+    nextRunAt: (doc.nextRunAt as string | null | undefined) ?? null,
+    lastRunAt: (doc.lastRunAt as string | null | undefined) ?? null,
+    lastStatus: (doc.lastStatus as string | null | undefined) ?? null,
+    lastError: (doc.lastError as string | null | undefined) ?? null,
+    createdAt: doc.createdAt as string,
+    updatedAt: doc.updatedAt as string,
+  };
+}
+
+export async function saveDashboardSnapshot(snapshot: Omit<DashboardSnapshotRecord, "$id" | "createdAt">): Promise<DashboardSnapshotRecord | null> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping dashboard snapshot save: missing server credentials");
+    return null;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    const record = await databases.createDocument(
+      DATABASE_ID,
+      DASHBOARD_SNAPSHOTS_COLLECTION_ID,
+      ID.custom(snapshot.snapshotId),
+      {
+        ...snapshot,
+        createdAt: new Date().toISOString(),
+      }
+    );
+
+    return mapDashboardSnapshot(record);
+  } catch (error) {
+    console.error("[Appwrite] Failed to save dashboard snapshot", error);
+    return null;
+  }
+}
+
+// Newest first
+export async function getDashboardSnapshots(savedQueryId: string, limit: number = 100): Promise<DashboardSnapshotRecord[]> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping dashboard snapshot list: missing server credentials");
+    return [];
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+
+    const response = await databases.listDocuments(
+      DATABASE_ID,
+      DASHBOARD_SNAPSHOTS_COLLECTION_ID,
+      [
+        Query.equal("savedQueryId", savedQueryId),
+        Query.orderDesc("version"),
+        Query.limit(limit)
+      ]
+    );
+
+    return response.documents.map(mapDashboardSnapshot);
+  } catch (error) {
+    console.error("[Appwrite] Failed to list dashboard snapshots", error);
+    return [];
+  }
+}
+
+export async function deleteDashboardSnapshots(savedQueryId: string): Promise<boolean> {
+  const hasConfig =
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY);
+
+  if (!hasConfig) {
+    console.info("[Appwrite] Skipping dashboard snapshot delete: missing server credentials");
+    return false;
+  }
+
+  try {
+    const { databases } = getAppwriteClients();
+    let snapshots = await getDashboardSnapshots(savedQueryId);
+    while (snapshots.length > 0) {
+      await Promise.all(
+        snapshots.map(snapshot => databases.deleteDocument(DATABASE_ID, DASHBOARD_SNAPSHOTS_COLLECTION_ID, snapshot.snapshotId))
+      );
+      snapshots = await getDashboardSnapshots(savedQueryId);
+    }
+    return true;
+  } catch (error) {
+    console.error("[Appwrite] Failed to delete dashboard snapshots", error);
+    return false;
+  }
+}
+
+function mapDashboardSnapshot(doc: Record<string, unknown> & { $id: string }): DashboardSnapshotRecord {
+  return {
+    $id: doc.$id,
+    snapshotId: doc.snapshotId as string,
+    savedQueryId: doc.savedQueryId as string,
+    userId: doc.userId as string,
+    version: doc.version as number,
+    dashboard: doc.dashboard as string,
+    createdAt: doc.createdAt as string,
+  };
+}
@@ -0,0 +1,70 @@
+import type { AzureChatCompletionResponse, ChatMessage } from "../model-router";
+import type { ChatProvider, ModelIntent, ProviderInvocationOptions } from "./types";
+import { buildOpenAIRequestBody, normalizeOpenAIResponse } from "./openai-compatible";
+
+const DEFAULT_DEPLOYMENT_NAME = "model-router";
+const DEFAULT_API_VERSION = "2025-01-01-preview";
+
+function resolveAzureConfig(): { endpoint: string; apiKey: string; apiVersion: string } {
+  const endpoint = process.env.AZURE_AI_ENDPOINT;
+  const apiKey = process.env.AZURE_AI_API_KEY;
+
+  if (!endpoint || !apiKey) {
+    throw new Error("Missing AZURE_AI_ENDPOINT or AZURE_AI_API_KEY environment variable.");
+  }
+
+  return {
+    endpoint: endpoint.replace(/\/+$/, ""),
+    apiKey,
+    apiVersion: process.env.AZURE_AI_API_VERSION || DEFAULT_API_VERSION,
+  };
+}
+
+export const azureOpenAIProvider: ChatProvider = {
+  id: "azure",
+
+  isConfigured() {
+    return !!process.env.AZURE_AI_ENDPOINT && !!process.env.AZURE_AI_API_KEY;
+  },
+
+  // On Azure the "model" is the deployment name
+  resolveModel(intent: ModelIntent) {
+    const intentDeployments: Record<ModelIntent, string | undefined> = {
+      classification: process.env.AZURE_AI_CLASSIFIER_MODEL_NAME,
+      summarization: process.env.AZURE_AI_SUMMARIZER_MODEL_NAME,
+      generation: process.env.AZURE_AI_GENERATOR_MODEL_NAME,
+    };
+
+    return intentDeployments[intent]
+      ?? process.env.AZURE_AI_DEPLOYMENT_NAME
+      ?? process.env.AZURE_AI_MODEL_NAME
+      ?? DEFAULT_DEPLOYMENT_NAME;
+  },
+
+  async invoke(messages: ChatMessage[], options: ProviderInvocationOptions): Promise<AzureChatCompletionResponse> {
+    const { endpoint, apiKey, apiVersion } = resolveAzureConfig();
+    const requestUrl = `${endpoint}/openai/deployments/${encodeURIComponent(options.model)}/chat/completions?api-version=${apiVersion}`;
+
+    const response = await fetch(requestUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "api-key": apiKey,
+      },
+      body: JSON.stringify(buildOpenAIRequestBody(messages, options, false)),
+    });
+
+    if (!response.ok) {
+      const payload = await response.text();
+      console.error(`[Azure OpenAI API] Request failed:`, payload);
+      throw new Error(
+        `Azure OpenAI API request failed with status ${response.status}: ${payload}`
+      );
+    }
+
+    const json = await response.json();
+    console.log(`[Azure OpenAI API] Response received, choices: ${json.choices?.length || 0}`);
+
+    return normalizeOpenAIResponse(json, "azure-response");
+  },
+};
@@ -0,0 +1,112 @@
+import type { AzureChatCompletionResponse, ChatMessage } from "../model-router";
+import type { ChatProvider, ModelIntent, ProviderInvocationOptions } from "./types";
+
+const DEFAULT_MODEL_NAME = "gemini-2.5-flash";
+
+function resolveApiKey(): string {
+  const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("Missing NEXT_PUBLIC_GEMINI_API_KEY environment variable.");
+  }
+  return apiKey;
+}
+
+function convertMessagesToGeminiFormat(messages: ChatMessage[]): { 
+  systemInstruction?: { parts: { text: string }[] },
+  contents: { role: string; parts: { text: string }[] }[]
+} {
+  const systemMessages = messages.filter(m => m.role === "system");
+  const nonSystemMessages = messages.filter(m => m.role !== "system");
+
+  const systemInstruction = systemMessages.length > 0 
+    ? { parts: [{ text: systemMessages.map(m => m.content).join("\n") }] }
+    : undefined;
+
+  const contents = nonSystemMessages.map(msg => ({
+    role: msg.role === "assistant" ? "model" : "user",
+    parts: [{ text: msg.content }]
+  }));
+
+  return { systemInstruction, contents };
+}
+
+export const geminiProvider: ChatProvider = {
+  id: "gemini",
+
+  isConfigured() {
+    return !!process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+  },
+
+  resolveModel(intent: ModelIntent) {
+    const intentModels: Record<ModelIntent, string | undefined> = {
+      classification: process.env.GEMINI_CLASSIFIER_MODEL_NAME,
+      summarization: process.env.GEMINI_SUMMARIZER_MODEL_NAME,
+      generation: process.env.GEMINI_GENERATOR_MODEL_NAME,
+    };
+
+    return intentModels[intent] ?? process.env.GEMINI_MODEL_NAME ?? DEFAULT_MODEL_NAME;
+  },
+
+  async invoke(messages: ChatMessage[], options: ProviderInvocationOptions): Promise<AzureChatCompletionResponse> {
+    const apiKey = resolveApiKey();
+    const { systemInstruction, contents } = convertMessagesToGeminiFormat(messages);
+
+    const generationConfig: Record<string, unknown> = {
+      temperature: options.temperature ?? 0,
+      candidateCount: 1,
+    };
+
+    if (options.responseFormat === "json") {
+      generationConfig.responseMimeType = "application/json";
+    }
+
+    const body: Record<string, unknown> = {
+      contents,
+      generationConfig,
+    };
+
+    if (systemInstruction) {
+      body.systemInstruction = systemInstruction;
+    }
+
+    const requestUrl = `https://generativelanguage.googleapis.com/v1beta/models/${options.model}:generateContent?key=${apiKey}`;
+
+    const response = await fetch(requestUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const payload = await response.text();
+      console.error(`[Gemini API] Request failed:`, payload);
+      throw new Error(
+        `Gemini API request failed with status ${response.status}: ${payload}`
+      );
+    }
+
+    const json = await response.json();
+    
+    console.log(`[Gemini API] Response received, candidates: ${json.candidates?.length || 0}`);
+    
+    // Convert Gemini response format to Azure-compatible format
+    return {
+      id: json.candidates?.[0]?.content?.parts?.[0]?.text?.substring(0, 10) || "gemini-response",
+      choices: json.candidates?.map((candidate: { finishReason?: string; content?: { parts?: { text: string }[] } }, index: number) => ({
+        index,
+        finish_reason: candidate.finishReason || "stop",
+        message: {
+          role: "assistant" as const,
+          content: candidate.content?.parts?.map((part: { text: string }) => part.text).join("") || "",
+        },
+      })) || [],
+      usage: json.usageMetadata ? {
+        prompt_tokens: json.usageMetadata.promptTokenCount || 0,
+        completion_tokens: json.usageMetadata.candidatesTokenCount || 0,
+        total_tokens: json.usageMetadata.totalTokenCount || 0,
+      } : undefined,
+    };
+  },
+};
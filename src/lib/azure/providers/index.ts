@@ -0,0 +1,58 @@
+import { azureOpenAIProvider } from "./azure-openai";
+import { geminiProvider } from "./gemini";
+import { openAICompatibleProvider } from "./openai-compatible";
+import type { ChatProvider, ModelIntent } from "./types";
+
+export type { ChatProvider, ModelIntent, ProviderInvocationOptions } from "./types";
+
+const DEFAULT_PROVIDER_ID = "gemini";
+
+// Kept on globalThis like the replay stats: under tsx this module can be loaded
+// twice, and a provider registered through one copy must be found by the other
+const providersKey = Symbol.for("orinai.chat.providers");
+const globalProviders = globalThis as typeof globalThis & { [providersKey]?: Map<string, ChatProvider> };
+const providers = (globalProviders[providersKey] ??= new Map<string, ChatProvider>());
+
+/**
+ * Register (or replace) a chat provider under its id.
+ */
+export function registerChatProvider(provider: ChatProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getChatProvider(id: string): ChatProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM provider "${id}". Registered providers: ${[...providers.keys()].join(", ")}`
+    );
+  }
+  return provider;
+}
+
+export function listChatProviders(): ChatProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Pick the provider and model for an intent.
+ *
+ * Provider: LLM_<INTENT>_PROVIDER, then LLM_PROVIDER, then gemini.
+ * Model:    LLM_<INTENT>_MODEL, then the provider's own per-intent default.
+ */
+export function resolveProviderForIntent(intent: ModelIntent): { provider: ChatProvider; model: string } {
+  const envPrefix = `LLM_${intent.toUpperCase()}`;
+  const providerId =
+    process.env[`${envPrefix}_PROVIDER`] ||
+    process.env.LLM_PROVIDER ||
+    DEFAULT_PROVIDER_ID;
+
+  const provider = getChatProvider(providerId);
+  const model = process.env[`${envPrefix}_MODEL`] || provider.resolveModel(intent);
+
+  return { provider, model };
+}
+
+registerChatProvider(geminiProvider);
+registerChatProvider(azureOpenAIProvider);
+registerChatProvider(openAICompatibleProvider);
@@ -0,0 +1,121 @@
+import type { AzureChatCompletionResponse, ChatMessage } from "../model-router";
+import type { ChatProvider, ModelIntent, ProviderInvocationOptions } from "./types";
+
+// llama.cpp's server default; Ollama users set OPENAI_COMPATIBLE_BASE_URL=http://localhost:11434/v1
+const DEFAULT_BASE_URL = "http://localhost:8080/v1";
+const DEFAULT_MODEL_NAME = "local-model";
+
+interface OpenAIChatCompletionPayload {
+  id?: string;
+  choices?: Array<{
+    index?: number;
+    finish_reason?: string | null;
+    message?: { role?: string; content?: string | null };
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+/**
+ * Normalise an OpenAI-style chat completion (OpenAI, Azure OpenAI, llama.cpp, Ollama, vLLM...)
+ * into the response shape the agents consume.
+ */
+export function normalizeOpenAIResponse(
+  json: OpenAIChatCompletionPayload,
+  fallbackId: string
+): AzureChatCompletionResponse {
+  return {
+    id: json.id || fallbackId,
+    choices: (json.choices ?? []).map((choice, index) => ({
+      index: choice.index ?? index,
+      finish_reason: choice.finish_reason || "stop",
+      message: {
+        role: "assistant" as const,
+        content: choice.message?.content ?? "",
+      },
+    })),
+    usage: json.usage ? {
+      prompt_tokens: json.usage.prompt_tokens || 0,
+      completion_tokens: json.usage.completion_tokens || 0,
+      total_tokens: json.usage.total_tokens || 0,
+    } : undefined,
+  };
+}
+
+export function buildOpenAIRequestBody(
+  messages: ChatMessage[],
+  options: ProviderInvocationOptions,
+  includeModel: boolean
+): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    messages: messages.map(message => ({ role: message.role, content: message.content })),
+    temperature: options.temperature ?? 0,
+    n: 1,
+  };
+
+  if (includeModel) {
+    body.model = options.model;
+  }
+
+  if (options.responseFormat === "json") {
+    body.response_format = { type: "json_object" };
+  }
+
+  return body;
+}
+
+function resolveBaseUrl(): string {
+  return (process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+export const openAICompatibleProvider: ChatProvider = {
+  id: "openai-compatible",
+
+  isConfigured() {
+    return !!process.env.OPENAI_COMPATIBLE_BASE_URL;
+  },
+
+  resolveModel(intent: ModelIntent) {
+    const intentModels: Record<ModelIntent, string | undefined> = {
+      classification: process.env.OPENAI_COMPATIBLE_CLASSIFIER_MODEL,
+      summarization: process.env.OPENAI_COMPATIBLE_SUMMARIZER_MODEL,
+      generation: process.env.OPENAI_COMPATIBLE_GENERATOR_MODEL,
+    };
+
+    return intentModels[intent] ?? process.env.OPENAI_COMPATIBLE_MODEL ?? DEFAULT_MODEL_NAME;
+  },
+
+  async invoke(messages: ChatMessage[], options: ProviderInvocationOptions): Promise<AzureChatCompletionResponse> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    // Local servers usually ignore auth, hosted OpenAI-compatible APIs need a bearer token
+    const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${resolveBaseUrl()}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(buildOpenAIRequestBody(messages, options, true)),
+    });
+
+    if (!response.ok) {
+      const payload = await response.text();
+      console.error(`[OpenAI-compatible API] Request failed:`, payload);
+      throw new Error(
+        `OpenAI-compatible API request failed with status ${response.status}: ${payload}`
+      );
+    }
+
+    const json = await response.json();
+    console.log(`[OpenAI-compatible API] Response received, choices: ${json.choices?.length || 0}`);
+
+    return normalizeOpenAIResponse(json, "openai-compatible-response");
+  },
+};
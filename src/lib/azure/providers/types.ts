@@ -0,0 +1,25 @@
+import type {
+  AzureChatCompletionResponse,
+  ChatMessage,
+  ModelInvocationOptions,
+} from "../model-router";
+
+export type ModelIntent = ModelInvocationOptions["intent"];
+
+export interface ProviderInvocationOptions extends ModelInvocationOptions {
+  model: string;
+}
+
+/**
+ * A chat completion backend. Every provider normalises its response into the
+ * Azure/OpenAI completion shape so agents never branch on the provider.
+ */
+export interface ChatProvider {
+  id: string;
+  isConfigured(): boolean;
+  resolveModel(intent: ModelIntent): string;
+  invoke(
+    messages: ChatMessage[],
+    options: ProviderInvocationOptions
+  ): Promise<AzureChatCompletionResponse>;
+}
@@ -0,0 +1,145 @@
+import type { DataColumn, VisualizationType } from "@/types";
+
+// Shared by the chart renderers (client) and the dataset pipeline (server)
+
+/**
+ * Pick a chart from declared column types: dates trend as lines, categories
+ * compare as bars, two measures without a dimension become a scatter.
+ */
+function detectChartTypeFromColumns(
+  data: Record<string, unknown>[],
+  columns: DataColumn[]
+): VisualizationType | null {
+  const numeric = columns.filter(column => column.type === "number");
+  const dimension = columns.find(column => column.type === "date" || column.type === "category" || column.type === "text");
+
+  if (numeric.length === 0) return null;
+  if (!dimension) {
+    return numeric.length >= 2 ? "scatter_plot" : data.length === 1 ? "gauge_chart" : null;
+  }
+  if (dimension.type === "date") {
+    return data.length > 1 ? "line_chart" : "bar_chart";
+  }
+  return "bar_chart";
+}
+
+// Chart configuration auto-detection based on data structure
+export function detectOptimalChartType(
+  data: Record<string, unknown>[],
+  columns?: DataColumn[]
+): VisualizationType {
+  if (!data || data.length === 0) return "text";
+
+  if (columns && columns.length > 0) {
+    const schemaType = detectChartTypeFromColumns(data, columns);
+    if (schemaType) return schemaType;
+  }
+
+  const firstItem = data[0];
+  const hasLabel = firstItem.label || firstItem.name;
+  const hasValue = typeof firstItem.value === "number";
+  const hasXY = firstItem.x !== undefined && firstItem.y !== undefined;
+  const hasMultipleMetrics = Object.keys(firstItem).filter(key => 
+    typeof firstItem[key] === "number" && key !== "value"
+  ).length > 1;
+  const hasOHLC = ["open", "high", "low", "close"].every(key => typeof firstItem[key] === "number");
+  const hasFlow = typeof firstItem.source === "string" && typeof firstItem.target === "string" && hasValue;
+  const hasTotals = data.some(item => typeof item.isTotal === "boolean");
+  const hasSize = typeof firstItem.size === "number";
+  // Unlabelled values are observations to bin, not categories to compare
+  const isRawSamples = data.every(item => !item.label && !item.name && typeof item.value === "number");
+
+  // Detection logic
+  if (hasOHLC) return "candlestick_chart";
+  if (hasFlow) return "sankey_diagram";
+  if (hasTotals && hasValue) return "waterfall_chart";
+  if (hasXY && hasSize) return "bubble_chart";
+  if (hasXY) return "scatter_plot";
+  if (hasMultipleMetrics && data.length <= 8) return "radar_chart";
+  if (data.length === 1 && hasValue) return "gauge_chart";
+  if (isRawSamples && data.length >= 10) return "histogram";
+  if (data.length <= 5 && hasLabel && hasValue) return "pie_chart";
+  if (data.length > 5 && data.length <= 20 && hasLabel && hasValue) return "bar_chart";
+  if (data.length > 20 && hasLabel && hasValue) return "line_chart";
+  if (data.length > 50) return "heatmap";
+  
+  return "analytics_summary";
+}
+
+// Enhanced chart configuration auto-detection
+export function detectChartConfig(
+  data: Record<string, unknown>[],
+  chartType: VisualizationType,
+  columns?: DataColumn[]
+) {
+  const config: Record<string, unknown> = {
+    animation: true,
+    responsive: true,
+    legend: true,
+    gridLines: true,
+    tooltip: { enabled: true },
+  };
+
+  if (!data || data.length === 0) return config;
+
+  const firstItem = data[0];
+  const keys = Object.keys(firstItem);
+
+  // Auto-detect axes
+  const labelKeys = keys.filter(key => 
+    typeof firstItem[key] === "string" || key.includes("label") || key.includes("name")
+  );
+  const valueKeys = keys.filter(key => 
+    typeof firstItem[key] === "number" && !key.includes("id")
+  );
+
+  if (labelKeys.length > 0) config.xAxis = labelKeys[0];
+  if (valueKeys.length > 0) config.yAxis = valueKeys[0];
+
+  // A known schema beats guessing from the first row
+  const dimension = columns?.find(column => column.type === "date" || column.type === "category" || column.type === "text");
+  const measure = columns?.find(column => column.type === "number");
+  if (dimension && dimension.name in firstItem) config.xAxis = dimension.name;
+  if (measure && measure.name in firstItem) config.yAxis = measure.name;
+
+  // Chart-specific configurations
+  switch (chartType) {
+    case "scatter_plot":
+    case "bubble_chart":
+      // Both axes are numeric, so a label column must not become the x axis
+      config.xAxis = "x" in firstItem ? "x" : valueKeys[0] ?? "x";
+      config.yAxis = "y" in firstItem ? "y" : valueKeys[1] ?? "y";
+      config.chartSpecific = {
+        size: valueKeys.find(key => key.includes("size")) || valueKeys[2] || "size"
+      };
+      break;
+    case "sankey_diagram":
+      config.chartSpecific = {
+        sankeySource: "source",
+        sankeyTarget: "target",
+        sankeyValue: "value"
+      };
+      break;
+    case "radar_chart":
+      config.chartSpecific = {
+        polarAngleAxis: labelKeys[0] || "subject",
+        polarRadiusAxis: valueKeys[0] || "value"
+      };
+      break;
+    case "gauge_chart":
+      const values = data.map(d => Number(d.value) || 0).filter(v => v > 0);
+      config.chartSpecific = {
+        min: 0,
+        max: Math.max(...values) * 1.2,
+        gaugeTarget: Math.max(...values) * 0.8
+      };
+      break;
+    case "heatmap":
+      config.chartSpecific = {
+        intensity: valueKeys[0] || "value"
+      };
+      break;
+  }
+
+  return config;
+}
@@ -0,0 +1,285 @@
+import type { DashboardCitation, DashboardDataPoint, DashboardOutput } from "@/types";
+import { detectChartConfig } from "./detection";
+
+// Compares two versions of a dashboard (e.g. consecutive scheduled refreshes, or a
+// question asked twice) point by point: rows are matched on their axis label,
+// values on their numeric keys.
+
+export type DataPointChangeKind = "added" | "removed" | "changed";
+
+export interface DataPointChange {
+  chart: string; // title of the chart the point belongs to
+  label: string;
+  series: string; // the numeric key, e.g. "value" or "revenue"
+  kind: DataPointChangeKind;
+  before?: number;
+  after?: number;
+  delta?: number; // after - before, for changed points
+}
+
+// A numeric key that only one version has, e.g. a "2023" column added to a chart
+export interface SeriesChange {
+  chart: string;
+  series: string;
+  kind: "added" | "removed";
+}
+
+export interface TextDiffPart {
+  kind: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface TextDiff {
+  before: string;
+  after: string;
+  parts: TextDiffPart[]; // word level, whitespace kept
+}
+
+export interface DashboardDiff {
+  title: { before: string; after: string } | null;
+  summary: TextDiff | null;
+  series: SeriesChange[];
+  points: DataPointChange[]; // points of added or removed series are left to `series`
+  citations: { added: DashboardCitation[]; removed: DashboardCitation[] };
+}
+
+// One row per label of a chart's primary series, for drawing both versions together
+export interface ChartComparisonRow {
+  label: string;
+  before?: number;
+  after?: number;
+  delta?: number;
+  kind: DataPointChangeKind | "same";
+}
+
+export interface ChartComparison {
+  chart: string;
+  type: DashboardOutput["type"];
+  series: string;
+  rows: ChartComparisonRow[];
+}
+
+// Word diffs are quadratic; longer texts are shown as replaced wholesale
+const MAX_TEXT_DIFF_TOKENS = 1500;
+
+function labelKey(chart: DashboardOutput): string {
+  const config = detectChartConfig(chart.data, chart.type, chart.columns) as { xAxis?: string };
+  return chart.config?.xAxis ?? config.xAxis ?? "label";
+}
+
+function numericKeys(rows: DashboardDataPoint[], exclude: string): string[] {
+  const keys = new Set<string>();
+  for (const row of rows) {
+    for (const [key, value] of Object.entries(row)) {
+      if (key !== exclude && typeof value === "number") keys.add(key);
+    }
+  }
+  return [...keys];
+}
+
+function indexRows(rows: DashboardDataPoint[], key: string): Map<string, DashboardDataPoint> {
+  const index = new Map<string, DashboardDataPoint>();
+  rows.forEach((row, position) => {
+    const label = row[key] === undefined || row[key] === null ? `#${position + 1}` : String(row[key]);
+    if (!index.has(label)) index.set(label, row);
+  });
+  return index;
+}
+
+function numberAt(row: DashboardDataPoint | undefined, key: string): number | undefined {
+  return typeof row?.[key] === "number" ? (row[key] as number) : undefined;
+}
+
+function changeKind(before: number | undefined, after: number | undefined): DataPointChangeKind | "same" {
+  if (before === after) return "same";
+  if (before === undefined) return "added";
+  if (after === undefined) return "removed";
+  return "changed";
+}
+
+/**
+ * The top-level chart and each panel of a multi-panel board, paired in order. A
+ * panel that exists on one side only is paired with an empty copy of itself, so
+ * its points show up as all added or all removed.
+ */
+export function pairCharts(before: DashboardOutput, after: DashboardOutput): Array<[DashboardOutput, DashboardOutput]> {
+  const pairs: Array<[DashboardOutput, DashboardOutput]> = [[before, after]];
+  const panelCount = Math.max(before.charts?.length ?? 0, after.charts?.length ?? 0);
+  for (let index = 0; index < panelCount; index++) {
+    const previous = before.charts?.[index];
+    const next = after.charts?.[index];
+    const panel = next ?? previous;
+    if (!panel) continue;
+    pairs.push([previous ?? { ...panel, data: [] }, next ?? { ...panel, data: [] }]);
+  }
+  return pairs;
+}
+
+function diffChartData(before: DashboardOutput, after: DashboardOutput): { series: SeriesChange[]; points: DataPointChange[] } {
+  const key = labelKey(after.data.length > 0 ? after : before);
+  const beforeRows = indexRows(before.data, key);
+  const afterRows = indexRows(after.data, key);
+  const beforeSeries = numericKeys(before.data, key);
+  const afterSeries = numericKeys(after.data, key);
+
+  // A whole chart appearing or disappearing is a change of points, not of series
+  const series: SeriesChange[] =
+    before.data.length === 0 || after.data.length === 0
+      ? []
+      : [
+          ...afterSeries.filter(name => !beforeSeries.includes(name)).map(name => ({ chart: after.title, series: name, kind: "added" as const })),
+          ...beforeSeries.filter(name => !afterSeries.includes(name)).map(name => ({ chart: after.title, series: name, kind: "removed" as const })),
+        ];
+  const shared = [...new Set([...beforeSeries, ...afterSeries])].filter(name => !series.some(change => change.series === name));
+
+  const points: DataPointChange[] = [];
+  for (const label of new Set([...beforeRows.keys(), ...afterRows.keys()])) {
+    for (const name of shared) {
+      const beforeValue = numberAt(beforeRows.get(label), name);
+      const afterValue = numberAt(afterRows.get(label), name);
+      const kind = changeKind(beforeValue, afterValue);
+      if (kind === "same") continue;
+
+      const change: DataPointChange = { chart: after.title, label, series: name, kind, before: beforeValue, after: afterValue };
+      if (kind === "changed") change.delta = (afterValue as number) - (beforeValue as number);
+      points.push(change);
+    }
+  }
+  return { series, points };
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+function pushPart(parts: TextDiffPart[], kind: TextDiffPart["kind"], text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.kind === kind) last.text += text;
+  else parts.push({ kind, text });
+}
+
+/**
+ * Word-level diff of two texts (longest common subsequence). Runs of the same kind
+ * are merged, so the parts can be rendered directly as plain, inserted and deleted
+ * text.
+ */
+export function diffText(before: string, after: string): TextDiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: TextDiffPart[] = [];
+
+  if (a.length * b.length > MAX_TEXT_DIFF_TOKENS * MAX_TEXT_DIFF_TOKENS) {
+    if (before) parts.push({ kind: "removed", text: before });
+    if (after) parts.push({ kind: "added", text: after });
+    return parts;
+  }
+
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, "same", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, "removed", a[i++]);
+    } else {
+      pushPart(parts, "added", b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, "removed", a[i++]);
+  while (j < b.length) pushPart(parts, "added", b[j++]);
+  return parts;
+}
+
+function citationKey(citation: DashboardCitation): string {
+  return citation.url || citation.title;
+}
+
+function diffCitations(before: DashboardCitation[] = [], after: DashboardCitation[] = []): DashboardDiff["citations"] {
+  const beforeKeys = new Set(before.map(citationKey));
+  const afterKeys = new Set(after.map(citationKey));
+  return {
+    added: after.filter(citation => !beforeKeys.has(citationKey(citation))),
+    removed: before.filter(citation => !afterKeys.has(citationKey(citation))),
+  };
+}
+
+/**
+ * What changed between two versions of a dashboard. Multi-panel boards are
+ * compared panel by panel, in order.
+ */
+export function diffDashboards(before: DashboardOutput, after: DashboardOutput): DashboardDiff {
+  const series: SeriesChange[] = [];
+  const points: DataPointChange[] = [];
+  for (const [previous, next] of pairCharts(before, after)) {
+    const chart = diffChartData(previous, next);
+    series.push(...chart.series);
+    points.push(...chart.points);
+  }
+
+  const beforeSummary = before.summary ?? "";
+  const afterSummary = after.summary ?? "";
+
+  return {
+    title: before.title !== after.title ? { before: before.title, after: after.title } : null,
+    summary: beforeSummary !== afterSummary ? { before: beforeSummary, after: afterSummary, parts: diffText(beforeSummary, afterSummary) } : null,
+    series,
+    points,
+    citations: diffCitations(before.citations, after.citations),
+  };
+}
+
+export function hasChanges(diff: DashboardDiff): boolean {
+  return Boolean(
+    diff.title ||
+      diff.summary ||
+      diff.series.length ||
+      diff.points.length ||
+      diff.citations.added.length ||
+      diff.citations.removed.length
+  );
+}
+
+/**
+ * Both versions of one chart's primary series (`config.yAxis`, else the first
+ * numeric key), row by row in the order of the newer version, with removed rows
+ * appended. Null when the chart has no numeric series to compare.
+ */
+export function compareChartData(before: DashboardOutput, after: DashboardOutput): ChartComparison | null {
+  const reference = after.data.length > 0 ? after : before;
+  const key = labelKey(reference);
+  const candidates = numericKeys([...after.data, ...before.data], key);
+  const series = reference.config?.yAxis && candidates.includes(reference.config.yAxis) ? reference.config.yAxis : candidates[0];
+  if (!series) return null;
+
+  const beforeRows = indexRows(before.data, key);
+  const afterRows = indexRows(after.data, key);
+  const labels = [...afterRows.keys(), ...[...beforeRows.keys()].filter(label => !afterRows.has(label))];
+
+  return {
+    chart: reference.title,
+    type: reference.type,
+    series,
+    rows: labels.map(label => {
+      const beforeValue = numberAt(beforeRows.get(label), series);
+      const afterValue = numberAt(afterRows.get(label), series);
+      const kind = changeKind(beforeValue, afterValue);
+      return {
+        label,
+        before: beforeValue,
+        after: afterValue,
+        delta: kind === "changed" ? (afterValue as number) - (beforeValue as number) : undefined,
+        kind,
+      };
+    }),
+  };
+}
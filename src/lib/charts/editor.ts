@@ -0,0 +1,90 @@
+import type { ClassificationResult, DashboardConfig, DashboardDataPoint, DashboardOutput } from "@/types";
+import { uiSchemaValidator, type ValidationResult } from "@/lib/langchain/agents/ui-schema-validator";
+
+// Edits made by hand in the chart editor panel. Pure functions over the dashboard, so
+// the panel, the API route and scripts share them.
+
+export const EDITOR_TOGGLES = ["legend", "dataLabels", "gridLines", "zoom", "brush"] as const;
+export type EditorToggle = (typeof EDITOR_TOGGLES)[number];
+
+export interface DataField {
+  key: string;
+  numeric: boolean; // every row that has the key holds a number
+}
+
+/**
+ * The keys used across the data rows, in first-seen order.
+ */
+export function listDataFields(data: DashboardDataPoint[]): DataField[] {
+  const fields = new Map<string, boolean>();
+  for (const row of data) {
+    for (const [key, value] of Object.entries(row)) {
+      if (value === undefined || value === null) continue;
+      fields.set(key, (fields.get(key) ?? true) && typeof value === "number");
+    }
+  }
+  return [...fields].map(([key, numeric]) => ({ key, numeric }));
+}
+
+/**
+ * A typed cell from what was typed in: numbers stay numbers in numeric columns, an
+ * empty cell removes the key.
+ */
+export function parseCellValue(raw: string, numeric: boolean): string | number | undefined {
+  const text = raw.trim();
+  if (text === "") return undefined;
+  if (numeric) {
+    const value = Number(text.replace(/,/g, ""));
+    return Number.isFinite(value) ? value : text;
+  }
+  return text;
+}
+
+export function updateCell(data: DashboardDataPoint[], row: number, key: string, value: unknown): DashboardDataPoint[] {
+  return data.map((point, index) => {
+    if (index !== row) return point;
+    const next = { ...point };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    return next;
+  });
+}
+
+/**
+ * A new row with the same keys as the others: numeric fields start at 0, text
+ * fields empty.
+ */
+export function addRow(data: DashboardDataPoint[]): DashboardDataPoint[] {
+  const row: DashboardDataPoint = {};
+  for (const field of listDataFields(data)) {
+    row[field.key] = field.numeric ? 0 : field.key === "label" ? `Item ${data.length + 1}` : "";
+  }
+  return [...data, Object.keys(row).length > 0 ? row : { label: `Item ${data.length + 1}`, value: 0 }];
+}
+
+export function removeRow(data: DashboardDataPoint[], row: number): DashboardDataPoint[] {
+  return data.filter((_, index) => index !== row);
+}
+
+export function updateConfig(dashboard: DashboardOutput, changes: Partial<DashboardConfig>): DashboardOutput {
+  const config: DashboardConfig = { ...dashboard.config, ...changes };
+  for (const key of Object.keys(changes) as Array<keyof DashboardConfig>) {
+    if (changes[key] === undefined) delete config[key];
+  }
+  return { ...dashboard, config };
+}
+
+/**
+ * Run a hand-edited dashboard through the UI schema validator. The type the user
+ * picked stands in for the classification, so only real problems are reported.
+ */
+export function validateDashboardEdit(dashboard: DashboardOutput): Promise<ValidationResult> {
+  const classification: ClassificationResult = {
+    type: dashboard.type,
+    complexity: dashboard.charts?.length ? "dashboard" : "simple",
+    requiresRAG: false,
+    requiresExternal: false,
+    requiresImage: false,
+  };
+  return uiSchemaValidator(dashboard, classification);
+}
@@ -0,0 +1,106 @@
+import type { DashboardKpi, DashboardLayout, DashboardOutput, DashboardPanelPlacement, VisualizationType } from "@/types";
+
+// Shared by the dashboard grid (client) and the summarizer (server)
+
+export const LAYOUT_COLUMNS = 12;
+export const MAX_DASHBOARD_PANELS = 6;
+export const MAX_DASHBOARD_KPIS = 4;
+
+export type PanelSize = "small" | "medium" | "large";
+
+const PANEL_WIDTHS: Record<PanelSize, number> = { small: 4, medium: 6, large: 12 };
+
+// Dense charts need the full row; single-series shapes read fine in a third
+const LARGE_TYPES: VisualizationType[] = [
+  "table", "heatmap", "candlestick_chart", "sankey_diagram", "timeline", "text", "comparison", "infographic",
+];
+const SMALL_TYPES: VisualizationType[] = ["pie_chart", "gauge_chart", "radar_chart", "funnel_chart"];
+
+export function defaultPanelSize(chart: Pick<DashboardOutput, "type" | "data">): PanelSize {
+  if (LARGE_TYPES.includes(chart.type) || chart.data.length > 12) return "large";
+  if (SMALL_TYPES.includes(chart.type)) return "small";
+  return "medium";
+}
+
+/**
+ * Pack panels row by row on a 12-column grid. Each row is stretched to the full
+ * width so a lone half-width panel never leaves a gap.
+ */
+export function composeDashboardLayout(
+  charts: Array<Pick<DashboardOutput, "type" | "data">>,
+  options: { kpis?: DashboardKpi[]; sizes?: Array<PanelSize | undefined> } = {}
+): DashboardLayout {
+  const rows: DashboardPanelPlacement[][] = [];
+  let row: DashboardPanelPlacement[] = [];
+  let used = 0;
+
+  charts.forEach((chart, index) => {
+    const w = PANEL_WIDTHS[options.sizes?.[index] ?? defaultPanelSize(chart)];
+    if (used + w > LAYOUT_COLUMNS) {
+      rows.push(row);
+      row = [];
+      used = 0;
+    }
+    row.push({ chart: index, x: used, y: rows.length, w, h: 1 });
+    used += w;
+  });
+  if (row.length > 0) rows.push(row);
+
+  for (const placed of rows) {
+    const last = placed[placed.length - 1];
+    last.w = LAYOUT_COLUMNS - last.x;
+  }
+
+  return {
+    columns: LAYOUT_COLUMNS,
+    ...(options.kpis?.length ? { kpis: options.kpis.slice(0, MAX_DASHBOARD_KPIS) } : {}),
+    panels: rows.flat(),
+  };
+}
+
+/**
+ * Problems with a layout spec against the charts it places, or an empty list.
+ */
+export function findLayoutProblems(layout: DashboardLayout, chartCount: number): string[] {
+  const problems: string[] = [];
+  const occupied = new Set<string>();
+  const placedCharts = new Set<number>();
+
+  layout.panels.forEach((panel, index) => {
+    if (panel.chart >= chartCount) {
+      problems.push(`panel ${index} places chart ${panel.chart} but there are only ${chartCount}`);
+    }
+    if (placedCharts.has(panel.chart)) {
+      problems.push(`chart ${panel.chart} is placed more than once`);
+    }
+    placedCharts.add(panel.chart);
+    if (panel.x + panel.w > layout.columns) {
+      problems.push(`panel ${index} overflows the ${layout.columns}-column grid`);
+    }
+    for (let y = panel.y; y < panel.y + panel.h; y++) {
+      for (let x = panel.x; x < panel.x + panel.w; x++) {
+        const cell = `${x},${y}`;
+        if (occupied.has(cell)) {
+          problems.push(`panel ${index} overlaps another panel`);
+          return;
+        }
+        occupied.add(cell);
+      }
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * The layout to draw: the given spec when it places every chart cleanly,
+ * otherwise a freshly composed one (keeping any KPIs).
+ */
+export function resolveDashboardLayout(dashboard: Pick<DashboardOutput, "charts" | "layout">): DashboardLayout {
+  const charts = dashboard.charts ?? [];
+  const layout = dashboard.layout;
+  if (layout && layout.panels.length === charts.length && findLayoutProblems(layout, charts.length).length === 0) {
+    return layout;
+  }
+  return composeDashboardLayout(charts, { kpis: layout?.kpis });
+}
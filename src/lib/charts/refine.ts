@@ -0,0 +1,162 @@
+import type { DashboardDataPoint, DashboardOutput, VisualizationType } from "@/types";
+
+// Follow-up instructions ("make it a line chart", "only top 5", "as percentages")
+// applied to an existing dashboard without a model. Anything the rules do not fully
+// understand is left to the refiner agent.
+
+const CHART_TYPE_WORDS: Record<string, VisualizationType> = {
+  line: "line_chart",
+  bar: "bar_chart",
+  column: "bar_chart",
+  pie: "pie_chart",
+  donut: "pie_chart",
+  doughnut: "pie_chart",
+  area: "area_chart",
+  funnel: "funnel_chart",
+};
+
+// Types whose data is one label/value row per item, so the same rows redraw as any of them
+const LABEL_VALUE_TYPES = new Set<VisualizationType>([
+  "bar_chart",
+  "line_chart",
+  "area_chart",
+  "pie_chart",
+  "funnel_chart",
+  "histogram",
+  "table",
+]);
+
+// Words that carry no instruction of their own once the rules have matched
+const FILLER_WORDS = new Set([
+  "a", "an", "and", "as", "by", "can", "change", "chart", "convert", "data", "display",
+  "graph", "in", "instead", "into", "it", "just", "keep", "make", "me", "now", "of",
+  "only", "please", "show", "switch", "that", "the", "them", "then", "this", "to",
+  "turn", "use", "values", "with", "you",
+]);
+
+const TYPE_PATTERN = /\b(line|bar|column|pie|donut|doughnut|area|funnel)\s+(?:chart|graph|plot)s?\b/;
+const TABLE_PATTERN = /\b(?:a\s+)?table\b/;
+const LIMIT_PATTERN = /\b(top|bottom|first|last)\s+(\d{1,3})\b/;
+const PERCENT_PATTERN = /\b(?:percent(?:age)?s?|share\s+of\s+(?:the\s+)?total)\b|%/;
+const SORT_PATTERN =
+  /\b(?:sort(?:ed)?|order(?:ed)?)(?:\s+(?:it|them|by\s+value))?(?:\s+(asc(?:ending)?|desc(?:ending)?|low(?:est)?\s+to\s+high(?:est)?|high(?:est)?\s+to\s+low(?:est)?))?\b|\b(largest|biggest|highest|smallest|lowest)\s+first\b/;
+
+// Verbs and phrases that usually start an edit of what is on screen rather than a new question
+const REFINEMENT_OPENERS =
+  /^(?:make|change|switch|turn|convert|sort|order|only|just|add|remove|drop|exclude|hide|rename|filter|limit|keep|show\s+(?:it|them|only|just|as)|use|instead|now|also)\b/;
+const MAX_REFINEMENT_WORDS = 12;
+
+export interface RefinementRules {
+  type?: VisualizationType;
+  limit?: { count: number; from: "top" | "bottom" | "first" | "last" };
+  percentages?: boolean;
+  sort?: "asc" | "desc";
+}
+
+function normalize(instruction: string): string {
+  return instruction.toLowerCase().replace(/[.!?,;:"']/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * The edits an instruction asks for, when every word of it is understood; null
+ * otherwise (e.g. "add 2023 data" needs new figures, so a model has to answer it).
+ */
+export function parseRefinement(instruction: string): RefinementRules | null {
+  let rest = normalize(instruction);
+  const rules: RefinementRules = {};
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.replace(pattern, " ");
+    return match;
+  };
+
+  const type = take(TYPE_PATTERN);
+  if (type) rules.type = CHART_TYPE_WORDS[type[1]];
+  else if (take(TABLE_PATTERN)) rules.type = "table";
+
+  const limit = take(LIMIT_PATTERN);
+  if (limit) {
+    const count = Number(limit[2]);
+    if (count < 1) return null;
+    rules.limit = { count, from: limit[1] as NonNullable<RefinementRules["limit"]>["from"] };
+  }
+
+  if (take(PERCENT_PATTERN)) rules.percentages = true;
+
+  const sort = take(SORT_PATTERN);
+  if (sort) {
+    const direction = sort[1] ?? sort[2] ?? "desc";
+    rules.sort = /^(?:asc|low|smallest)/.test(direction) ? "asc" : "desc";
+  }
+
+  if (Object.keys(rules).length === 0) return null;
+  const leftover = rest.split(" ").filter(word => word && !FILLER_WORDS.has(word));
+  return leftover.length === 0 ? rules : null;
+}
+
+/**
+ * Whether a chat message reads like an edit of the current dashboard rather than a
+ * new question. A guess for the UI's default; the user can always override it.
+ */
+export function looksLikeRefinement(message: string): boolean {
+  const text = normalize(message);
+  if (!text) return false;
+  if (parseRefinement(text)) return true;
+  return text.split(" ").length <= MAX_REFINEMENT_WORDS && REFINEMENT_OPENERS.test(text);
+}
+
+function valueKey(dashboard: DashboardOutput): string | null {
+  const numeric = (key: string) => dashboard.data.every(point => typeof point[key] === "number");
+  if (dashboard.config?.yAxis && numeric(dashboard.config.yAxis)) return dashboard.config.yAxis;
+  if (numeric("value")) return "value";
+  const first = dashboard.data[0] ?? {};
+  return Object.keys(first).find(key => key !== dashboard.config?.xAxis && numeric(key)) ?? null;
+}
+
+const byValue = (key: string, direction: "asc" | "desc") => (a: DashboardDataPoint, b: DashboardDataPoint) =>
+  direction === "asc" ? (a[key] as number) - (b[key] as number) : (b[key] as number) - (a[key] as number);
+
+/**
+ * The dashboard with the instruction applied, or null when the rules cannot apply
+ * it: the instruction is not fully understood, the dashboard is a multi-panel board,
+ * or its data does not fit the edit (e.g. percentages of negative values).
+ */
+export function applyRefinementRules(dashboard: DashboardOutput, instruction: string): DashboardOutput | null {
+  const rules = parseRefinement(instruction);
+  if (!rules || dashboard.charts?.length || dashboard.data.length === 0) return null;
+
+  const key = valueKey(dashboard);
+  let data = dashboard.data.map(point => ({ ...point }));
+  let title = dashboard.title;
+
+  if (rules.type && !(LABEL_VALUE_TYPES.has(dashboard.type) && LABEL_VALUE_TYPES.has(rules.type))) return null;
+
+  if (rules.sort || rules.limit?.from === "top" || rules.limit?.from === "bottom") {
+    if (!key) return null;
+    const direction = rules.limit?.from === "bottom" ? "asc" : rules.limit?.from === "top" ? "desc" : rules.sort;
+    data.sort(byValue(key, direction ?? "desc"));
+  }
+
+  if (rules.limit) {
+    const { count, from } = rules.limit;
+    data = from === "last" ? data.slice(-count) : data.slice(0, count);
+    // "top 5 sorted ascending" keeps the five largest, smallest first
+    if (rules.sort && key) data.sort(byValue(key, rules.sort));
+  }
+
+  if (rules.percentages) {
+    if (!key) return null;
+    // Shares of everything, so "top 5 as percentages" shows how much those five cover
+    const total = dashboard.data.reduce((sum, point) => sum + (point[key] as number), 0);
+    if (total <= 0 || dashboard.data.some(point => (point[key] as number) < 0)) return null;
+    data = data.map(point => ({ ...point, [key]: Math.round(((point[key] as number) / total) * 1000) / 10 }));
+    if (!title.includes("%")) title = `${title} (%)`;
+  }
+
+  return {
+    ...dashboard,
+    type: rules.type ?? dashboard.type,
+    title,
+    data,
+  };
+}
@@ -0,0 +1,152 @@
+import type { DashboardDataPoint, DataColumn } from "@/types";
+import { inferSchema } from "@/lib/datasets/schema";
+
+// Typed rows, sorting, filtering, paging and CSV for the table renderer.
+// Pure functions so they run in scripts as well as in the browser.
+
+export type TableCell = string | number | boolean | null;
+export type TableRow = Record<string, TableCell>;
+export type SortDirection = "asc" | "desc";
+
+export const TABLE_PAGE_SIZES = [10, 25, 50, 100] as const;
+
+export interface TableModel {
+  columns: DataColumn[];
+  rows: TableRow[];
+}
+
+// Nested values (LLM tables often carry lists) are shown as text
+function flattenValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.every(entry => typeof entry !== "object" || entry === null) ? value.join(", ") : JSON.stringify(value);
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) return JSON.stringify(value);
+  return value;
+}
+
+/**
+ * Type the columns of `data` and normalise its values. Declared columns
+ * (dataset and SQL dashboards) win over inference and decide which columns show.
+ */
+export function buildTableModel(data: DashboardDataPoint[], declared?: DataColumn[]): TableModel {
+  const flattened = data.map(point => Object.fromEntries(Object.entries(point).map(([key, value]) => [key, flattenValue(value)])));
+  const { schema, rows } = inferSchema(flattened);
+
+  const inferred = new Map(schema.columns.map(column => [column.name, column.type]));
+  const columns: DataColumn[] = declared?.length
+    ? declared.filter(column => inferred.has(column.name))
+    : schema.columns.map(({ name, type }) => ({ name, type }));
+
+  return { columns, rows };
+}
+
+function compareCells(a: TableCell, b: TableCell): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: "base" });
+}
+
+/**
+ * Stable sort on one column; empty cells always go last.
+ */
+export function sortTableRows(rows: TableRow[], column: string, direction: SortDirection): TableRow[] {
+  const sign = direction === "asc" ? 1 : -1;
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      const left = a.row[column] ?? null;
+      const right = b.row[column] ?? null;
+      if (left === null || right === null) {
+        return left === right ? a.index - b.index : left === null ? 1 : -1;
+      }
+      return sign * compareCells(left, right) || a.index - b.index;
+    })
+    .map(({ row }) => row);
+}
+
+/**
+ * Keep rows where any visible column contains the text, matching case-insensitively
+ * against both the raw and the formatted value.
+ */
+export function filterTableRows(rows: TableRow[], columns: DataColumn[], text: string, format?: string): TableRow[] {
+  const needle = text.trim().toLowerCase();
+  if (!needle) return rows;
+  return rows.filter(row =>
+    columns.some(column => {
+      const value = row[column.name] ?? null;
+      if (value === null) return false;
+      return String(value).toLowerCase().includes(needle) ||
+        formatTableCell(value, column.type, format).toLowerCase().includes(needle);
+    })
+  );
+}
+
+export function paginateRows<T>(rows: T[], page: number, pageSize: number): { rows: T[]; page: number; pageCount: number } {
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+  const current = Math.min(Math.max(0, page), pageCount - 1);
+  return { rows: rows.slice(current * pageSize, (current + 1) * pageSize), page: current, pageCount };
+}
+
+const NUMBER_FORMAT = /^(.*?)([0#][0#,]*(?:\.[0#]+)?)(%?)(.*)$/;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function formatNumber(value: number, format?: string): string {
+  const match = format?.match(NUMBER_FORMAT);
+  if (!match) return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+  // Numeral-style patterns: "$0,0.00", "0.0%", "0,0 units"
+  const [, prefix, core, percent, suffix] = match;
+  const decimals = core.includes(".") ? core.split(".")[1].length : 0;
+  const number = (percent ? value * 100 : value).toLocaleString("en-US", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+    useGrouping: core.includes(","),
+  });
+  return `${prefix}${number}${percent}${suffix}`;
+}
+
+function formatDate(value: string, format?: string): string {
+  if (!format || !/YYYY|MM|DD/.test(format)) return value;
+  const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(date.getTime())) return value;
+
+  const pad = (number: number) => String(number).padStart(2, "0");
+  return format.replace(/YYYY|MMM|MM|DD/g, token => {
+    switch (token) {
+      case "YYYY":
+        return String(date.getUTCFullYear());
+      case "MMM":
+        return MONTHS[date.getUTCMonth()];
+      case "MM":
+        return pad(date.getUTCMonth() + 1);
+      default:
+        return pad(date.getUTCDate());
+    }
+  });
+}
+
+/**
+ * Display text for a cell. `format` is the dashboard's `config.tooltip.format`:
+ * numeral-style for numbers ("$0,0.00", "0.0%"), tokens for dates ("DD MMM YYYY").
+ */
+export function formatTableCell(value: TableCell, type: DataColumn["type"], format?: string): string {
+  if (value === null) return "";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "number") return formatNumber(value, type === "number" ? format : undefined);
+  return type === "date" ? formatDate(value, format) : value;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * RFC 4180 CSV of the given rows with raw (unformatted) values.
+ */
+export function tableToCsv(columns: DataColumn[], rows: TableRow[]): string {
+  const lines = [columns.map(column => escapeCsv(column.name)).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map(column => escapeCsv(row[column.name] === null || row[column.name] === undefined ? "" : String(row[column.name]))).join(","));
+  }
+  return lines.join("\r\n");
+}
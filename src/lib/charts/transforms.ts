@@ -0,0 +1,164 @@
+import type { DashboardConfig, DashboardDataPoint } from "@/types";
+
+// Data reshaping for the renderers whose input is not a plain label/value series.
+// Pure functions so they run in scripts as well as in the browser.
+
+const toNumber = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const labelOf = (point: DashboardDataPoint, index: number): string =>
+  String(point.label ?? point.name ?? point.category ?? `#${index + 1}`);
+
+export interface WaterfallStep {
+  label: string;
+  delta: number;
+  range: [number, number]; // floating bar from the running total before to after this step
+  kind: "increase" | "decrease" | "total";
+}
+
+/**
+ * Turn deltas into floating bars. Points flagged `isTotal` draw the running
+ * total from zero instead of adding to it.
+ */
+export function toWaterfallSteps(data: DashboardDataPoint[], valueKey = "value"): WaterfallStep[] {
+  let running = 0;
+  return data.map((point, index) => {
+    const delta = toNumber(point[valueKey]) ?? 0;
+    if (point.isTotal === true) {
+      // A total may carry its own figure; otherwise it shows where the steps landed
+      running = toNumber(point[valueKey]) ?? running;
+      return { label: labelOf(point, index), delta: running, range: [Math.min(0, running), Math.max(0, running)], kind: "total" };
+    }
+    const start = running;
+    running += delta;
+    return {
+      label: labelOf(point, index),
+      delta,
+      range: [Math.min(start, running), Math.max(start, running)],
+      kind: delta >= 0 ? "increase" : "decrease",
+    };
+  });
+}
+
+export interface SankeyGraph {
+  nodes: Array<{ name: string }>;
+  links: Array<{ source: number; target: number; value: number }>;
+}
+
+/**
+ * Build nodes and links from one row per flow. Links that would close a cycle are
+ * dropped because a sankey layout needs an acyclic graph.
+ */
+export function toSankeyGraph(data: DashboardDataPoint[], config?: DashboardConfig): SankeyGraph {
+  const sourceKey = config?.chartSpecific?.sankeySource ?? "source";
+  const targetKey = config?.chartSpecific?.sankeyTarget ?? "target";
+  const valueKey = config?.chartSpecific?.sankeyValue ?? "value";
+
+  const nodes: Array<{ name: string }> = [];
+  const index = new Map<string, number>();
+  const nodeId = (name: string) => {
+    if (!index.has(name)) {
+      index.set(name, nodes.length);
+      nodes.push({ name });
+    }
+    return index.get(name)!;
+  };
+
+  const outgoing = new Map<number, number[]>();
+  const reaches = (from: number, to: number): boolean => {
+    const stack = [from];
+    const seen = new Set<number>();
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node === to) return true;
+      if (seen.has(node)) continue;
+      seen.add(node);
+      stack.push(...(outgoing.get(node) ?? []));
+    }
+    return false;
+  };
+
+  const links: SankeyGraph["links"] = [];
+  for (const point of data) {
+    const sourceName = point[sourceKey];
+    const targetName = point[targetKey];
+    const value = toNumber(point[valueKey]);
+    if (typeof sourceName !== "string" || typeof targetName !== "string" || value === null || value <= 0) continue;
+
+    const source = nodeId(sourceName);
+    const target = nodeId(targetName);
+    if (source === target || reaches(target, source)) continue;
+
+    links.push({ source, target, value });
+    outgoing.set(source, [...(outgoing.get(source) ?? []), target]);
+  }
+
+  return { nodes, links };
+}
+
+export interface HistogramBin {
+  label: string;
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * Bin raw numeric samples (Sturges' rule unless a bin count is given).
+ */
+export function toHistogramBins(values: number[], binCount?: number): HistogramBin[] {
+  const samples = values.filter(value => Number.isFinite(value));
+  if (samples.length === 0) return [];
+
+  const min = Math.min(...samples);
+  const max = Math.max(...samples);
+  const bins = Math.max(1, binCount ?? Math.ceil(Math.log2(samples.length)) + 1);
+  const width = max === min ? 1 : (max - min) / bins;
+
+  const result: HistogramBin[] = Array.from({ length: bins }, (_, bin) => {
+    const start = min + bin * width;
+    const end = bin === bins - 1 ? Math.max(max, start + width) : start + width;
+    return { label: `${formatEdge(start)}–${formatEdge(end)}`, start, end, count: 0 };
+  });
+  for (const sample of samples) {
+    const bin = Math.min(bins - 1, Math.floor((sample - min) / width));
+    result[bin].count += 1;
+  }
+  return result;
+}
+
+function formatEdge(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/**
+ * Histogram input is either raw samples (no labels) or bins that are already
+ * counted (every point labelled, the count in the value field).
+ */
+export function toHistogramData(data: DashboardDataPoint[], valueKey = "value"): HistogramBin[] {
+  if (data.length > 0 && data.every(point => typeof point.label === "string")) {
+    return data.map((point, index) => ({ label: labelOf(point, index), start: index, end: index + 1, count: toNumber(point[valueKey]) ?? 0 }));
+  }
+  return toHistogramBins(data.map(point => toNumber(point[valueKey])).filter((value): value is number => value !== null));
+}
+
+export interface Candle {
+  label: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  range: [number, number]; // low to high, the extent of the wick
+}
+
+export function toCandles(data: DashboardDataPoint[]): Candle[] {
+  return data.flatMap((point, index) => {
+    const open = toNumber(point.open);
+    const close = toNumber(point.close);
+    if (open === null || close === null) return [];
+    // Keep the wick around the body even when high/low are missing or inconsistent
+    const high = Math.max(toNumber(point.high) ?? -Infinity, open, close);
+    const low = Math.min(toNumber(point.low) ?? Infinity, open, close);
+    return [{ label: String(point.label ?? point.date ?? `#${index + 1}`), open, high, low, close, range: [low, high] as [number, number] }];
+  });
+}
@@ -0,0 +1,104 @@
+import type { ClassificationResult, DashboardOutput, DatasetQueryResult, VisualizationType } from "@/types";
+import { detectChartConfig, detectOptimalChartType } from "@/lib/charts/detection";
+import { measureKey } from "./query";
+
+// Classifier types that can draw a single label/value series as-is
+const SERIES_CHART_TYPES: VisualizationType[] = ["bar_chart", "line_chart", "area_chart", "pie_chart", "funnel_chart"];
+
+const AGGREGATION_LABELS: Record<DatasetQueryResult["plan"]["aggregation"], string> = {
+  sum: "Total",
+  avg: "Average",
+  count: "Count of",
+  min: "Minimum",
+  max: "Maximum",
+};
+
+function humanize(name: string): string {
+  const spaced = name.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/[_-]+/g, " ").trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+function describePlan(plan: DatasetQueryResult["plan"]): string {
+  const measure = plan.aggregation === "count" ? "count(*)" : `${plan.aggregation}(${plan.measure})`;
+  const grouping = plan.groupBy ? ` grouped by ${plan.groupBy}${plan.dateGrain ? ` (${plan.dateGrain})` : ""}` : "";
+  return `${measure}${grouping}${plan.limit ? `, top ${plan.limit}` : ""}`;
+}
+
+function describeResult(result: DatasetQueryResult): string {
+  const { plan, rows, totalRows, datasetName } = result;
+  const measureLabel = plan.aggregation === "count" ? "rows" : `${plan.aggregation} of ${plan.measure}`;
+  const grouping = plan.groupBy ? ` by ${plan.groupBy}${plan.dateGrain ? ` (${plan.dateGrain})` : ""}` : "";
+  const parts = [`Computed from ${formatNumber(totalRows)} rows of ${datasetName}: ${measureLabel}${grouping}.`];
+
+  const values = rows.map(row => Number(row.value));
+  if (rows.length > 1 && result.columns[0]?.type === "date") {
+    const first = values[0];
+    const last = values[values.length - 1];
+    const change = first !== 0 ? ((last - first) / Math.abs(first)) * 100 : null;
+    parts.push(
+      `${rows[0].label} to ${rows[rows.length - 1].label}: ${formatNumber(first)} → ${formatNumber(last)}` +
+        (change !== null ? ` (${change >= 0 ? "+" : ""}${change.toFixed(1)}%).` : ".")
+    );
+  } else if (rows.length > 0) {
+    const top = rows[0];
+    const additive = plan.aggregation === "sum" || plan.aggregation === "count";
+    const total = values.reduce((sum, value) => sum + value, 0);
+    parts.push(
+      `${top.label} leads with ${formatNumber(Number(top.value))}` +
+        (additive && total > 0 && rows.length > 1 ? ` (${((Number(top.value) / total) * 100).toFixed(1)}% of the total).` : ".")
+    );
+  }
+
+  return parts.join(" ");
+}
+
+/**
+ * Build a dashboard straight from aggregated dataset rows. Nothing here goes through
+ * an LLM, so every number shown is computed from the uploaded file.
+ */
+export function buildDatasetDashboard(
+  query: string,
+  classification: ClassificationResult,
+  result: DatasetQueryResult
+): DashboardOutput {
+  const { plan, rows, columns } = result;
+
+  let type = SERIES_CHART_TYPES.includes(classification.type)
+    ? classification.type
+    : detectOptimalChartType(rows, columns);
+  // Shares of an average are meaningless
+  if (type === "pie_chart" && plan.aggregation !== "sum" && plan.aggregation !== "count") {
+    type = "bar_chart";
+  }
+
+  const measureLabel = plan.aggregation === "count" ? "Records" : humanize(measureKey(plan));
+  const title = `${AGGREGATION_LABELS[plan.aggregation]} ${measureLabel}${plan.groupBy ? ` by ${humanize(plan.groupBy)}` : ""}`;
+
+  return {
+    type,
+    title: title.length >= 5 ? title.slice(0, 120) : `${title} — ${result.datasetName}`.slice(0, 120),
+    data: rows,
+    columns,
+    config: detectChartConfig(rows, type, columns),
+    summary: describeResult(result),
+    citations: [
+      {
+        title: `${result.datasetName} (dataset)`,
+        url: `/datasets?datasetId=${encodeURIComponent(result.datasetId)}`,
+        snippet: `${formatNumber(result.totalRows)} rows aggregated for: ${query}`,
+        fileName: result.datasetName,
+      },
+    ],
+    provenance: {
+      sourceType: "dataset",
+      source: result.datasetName,
+      query: describePlan(plan),
+      rowCount: result.totalRows,
+      generatedAt: new Date().toISOString(),
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import { detectDelimiter, parseCsv } from "@/lib/documents/csv";
+
+export type DatasetFormat = "csv" | "xlsx" | "json";
+
+export type RawRow = Record<string, unknown>;
+
+/**
+ * Raised for problems with the uploaded file itself. API routes surface these as 400s.
+ */
+export class DatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetError";
+  }
+}
+
+const EXTENSION_FORMATS: Record<string, DatasetFormat> = {
+  csv: "csv",
+  tsv: "csv",
+  xlsx: "xlsx",
+  xls: "xlsx",
+  json: "json",
+};
+
+export const SUPPORTED_DATASET_EXTENSIONS = Object.keys(EXTENSION_FORMATS).map(ext => `.${ext}`);
+
+export function detectDatasetFormat(fileName: string): DatasetFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_FORMATS[extension] ?? null;
+}
+
+function rowsFromTable(table: unknown[][]): RawRow[] {
+  const [header, ...body] = table;
+  if (!header) return [];
+
+  const columns = header.map((cell, index) => String(cell ?? "").trim() || `Column ${index + 1}`);
+  return body.map(cells =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? null]))
+  );
+}
+
+function parseCsvRows(text: string): RawRow[] {
+  return rowsFromTable(parseCsv(text.replace(/^\uFEFF/, ""), detectDelimiter(text)));
+}
+
+async function parseXlsxRows(data: Uint8Array): Promise<RawRow[]> {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.read(data, { type: "array", cellDates: true });
+  const firstSheet = workbook.SheetNames[0];
+  if (!firstSheet) return [];
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[firstSheet], {
+    header: 1,
+    raw: true,
+    defval: null,
+    blankrows: false,
+  });
+  return rowsFromTable(table);
+}
+
+function parseJsonRows(text: string): RawRow[] {
+  const json = JSON.parse(text);
+  // Accept a bare array or the common { data: [...] } / { rows: [...] } envelopes
+  const rows = Array.isArray(json) ? json : json?.data ?? json?.rows ?? json?.records;
+
+  if (!Array.isArray(rows) || rows.some(row => typeof row !== "object" || row === null || Array.isArray(row))) {
+    throw new DatasetError("JSON datasets must be an array of objects");
+  }
+  return rows as RawRow[];
+}
+
+/**
+ * Read rows out of an uploaded CSV, XLSX or JSON file. Values are left raw; schema
+ * inference decides what they mean.
+ */
+export async function parseDatasetFile(fileName: string, data: Uint8Array): Promise<{ format: DatasetFormat; rows: RawRow[] }> {
+  const format = detectDatasetFormat(fileName);
+  if (!format) {
+    throw new DatasetError(
+      `Unsupported dataset type for ${fileName}. Supported: ${SUPPORTED_DATASET_EXTENSIONS.join(", ")}`
+    );
+  }
+
+  let rows: RawRow[];
+  try {
+    switch (format) {
+      case "xlsx":
+        rows = await parseXlsxRows(data);
+        break;
+      case "json":
+        rows = parseJsonRows(new TextDecoder().decode(data));
+        break;
+      default:
+        rows = parseCsvRows(new TextDecoder().decode(data));
+    }
+  } catch (error) {
+    if (error instanceof DatasetError) throw error;
+    console.error(`[Datasets] Failed to parse ${fileName}:`, error);
+    throw new DatasetError(`Could not read ${fileName}. Is the file corrupted?`);
+  }
+
+  if (rows.length === 0) {
+    throw new DatasetError(`${fileName} has no data rows`);
+  }
+
+  return { format, rows };
+}
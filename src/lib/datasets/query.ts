@@ -0,0 +1,228 @@
+import type {
+  DashboardDataPoint,
+  DatasetAggregation,
+  DatasetColumn,
+  DatasetQueryPlan,
+  DatasetQueryResult,
+  DatasetSchema,
+} from "@/types";
+import type { DatasetRow } from "./schema";
+
+export interface StoredDataset {
+  datasetId: string;
+  userId: string;
+  name: string;
+  schema: DatasetSchema;
+  rows: DatasetRow[];
+}
+
+const DEFAULT_CATEGORY_LIMIT = 20;
+const OTHER_LABEL = "Other";
+// dashboardSchema accepts at most 100 data points
+const MAX_SERIES_POINTS = 100;
+
+const STOP_WORDS = new Set([
+  "show", "me", "the", "a", "an", "of", "by", "per", "for", "each", "in", "on", "over", "and",
+  "chart", "graph", "plot", "what", "is", "are", "my", "our", "data", "dataset", "total", "all",
+  "top", "to", "with", "across", "how", "much", "many", "breakdown", "trend", "time",
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token));
+}
+
+function matchScore(column: DatasetColumn, queryTokens: string[]): number {
+  const columnTokens = tokenize(column.name);
+  if (columnTokens.length === 0) return 0;
+  const matched = columnTokens.filter(token => queryTokens.includes(token)).length;
+  return matched / columnTokens.length;
+}
+
+function bestMatch(columns: DatasetColumn[], queryTokens: string[]): DatasetColumn | undefined {
+  let best: DatasetColumn | undefined;
+  let bestScore = 0;
+  for (const column of columns) {
+    const score = matchScore(column, queryTokens);
+    if (score > bestScore) {
+      best = column;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function detectAggregation(query: string): DatasetAggregation | null {
+  if (/\b(average|avg|mean)\b/i.test(query)) return "avg";
+  if (/\b(count|how many|number of)\b/i.test(query)) return "count";
+  if (/\b(max|maximum)\b/i.test(query)) return "max";
+  if (/\b(min|minimum)\b/i.test(query)) return "min";
+  return null;
+}
+
+function detectDateGrain(query: string, column: DatasetColumn): DatasetQueryPlan["dateGrain"] {
+  if (/\b(daily|day|days)\b/i.test(query)) return "day";
+  if (/\b(monthly|month|months)\b/i.test(query)) return "month";
+  if (/\b(quarterly|quarter|quarters)\b/i.test(query)) return "quarter";
+  if (/\b(yearly|annual|annually|year|years)\b/i.test(query)) return "year";
+
+  // Otherwise pick a grain that gives a readable number of points
+  const spanDays = column.min && column.max
+    ? (new Date(String(column.max)).getTime() - new Date(String(column.min)).getTime()) / 86_400_000
+    : 0;
+  if (spanDays > 3 * 365) return "year";
+  if (spanDays > 90) return "month";
+  return "day";
+}
+
+/**
+ * Turn a natural language question into an aggregation over the dataset's columns.
+ * Column names mentioned in the query win; "by X" / "per X" picks the grouping.
+ */
+export function planDatasetQuery(query: string, schema: DatasetSchema): DatasetQueryPlan {
+  const queryTokens = tokenize(query);
+  const measures = schema.columns.filter(column => column.type === "number");
+  const dimensions = schema.columns.filter(column => column.type === "category" || column.type === "date" || column.type === "boolean");
+
+  const aggregation = detectAggregation(query);
+  const mentionedMeasure = bestMatch(measures, queryTokens);
+  const measure = mentionedMeasure ?? (aggregation === "count" ? undefined : measures[0]);
+
+  const groupPhrase = query.match(/\b(?:by|per|for each|across|over)\s+([\w\s-]+)/i)?.[1] ?? "";
+  const wantsTrend = /\b(trend|over time|timeline|growth|monthly|yearly|daily|quarterly)\b/i.test(query);
+  const dateColumn = dimensions.find(column => column.type === "date");
+
+  const groupBy =
+    bestMatch(dimensions, tokenize(groupPhrase)) ??
+    bestMatch(dimensions.filter(column => column !== measure), queryTokens) ??
+    (wantsTrend ? dateColumn : undefined) ??
+    dimensions.find(column => column.type === "category") ??
+    dateColumn;
+
+  const topN = query.match(/\btop\s+(\d+)\b/i);
+
+  return {
+    measure: measure?.name,
+    groupBy: groupBy?.name,
+    aggregation: aggregation ?? (measure ? "sum" : "count"),
+    dateGrain: groupBy?.type === "date" ? detectDateGrain(query, groupBy) : undefined,
+    limit: topN ? Number(topN[1]) : groupBy?.type === "date" ? undefined : DEFAULT_CATEGORY_LIMIT,
+  };
+}
+
+function bucketDate(iso: string, grain: NonNullable<DatasetQueryPlan["dateGrain"]>): string {
+  const year = iso.slice(0, 4);
+  const month = iso.slice(5, 7);
+  switch (grain) {
+    case "year":
+      return year;
+    case "quarter":
+      return `${year}-Q${Math.ceil(Number(month) / 3)}`;
+    case "month":
+      return `${year}-${month}`;
+    default:
+      return iso.slice(0, 10);
+  }
+}
+
+function aggregate(values: number[], aggregation: DatasetAggregation, rowCount: number): number {
+  switch (aggregation) {
+    case "count":
+      return rowCount;
+    case "avg":
+      return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    // reduce rather than Math.min(...values): spreading a large group overflows the stack
+    case "min":
+      return values.length ? values.reduce((min, value) => (value < min ? value : min)) : 0;
+    case "max":
+      return values.length ? values.reduce((max, value) => (value > max ? value : max)) : 0;
+    default:
+      return values.reduce((sum, value) => sum + value, 0);
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function measureKey(plan: DatasetQueryPlan): string {
+  return plan.aggregation === "count" || !plan.measure ? "count" : plan.measure;
+}
+
+/**
+ * Run an aggregation plan. Rows come back as { label, value } plus the real column
+ * names, so renderers can use either the generic or the schema keys.
+ */
+export function executeDatasetQuery(dataset: StoredDataset, plan: DatasetQueryPlan): DatasetQueryResult {
+  const groupColumn = dataset.schema.columns.find(column => column.name === plan.groupBy);
+  const valueKey = measureKey(plan);
+
+  const groups = new Map<string, { values: number[]; rows: number }>();
+  for (const row of dataset.rows) {
+    let key = "All rows";
+    if (groupColumn) {
+      const raw = row[groupColumn.name];
+      if (raw === null || raw === undefined) continue;
+      key = groupColumn.type === "date" && plan.dateGrain ? bucketDate(String(raw), plan.dateGrain) : String(raw);
+    }
+
+    const group = groups.get(key) ?? { values: [], rows: 0 };
+    group.rows++;
+    const measureValue = plan.measure ? row[plan.measure] : null;
+    if (typeof measureValue === "number") {
+      group.values.push(measureValue);
+    }
+    groups.set(key, group);
+  }
+
+  let points = [...groups.entries()].map(([label, group]) => ({
+    label,
+    value: round(aggregate(group.values, plan.aggregation, group.rows)),
+  }));
+
+  if (groupColumn?.type === "date") {
+    points.sort((a, b) => a.label.localeCompare(b.label));
+    points = points.slice(-Math.min(plan.limit ?? MAX_SERIES_POINTS, MAX_SERIES_POINTS));
+  } else {
+    points.sort((a, b) => b.value - a.value);
+    const limit = Math.min(plan.limit ?? MAX_SERIES_POINTS, MAX_SERIES_POINTS - 1);
+    if (points.length > limit) {
+      const rest = points.slice(limit);
+      points = points.slice(0, limit);
+      // Only additive aggregations can be folded into an "Other" bucket honestly
+      if (plan.aggregation === "sum" || plan.aggregation === "count") {
+        points.push({ label: OTHER_LABEL, value: round(rest.reduce((sum, point) => sum + point.value, 0)) });
+      }
+    }
+  }
+
+  const groupKey = groupColumn?.name ?? "label";
+  const rows: DashboardDataPoint[] = points.map(point => ({
+    label: point.label,
+    value: point.value,
+    [groupKey]: point.label,
+    [valueKey]: point.value,
+  }));
+
+  return {
+    datasetId: dataset.datasetId,
+    datasetName: dataset.name,
+    plan,
+    columns: [
+      { name: groupKey, type: groupColumn?.type === "date" ? "date" : "category" },
+      { name: valueKey, type: "number" },
+    ],
+    rows,
+    totalRows: dataset.rows.length,
+  };
+}
+
+export function runDatasetQuery(dataset: StoredDataset, query: string): DatasetQueryResult {
+  const plan = planDatasetQuery(query, dataset.schema);
+  console.log("[Datasets] Query plan:", plan);
+  return executeDatasetQuery(dataset, plan);
+}
@@ -0,0 +1,156 @@
+import type { ColumnType, DatasetColumn, DatasetSchema } from "@/types";
+import type { RawRow } from "./parse";
+
+export type DatasetValue = string | number | boolean | null;
+export type DatasetRow = Record<string, DatasetValue>;
+
+// A column takes a type when at least this share of its non-empty values fit it
+const TYPE_MATCH_THRESHOLD = 0.9;
+const MAX_CATEGORY_VALUES = 50;
+const SAMPLE_SIZE = 5;
+
+const NULL_TOKENS = new Set(["", "null", "n/a", "na", "nan", "-", "none"]);
+const BOOLEAN_TOKENS: Record<string, boolean> = { true: true, false: false, yes: true, no: false };
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && NULL_TOKENS.has(value.trim().toLowerCase()));
+}
+
+/**
+ * Parse "1,234.5", "$1,200", "45%", "(300)" and plain numbers. Anything else is not a number.
+ */
+export function parseNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+
+  let text = value.trim();
+  const negative = /^\(.*\)$/.test(text);
+  if (negative) text = text.slice(1, -1);
+  text = text.replace(/^[$€£¥]\s?|\s?[$€£¥]$/g, "").replace(/%$/, "").replace(/,(?=\d{3}(\D|$))/g, "");
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) return null;
+  const number = Number(text);
+  return negative ? -number : number;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}(-\d{2})?([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const SLASH_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const NAMED_MONTH = /^[a-z]{3,9}\.? \d{1,2},? \d{4}$|^\d{1,2} [a-z]{3,9}\.? \d{4}$|^[a-z]{3,9}\.? \d{4}$/i;
+
+/**
+ * Parse common date spellings to an ISO string (date only when there is no time part).
+ * MM/DD/YYYY is assumed for slash dates.
+ */
+export function parseDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== "string") return null;
+
+  const text = value.trim();
+  if (ISO_DATE.test(text)) {
+    if (/^\d{4}-\d{2}$/.test(text)) return `${text}-01`;
+    const date = new Date(text.length === 10 ? `${text}T00:00:00Z` : text);
+    if (Number.isNaN(date.getTime())) return null;
+    return text.length === 10 ? text : date.toISOString();
+  }
+
+  const slash = text.match(SLASH_DATE);
+  if (slash) {
+    const [, month, day, year] = slash;
+    const iso = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+    return Number.isNaN(new Date(`${iso}T00:00:00Z`).getTime()) ? null : iso;
+  }
+
+  if (NAMED_MONTH.test(text)) {
+    const date = new Date(`${text} 00:00:00 UTC`);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+  }
+
+  return null;
+}
+
+function isYearColumn(name: string, values: unknown[]): boolean {
+  return /\b(year|yr|fy)\b/i.test(name.replace(/[_-]/g, " ")) &&
+    values.every(value => {
+      const number = parseNumber(value);
+      return number !== null && Number.isInteger(number) && number >= 1800 && number <= 2200;
+    });
+}
+
+function share(values: unknown[], predicate: (value: unknown) => boolean): number {
+  return values.length === 0 ? 0 : values.filter(predicate).length / values.length;
+}
+
+function inferColumnType(name: string, values: unknown[]): ColumnType {
+  if (values.length === 0) return "text";
+  if (isYearColumn(name, values)) return "date";
+  if (share(values, value => typeof value === "boolean" || String(value).trim().toLowerCase() in BOOLEAN_TOKENS) >= TYPE_MATCH_THRESHOLD) {
+    return "boolean";
+  }
+  if (share(values, value => parseNumber(value) !== null) >= TYPE_MATCH_THRESHOLD) return "number";
+  if (share(values, value => parseDate(value) !== null) >= TYPE_MATCH_THRESHOLD) return "date";
+
+  const distinct = new Set(values.map(value => String(value).trim())).size;
+  const longText = share(values, value => String(value).length > 60) > 0.5;
+  if (!longText && (distinct <= MAX_CATEGORY_VALUES || distinct / values.length <= 0.2)) {
+    return "category";
+  }
+  return "text";
+}
+
+function normalizeValue(value: unknown, type: ColumnType, yearColumn: boolean): DatasetValue {
+  if (isEmpty(value)) return null;
+
+  switch (type) {
+    case "number":
+      return parseNumber(value);
+    case "boolean":
+      return typeof value === "boolean" ? value : BOOLEAN_TOKENS[String(value).trim().toLowerCase()] ?? null;
+    case "date":
+      return yearColumn ? `${parseNumber(value)}-01-01` : parseDate(value);
+    default:
+      return String(value).trim();
+  }
+}
+
+/**
+ * Infer column types (number, date, category, text, boolean) and return rows with
+ * values normalised to those types: numbers as numbers, dates as ISO strings.
+ */
+export function inferSchema(rawRows: RawRow[]): { schema: DatasetSchema; rows: DatasetRow[] } {
+  const names = [...new Set(rawRows.flatMap(row => Object.keys(row)))];
+  const rows: DatasetRow[] = rawRows.map(() => ({}));
+  const columns: DatasetColumn[] = [];
+
+  for (const name of names) {
+    const values = rawRows.map(row => row[name]).filter(value => !isEmpty(value));
+    const type = inferColumnType(name, values);
+    const yearColumn = type === "date" && isYearColumn(name, values);
+
+    const normalized = rawRows.map((row, index) => {
+      const value = normalizeValue(row[name], type, yearColumn);
+      rows[index][name] = value;
+      return value;
+    });
+    const present = normalized.filter((value): value is string | number | boolean => value !== null);
+
+    const column: DatasetColumn = {
+      name,
+      type,
+      nullCount: normalized.length - present.length,
+      distinctCount: new Set(present.map(String)).size,
+      sample: [...new Set(present)].slice(0, SAMPLE_SIZE),
+    };
+
+    if (type === "number" || type === "date") {
+      const sorted = [...present].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      column.min = sorted[0] as number | string | undefined;
+      column.max = sorted[sorted.length - 1] as number | string | undefined;
+    }
+
+    columns.push(column);
+  }
+
+  return { schema: { columns, rowCount: rows.length }, rows };
+}
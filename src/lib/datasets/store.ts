@@ -0,0 +1,192 @@
+import { randomUUID } from "crypto";
+import { InputFile } from "node-appwrite/file";
+import type { DatasetSchema } from "@/types";
+import { getAppwriteClients } from "@/lib/appwrite/client";
+import {
+  deleteDatasetRecord,
+  getDatasetRecord,
+  getUserDatasets,
+  saveDatasetRecord,
+} from "@/lib/appwrite/database";
+import { DatasetError, parseDatasetFile, type DatasetFormat } from "./parse";
+import type { StoredDataset } from "./query";
+import { inferSchema, type DatasetRow } from "./schema";
+
+const DATASET_BUCKET_ID = process.env.APPWRITE_BUCKET_DATASETS ?? "datasets";
+
+export const MAX_DATASET_BYTES = 20 * 1024 * 1024;
+const MAX_DATASET_ROWS = 200_000;
+const MAX_CACHED_DATASETS = 10;
+
+export interface DatasetSummary {
+  datasetId: string;
+  name: string;
+  format: DatasetFormat;
+  rowCount: number;
+  schema: DatasetSchema;
+  createdAt: string;
+}
+
+type CachedDataset = StoredDataset & { format: DatasetFormat; createdAt: string };
+
+// Parsed rows are kept in process so follow-up questions skip the Storage download.
+// Without Appwrite credentials this cache is the only store (local development).
+const cache = new Map<string, CachedDataset>();
+
+function hasAppwriteConfig(): boolean {
+  return (
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY)
+  );
+}
+
+function remember(dataset: CachedDataset): void {
+  cache.set(dataset.datasetId, dataset);
+  if (hasAppwriteConfig() && cache.size > MAX_CACHED_DATASETS) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+function toSummary(dataset: CachedDataset): DatasetSummary {
+  return {
+    datasetId: dataset.datasetId,
+    name: dataset.name,
+    format: dataset.format,
+    rowCount: dataset.schema.rowCount,
+    schema: dataset.schema,
+    createdAt: dataset.createdAt,
+  };
+}
+
+/**
+ * Parse an uploaded file, infer its schema and persist it: rows to Appwrite Storage,
+ * schema and metadata to the user_datasets collection.
+ */
+export async function createDataset({ userId, fileName, data }: { userId: string; fileName: string; data: Uint8Array }): Promise<DatasetSummary> {
+  if (data.byteLength > MAX_DATASET_BYTES) {
+    throw new DatasetError(`${fileName} is larger than ${MAX_DATASET_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const { format, rows: rawRows } = await parseDatasetFile(fileName, data);
+  if (rawRows.length > MAX_DATASET_ROWS) {
+    throw new DatasetError(`${fileName} has ${rawRows.length} rows; the limit is ${MAX_DATASET_ROWS}`);
+  }
+
+  const { schema, rows } = inferSchema(rawRows);
+  const dataset: CachedDataset = {
+    datasetId: randomUUID(),
+    userId,
+    name: fileName,
+    format,
+    schema,
+    rows,
+    createdAt: new Date().toISOString(),
+  };
+
+  console.log(`[Datasets] ${fileName}: ${schema.rowCount} rows,`, schema.columns.map(column => `${column.name}:${column.type}`).join(", "));
+
+  if (hasAppwriteConfig()) {
+    const { storage } = getAppwriteClients();
+    await storage.createFile(
+      DATASET_BUCKET_ID,
+      dataset.datasetId,
+      InputFile.fromBuffer(Buffer.from(JSON.stringify(rows)), `${dataset.datasetId}.json`)
+    );
+
+    const record = await saveDatasetRecord({
+      userId,
+      datasetId: dataset.datasetId,
+      name: fileName,
+      format,
+      rowCount: schema.rowCount,
+      schema: JSON.stringify(schema),
+      fileId: dataset.datasetId,
+    });
+    if (!record) {
+      await storage.deleteFile(DATASET_BUCKET_ID, dataset.datasetId).catch(() => undefined);
+      throw new Error("Failed to save dataset metadata");
+    }
+  }
+
+  remember(dataset);
+  return toSummary(dataset);
+}
+
+export async function getDataset(userId: string, datasetId: string): Promise<StoredDataset | null> {
+  const cached = cache.get(datasetId);
+  if (cached) {
+    return cached.userId === userId ? cached : null;
+  }
+
+  if (!hasAppwriteConfig()) {
+    return null;
+  }
+
+  const record = await getDatasetRecord(userId, datasetId);
+  if (!record) {
+    return null;
+  }
+
+  try {
+    const { storage } = getAppwriteClients();
+    const file = await storage.getFileDownload(DATASET_BUCKET_ID, record.fileId);
+    const dataset: CachedDataset = {
+      datasetId,
+      userId,
+      name: record.name,
+      format: record.format as DatasetFormat,
+      schema: JSON.parse(record.schema) as DatasetSchema,
+      rows: JSON.parse(new TextDecoder().decode(file)) as DatasetRow[],
+      createdAt: record.createdAt,
+    };
+
+    remember(dataset);
+    return dataset;
+  } catch (error) {
+    console.error("[Datasets] Failed to load dataset rows", error);
+    return null;
+  }
+}
+
+export async function listDatasets(userId: string): Promise<DatasetSummary[]> {
+  if (!hasAppwriteConfig()) {
+    return [...cache.values()]
+      .filter(dataset => dataset.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(toSummary);
+  }
+
+  const records = await getUserDatasets(userId);
+  return records.map(record => ({
+    datasetId: record.datasetId,
+    name: record.name,
+    format: record.format as DatasetFormat,
+    rowCount: record.rowCount,
+    schema: JSON.parse(record.schema) as DatasetSchema,
+    createdAt: record.createdAt,
+  }));
+}
+
+export async function deleteDataset(userId: string, datasetId: string): Promise<boolean> {
+  if (!hasAppwriteConfig()) {
+    const cached = cache.get(datasetId);
+    if (!cached || cached.userId !== userId) return false;
+    cache.delete(datasetId);
+    return true;
+  }
+
+  const record = await getDatasetRecord(userId, datasetId);
+  if (!record) {
+    return false;
+  }
+
+  cache.delete(datasetId);
+  try {
+    const { storage } = getAppwriteClients();
+    await storage.deleteFile(DATASET_BUCKET_ID, record.fileId);
+  } catch (error) {
+    console.error("[Datasets] Failed to delete dataset rows", error);
+  }
+  return deleteDatasetRecord(datasetId);
+}
@@ -0,0 +1,82 @@
+import type { ParsedDocument } from "./parsers";
+
+export interface DocumentChunk {
+  text: string;
+  page?: number;
+}
+
+export interface ChunkingOptions {
+  chunkSize?: number; // target characters per chunk
+  overlap?: number; // characters carried over from the previous chunk
+}
+
+const DEFAULT_CHUNK_SIZE = 1200;
+const DEFAULT_OVERLAP = 200;
+
+// Split oversized paragraphs on sentence ends, falling back to hard cuts
+function splitLongText(text: string, chunkSize: number): string[] {
+  const sentences = text.match(/[^.!?\n]+[.!?]*\s*/g) ?? [text];
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const sentence of sentences) {
+    if (sentence.length > chunkSize) {
+      if (current) pieces.push(current);
+      current = "";
+      for (let start = 0; start < sentence.length; start += chunkSize) {
+        pieces.push(sentence.slice(start, start + chunkSize));
+      }
+      continue;
+    }
+    if (current.length + sentence.length > chunkSize && current) {
+      pieces.push(current);
+      current = "";
+    }
+    current += sentence;
+  }
+
+  if (current) pieces.push(current);
+  return pieces.map(piece => piece.trim()).filter(Boolean);
+}
+
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0 || text.length <= overlap) return "";
+  const tail = text.slice(-overlap);
+  const wordStart = tail.indexOf(" ");
+  return wordStart === -1 ? tail : tail.slice(wordStart + 1);
+}
+
+/**
+ * Split a parsed document into embedding-sized chunks. Chunks never span pages,
+ * so every chunk can be cited with the page it came from.
+ */
+export function chunkDocument(document: ParsedDocument, options: ChunkingOptions = {}): DocumentChunk[] {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(chunkSize / 2));
+  const chunks: DocumentChunk[] = [];
+
+  for (const { page, text } of document.pages) {
+    const paragraphs = text
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.replace(/[ \t]+/g, " ").trim())
+      .filter(Boolean)
+      .flatMap(paragraph => (paragraph.length > chunkSize ? splitLongText(paragraph, chunkSize) : [paragraph]));
+
+    let current = "";
+    for (const paragraph of paragraphs) {
+      if (current && current.length + paragraph.length + 2 > chunkSize) {
+        chunks.push({ text: current, page });
+        const tail = overlapTail(current, overlap);
+        current = tail ? `${tail}\n\n${paragraph}` : paragraph;
+      } else {
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+      }
+    }
+
+    if (current) {
+      chunks.push({ text: current, page });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,77 @@
+import { randomUUID } from "crypto";
+import {
+  deleteUserDocument,
+  getUserDocument,
+  saveUserDocument,
+  type UserDocument,
+} from "@/lib/appwrite/database";
+import { userMemoryManager } from "@/lib/memory/user-memory";
+import { chunkDocument } from "./chunking";
+import { DocumentIngestionError, parseDocument } from "./parsers";
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+const MAX_CHUNKS_PER_DOCUMENT = 2000;
+
+export interface IngestDocumentInput {
+  userId: string;
+  fileName: string;
+  mimeType?: string;
+  data: Uint8Array;
+}
+
+/**
+ * Parse, chunk and embed an uploaded file into the user's document namespace,
+ * then record it in Appwrite so it can be listed and deleted later.
+ */
+export async function ingestDocument({ userId, fileName, mimeType, data }: IngestDocumentInput): Promise<UserDocument> {
+  if (data.byteLength === 0) {
+    throw new DocumentIngestionError(`${fileName} is empty`);
+  }
+  if (data.byteLength > MAX_DOCUMENT_BYTES) {
+    throw new DocumentIngestionError(`${fileName} is larger than ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`);
+  }
+  if (!userMemoryManager.isMemoryEnabled()) {
+    throw new Error("Document uploads require a vector store (VECTOR_STORE is off)");
+  }
+
+  const parsed = await parseDocument(fileName, data, mimeType);
+  const chunks = chunkDocument(parsed);
+
+  if (chunks.length === 0) {
+    throw new DocumentIngestionError(`No text could be extracted from ${fileName}`);
+  }
+  if (chunks.length > MAX_CHUNKS_PER_DOCUMENT) {
+    throw new DocumentIngestionError(`${fileName} is too long to index (${chunks.length} chunks)`);
+  }
+
+  const documentId = randomUUID();
+  console.log(`[Documents] Ingesting ${fileName} (${parsed.format}) as ${documentId}: ${chunks.length} chunks`);
+
+  await userMemoryManager.storeDocumentChunks(userId, documentId, fileName, chunks);
+
+  const record = {
+    userId,
+    documentId,
+    fileName,
+    format: parsed.format,
+    size: data.byteLength,
+    pageCount: parsed.format === "pdf" ? parsed.pages.length : 0,
+    chunkCount: chunks.length,
+  };
+
+  // Appwrite is optional in development; the vectors are searchable either way
+  return (await saveUserDocument(record)) ?? { ...record, createdAt: new Date().toISOString() };
+}
+
+/**
+ * Delete an uploaded document's vectors and its Appwrite record.
+ */
+export async function deleteDocument(userId: string, documentId: string): Promise<boolean> {
+  const document = await getUserDocument(userId, documentId);
+  if (!document) {
+    return false;
+  }
+
+  await userMemoryManager.deleteDocumentChunks(userId, documentId, document.chunkCount);
+  return deleteUserDocument(userId, documentId);
+}
@@ -0,0 +1,125 @@
+import { detectDelimiter, parseCsv } from "./csv";
+
+export type DocumentFormat = "pdf" | "docx" | "markdown" | "csv" | "text";
+
+export interface ParsedPage {
+  page?: number; // 1-based, only for paginated formats
+  text: string;
+}
+
+export interface ParsedDocument {
+  fileName: string;
+  format: DocumentFormat;
+  pages: ParsedPage[];
+}
+
+/**
+ * Raised for problems with the uploaded file itself (unsupported, too large, empty).
+ * API routes surface these as 400s.
+ */
+export class DocumentIngestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentIngestionError";
+  }
+}
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  docx: "docx",
+  md: "markdown",
+  markdown: "markdown",
+  csv: "csv",
+  txt: "text",
+};
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/markdown": "markdown",
+  "text/csv": "csv",
+  "text/plain": "text",
+};
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = Object.keys(EXTENSION_FORMATS).map(ext => `.${ext}`);
+
+// CSV rows are grouped so each chunk keeps several related records together
+const CSV_ROWS_PER_SECTION = 25;
+
+export function detectDocumentFormat(fileName: string, mimeType?: string): DocumentFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_FORMATS[extension] ?? (mimeType ? MIME_FORMATS[mimeType] ?? null : null);
+}
+
+async function parsePdf(data: Uint8Array): Promise<ParsedPage[]> {
+  const { extractText } = await import("unpdf");
+  // unpdf hands the buffer to a worker, so give it its own copy
+  const { text } = await extractText(new Uint8Array(data), { mergePages: false });
+  return text.map((pageText, index) => ({ page: index + 1, text: pageText }));
+}
+
+async function parseDocx(data: Uint8Array): Promise<ParsedPage[]> {
+  const mammoth = await import("mammoth");
+  const { value } = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+  return [{ text: value }];
+}
+
+function parseCsvDocument(text: string): ParsedPage[] {
+  const [header, ...rows] = parseCsv(text, detectDelimiter(text));
+  if (!header) return [];
+
+  // Render each row as "column: value" pairs so embeddings see the column names
+  const lines = rows.map(row =>
+    header
+      .map((column, index) => `${column.trim() || `Column ${index + 1}`}: ${(row[index] ?? "").trim()}`)
+      .join("; ")
+  );
+
+  const sections: ParsedPage[] = [];
+  for (let start = 0; start < lines.length; start += CSV_ROWS_PER_SECTION) {
+    sections.push({ text: lines.slice(start, start + CSV_ROWS_PER_SECTION).join("\n\n") });
+  }
+  return sections;
+}
+
+/**
+ * Extract plain text from an uploaded file, page by page where the format has pages.
+ */
+export async function parseDocument(
+  fileName: string,
+  data: Uint8Array,
+  mimeType?: string
+): Promise<ParsedDocument> {
+  const format = detectDocumentFormat(fileName, mimeType);
+  if (!format) {
+    throw new DocumentIngestionError(
+      `Unsupported file type for ${fileName}. Supported: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(", ")}`
+    );
+  }
+
+  let pages: ParsedPage[];
+  try {
+    switch (format) {
+      case "pdf":
+        pages = await parsePdf(data);
+        break;
+      case "docx":
+        pages = await parseDocx(data);
+        break;
+      case "csv":
+        pages = parseCsvDocument(new TextDecoder().decode(data));
+        break;
+      default:
+        pages = [{ text: new TextDecoder().decode(data) }];
+    }
+  } catch (error) {
+    console.error(`[Documents] Failed to parse ${fileName}:`, error);
+    throw new DocumentIngestionError(`Could not read ${fileName}. Is the file corrupted?`);
+  }
+
+  return {
+    fileName,
+    format,
+    pages: pages.filter(page => page.text.trim().length > 0),
+  };
+}
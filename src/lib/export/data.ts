@@ -0,0 +1,139 @@
+import type { DashboardOutput, DataColumn } from "@/types";
+import { detectChartConfig } from "@/lib/charts/detection";
+import { buildTableModel, tableToCsv, type TableRow } from "@/lib/charts/table";
+
+// The data behind a dashboard as sheets: one per chart with data (the dashboard
+// itself, then each nested panel) plus a provenance sheet. CSV, JSON and XLSX are
+// all written from these.
+
+export interface DataSheet {
+  name: string;
+  columns: DataColumn[];
+  rows: TableRow[];
+}
+
+const MAX_SHEET_NAME = 31; // Excel's limit
+export const PROVENANCE_SHEET = "Provenance";
+
+function axesOf(chart: DashboardOutput): { xAxis?: string; yAxis?: string } {
+  const detected = detectChartConfig(chart.data, chart.type, chart.columns);
+  return {
+    xAxis: chart.config?.xAxis ?? (detected.xAxis as string | undefined),
+    yAxis: chart.config?.yAxis ?? (detected.yAxis as string | undefined),
+  };
+}
+
+function chartsWithData(dashboard: DashboardOutput): DashboardOutput[] {
+  return [dashboard, ...(dashboard.charts ?? []).flatMap(chartsWithData)].filter(chart => chart.data.length > 0);
+}
+
+// Excel rejects some characters in sheet names and compares them case-insensitively
+function uniqueSheetName(title: string, taken: Set<string>): string {
+  const base = title.replace(/[[\]:*?/\\]/g, " ").replace(/\s+/g, " ").trim().slice(0, MAX_SHEET_NAME) || "Sheet";
+  let name = base;
+  for (let suffix = 2; taken.has(name.toLowerCase()); suffix++) {
+    name = `${base.slice(0, MAX_SHEET_NAME - String(suffix).length - 1)} ${suffix}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * One sheet per chart with data. The x and y axis columns the chart plots come
+ * first, under the names the chart config (or `detectChartConfig`) chose.
+ */
+export function dashboardDataSheets(dashboard: DashboardOutput): DataSheet[] {
+  const taken = new Set([PROVENANCE_SHEET.toLowerCase()]);
+  return chartsWithData(dashboard).map(chart => {
+    const model = buildTableModel(chart.data, chart.columns);
+    const { xAxis, yAxis } = axesOf(chart);
+    const rank = (column: DataColumn) => (column.name === xAxis ? 0 : column.name === yAxis ? 1 : 2);
+    const columns = [...model.columns].sort((a, b) => rank(a) - rank(b));
+    return { name: uniqueSheetName(chart.title, taken), columns, rows: model.rows };
+  });
+}
+
+/**
+ * Where the data came from: the question asked, the data source and every citation.
+ */
+export function provenanceSheet(dashboard: DashboardOutput, exportedAt: Date = new Date()): DataSheet {
+  const rows: TableRow[] = [];
+  const add = (field: string, value: string | number | null, url: string | null = null) => rows.push({ field, value, url });
+
+  add("Dashboard", dashboard.title);
+  if (dashboard.query) add("Query", dashboard.query);
+  add("Exported at", exportedAt.toISOString());
+  if (dashboard.provenance) {
+    add("Data source", `${dashboard.provenance.source} (${dashboard.provenance.sourceType})`);
+    add("Source query", dashboard.provenance.query);
+    add("Rows read", dashboard.provenance.rowCount);
+    add("Generated at", dashboard.provenance.generatedAt);
+  }
+  (dashboard.citations ?? []).forEach((citation, index) => {
+    const where = citation.fileName ? ` (${citation.fileName}${citation.page ? `, p. ${citation.page}` : ""})` : "";
+    add(`Citation ${index + 1}`, `${citation.title}${where}`, citation.url);
+  });
+
+  return {
+    name: PROVENANCE_SHEET,
+    columns: [
+      { name: "field", type: "text" },
+      { name: "value", type: "text" },
+      { name: "url", type: "text" },
+    ],
+    rows,
+  };
+}
+
+/**
+ * CSV of every sheet. A single chart exports as plain CSV; with several, each sheet
+ * is preceded by its name and separated by a blank line.
+ */
+export function dashboardToCsv(dashboard: DashboardOutput, exportedAt: Date = new Date()): string {
+  const sheets = dashboardDataSheets(dashboard);
+  if (sheets.length === 1) return tableToCsv(sheets[0].columns, sheets[0].rows);
+
+  return [...sheets, provenanceSheet(dashboard, exportedAt)]
+    .map(sheet => `${tableToCsv([{ name: sheet.name, type: "text" }], [])}\r\n${tableToCsv(sheet.columns, sheet.rows)}`)
+    .join("\r\n\r\n");
+}
+
+/**
+ * The raw `data` of every chart, unnormalised, with the axes and provenance.
+ */
+export function dashboardToJson(dashboard: DashboardOutput, exportedAt: Date = new Date()): string {
+  return JSON.stringify(
+    {
+      title: dashboard.title,
+      query: dashboard.query,
+      exportedAt: exportedAt.toISOString(),
+      charts: chartsWithData(dashboard).map(chart => ({
+        title: chart.title,
+        type: chart.type,
+        ...axesOf(chart),
+        columns: chart.columns,
+        data: chart.data,
+      })),
+      provenance: dashboard.provenance,
+      citations: dashboard.citations ?? [],
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * An Excel workbook with a sheet per chart and a provenance sheet last.
+ */
+export async function dashboardToXlsx(dashboard: DashboardOutput, exportedAt: Date = new Date()): Promise<ArrayBuffer> {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.utils.book_new();
+
+  for (const sheet of [...dashboardDataSheets(dashboard), provenanceSheet(dashboard, exportedAt)]) {
+    const header = sheet.columns.map(column => column.name);
+    const body = sheet.rows.map(row => sheet.columns.map(column => row[column.name] ?? null));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([header, ...body]), sheet.name);
+  }
+
+  return XLSX.write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+}
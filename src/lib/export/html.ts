@@ -0,0 +1,228 @@
+import type { DashboardOutput } from "@/types";
+
+// A single HTML file that re-renders the dashboard JSON with no network access:
+// the data is embedded as JSON and drawn by a small inline script (SVG bars, lines
+// and pies; tables for everything else), so it opens anywhere a browser does.
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// JSON inside <script> must not be able to close the tag
+function embedJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c").replace(/\u2028/g, "\\u2028").replace(/\u2029/g, "\\u2029");
+}
+
+const STYLES = `
+  :root { color-scheme: light dark; --fg: #0f172a; --muted: #64748b; --bg: #f8fafc; --card: #ffffff; --line: #e2e8f0; }
+  @media (prefers-color-scheme: dark) { :root { --fg: #e2e8f0; --muted: #94a3b8; --bg: #020617; --card: #0f172a; --line: #1e293b; } }
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px; font: 15px/1.6 "Inter", system-ui, sans-serif; background: var(--bg); color: var(--fg); }
+  main { max-width: 1100px; margin: 0 auto; }
+  h1 { margin: 0 0 8px; font-size: 28px; }
+  h2 { margin: 0 0 12px; font-size: 18px; }
+  .muted { color: var(--muted); font-size: 13px; }
+  .card { background: var(--card); border: 1px solid var(--line); border-radius: 16px; padding: 20px; margin: 16px 0; }
+  .kpis { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 12px; }
+  .kpi strong { display: block; font-size: 24px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid var(--line); }
+  svg text { fill: var(--muted); font-size: 11px; }
+  pre { white-space: pre-wrap; word-break: break-word; font-size: 12px; }
+`;
+
+// Plain ES5 so the file keeps working in old browsers and email previews
+const RENDERER = `
+(function () {
+  var dashboard = JSON.parse(document.getElementById("dashboard-data").textContent);
+  var root = document.getElementById("dashboard");
+  var SVG = "http://www.w3.org/2000/svg";
+  var COLORS = ["#0ea5e9", "#8b5cf6", "#f97316", "#14b8a6", "#facc15", "#ef4444"];
+  var TEXT_TYPES = ["text", "timeline", "comparison", "infographic"];
+
+  function el(tag, text, className) {
+    var node = document.createElement(tag);
+    if (text !== undefined && text !== null) node.textContent = String(text);
+    if (className) node.className = className;
+    return node;
+  }
+  function svgEl(tag, attrs) {
+    var node = document.createElementNS(SVG, tag);
+    for (var key in attrs) node.setAttribute(key, attrs[key]);
+    return node;
+  }
+  function num(point, key) {
+    var value = point[key];
+    return typeof value === "number" && isFinite(value) ? value : null;
+  }
+  function keysOf(chart) {
+    var config = chart.config || {};
+    return { x: config.xAxis || "label", y: config.yAxis || "value" };
+  }
+
+  function barOrLine(chart, asLine) {
+    var keys = keysOf(chart), w = 640, h = 260, pad = 32;
+    var points = chart.data.filter(function (p) { return num(p, keys.y) !== null; });
+    var max = Math.max.apply(null, points.map(function (p) { return num(p, keys.y); }).concat([0]));
+    var min = Math.min.apply(null, points.map(function (p) { return num(p, keys.y); }).concat([0]));
+    var span = max - min || 1, step = (w - pad * 2) / Math.max(points.length, 1);
+    var y = function (v) { return h - pad - ((v - min) / span) * (h - pad * 2); };
+    var svg = svgEl("svg", { viewBox: "0 0 " + w + " " + h, width: "100%", role: "img" });
+    svg.appendChild(svgEl("line", { x1: pad, x2: w - pad, y1: y(0), y2: y(0), stroke: "#94a3b8" }));
+    var path = "";
+    points.forEach(function (p, i) {
+      var cx = pad + step * i + step / 2, v = num(p, keys.y);
+      if (asLine) {
+        path += (i ? " L " : "M ") + cx + " " + y(v);
+        svg.appendChild(svgEl("circle", { cx: cx, cy: y(v), r: 3, fill: COLORS[0] }));
+      } else {
+        svg.appendChild(svgEl("rect", { x: cx - step * 0.35, width: step * 0.7, y: Math.min(y(v), y(0)), height: Math.abs(y(v) - y(0)), fill: COLORS[i % COLORS.length], rx: 3 }));
+      }
+      var label = svgEl("text", { x: cx, y: h - 8, "text-anchor": "middle" });
+      label.textContent = String(p[keys.x] !== undefined ? p[keys.x] : i + 1).slice(0, 12);
+      svg.appendChild(label);
+    });
+    if (asLine) svg.appendChild(svgEl("path", { d: path, fill: "none", stroke: COLORS[0], "stroke-width": 2 }));
+    return svg;
+  }
+
+  function pie(chart) {
+    var keys = keysOf(chart), r = 110, c = 130;
+    var points = chart.data.filter(function (p) { return (num(p, keys.y) || 0) > 0; });
+    var total = points.reduce(function (sum, p) { return sum + num(p, keys.y); }, 0) || 1;
+    var svg = svgEl("svg", { viewBox: "0 0 520 260", width: "100%", role: "img" });
+    var angle = -Math.PI / 2;
+    points.forEach(function (p, i) {
+      var slice = (num(p, keys.y) / total) * Math.PI * 2, end = angle + slice;
+      var large = slice > Math.PI ? 1 : 0;
+      var d = points.length === 1
+        ? "M " + c + " " + (c - r) + " A " + r + " " + r + " 0 1 1 " + (c - 0.01) + " " + (c - r) + " Z"
+        : "M " + c + " " + c + " L " + (c + r * Math.cos(angle)) + " " + (c + r * Math.sin(angle)) +
+          " A " + r + " " + r + " 0 " + large + " 1 " + (c + r * Math.cos(end)) + " " + (c + r * Math.sin(end)) + " Z";
+      svg.appendChild(svgEl("path", { d: d, fill: COLORS[i % COLORS.length] }));
+      var legend = svgEl("text", { x: 280, y: 30 + i * 20 });
+      legend.textContent = String(p.label || p.name || i + 1) + " (" + Math.round((num(p, keys.y) / total) * 100) + "%)";
+      svg.appendChild(legend);
+      angle = end;
+    });
+    return svg;
+  }
+
+  function table(rows) {
+    var columns = [];
+    rows.forEach(function (row) { Object.keys(row).forEach(function (key) { if (columns.indexOf(key) < 0) columns.push(key); }); });
+    var node = el("table"), head = el("tr");
+    columns.forEach(function (key) { head.appendChild(el("th", key)); });
+    node.appendChild(head);
+    rows.forEach(function (row) {
+      var tr = el("tr");
+      columns.forEach(function (key) {
+        var value = row[key];
+        tr.appendChild(el("td", value === undefined || value === null ? "" : typeof value === "object" ? JSON.stringify(value) : value));
+      });
+      node.appendChild(tr);
+    });
+    return node;
+  }
+
+  function sections(data) {
+    var node = el("div");
+    data.forEach(function (block) {
+      var heading = block.heading || block.title || block.label || block.name;
+      var text = block.description || block.summary || block.text || block.content || block.body;
+      var bullets = block.bullets || block.points || block.items || block.highlights;
+      if (heading) node.appendChild(el("h2", heading));
+      if (text) node.appendChild(el("p", text));
+      if (Array.isArray(bullets)) {
+        var list = el("ul");
+        bullets.forEach(function (item) { list.appendChild(el("li", typeof item === "object" ? (item.label || item.title || JSON.stringify(item)) : item)); });
+        node.appendChild(list);
+      }
+    });
+    return node;
+  }
+
+  function chartCard(chart) {
+    var card = el("section", null, "card");
+    card.appendChild(el("h2", chart.title));
+    if (chart.summary && chart !== dashboard) card.appendChild(el("p", chart.summary, "muted"));
+    if (TEXT_TYPES.indexOf(chart.type) >= 0) card.appendChild(sections(chart.data));
+    else if (chart.type === "bar_chart" || chart.type === "histogram" || chart.type === "waterfall_chart") card.appendChild(barOrLine(chart, false));
+    else if (chart.type === "line_chart" || chart.type === "area_chart") card.appendChild(barOrLine(chart, true));
+    else if (chart.type === "pie_chart" || chart.type === "funnel_chart") card.appendChild(pie(chart));
+    else card.appendChild(table(chart.data));
+    return card;
+  }
+
+  root.appendChild(el("h1", dashboard.title));
+  if (dashboard.summary) root.appendChild(el("p", dashboard.summary));
+
+  var kpis = dashboard.layout && dashboard.layout.kpis;
+  if (kpis && kpis.length) {
+    var row = el("div", null, "kpis");
+    kpis.forEach(function (kpi) {
+      var tile = el("div", null, "card kpi");
+      tile.appendChild(el("span", kpi.label, "muted"));
+      tile.appendChild(el("strong", (typeof kpi.value === "number" ? kpi.value.toLocaleString() : kpi.value) + (kpi.unit ? " " + kpi.unit : "")));
+      row.appendChild(tile);
+    });
+    root.appendChild(row);
+  }
+
+  if (dashboard.charts && dashboard.charts.length) dashboard.charts.forEach(function (chart) { root.appendChild(chartCard(chart)); });
+  else if (dashboard.data && dashboard.data.length) root.appendChild(chartCard(dashboard));
+
+  (dashboard.mermaidDiagrams || []).forEach(function (diagram) {
+    var card = el("section", null, "card");
+    card.appendChild(el("h2", "Diagram"));
+    card.appendChild(el("pre", diagram));
+    root.appendChild(card);
+  });
+
+  if (dashboard.provenance) {
+    var source = el("section", null, "card");
+    source.appendChild(el("h2", "Source: " + dashboard.provenance.source));
+    source.appendChild(el("pre", dashboard.provenance.query));
+    root.appendChild(source);
+  }
+
+  if (dashboard.citations && dashboard.citations.length) {
+    var refs = el("section", null, "card");
+    refs.appendChild(el("h2", "Sources"));
+    var list = el("ol");
+    dashboard.citations.forEach(function (citation) {
+      var item = el("li");
+      var link = el("a", citation.title);
+      if (/^https?:/i.test(citation.url)) link.href = citation.url;
+      item.appendChild(link);
+      if (citation.snippet) item.appendChild(el("div", citation.snippet, "muted"));
+      list.appendChild(item);
+    });
+    refs.appendChild(list);
+    root.appendChild(refs);
+  }
+})();
+`;
+
+/**
+ * Build a self-contained HTML document for the dashboard.
+ */
+export function buildStandaloneHtml(dashboard: DashboardOutput, generatedAt: Date = new Date()): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="OrinAI">
+<title>${escapeHtml(dashboard.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main id="dashboard"></main>
+<p class="muted" style="text-align:center">Exported ${escapeHtml(generatedAt.toISOString())}</p>
+<script id="dashboard-data" type="application/json">${embedJson(dashboard)}</script>
+<script>${RENDERER}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,138 @@
+import type { DashboardOutput } from "@/types";
+import { dashboardDataSheets, dashboardToCsv, dashboardToJson, dashboardToXlsx } from "./data";
+import { buildStandaloneHtml } from "./html";
+import { buildPdfReport, type PdfChartImage, type PdfImages } from "./pdf";
+import { svgToPng } from "./raster";
+import { collectChartSvgs, composeSvg, serializeSvg, type SvgPart } from "./svg";
+
+export { dashboardDataSheets, dashboardToCsv, dashboardToJson, dashboardToXlsx, provenanceSheet, type DataSheet } from "./data";
+export { buildStandaloneHtml } from "./html";
+export { buildPdfReport, type PdfChartImage, type PdfImages } from "./pdf";
+
+export type ExportFormat = "png" | "svg" | "pdf" | "html" | "csv" | "json" | "xlsx";
+
+// "view" formats capture what is on screen; "data" formats carry the chart data
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string; description: string; kind: "view" | "data" }> = [
+  { format: "png", label: "PNG image", description: "Charts as one picture", kind: "view" },
+  { format: "svg", label: "SVG vector", description: "Scalable charts and diagrams", kind: "view" },
+  { format: "pdf", label: "PDF report", description: "Title, summary, charts, sections and sources", kind: "view" },
+  { format: "html", label: "Standalone HTML", description: "Opens offline in any browser", kind: "view" },
+  { format: "csv", label: "CSV", description: "Chart data as comma-separated values", kind: "data" },
+  { format: "json", label: "JSON", description: "Raw chart data with sources", kind: "data" },
+  { format: "xlsx", label: "Excel workbook", description: "A sheet per chart plus a provenance sheet", kind: "data" },
+];
+
+/**
+ * Raised when there is nothing to export in the requested format, e.g. an image of
+ * a dashboard that drew no charts. The export menu shows the message as is.
+ */
+export class DashboardExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DashboardExportError";
+  }
+}
+
+/**
+ * A filesystem-safe file name from the dashboard title.
+ */
+export function exportFileName(title: string, extension: ExportFormat): string {
+  const slug = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return `${slug || "dashboard"}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Panels are the elements the renderers tag with data-export-panel (one per chart);
+// any other chart-sized SVG under the root (Mermaid diagrams) is an extra.
+function collectParts(root: HTMLElement): { panels: Array<SvgPart | undefined>; extras: SvgPart[] } {
+  const panels: Array<SvgPart | undefined> = [];
+  for (const element of Array.from(root.querySelectorAll<HTMLElement>("[data-export-panel]"))) {
+    const [svg] = collectChartSvgs(element);
+    if (svg) panels[Number(element.dataset.exportPanel)] = serializeSvg(svg);
+  }
+  const extras = collectChartSvgs(root)
+    .filter(svg => !svg.closest("[data-export-panel]"))
+    .map(svg => serializeSvg(svg));
+  return { panels, extras };
+}
+
+async function toPdfImage(part: SvgPart): Promise<PdfChartImage> {
+  const { dataUrl } = await svgToPng(part);
+  return { dataUrl, width: part.width, height: part.height };
+}
+
+/**
+ * Export the dashboard and start the download. Image and PDF exports read the
+ * charts rendered under `root`; the other formats only need the dashboard.
+ */
+export async function exportDashboard(format: ExportFormat, dashboard: DashboardOutput, root: HTMLElement): Promise<void> {
+  const fileName = exportFileName(dashboard.title, format);
+
+  const isDataFormat = EXPORT_FORMATS.some(entry => entry.format === format && entry.kind === "data");
+  if (isDataFormat && dashboardDataSheets(dashboard).length === 0) {
+    throw new DashboardExportError("This dashboard has no data to export. Try PDF or HTML instead.");
+  }
+
+  switch (format) {
+    case "html":
+      downloadBlob(new Blob([buildStandaloneHtml(dashboard)], { type: "text/html;charset=utf-8" }), fileName);
+      return;
+    case "csv":
+      // The BOM makes Excel read the file as UTF-8
+      downloadBlob(new Blob(["\uFEFF", dashboardToCsv(dashboard)], { type: "text/csv;charset=utf-8" }), fileName);
+      return;
+    case "json":
+      downloadBlob(new Blob([dashboardToJson(dashboard)], { type: "application/json" }), fileName);
+      return;
+    case "xlsx":
+      downloadBlob(
+        new Blob([await dashboardToXlsx(dashboard)], {
+          type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        }),
+        fileName
+      );
+      return;
+  }
+
+  const { panels, extras } = collectParts(root);
+
+  if (format === "pdf") {
+    const images: PdfImages = {
+      panels: await Promise.all(panels.map(part => (part ? toPdfImage(part) : undefined))),
+      extras: await Promise.all(extras.map(toPdfImage)),
+    };
+    const report = await buildPdfReport(dashboard, images);
+    downloadBlob(new Blob([report], { type: "application/pdf" }), fileName);
+    return;
+  }
+
+  const parts = [...panels.filter((part): part is SvgPart => !!part), ...extras];
+  if (parts.length === 0) {
+    throw new DashboardExportError("This dashboard has no charts or diagrams to export as an image. Try PDF or HTML instead.");
+  }
+  const composed = composeSvg(dashboard.title, parts);
+
+  if (format === "svg") {
+    downloadBlob(new Blob([composed.markup], { type: "image/svg+xml;charset=utf-8" }), fileName);
+    return;
+  }
+  const { blob } = await svgToPng(composed);
+  downloadBlob(blob, fileName);
+}
@@ -0,0 +1,159 @@
+import type { DashboardDataPoint, DashboardOutput } from "@/types";
+import { TEXT_BLOCK_TYPES, toTextSections } from "@/lib/wiki/blocks";
+
+// Multi-page A4 report: title, summary, KPIs, one page block per chart (the
+// rasterised image when we have one, otherwise its data), text sections, citations.
+
+export interface PdfChartImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface PdfImages {
+  panels: Array<PdfChartImage | undefined>; // indexed like the charts being reported
+  extras: PdfChartImage[]; // drawn outside the panels, e.g. Mermaid diagrams
+}
+
+const PAGE_MARGIN = 48;
+const LINE_GAP = 1.4;
+const MAX_TABLE_ROWS = 25;
+
+type PdfDocument = InstanceType<typeof import("jspdf").jsPDF>;
+
+class ReportWriter {
+  private y = PAGE_MARGIN;
+  readonly width: number;
+  private readonly height: number;
+
+  constructor(private readonly doc: PdfDocument) {
+    this.width = doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+    this.height = doc.internal.pageSize.getHeight();
+  }
+
+  private ensureSpace(needed: number) {
+    if (this.y + needed > this.height - PAGE_MARGIN) {
+      this.doc.addPage();
+      this.y = PAGE_MARGIN;
+    }
+  }
+
+  text(value: string, { size = 11, bold = false, color = "#1e293b", indent = 0 } = {}) {
+    this.doc.setFont("helvetica", bold ? "bold" : "normal");
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(color);
+    const lines: string[] = this.doc.splitTextToSize(value, this.width - indent);
+    const lineHeight = size * LINE_GAP;
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, PAGE_MARGIN + indent, this.y + size);
+      this.y += lineHeight;
+    }
+  }
+
+  image(image: PdfChartImage) {
+    const scale = Math.min(1, this.width / image.width);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    this.ensureSpace(height);
+    this.doc.addImage(image.dataUrl, "PNG", PAGE_MARGIN, this.y, width, height);
+    this.y += height;
+  }
+
+  space(amount = 12) {
+    this.y += amount;
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function writeDataRows(writer: ReportWriter, data: DashboardDataPoint[]) {
+  for (const point of data.slice(0, MAX_TABLE_ROWS)) {
+    const cells = Object.entries(point).map(([key, value]) => `${key}: ${formatValue(value)}`);
+    writer.text(`• ${cells.join("   ")}`, { size: 9, indent: 8 });
+  }
+  if (data.length > MAX_TABLE_ROWS) {
+    writer.text(`… ${data.length - MAX_TABLE_ROWS} more rows`, { size: 9, color: "#64748b", indent: 8 });
+  }
+}
+
+function writeChart(writer: ReportWriter, chart: DashboardOutput, image: PdfChartImage | undefined) {
+  writer.text(chart.title, { size: 14, bold: true });
+  if (chart.summary) writer.text(chart.summary, { size: 10, color: "#475569" });
+  writer.space(6);
+
+  if (TEXT_BLOCK_TYPES.includes(chart.type)) {
+    for (const section of toTextSections(chart.data)) {
+      if (section.heading) writer.text(section.heading, { size: 12, bold: true });
+      if (section.paragraph) writer.text(section.paragraph);
+      for (const bullet of section.bullets) writer.text(`• ${bullet}`, { indent: 8 });
+      writer.space(6);
+    }
+  } else if (image) {
+    writer.image(image);
+  } else {
+    writeDataRows(writer, chart.data);
+  }
+  writer.space(18);
+}
+
+/**
+ * Build the PDF report from the dashboard and whatever chart images the page could
+ * rasterise. Charts without an image are written out as data rows.
+ */
+export async function buildPdfReport(
+  dashboard: DashboardOutput,
+  images: PdfImages = { panels: [], extras: [] },
+  generatedAt: Date = new Date()
+): Promise<ArrayBuffer> {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  doc.setProperties({ title: dashboard.title, subject: dashboard.summary ?? "", creator: "OrinAI" });
+  const writer = new ReportWriter(doc);
+
+  writer.text(dashboard.title, { size: 22, bold: true, color: "#0f172a" });
+  writer.text(`Exported ${generatedAt.toISOString().slice(0, 16).replace("T", " ")} UTC`, { size: 9, color: "#64748b" });
+  writer.space();
+  if (dashboard.summary) {
+    writer.text(dashboard.summary);
+    writer.space();
+  }
+
+  const kpis = dashboard.layout?.kpis ?? [];
+  if (kpis.length > 0) {
+    writer.text("Key figures", { size: 14, bold: true });
+    for (const kpi of kpis) {
+      const change = kpi.change !== undefined ? ` (${kpi.change > 0 ? "+" : ""}${kpi.change}%)` : "";
+      writer.text(`• ${kpi.label}: ${formatValue(kpi.value)}${kpi.unit ? ` ${kpi.unit}` : ""}${change}`, { indent: 8 });
+    }
+    writer.space(18);
+  }
+
+  const charts = dashboard.charts?.length ? dashboard.charts : dashboard.data.length > 0 ? [dashboard] : [];
+  charts.forEach((chart, index) => writeChart(writer, chart, images.panels[index]));
+  for (const image of images.extras) {
+    writer.image(image);
+    writer.space(18);
+  }
+
+  if (dashboard.provenance) {
+    writer.text(`Source: ${dashboard.provenance.source}`, { size: 12, bold: true });
+    writer.text(dashboard.provenance.query, { size: 9, color: "#475569" });
+    writer.space(18);
+  }
+
+  if (dashboard.citations?.length) {
+    writer.text("Sources", { size: 14, bold: true });
+    dashboard.citations.forEach((citation, index) => {
+      writer.text(`${index + 1}. ${citation.title}`, { size: 10, bold: true });
+      writer.text(citation.url, { size: 9, color: "#2563eb", indent: 12 });
+      if (citation.snippet) writer.text(citation.snippet, { size: 9, color: "#64748b", indent: 12 });
+    });
+  }
+
+  return doc.output("arraybuffer");
+}
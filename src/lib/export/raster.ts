@@ -0,0 +1,34 @@
+import type { SvgPart } from "./svg";
+
+/**
+ * Rasterise SVG markup through an <img> and a canvas. `scale` keeps PNGs sharp on
+ * high-density screens and in printed PDFs.
+ */
+export async function svgToPng(part: SvgPart, scale = 2): Promise<{ blob: Blob; dataUrl: string }> {
+  const url = URL.createObjectURL(new Blob([part.markup], { type: "image/svg+xml;charset=utf-8" }));
+  try {
+    const image = new Image();
+    image.decoding = "async";
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("The chart could not be rasterised"));
+      image.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(part.width * scale));
+    canvas.height = Math.max(1, Math.round(part.height * scale));
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas rendering is not available");
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, part.width, part.height);
+
+    const dataUrl = canvas.toDataURL("image/png");
+    const blob = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(result => (result ? resolve(result) : reject(new Error("PNG encoding failed"))), "image/png")
+    );
+    return { blob, dataUrl };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,71 @@
+// Vector snapshots of what the dashboard renderer drew. Recharts and Mermaid both
+// render real <svg> elements, so exporting is a matter of finding and cloning them.
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const MIN_CHART_WIDTH = 120;
+const MIN_CHART_HEIGHT = 80;
+const PART_GAP = 24;
+const TITLE_HEIGHT = 48;
+
+export interface SvgPart {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Chart and diagram SVGs under `root`, in document order. Icons and SVGs nested
+ * inside another SVG are skipped.
+ */
+export function collectChartSvgs(root: HTMLElement): SVGSVGElement[] {
+  return Array.from(root.querySelectorAll("svg")).filter(svg => {
+    if (svg.parentElement?.closest("svg")) return false;
+    const { width, height } = svg.getBoundingClientRect();
+    return width >= MIN_CHART_WIDTH && height >= MIN_CHART_HEIGHT;
+  });
+}
+
+/**
+ * Standalone markup for one rendered SVG, sized to what is on screen.
+ */
+export function serializeSvg(svg: SVGSVGElement, background = "#0f172a"): SvgPart {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(Math.round(width)));
+  clone.setAttribute("height", String(Math.round(height)));
+  if (!clone.getAttribute("viewBox")) clone.setAttribute("viewBox", `0 0 ${Math.round(width)} ${Math.round(height)}`);
+  // Text inherits its font from the page, which a standalone file does not have
+  clone.style.fontFamily = getComputedStyle(svg).fontFamily || "system-ui, sans-serif";
+  clone.style.backgroundColor = background;
+
+  return { markup: new XMLSerializer().serializeToString(clone), width: Math.round(width), height: Math.round(height) };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Stack the parts vertically under a title in one SVG document.
+ */
+export function composeSvg(title: string, parts: SvgPart[], background = "#0f172a"): SvgPart {
+  const width = Math.max(...parts.map(part => part.width), 320);
+  let y = TITLE_HEIGHT;
+  const placed = parts.map(part => {
+    const markup = `<g transform="translate(0 ${y})">${part.markup.replace(/^<\?xml[^>]*>/, "")}</g>`;
+    y += part.height + PART_GAP;
+    return markup;
+  });
+  const height = y - PART_GAP + 16;
+
+  const markup = [
+    `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="${background}"/>`,
+    `<text x="16" y="32" fill="#e2e8f0" font-family="system-ui, sans-serif" font-size="20" font-weight="600">${escapeXml(title)}</text>`,
+    ...placed,
+    "</svg>",
+  ].join("");
+  return { markup, width, height };
+}
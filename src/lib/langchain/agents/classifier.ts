@@ -16,6 +16,18 @@ Visualization Types (choose ONE):
 - "comparison": Side-by-side analysis, before/after, pros/cons
 - "infographic": Visual summaries mixing charts, text, and graphics
 - "analytics_summary": KPI dashboards, business metrics, performance overviews
+- "area_chart": Cumulative or stacked volumes over time
+- "scatter_plot": Correlation between two numeric measures
+- "bubble_chart": Correlation between two measures with a third as bubble size
+- "radar_chart": Several attributes scored for one or more items
+- "treemap": Hierarchical or nested proportions
+- "heatmap": Intensity across two dimensions (e.g. hour by weekday)
+- "funnel_chart": Conversion through sequential stages
+- "gauge_chart": A single metric against a target or range
+- "waterfall_chart": How increases and decreases add up to a total
+- "sankey_diagram": Flows between sources and destinations
+- "candlestick_chart": Open/high/low/close prices over time
+- "histogram": Frequency distribution of a numeric measure
 
 Complexity Levels:
 - "simple": Single chart or basic visualization
@@ -62,6 +74,8 @@ function enhancedHeuristicFallback(query: string): ClassificationResult {
     table: /\b(list|table|data|details|records|entries|rows|columns|structured)\b/i,
     timeline: /\b(schedule|roadmap|chronology|history|sequence|events|milestones|phases)\b/i,
     comparison: /\b(compare|contrast|difference|similarity|versus|vs|pros|cons|advantages|disadvantages)\b/i,
+    funnel: /\b(funnel|conversion rate|drop-off|dropoff)\b/i,
+    scatter: /\b(correlation|correlate|scatter)\b/i,
     analytics: /\b(kpi|metrics|performance|dashboard|analytics|summary|overview|statistics)\b/i,
     infographic: /\b(infographic|visual|summary|overview|explanation|guide|process)\b/i
   };
@@ -70,7 +84,11 @@ function enhancedHeuristicFallback(query: string): ClassificationResult {
   let type: ClassificationResult["type"] = "text";
   let complexity: ClassificationResult["complexity"] = "simple";
   
-  if (patterns.analytics.test(normalized)) {
+  if (patterns.funnel.test(normalized)) {
+    type = "funnel_chart";
+  } else if (patterns.scatter.test(normalized)) {
+    type = "scatter_plot";
+  } else if (patterns.analytics.test(normalized)) {
     type = "analytics_summary";
     complexity = "dashboard";
   } else if (patterns.pieChart.test(normalized)) {
@@ -2,11 +2,19 @@
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import type { DashboardOutput } from "@/types";
+import { getReplayMode, withReplay } from "@/lib/replay/fixtures";
+
+const GEMINI_AGENT_MODEL = "gemini-2.5-flash";
 
 export class GeminiDashboardAgent {
-  private model: ChatGoogleGenerativeAI;
+  private model: ChatGoogleGenerativeAI | null = null;
 
   constructor() {
+    // Replay mode serves recorded responses, so no key is needed
+    if (getReplayMode() === "replay") {
+      return;
+    }
+
     const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
     
     if (!apiKey || apiKey === "your-gemini-api-key-here") {
@@ -14,12 +22,26 @@ export class GeminiDashboardAgent {
     }
 
     this.model = new ChatGoogleGenerativeAI({
-      model: "gemini-2.5-flash",
+      model: GEMINI_AGENT_MODEL,
       temperature: 0.1,
       apiKey: apiKey
     });
   }
 
+  /**
+   * Invoke the model and return its text content. `fixtureRequest` identifies the call for
+   * record/replay and must not contain volatile values like timestamps.
+   */
+  private async invokeModel(prompt: string, fixtureRequest: Record<string, unknown>): Promise<string> {
+    return withReplay("gemini-agent", { model: GEMINI_AGENT_MODEL, ...fixtureRequest }, async () => {
+      if (!this.model) {
+        throw new Error("Gemini model is not initialised");
+      }
+      const response = await this.model.invoke(prompt);
+      return response.content as string;
+    });
+  }
+
   async generateDashboard(query: string, userId: string): Promise<DashboardOutput> {
     console.log("[Gemini Agent] Processing query:", query);
 
@@ -49,11 +71,12 @@ export class GeminiDashboardAgent {
     `);
 
     try {
-      const response = await this.model.invoke(
-        await classificationPrompt.format({ query })
+      const content = await this.invokeModel(
+        await classificationPrompt.format({ query }),
+        { step: "classification", query }
       );
       
-      const result = JSON.parse(response.content as string);
+      const result = JSON.parse(content);
       return result;
     } catch (_error) {
       console.warn("[Gemini Agent] Classification failed, using fallback");
@@ -123,16 +146,15 @@ export class GeminiDashboardAgent {
     `);
 
     try {
-      const response = await this.model.invoke(
+      const content = await this.invokeModel(
         await dashboardPrompt.format({ 
           query, 
           type: classification.type,
           timestamp: new Date().toISOString()
-        })
+        }),
+        { step: "dashboard", query, type: classification.type }
       );
       
-      const content = response.content as string;
-      
       // Clean up the response - remove markdown if present
       const jsonContent = content.replace(/```json\n?|\n?```/g, '').trim();
       
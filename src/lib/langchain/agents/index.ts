@@ -5,14 +5,18 @@ export { executeLangChainAgent, LangChainMultiAgent } from './langchain-agent';
 export { classifierAgent, classifyWithConfidence } from './classifier';
 export { retrieverAgent } from './retriever';
 export { summarizerAgent } from './summarizer';
+export { refinerAgent } from './refiner';
 export { uiSchemaValidator, type ValidationResult } from './ui-schema-validator';
 export { 
   MultiAgentOrchestrator, 
   executeMultiAgentPipeline,
   executeMultiAgentPipelineWithMonitoring,
   AgentPhase,
-  type AgentExecutionState
+  type AgentExecutionState,
+  type OrchestratorEvent,
+  type OrchestratorOptions
 } from './orchestrator';
 
 // Re-export types for convenience
-export type { SummarizerParams } from './summarizer';
\ No newline at end of file
+export type { SummarizerParams } from './summarizer';
+export type { RefinerParams } from './refiner';
\ No newline at end of file
@@ -3,6 +3,7 @@ import { AgentExecutor, createOpenAIToolsAgent } from "langchain/agents";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { Tool } from "@langchain/core/tools";
 import type { DashboardOutput, ClassificationResult, RetrievalResult } from "@/types";
+import { getReplayMode } from "@/lib/replay/fixtures";
 
 // LangChain Tool Definitions
 class ClassifierTool extends Tool {
@@ -58,7 +59,7 @@ class RetrieverTool extends Tool {
   name = "retrieve_context";
   description = "Retrieves relevant context from user memory (Pinecone) or external sources";
   
-  constructor() {
+  constructor(private useMemory: boolean = true) {
     super();
   }
 
@@ -72,21 +73,28 @@ class RetrieverTool extends Tool {
       
       // Try user memory first if RAG is needed
       if (classification.requiresRAG && userId) {
-        const memories = await userMemoryManager.searchMemories(userId, query, 3, 0.7);
+        const memories = this.useMemory ? await userMemoryManager.searchMemories(userId, query, 3, 0.7) : [];
         context.chunks = memories.map(m => ({ 
           text: m.content, 
           source: `User Memory: ${m.context}`,
           relevance: m.similarity 
         }));
+
+        const documents = await userMemoryManager.searchDocuments(userId, query, 3);
+        if (documents.length > 0) {
+          const { documentsToRetrievalResult } = await import("./retriever");
+          const documentContext = documentsToRetrievalResult(documents);
+          context.chunks.push(...documentContext.chunks);
+          context.citations.push(...documentContext.citations);
+        }
       }
       
       // Add external context if needed
-      if (classification.requiresExternal || context.chunks.length === 0) {
-        context.chunks.push({
-          text: `External knowledge context for: ${query}. This would typically come from real-time APIs or web search.`,
-          source: "External Knowledge",
-          relevance: 0.8
-        });
+      if (classification.requiresExternal) {
+        const { retrieveExternalContext } = await import("@/lib/retrieval/connectors");
+        const external = await retrieveExternalContext(query);
+        context.chunks.push(...external.chunks);
+        context.citations.push(...external.citations);
       }
       
       return JSON.stringify(context);
@@ -140,6 +148,7 @@ Keep it concise and relevant.`;
           data: parsed.data || [],
           summary: parsed.summary || `Analysis results for ${query}`,
           sublinks: parsed.sublinks || [],
+          citations: context?.citations?.length ? context.citations : undefined,
           ...parsed
         });
       } catch {
@@ -238,16 +247,23 @@ export class LangChainMultiAgent {
   private agent?: AgentExecutor;
   private tools: Tool[];
 
-  constructor() {
+  constructor(options: { useMemory?: boolean } = {}) {
     this.tools = [
       new ClassifierTool(),
-      new RetrieverTool(), 
+      new RetrieverTool(options.useMemory), 
       new SummarizerTool(),
       new ValidatorTool()
     ];
   }
 
   async initialize() {
+    // The tool-calling agent talks to Gemini directly and can't be replayed; the direct
+    // tool chain goes through invokeAzureChat, which can
+    if (getReplayMode() !== "off") {
+      console.log("[LangChain] Replay mode active, using direct tool chain only");
+      return;
+    }
+
     // Check if Gemini API key is available (try both client and server env vars)
     const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY || process.env.GEMINI_API_KEY;
     
@@ -343,8 +359,12 @@ Work step by step and return the final validated dashboard JSON.`],
 }
 
 // Main export function
-export async function executeLangChainAgent(query: string, userId: string): Promise<DashboardOutput> {
-  const agent = new LangChainMultiAgent();
+export async function executeLangChainAgent(
+  query: string,
+  userId: string,
+  options: { useMemory?: boolean } = {}
+): Promise<DashboardOutput> {
+  const agent = new LangChainMultiAgent(options);
   await agent.initialize();
   return agent.process(query, userId);
 }
\ No newline at end of file
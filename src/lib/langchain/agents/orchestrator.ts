@@ -1,7 +1,8 @@
 import type { 
   ClassificationResult, 
   RetrievalResult, 
-  DashboardOutput
+  DashboardOutput,
+  DatasetQueryResult
 } from "@/types";
 import { classifierAgent } from "./classifier";
 import { retrieverAgent } from "./retriever";
@@ -96,6 +97,25 @@ export interface AgentExecutionState {
   };
 }
 
+// Events published while the pipeline runs (consumed by the SSE route)
+export type OrchestratorEvent =
+  | {
+      type: "phase";
+      phase: AgentPhase;
+      status: "started" | "completed" | "skipped" | "error";
+      durationMs?: number;
+    }
+  | {
+      type: "partial";
+      dashboard: Partial<DashboardOutput>;
+    };
+
+export interface OrchestratorOptions {
+  onEvent?: (event: OrchestratorEvent) => void;
+  datasetId?: string; // Answer from this uploaded dataset instead of generated numbers
+  sqlSourceId?: string; // Answer with a generated read-only query against this SQL source
+  useMemory?: boolean; // Search the user's conversation memories while retrieving (default true)
+}
 
 
 /**
@@ -104,8 +124,16 @@ export interface AgentExecutionState {
  */
 export class MultiAgentOrchestrator {
   private state: AgentExecutionState;
+  private onEvent?: (event: OrchestratorEvent) => void;
+  private datasetId?: string;
+  private sqlSourceId?: string;
+  private useMemory: boolean;
   
-  constructor(query: string, userId: string) {
+  constructor(query: string, userId: string, options: OrchestratorOptions = {}) {
+    this.onEvent = options.onEvent;
+    this.datasetId = options.datasetId;
+    this.sqlSourceId = options.sqlSourceId;
+    this.useMemory = options.useMemory ?? true;
     this.state = {
       phase: AgentPhase.CLASSIFICATION,
       query,
@@ -152,6 +180,22 @@ export class MultiAgentOrchestrator {
     }
   }
 
+  /**
+   * Publish an event to the listener, never letting a listener failure break the pipeline
+   */
+  private emit(event: OrchestratorEvent): void {
+    if (!this.onEvent) return;
+    try {
+      this.onEvent(event);
+    } catch (error) {
+      console.warn("[Orchestrator] Event listener failed:", error);
+    }
+  }
+
+  private emitPhaseEnd(phase: AgentPhase, status: "completed" | "skipped" | "error", phaseStart: number): void {
+    this.emit({ type: "phase", phase, status, durationMs: Date.now() - phaseStart });
+  }
+
   /**
    * Phase 1: Classification Agent
    * Determines visualization type and requirements
@@ -159,6 +203,7 @@ export class MultiAgentOrchestrator {
   private async runClassificationPhase(): Promise<void> {
     const phaseStart = Date.now();
     console.log("[Orchestrator] Phase 1: Classification");
+    this.emit({ type: "phase", phase: AgentPhase.CLASSIFICATION, status: "started" });
     
     try {
       this.state.classification = await classifierAgent(this.state.query);
@@ -172,10 +217,13 @@ export class MultiAgentOrchestrator {
       };
       
       console.log("[Orchestrator] Classification result:", this.state.classification);
+      this.emitPhaseEnd(AgentPhase.CLASSIFICATION, "completed", phaseStart);
+      this.emit({ type: "partial", dashboard: { type: this.state.classification.type } });
       this.state.phase = AgentPhase.RETRIEVAL;
       
     } catch (error) {
       console.error("[Orchestrator] Classification phase failed:", error);
+      this.emitPhaseEnd(AgentPhase.CLASSIFICATION, "error", phaseStart);
       throw new Error(`Classification failed: ${error}`);
     } finally {
       this.state.metadata.phaseTimings.classification = Date.now() - phaseStart;
@@ -189,16 +237,47 @@ export class MultiAgentOrchestrator {
   private async runRetrievalPhase(): Promise<void> {
     const phaseStart = Date.now();
     console.log("[Orchestrator] Phase 2: Retrieval");
+    this.emit({ type: "phase", phase: AgentPhase.RETRIEVAL, status: "started" });
     
     try {
       const shouldRetrieve = this.state.classification!.requiresRAG || 
                            this.state.classification!.requiresExternal;
       
-      if (shouldRetrieve) {
+      if (this.datasetId) {
+        this.state.retrievalResult = shouldRetrieve
+          ? await retrieverAgent(this.state.query, this.state.userId, this.state.classification!, { useMemory: this.useMemory })
+          : { chunks: [], citations: [] };
+        this.state.retrievalResult.data = await this.queryDataset(this.datasetId);
+
+        this.state.metadata.agentDecisions.retrieval = {
+          datasetId: this.datasetId,
+          datasetPlan: this.state.retrievalResult.data.plan,
+          datasetRows: this.state.retrievalResult.data.rows.length,
+          chunksRetrieved: this.state.retrievalResult.chunks.length,
+          retrievalSource: 'dataset'
+        };
+        this.emitPhaseEnd(AgentPhase.RETRIEVAL, "completed", phaseStart);
+      } else if (this.sqlSourceId) {
+        const { runSqlQuery } = await import("@/lib/sql");
+        this.state.retrievalResult = shouldRetrieve
+          ? await retrieverAgent(this.state.query, this.state.userId, this.state.classification!, { useMemory: this.useMemory })
+          : { chunks: [], citations: [] };
+        this.state.retrievalResult.sql = await runSqlQuery(this.sqlSourceId, this.state.query);
+
+        this.state.metadata.agentDecisions.retrieval = {
+          sqlSourceId: this.sqlSourceId,
+          sql: this.state.retrievalResult.sql.sql,
+          sqlRows: this.state.retrievalResult.sql.rowCount,
+          chunksRetrieved: this.state.retrievalResult.chunks.length,
+          retrievalSource: 'sql'
+        };
+        this.emitPhaseEnd(AgentPhase.RETRIEVAL, "completed", phaseStart);
+      } else if (shouldRetrieve) {
         this.state.retrievalResult = await retrieverAgent(
           this.state.query,
           this.state.userId,
-          this.state.classification!
+          this.state.classification!,
+          { useMemory: this.useMemory }
         );
         
         this.state.metadata.agentDecisions.retrieval = {
@@ -208,22 +287,39 @@ export class MultiAgentOrchestrator {
         };
         
         console.log("[Orchestrator] Retrieved", this.state.retrievalResult.chunks.length, "chunks");
+        this.emitPhaseEnd(AgentPhase.RETRIEVAL, "completed", phaseStart);
       } else {
         this.state.retrievalResult = { chunks: [], citations: [] };
         this.state.metadata.agentDecisions.retrieval = { skipped: true, reason: "No retrieval required" };
         console.log("[Orchestrator] Retrieval skipped - not required");
+        this.emitPhaseEnd(AgentPhase.RETRIEVAL, "skipped", phaseStart);
       }
       
       this.state.phase = AgentPhase.SUMMARIZATION;
       
     } catch (error) {
       console.error("[Orchestrator] Retrieval phase failed:", error);
+      this.emitPhaseEnd(AgentPhase.RETRIEVAL, "error", phaseStart);
       throw new Error(`Retrieval failed: ${error}`);
     } finally {
       this.state.metadata.phaseTimings.retrieval = Date.now() - phaseStart;
     }
   }
 
+  /**
+   * Aggregate the selected dataset for the query
+   */
+  private async queryDataset(datasetId: string): Promise<DatasetQueryResult> {
+    const { getDataset } = await import("@/lib/datasets/store");
+    const { runDatasetQuery } = await import("@/lib/datasets/query");
+
+    const dataset = await getDataset(this.state.userId, datasetId);
+    if (!dataset) {
+      throw new Error(`Dataset ${datasetId} not found`);
+    }
+    return runDatasetQuery(dataset, this.state.query);
+  }
+
   /**
    * Phase 3: Summarization Agent
    * Outputs structured JSON schema + sublinks
@@ -231,6 +327,7 @@ export class MultiAgentOrchestrator {
   private async runSummarizationPhase(): Promise<void> {
     const phaseStart = Date.now();
     console.log("[Orchestrator] Phase 3: Summarization");
+    this.emit({ type: "phase", phase: AgentPhase.SUMMARIZATION, status: "started" });
     
     try {
       this.state.dashboardOutput = await summarizerAgent({
@@ -247,10 +344,23 @@ export class MultiAgentOrchestrator {
       };
       
       console.log("[Orchestrator] Generated dashboard:", this.state.dashboardOutput.type);
+      this.emitPhaseEnd(AgentPhase.SUMMARIZATION, "completed", phaseStart);
+
+      // Title and summary are ready before validation, let the client render them early
+      this.emit({
+        type: "partial",
+        dashboard: {
+          type: this.state.dashboardOutput.type,
+          title: this.state.dashboardOutput.title,
+          summary: this.state.dashboardOutput.summary,
+          citations: this.state.dashboardOutput.citations,
+        },
+      });
       this.state.phase = AgentPhase.VALIDATION;
       
     } catch (error) {
       console.error("[Orchestrator] Summarization phase failed:", error);
+      this.emitPhaseEnd(AgentPhase.SUMMARIZATION, "error", phaseStart);
       throw new Error(`Summarization failed: ${error}`);
     } finally {
       this.state.metadata.phaseTimings.summarization = Date.now() - phaseStart;
@@ -264,6 +374,7 @@ export class MultiAgentOrchestrator {
   private async runValidationPhase(): Promise<void> {
     const phaseStart = Date.now();
     console.log("[Orchestrator] Phase 4: Validation");
+    this.emit({ type: "phase", phase: AgentPhase.VALIDATION, status: "started" });
     
     try {
       this.state.validationResult = await validateDashboard(
@@ -289,6 +400,7 @@ export class MultiAgentOrchestrator {
       };
       
       console.log("[Orchestrator] Validation completed");
+      this.emitPhaseEnd(AgentPhase.VALIDATION, "completed", phaseStart);
       
     } catch (error) {
       console.error("[Orchestrator] Validation phase failed:", error);
@@ -301,6 +413,7 @@ export class MultiAgentOrchestrator {
         warnings: [],
         suggestions: []
       };
+      this.emitPhaseEnd(AgentPhase.VALIDATION, "error", phaseStart);
     } finally {
       this.state.metadata.phaseTimings.validation = Date.now() - phaseStart;
     }
@@ -338,9 +451,10 @@ export class MultiAgentOrchestrator {
  */
 export async function executeMultiAgentPipeline(
   query: string, 
-  userId: string
+  userId: string,
+  options: OrchestratorOptions = {}
 ): Promise<DashboardOutput> {
-  const orchestrator = new MultiAgentOrchestrator(query, userId);
+  const orchestrator = new MultiAgentOrchestrator(query, userId, options);
   return await orchestrator.execute();
 }
 
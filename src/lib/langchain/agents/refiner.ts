@@ -0,0 +1,91 @@
+import { dashboardSchema, describeDataShape, visualizationTypes } from "@/lib/schemas/dashboard";
+import { applyRefinementRules } from "@/lib/charts/refine";
+import type { DashboardOutput } from "@/types";
+import { invokeAzureChat } from "@/lib/azure/model-router";
+
+export type RefinerParams = {
+  dashboard: DashboardOutput; // what the user is looking at
+  instruction: string; // the follow-up, e.g. "only top 5"
+};
+
+// Keeps the prompt bounded for dashboards with thousands of rows
+const MAX_PROMPT_DASHBOARD_CHARS = 20000;
+
+function describeSource(dashboard: DashboardOutput): string {
+  if (!dashboard.provenance) {
+    return "You may add data points the user asks for (e.g. another year) from your own knowledge, and say so in the summary.";
+  }
+  return "The data comes from the user's own data source. Never invent or change values: only filter, sort, reshape or restyle the existing data points.";
+}
+
+/**
+ * Refiner Agent: applies a follow-up instruction to an existing dashboard and
+ * returns the edited version. Simple edits (chart type, top N, percentages,
+ * sorting) are applied directly; anything else asks the model for the fields that
+ * change.
+ */
+export async function refinerAgent({ dashboard, instruction }: RefinerParams): Promise<DashboardOutput> {
+  console.log("[Refiner] Refining dashboard:", { title: dashboard.title, instruction });
+
+  const ruled = applyRefinementRules(dashboard, instruction);
+  if (ruled) {
+    const validated = dashboardSchema.safeParse(ruled);
+    if (validated.success) {
+      console.log("[Refiner] Applied without a model");
+      return validated.data;
+    }
+  }
+
+  const current = JSON.stringify(dashboard);
+  if (current.length > MAX_PROMPT_DASHBOARD_CHARS) {
+    throw new Error("This dashboard is too large to refine; ask a new question instead");
+  }
+
+  const response = await invokeAzureChat(
+    [
+      {
+        role: "system",
+        content: `You edit an existing dashboard JSON according to the user's instruction.
+
+Return ONLY a JSON object with the top-level fields that change, for example:
+{"type": "line_chart"} or {"title": "Top 5 Cloud Providers", "data": [...]}
+
+RULES:
+1. Keep everything the instruction does not mention as it is
+2. When you change "type" or "data", every data point MUST have the shape of the dashboard's type
+3. ${describeSource(dashboard)}
+4. Update "summary" when the edit changes what the dashboard says
+5. Return ONLY valid JSON, no markdown or explanation
+
+TYPES AND DATA SHAPES:
+${visualizationTypes.map(type => `- "${type}": ${describeDataShape(type)}`).join("\n")}`,
+      },
+      {
+        role: "user",
+        content: `Current dashboard:
+${current}
+
+Instruction: "${instruction}"
+
+Return the changed fields as JSON:`,
+      },
+    ],
+    {
+      intent: "generation",
+      responseFormat: "json",
+      temperature: 0.2,
+    }
+  );
+
+  const raw = response.choices[0]?.message?.content ?? "";
+  const patch = JSON.parse(raw);
+  if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+    throw new Error("The model did not return a dashboard edit");
+  }
+
+  // The edit may not rewrite where the data came from or which question it answers
+  const changes = { ...patch } as Partial<DashboardOutput>;
+  delete changes.provenance;
+  delete changes.query;
+  return dashboardSchema.parse({ ...dashboard, ...changes });
+}
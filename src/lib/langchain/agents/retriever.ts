@@ -1,5 +1,10 @@
 import type { ClassificationResult, RetrievalResult } from "@/types";
-import { userMemoryManager, type MemorySearchResult } from "@/lib/memory/user-memory";
+import {
+  userMemoryManager,
+  type DocumentSearchResult,
+  type MemorySearchResult,
+} from "@/lib/memory/user-memory";
+import { retrieveExternalContext } from "@/lib/retrieval/connectors";
 
 /**
  * Enhanced Retriever Agent for Multi-Agent Architecture
@@ -8,7 +13,8 @@ import { userMemoryManager, type MemorySearchResult } from "@/lib/memory/user-me
 export async function retrieverAgent(
   query: string,
   userId: string,
-  classification: ClassificationResult
+  classification: ClassificationResult,
+  options: { useMemory?: boolean } = {} // false skips conversation memories; uploaded documents are still searched
 ): Promise<RetrievalResult> {
   console.log("[Retriever] Processing query:", query);
   console.log("[Retriever] Classification:", {
@@ -28,7 +34,9 @@ export async function retrieverAgent(
       console.log("[Retriever] Attempting user memory retrieval from Pinecone");
       
       try {
-        const memoryResults = await userMemoryManager.searchMemories(userId, query, 5, 0.7);
+        const memoryResults = options.useMemory === false
+          ? []
+          : await userMemoryManager.searchMemories(userId, query, 5, 0.7);
 
         if (memoryResults.length > 0) {
           console.log("[Retriever] Found", memoryResults.length, "relevant memory chunks");
@@ -54,17 +62,34 @@ export async function retrieverAgent(
         console.warn("[Retriever] User memory retrieval failed:", error);
         // Continue with external retrieval as fallback
       }
+
+      // Uploaded documents live in their own namespace and are searched alongside memories
+      const documentResults = await userMemoryManager.searchDocuments(userId, query, 5);
+      if (documentResults.length > 0) {
+        console.log("[Retriever] Found", documentResults.length, "relevant document chunks");
+        const documentContext = documentsToRetrievalResult(documentResults);
+        result.chunks.push(...documentContext.chunks);
+        result.citations.push(...documentContext.citations);
+      }
     }
 
     // Strategy 2: External Knowledge Retrieval
     if (classification.requiresExternal || (classification.requiresRAG && result.chunks.length === 0)) {
       console.log("[Retriever] Attempting external knowledge retrieval");
       
-      // Simulate external knowledge retrieval based on query type
-      const externalChunks = await simulateExternalRetrieval(query, classification);
-      
-      result.chunks.push(...externalChunks.chunks);
-      result.citations.push(...externalChunks.citations);
+      const external = await retrieveExternalContext(query);
+
+      if (external.chunks.length > 0) {
+        result.chunks.push(...external.chunks);
+        result.citations.push(...external.citations);
+      } else {
+        console.log("[Retriever] No external sources returned results");
+        result.chunks.push({
+          text: `No external sources were available for: ${query}. Proceed with general knowledge and avoid citing specific figures.`,
+          source: "System",
+          relevance: 0.3
+        });
+      }
     }
 
     // Strategy 3: Context Enhancement for specific visualization types
@@ -95,97 +120,35 @@ export async function retrieverAgent(
 }
 
 /**
- * Simulate external knowledge retrieval for topics requiring external data
+ * Convert uploaded document matches into chunks and file/page citations
  */
-async function simulateExternalRetrieval(
-  query: string, 
-  classification: ClassificationResult
-): Promise<RetrievalResult> {
-  const queryLower = query.toLowerCase();
-  
-  // Simulate different external sources based on query content
-  if (queryLower.includes('market') || queryLower.includes('stock') || queryLower.includes('financial')) {
-    return {
-      chunks: [
-        {
-          text: "Current market analysis shows significant volatility in technology sectors with emerging opportunities in AI and renewable energy markets.",
-          source: "Financial Data Provider",
-          relevance: 0.9
-        },
-        {
-          text: "Global economic indicators suggest continued growth with careful monitoring of inflation rates and employment statistics.",
-          source: "Economic Research Institute",
-          relevance: 0.8
-        }
-      ],
-      citations: [
-        {
-          title: "Market Analysis Report",
-          url: "https://example-financial-data.com/market-report",
-          snippet: "Comprehensive analysis of current market conditions..."
-        }
-      ]
-    };
-  }
-  
-  if (queryLower.includes('climate') || queryLower.includes('environment') || queryLower.includes('sustainability')) {
-    return {
-      chunks: [
-        {
-          text: "Climate change data indicates rising global temperatures with significant impacts on weather patterns and ecosystem stability.",
-          source: "Environmental Research Center",
-          relevance: 0.95
-        },
-        {
-          text: "Renewable energy adoption rates have increased by 15% globally, with solar and wind leading the transition.",
-          source: "Energy Statistics Bureau",
-          relevance: 0.88
-        }
-      ],
-      citations: [
-        {
-          title: "Global Climate Report 2024",
-          url: "https://example-climate-org.com/report-2024",
-          snippet: "Annual assessment of global climate conditions and trends..."
-        }
-      ]
-    };
-  }
-  
-  if (queryLower.includes('technology') || queryLower.includes('ai') || queryLower.includes('innovation')) {
-    return {
-      chunks: [
-        {
-          text: "Artificial Intelligence development continues to accelerate with major breakthroughs in natural language processing and computer vision.",
-          source: "Technology Research Institute",
-          relevance: 0.92
-        },
-        {
-          text: "Innovation in quantum computing and edge AI is creating new possibilities for distributed computing architectures.",
-          source: "Computing Innovation Lab",
-          relevance: 0.85
-        }
-      ],
-      citations: [
-        {
-          title: "AI Innovation Trends 2024",
-          url: "https://example-tech-research.com/ai-trends",
-          snippet: "Analysis of emerging AI technologies and their applications..."
-        }
-      ]
-    };
+export function documentsToRetrievalResult(documents: DocumentSearchResult[]): RetrievalResult {
+  const citations: RetrievalResult["citations"] = [];
+  const cited = new Set<string>();
+
+  for (const document of documents) {
+    const key = `${document.documentId}:${document.page ?? ""}`;
+    if (cited.has(key)) continue;
+    cited.add(key);
+
+    const pageLabel = document.page ? `, page ${document.page}` : "";
+    const pageParam = document.page ? `&page=${document.page}` : "";
+    citations.push({
+      title: `${document.fileName}${pageLabel}`,
+      url: `/documents?documentId=${encodeURIComponent(document.documentId)}${pageParam}`,
+      snippet: document.content.substring(0, 200) + "...",
+      fileName: document.fileName,
+      page: document.page,
+    });
   }
-  
-  // Default general knowledge retrieval
+
   return {
-    chunks: [
-      {
-        text: `General knowledge context for ${query}: This topic encompasses multiple aspects that can be analyzed from various perspectives including historical context, current trends, and future implications.`,
-        source: "Knowledge Base",
-        relevance: 0.6
-      }
-    ],
-    citations: []
+    chunks: documents.map(document => ({
+      text: document.content,
+      source: `Document: ${document.fileName}${document.page ? ` (p. ${document.page})` : ""}`,
+      relevance: document.similarity,
+    })),
+    citations,
   };
 }
 
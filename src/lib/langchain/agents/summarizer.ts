@@ -1,11 +1,16 @@
-import { dashboardSchema } from "@/lib/schemas/dashboard";
+import { z } from "zod";
+import { cleanCitations, dashboardKpiSchema, dashboardSchema, describeDataShape, visualizationTypes } from "@/lib/schemas/dashboard";
 import type {
   ClassificationResult,
   DashboardOutput,
   RetrievalResult,
+  VisualizationType,
 } from "@/types";
 import { invokeAzureChat } from "@/lib/azure/model-router";
 import { queryMultipleAIServices } from "@/lib/ai/multi-service";
+import { buildDatasetDashboard } from "@/lib/datasets/dashboard";
+import { buildSqlDashboard } from "@/lib/sql/dashboard";
+import { composeDashboardLayout, MAX_DASHBOARD_KPIS, MAX_DASHBOARD_PANELS, type PanelSize } from "@/lib/charts/layout";
 
 export type SummarizerParams = {
   query: string;
@@ -72,16 +77,44 @@ function buildComparisonNarrative(query: string): DashboardOutput {
   };
 }
 
+// Placeholder points in the shape dashboardSchema expects for each chart type
+function placeholderData(type: ClassificationResult["type"]): DashboardOutput["data"] {
+  switch (type) {
+    case "scatter_plot":
+    case "bubble_chart":
+      return [
+        { label: "Point A", x: 10, y: 45, size: 8 },
+        { label: "Point B", x: 20, y: 30, size: 5 },
+        { label: "Point C", x: 30, y: 25, size: 12 },
+        { label: "Point D", x: 40, y: 15, size: 6 },
+      ];
+    case "candlestick_chart":
+      return [
+        { label: "Day 1", open: 40, high: 46, low: 38, close: 45 },
+        { label: "Day 2", open: 45, high: 47, low: 29, close: 30 },
+        { label: "Day 3", open: 30, high: 33, low: 24, close: 25 },
+      ];
+    case "sankey_diagram":
+      return [
+        { source: "Category A", target: "Category B", value: 45 },
+        { source: "Category A", target: "Category C", value: 30 },
+        { source: "Category B", target: "Category D", value: 25 },
+      ];
+    default:
+      return [
+        { label: "Category A", value: 45 },
+        { label: "Category B", value: 30 },
+        { label: "Category C", value: 25 },
+        { label: "Category D", value: 15 },
+      ];
+  }
+}
+
 function buildChartFallback(classification: ClassificationResult, query: string): DashboardOutput {
   return {
     type: classification.type,
     title: truncateTitle(`Preview for: ${query}`),
-    data: [
-      { label: "Category A", value: 45 },
-      { label: "Category B", value: 30 },
-      { label: "Category C", value: 25 },
-      { label: "Category D", value: 15 },
-    ],
+    data: placeholderData(classification.type),
     summary:
       "This is a placeholder visualization. Connect Azure OpenAI and Pinecone to see live results tailored to your data.",
     sublinks: [
@@ -155,6 +188,126 @@ function fallbackDashboard(classification: ClassificationResult, query: string):
   return buildChartFallback(classification, query);
 }
 
+// Wiki content types cannot share a board with charts
+const BOARD_PANEL_TYPES = visualizationTypes.filter(
+  (type): type is VisualizationType => !["text", "timeline", "comparison", "infographic", "analytics_summary"].includes(type)
+);
+
+const PANEL_SIZES: PanelSize[] = ["small", "medium", "large"];
+
+type BoardDraft = {
+  title?: unknown;
+  summary?: unknown;
+  kpis?: unknown;
+  panels?: unknown;
+};
+
+/**
+ * Turn a board draft into a multi-panel dashboard. Panels that fail the schema are
+ * dropped; returns null when fewer than two survive, so a single chart is used instead.
+ */
+export function assembleBoard(query: string, draft: BoardDraft, citations?: DashboardOutput["citations"]): DashboardOutput | null {
+  const charts: DashboardOutput[] = [];
+  const sizes: Array<PanelSize | undefined> = [];
+
+  const panels = Array.isArray(draft.panels) ? draft.panels : [];
+  for (const panel of panels.slice(0, MAX_DASHBOARD_PANELS)) {
+    if (!panel || typeof panel !== "object") continue;
+    const { size, ...chart } = panel as Record<string, unknown>;
+    // Panels are single charts, never nested boards
+    delete chart.charts;
+    delete chart.layout;
+    if (typeof chart.title === "string") chart.title = truncateTitle(chart.title);
+
+    const parsed = dashboardSchema.safeParse(cleanCitations(chart));
+    if (!parsed.success || !BOARD_PANEL_TYPES.includes(parsed.data.type)) {
+      console.warn("[Summarizer] Dropping invalid dashboard panel:", parsed.error?.issues[0]?.message ?? chart.type);
+      continue;
+    }
+    charts.push(parsed.data);
+    sizes.push(PANEL_SIZES.find(candidate => candidate === size));
+  }
+
+  if (charts.length < 2) {
+    return null;
+  }
+
+  // Only the model's KPIs are shown: totals of arbitrary panel values (averages,
+  // percentages, prices) would not mean anything
+  const kpis = z.array(dashboardKpiSchema).safeParse(Array.isArray(draft.kpis) ? draft.kpis.slice(0, MAX_DASHBOARD_KPIS) : []);
+  const tiles = kpis.success ? kpis.data : [];
+  const title = typeof draft.title === "string" && draft.title.trim().length >= 5 ? draft.title : `Dashboard: ${query}`;
+
+  return dashboardSchema.parse({
+    type: "analytics_summary",
+    title: truncateTitle(title),
+    summary: typeof draft.summary === "string" ? draft.summary : undefined,
+    // Without KPIs the board's own data lists its panels
+    data:
+      tiles.length > 0
+        ? tiles.map(({ value, ...kpi }) => (typeof value === "number" ? { ...kpi, value } : { ...kpi, display: value }))
+        : charts.map(chart => ({ label: chart.title })),
+    charts,
+    layout: composeDashboardLayout(charts, { kpis: tiles, sizes }),
+    citations,
+  });
+}
+
+/**
+ * Multi-panel boards for "dashboard" complexity queries: a KPI row plus
+ * several charts laid out on the grid. Model and parse errors propagate.
+ */
+async function generateBoard(
+  query: string,
+  classification: ClassificationResult,
+  context: RetrievalResult | null
+): Promise<DashboardOutput | null> {
+  const response = await invokeAzureChat(
+    [
+      {
+        role: "system",
+        content: `You are a data visualization expert. Design a multi-panel dashboard as JSON.
+
+REQUIRED SCHEMA:
+{
+  "title": "string (5-120 chars)",
+  "summary": "Brief explanation",
+  "kpis": [{"label": "Revenue", "value": 1200000, "change": 12.5, "unit": "$"}] (up to ${MAX_DASHBOARD_KPIS}),
+  "panels": [
+    {"type": "line_chart", "title": "string", "size": "small" | "medium" | "large", "data": [...], "config": {} (optional)}
+  ]
+}
+
+PANEL TYPES AND DATA SHAPES:
+${BOARD_PANEL_TYPES.map(type => `- "${type}": ${describeDataShape(type)}`).join("\n")}
+
+CRITICAL RULES:
+1. Return 3-${MAX_DASHBOARD_PANELS} panels that each answer a different part of the question
+2. Every panel needs at least 3 data points in its type's shape
+3. Use "large" for trends with many points or tables, "small" for pies and gauges
+4. Return ONLY valid JSON, no markdown or explanation`,
+      },
+      {
+        role: "user",
+        content: `Query: "${query}"
+Primary visualization: ${classification.type}
+Context: ${buildContextString(context)}
+
+Return ONLY the JSON:`,
+      },
+    ],
+    {
+      intent: "summarization",
+      responseFormat: "json",
+      temperature: 0.2,
+    }
+  );
+
+  const raw = response.choices[0]?.message?.content ?? "";
+  const citations = context?.citations.length ? context.citations : undefined;
+  return assembleBoard(query, JSON.parse(raw) as BoardDraft, citations);
+}
+
 // Enhanced wiki content generation using multiple AI services
 async function generateWikiContent(query: string): Promise<DashboardOutput> {
   try {
@@ -304,6 +457,14 @@ export async function summarizerAgent({
   context,
   classification,
 }: SummarizerParams): Promise<DashboardOutput> {
+  // Dataset and SQL answers are computed, never generated: the LLM must not invent the numbers
+  if (context?.data) {
+    return buildDatasetDashboard(query, classification, context.data);
+  }
+  if (context?.sql) {
+    return buildSqlDashboard(query, classification, context.sql);
+  }
+
   const contextString = buildContextString(context);
 
   // For text-based content types, use multi-service wiki generation
@@ -318,13 +479,25 @@ export async function summarizerAgent({
     return await generateWikiContent(query);
   }
 
+  if (classification.complexity === "dashboard") {
+    try {
+      const board = await generateBoard(query, classification, context);
+      if (board) {
+        return board;
+      }
+    } catch (error) {
+      // A failed board is answered with a single chart, never with sample panels
+      console.error("[Summarizer] Dashboard board failed, falling back to a single chart", error);
+    }
+  }
+
   // For chart types, use the existing chart generation logic
   try {
     const systemPrompt = `You are a data visualization expert. Convert queries into structured dashboard JSON.
 
 REQUIRED SCHEMA:
 {
-  "type": "pie_chart" | "bar_chart" | "line_chart" | "table" | "text" | "timeline" | "comparison" | "infographic",
+  "type": ${visualizationTypes.map(type => `"${type}"`).join(" | ")},
   "title": "string (5-120 chars)",
   "data": [
     {"label": "Item 1", "value": 100},
@@ -339,7 +512,7 @@ CRITICAL RULES:
 1. "data" MUST be an ARRAY of objects, NOT a single object
 2. "type" MUST match one of the exact enum values above
 3. "title" is REQUIRED and must be 5-120 characters
-4. Each data item should have at least "label" and "value" keys
+4. Each data item should have at least "label" and "value" keys, unless the type needs another shape
 5. Return ONLY valid JSON, no markdown or explanation`;
 
     const response = await invokeAzureChat(
@@ -357,7 +530,7 @@ Context: ${contextString}
 Generate dashboard JSON with:
 - type: "${classification.type}" (use this exact value)
 - title: descriptive title about "${query}" (MAX 120 characters)
-- data: ARRAY of at least 3-5 data objects with label and value
+- data: ARRAY of at least 3-5 data objects shaped like ${describeDataShape(classification.type)}
 - summary: brief explanation (optional)
 
 Example for pie_chart:
@@ -389,8 +562,13 @@ Return ONLY the JSON:`,
     if (parsed.title && typeof parsed.title === 'string') {
       parsed.title = truncateTitle(parsed.title);
     }
+
+    // Cite the external sources the data was grounded on
+    if (!parsed.citations && context?.citations.length) {
+      parsed.citations = context.citations;
+    }
     
-    return dashboardSchema.parse(parsed);
+    return dashboardSchema.parse(cleanCitations(parsed));
   } catch (error) {
     console.error("[Summarizer] Falling back to offline dashboard", error);
     return dashboardSchema.parse(fallbackDashboard(classification, query));
@@ -1,12 +1,8 @@
 import { z } from "zod";
+import { dashboardSchema, isCitationUrl, visualizationTypes } from "@/lib/schemas/dashboard";
 import type { 
   DashboardOutput, 
-  ClassificationResult, 
-  VisualizationType,
-  DashboardDataPoint,
-  DashboardConfig,
-  DashboardSublink,
-  DashboardCitation
+  ClassificationResult
 } from "@/types";
 
 export interface ValidationResult {
@@ -17,82 +13,6 @@ export interface ValidationResult {
   correctedOutput?: DashboardOutput;
 }
 
-// Schema definitions for validation
-const dashboardDataPointSchema = z.object({
-  label: z.string().optional(),
-  value: z.number().optional(),
-  category: z.string().optional(),
-}).catchall(z.unknown());
-
-const dashboardConfigSchema = z.object({
-  xAxis: z.string().optional(),
-  yAxis: z.string().optional(),
-  colors: z.array(z.string()).optional(),
-  legend: z.boolean().optional(),
-  animation: z.boolean().optional(),
-  responsive: z.boolean().optional(),
-  gridLines: z.boolean().optional(),
-  dataLabels: z.boolean().optional(),
-  zoom: z.boolean().optional(),
-  brush: z.boolean().optional(),
-  tooltip: z.object({
-    enabled: z.boolean(),
-    format: z.string().optional(),
-    backgroundColor: z.string().optional(),
-  }).optional(),
-  chartSpecific: z.object({
-    polarAngleAxis: z.string().optional(),
-    polarRadiusAxis: z.string().optional(),
-    intensity: z.string().optional(),
-    size: z.string().optional(),
-    min: z.number().optional(),
-    max: z.number().optional(),
-    gaugeTarget: z.number().optional(),
-    hierarchy: z.array(z.string()).optional(),
-    sankeySource: z.string().optional(),
-    sankeyTarget: z.string().optional(),
-    sankeyValue: z.string().optional(),
-  }).optional(),
-}).catchall(z.unknown());
-
-const dashboardSublinkSchema = z.object({
-  label: z.string(),
-  route: z.string(),
-  context: z.record(z.unknown()),
-  category: z.string().optional(),
-  priority: z.number().optional(),
-  analytics: z.object({
-    clickable: z.boolean(),
-    trackingId: z.string().optional(),
-  }).optional(),
-});
-
-const dashboardCitationSchema = z.object({
-  title: z.string(),
-  url: z.string().url(),
-  snippet: z.string().optional(),
-});
-
-const dashboardOutputSchema: z.ZodType<DashboardOutput> = z.lazy(() => z.object({
-  type: z.enum([
-    "pie_chart", "bar_chart", "line_chart", "area_chart", "scatter_plot",
-    "radar_chart", "treemap", "heatmap", "funnel_chart", "gauge_chart",
-    "waterfall_chart", "sankey_diagram", "bubble_chart", "candlestick_chart",
-    "histogram", "table", "text", "timeline", "comparison", "infographic",
-    "analytics_summary"
-  ]),
-  title: z.string().min(1),
-  data: z.array(dashboardDataPointSchema),
-  config: dashboardConfigSchema.optional(),
-  sublinks: z.array(dashboardSublinkSchema).optional(),
-  summary: z.string().optional(),
-  citations: z.array(dashboardCitationSchema).optional(),
-  imageUrl: z.string().optional(),
-  imagePrompt: z.string().optional(),
-  mermaidDiagrams: z.array(z.string()).optional(),
-  charts: z.array(dashboardOutputSchema).optional(),
-}));
-
 /**
  * UI Schema Validator Agent
  * Ensures front-end consistency and validates dashboard output structure
@@ -109,7 +29,7 @@ export async function uiSchemaValidator(
   
   // 1. Schema validation
   try {
-    dashboardOutputSchema.parse(dashboardOutput);
+    dashboardSchema.parse(dashboardOutput);
   } catch (schemaError) {
     if (schemaError instanceof z.ZodError) {
       schemaError.errors.forEach(err => {
@@ -182,20 +102,10 @@ function validateDataStructureForType(
   const { type, data } = dashboard;
   
   switch (type) {
+    // Numeric fields each chart type needs are enforced by dashboardSchema
     case "pie_chart":
-      if (data.some(d => typeof d.value !== 'number')) {
-        errors.push("Pie chart requires numeric 'value' field in all data points");
-      }
-      if (data.some(d => !d.label)) {
-        errors.push("Pie chart requires 'label' field in all data points");
-      }
-      break;
-      
     case "bar_chart":
     case "line_chart":
-      if (data.some(d => typeof d.value !== 'number')) {
-        errors.push(`${type} requires numeric 'value' field in all data points`);
-      }
       if (data.some(d => !d.label && !d.category)) {
         warnings.push(`${type} should have 'label' or 'category' field for x-axis`);
       }
@@ -263,10 +173,8 @@ function validateConfiguration(
   
   // Type-specific config validation
   if (type === "gauge_chart" && config.chartSpecific) {
+    // min < max is enforced by dashboardSchema
     const { min, max, gaugeTarget } = config.chartSpecific;
-    if (typeof min === 'number' && typeof max === 'number' && min >= max) {
-      errors.push("Gauge chart: min value must be less than max value");
-    }
     if (typeof gaugeTarget === 'number' && typeof min === 'number' && typeof max === 'number') {
       if (gaugeTarget < min || gaugeTarget > max) {
         warnings.push("Gauge target value is outside min/max range");
@@ -333,9 +241,7 @@ function validateCitations(
       errors.push(`Citation ${index + 1}: Title is required`);
     }
     
-    try {
-      new URL(citation.url);
-    } catch {
+    if (!isCitationUrl(citation.url)) {
       errors.push(`Citation ${index + 1}: Invalid URL format`);
     }
     
@@ -391,13 +297,8 @@ function validateFrontendCompatibility(
   warnings: string[],
   suggestions: string[]
 ): void {
-  // Check for unsupported visualization types in current frontend
-  const supportedTypes = [
-    "pie_chart", "bar_chart", "line_chart", "table", "text", 
-    "timeline", "comparison", "infographic", "analytics_summary"
-  ];
-  
-  if (!supportedTypes.includes(dashboard.type)) {
+  // Check for visualization types the current frontend cannot draw
+  if (!visualizationTypes.includes(dashboard.type)) {
     errors.push(`Visualization type "${dashboard.type}" is not supported by current frontend`);
   }
   
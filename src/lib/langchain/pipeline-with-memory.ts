@@ -1,155 +1,50 @@
-import { dashboardSchema } from "@/lib/schemas/dashboard";
-import { logQuery } from "@/lib/appwrite/database";
-import { userMemoryManager, type MemorySearchResult } from "@/lib/memory/user-memory";
+import { userMemoryManager } from "@/lib/memory/user-memory";
+import { getUserProfile, type UserProfile } from "@/lib/appwrite/database";
+import { runPipeline, type PipelineRunOptions } from "@/lib/pipeline";
 import type { DashboardOutput } from "@/types";
+import type { OrchestratorEvent } from "./agents/orchestrator";
 
+export type GenerationStreamEvent =
+  | OrchestratorEvent
+  | { type: "complete"; dashboard: DashboardOutput }
+  | { type: "error"; message: string };
+
+/**
+ * The run options once the user's memory settings are applied: `enableMemory`
+ * decides whether memory is used, and their importance threshold applies unless
+ * the caller set one.
+ */
+export function applyMemorySettings(
+  options: PipelineRunOptions,
+  settings: UserProfile["memorySettings"] | undefined
+): PipelineRunOptions {
+  if (!settings || options.useMemory === false) return options;
+  return {
+    ...options,
+    useMemory: settings.enableMemory,
+    importanceThreshold: options.importanceThreshold ?? settings.importanceThreshold,
+  };
+}
+
+/**
+ * Generate a dashboard through the shared pipeline. Unless `useMemory` is false (and
+ * when memory is configured), near-duplicate questions are answered from memory, the
+ * user's context is added to the query and the conversation is stored afterwards.
+ * The user's memory settings apply: `enableMemory: false` turns all of that off,
+ * and conversations below their importance threshold are not stored.
+ */
 export async function processQueryWithMemory(
   query: string, 
-  userId: string
+  userId: string,
+  options: PipelineRunOptions = {}
 ): Promise<DashboardOutput> {
-  
-  // Check if memory system is available
-  if (!userMemoryManager.isMemoryEnabled()) {
-    console.log("[Pipeline] Memory system disabled, using LangChain agent without memory");
-    const { executeLangChainAgent } = await import("./agents/langchain-agent");
-    return await executeLangChainAgent(query, userId);
-  }
-  
-  let userContext = "";
-  let similarMemories: MemorySearchResult[] = [];
-  
-  try {
-    // Build user context from memory
-    userContext = await userMemoryManager.buildUserContext(userId, query);
-    
-    // Search for similar queries in user's memory
-    similarMemories = await userMemoryManager.searchMemories(userId, query, 3, 0.75);
-  } catch (error) {
-    console.error("[Pipeline] Memory operations failed, continuing without memory:", error);
-  }
-  
-  // Check if we can answer from memory first
-  if (similarMemories.length > 0) {
-    const highSimilarityMemory = similarMemories.find(memory => memory.similarity > 0.9);
-    
-    if (highSimilarityMemory) {
-      console.log(`[Pipeline] Found high similarity memory for user ${userId}: ${highSimilarityMemory.similarity}`);
-      
-      // Return a direct answer from memory instead of generating a dashboard
-      const memoryAnswer = `Based on our previous conversation: ${highSimilarityMemory.context}`;
-      
-      const memoryResponse = {
-        type: "text" as const,
-        title: "From Memory",
-        summary: memoryAnswer,
-        isFromMemory: true, // Flag to indicate this is from memory
-        data: [],
-        config: {}
-      };
-      
-      // Store the fact that we used memory for this query
-      await userMemoryManager.processConversation(
-        userId,
-        query,
-        memoryAnswer,
-        undefined,
-        `memory_retrieval: ${highSimilarityMemory.context}`
-      );
-      
-      return memoryResponse;
-    }
-  }
-  
-  // Enhanced query with user context
-  const enhancedQuery = userContext 
-    ? `${query}\n\n## User Context:\n${userContext}` 
-    : query;
-    
-    console.log(`[Pipeline] Processing query with LangChain multi-agent system for user ${userId}`);
-  
-  try {
-    // Use the new LangChain-based multi-agent system
-    const { executeLangChainAgent } = await import("./agents/langchain-agent");
-    const dashboard = await executeLangChainAgent(enhancedQuery, userId);
-    
-    console.log("[Pipeline] LangChain agent completed successfully");
-    
-    // Add safety check for title length before validation
-    if (dashboard.title && dashboard.title.length > 120) {
-      dashboard.title = dashboard.title.substring(0, 117) + '...';
-    }
-    
-    const validated = dashboardSchema.parse(dashboard);
-    
-    // Log the query
-    await logQuery({
-      userId,
-      query,
-      responseType: validated.type,
-    });
-
-    // Store the conversation in memory
-    try {
-      const responseContent = JSON.stringify(validated);
-      await userMemoryManager.processConversation(
-        userId,
-        query,
-        responseContent,
-        undefined,
-        `${validated.type}: ${validated.title}`
-      );
-    } catch (error) {
-      console.error("[Pipeline] Failed to store conversation in memory:", error);
-    }
+  const useMemory = (options.useMemory ?? true) && userMemoryManager.isMemoryEnabled();
+  const settings = useMemory ? (await getUserProfile(userId))?.memorySettings : undefined;
 
-    return validated;
-  } catch (langchainError) {
-    console.log("[Pipeline] LangChain agent failed, trying Gemini agent...");
-    
-    try {
-      // Fallback to direct Gemini agent
-      const { executeGeminiAgent } = await import("./agents/gemini-agent");
-      const dashboard = await executeGeminiAgent(enhancedQuery, userId);
-      
-      console.log("[Pipeline] Gemini agent completed successfully");
-      
-      // Add safety check for title length before validation
-      if (dashboard.title && dashboard.title.length > 120) {
-        dashboard.title = dashboard.title.substring(0, 117) + '...';
-      }
-      
-      const validated = dashboardSchema.parse(dashboard);
-      
-      // Log the query
-      await logQuery({
-        userId,
-        query,
-        responseType: validated.type,
-      });
-
-      // Store the conversation in memory
-      try {
-        const responseContent = JSON.stringify(validated);
-        await userMemoryManager.processConversation(
-          userId,
-          query,
-          responseContent,
-          undefined,
-          `${validated.type}: ${validated.title}`
-        );
-      } catch (error) {
-        console.error("[Pipeline] Failed to store conversation in memory:", error);
-      }
-
-      return validated;
-    } catch (geminiError) {
-      console.error("[Pipeline] Both LangChain and Gemini agents failed:", { langchainError, geminiError });
-      throw geminiError;
-    }
-  }
+  return runPipeline(query, userId, applyMemorySettings({ ...options, useMemory }, settings));
 }
 
 // Legacy function for backward compatibility
 export async function processQuery(query: string, userId: string): Promise<DashboardOutput> {
-  return processQueryWithMemory(query, userId);
-}
\ No newline at end of file
+  return runPipeline(query, userId, { useMemory: false });
+}
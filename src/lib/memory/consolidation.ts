@@ -0,0 +1,280 @@
+import { z } from "zod";
+import { createOrUpdateUserProfile, getUserProfile, listUserProfiles, type UserProfile } from "@/lib/appwrite/database";
+import { invokeAzureChat } from "@/lib/azure/model-router";
+import type { DashboardOutput } from "@/types";
+import { effectiveImportance, userMemoryManager, type MemoryVector } from "./user-memory";
+import { cosineSimilarity } from "./vector-store";
+
+// Consolidation turns a user's raw conversation memories into a few compact facts:
+// near-duplicates are dropped, clusters of related memories are summarised by the
+// model into facts ("user tracks EV market share in EU") that replace them, and
+// preferences the user stated are merged into their profile.
+
+export const CONSOLIDATED_QUERY_TYPE = "consolidated_fact";
+
+const DUPLICATE_SIMILARITY = 0.97;
+const CLUSTER_SIMILARITY = 0.8;
+const MIN_CLUSTER_SIZE = 2;
+const MAX_CLUSTERS_PER_RUN = 10; // bounds the model calls per user and run
+const MIN_MEMORY_AGE_MS = 60 * 60 * 1000; // leave the conversation in progress alone
+const MAX_PROMPT_MEMORY_CHARS = 500;
+const MAX_MEMORY_LABELS = 8;
+
+type UserPreferences = UserProfile["preferences"];
+
+export interface ConsolidationReport {
+  userId: string;
+  dryRun: boolean;
+  duplicates: string[]; // ids removed as near-duplicates
+  clusters: Array<{ memoryIds: string[]; facts: string[] }>;
+  preferences: UserPreferences; // stated preferences found this run
+  factsStored: number; // 0 on a dry run
+  memoriesRemoved: number; // duplicates plus summarised memories; 0 on a dry run
+}
+
+const consolidationResponseSchema = z.object({
+  facts: z.array(z.string().min(1)).default([]),
+  preferences: z
+    .object({
+      topics: z.array(z.string()).optional(),
+      interests: z.array(z.string()).optional(),
+      communicationStyle: z.string().optional(),
+      expertiseLevel: z.string().optional(),
+    })
+    .default({}),
+});
+
+/**
+ * A dashboard as a line of text for memory: type, title, summary and the first
+ * labels, instead of the full JSON.
+ */
+export function describeDashboardForMemory(dashboard: DashboardOutput): string {
+  const parts = [`${dashboard.type.replace(/_/g, " ")} "${dashboard.title}"`];
+  if (dashboard.summary) parts.push(dashboard.summary.replace(/[.\s]+$/, ""));
+
+  const labels = dashboard.data
+    .map(point => point.label)
+    .filter((label): label is string => typeof label === "string" && label.length > 0)
+    .slice(0, MAX_MEMORY_LABELS);
+  if (labels.length > 0) parts.push(`Covers ${labels.join(", ")}`);
+  if (dashboard.charts?.length) parts.push(`Panels: ${dashboard.charts.map(chart => chart.title).join(", ")}`);
+
+  return parts.join(". ");
+}
+
+/**
+ * Memory text as the model should see it: dashboards stored as JSON by older
+ * versions are described, long text is cut.
+ */
+export function describeMemoryForPrompt(content: string): string {
+  if (content.trimStart().startsWith("{")) {
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed && typeof parsed.title === "string" && typeof parsed.type === "string" && Array.isArray(parsed.data)) {
+        return describeDashboardForMemory(parsed);
+      }
+    } catch {
+      // Not JSON after all; treated as text
+    }
+  }
+  return content.length > MAX_PROMPT_MEMORY_CHARS ? `${content.slice(0, MAX_PROMPT_MEMORY_CHARS)}...` : content;
+}
+
+/**
+ * Ids of memories that repeat another one. Of each group the pinned, then most
+ * important, then newest memory is kept; pinned memories are never dropped.
+ */
+export function findNearDuplicates(memories: MemoryVector[], threshold: number = DUPLICATE_SIMILARITY): string[] {
+  const ranked = [...memories].sort(
+    (a, b) =>
+      Number(b.pinned) - Number(a.pinned) ||
+      effectiveImportance(b) - effectiveImportance(a) ||
+      Date.parse(b.timestamp) - Date.parse(a.timestamp)
+  );
+
+  const kept: MemoryVector[] = [];
+  const duplicates: string[] = [];
+  for (const memory of ranked) {
+    const repeats = !memory.pinned && kept.some(existing => cosineSimilarity(existing.values, memory.values) >= threshold);
+    if (repeats) duplicates.push(memory.id);
+    else kept.push(memory);
+  }
+  return duplicates;
+}
+
+/**
+ * Group related memories, oldest first: each memory joins the first cluster whose
+ * first member it is similar to, or starts a new one. Only clusters of at least
+ * `minSize` memories are returned.
+ */
+export function clusterMemories(
+  memories: MemoryVector[],
+  threshold: number = CLUSTER_SIMILARITY,
+  minSize: number = MIN_CLUSTER_SIZE
+): MemoryVector[][] {
+  const clusters: MemoryVector[][] = [];
+  const oldestFirst = [...memories].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  for (const memory of oldestFirst) {
+    const cluster = clusters.find(candidate => cosineSimilarity(candidate[0].values, memory.values) >= threshold);
+    if (cluster) cluster.push(memory);
+    else clusters.push([memory]);
+  }
+  return clusters.filter(cluster => cluster.length >= minSize);
+}
+
+/**
+ * Add newly found preferences to the stored ones: lists are merged without
+ * repeats, style and expertise are replaced when stated.
+ */
+export function mergePreferences(current: UserPreferences, found: UserPreferences): UserPreferences {
+  const merge = (existing?: string[], added?: string[]) => {
+    const values = [...(existing ?? [])];
+    for (const value of added ?? []) {
+      if (!values.some(item => item.toLowerCase() === value.toLowerCase())) values.push(value);
+    }
+    return values.length > 0 ? values : undefined;
+  };
+
+  return {
+    ...current,
+    topics: merge(current.topics, found.topics),
+    interests: merge(current.interests, found.interests),
+    communicationStyle: found.communicationStyle || current.communicationStyle,
+    expertiseLevel: found.expertiseLevel || current.expertiseLevel,
+  };
+}
+
+async function summariseCluster(cluster: MemoryVector[]): Promise<z.infer<typeof consolidationResponseSchema>> {
+  const response = await invokeAzureChat(
+    [
+      {
+        role: "system",
+        content: `You consolidate a user's conversation memories into compact facts about the user.
+
+Return ONLY a JSON object:
+{"facts": ["..."], "preferences": {"topics": [], "interests": [], "communicationStyle": "", "expertiseLevel": ""}}
+
+RULES:
+1. 1-3 facts, each one short sentence about the user, e.g. "User tracks EV market share in the EU"
+2. Facts describe what the user works on or cares about, not the data in the answers
+3. Only include preferences the user stated explicitly ("I prefer...", "always show..."); omit the rest
+4. Return ONLY valid JSON, no markdown or explanation`,
+      },
+      {
+        role: "user",
+        content: `Memories, oldest first:
+${cluster.map(memory => `- [${memory.timestamp}] ${memory.context}: ${describeMemoryForPrompt(memory.content)}`).join("\n")}`,
+      },
+    ],
+    {
+      intent: "summarization",
+      responseFormat: "json",
+      temperature: 0.2,
+    }
+  );
+
+  const raw = response.choices[0]?.message?.content ?? "";
+  return consolidationResponseSchema.parse(JSON.parse(raw));
+}
+
+/**
+ * Consolidate one user's memories. With `dryRun` the model is still asked for the
+ * facts, but nothing is stored, deleted or saved to the profile.
+ */
+export async function consolidateUserMemories(
+  userId: string,
+  { dryRun = false, now = new Date() }: { dryRun?: boolean; now?: Date } = {}
+): Promise<ConsolidationReport> {
+  const report: ConsolidationReport = {
+    userId,
+    dryRun,
+    duplicates: [],
+    clusters: [],
+    preferences: {},
+    factsStored: 0,
+    memoriesRemoved: 0,
+  };
+  if (!userMemoryManager.isMemoryEnabled()) return report;
+
+  const memories = (await userMemoryManager.listMemoryVectors(userId)).filter(
+    memory => !memory.pinned && now.getTime() - Date.parse(memory.timestamp) >= MIN_MEMORY_AGE_MS
+  );
+  report.duplicates = findNearDuplicates(memories);
+
+  // Facts are not summarised again, so repeated runs do not drift
+  const duplicateIds = new Set(report.duplicates);
+  const raw = memories.filter(memory => !duplicateIds.has(memory.id) && memory.metadata.queryType !== CONSOLIDATED_QUERY_TYPE);
+
+  for (const cluster of clusterMemories(raw).slice(0, MAX_CLUSTERS_PER_RUN)) {
+    try {
+      const { facts, preferences } = await summariseCluster(cluster);
+      if (facts.length === 0) continue;
+
+      report.clusters.push({ memoryIds: cluster.map(memory => memory.id), facts });
+      report.preferences = mergePreferences(report.preferences, preferences);
+    } catch (error) {
+      console.error(`[Consolidation] Failed to summarise a cluster for user ${userId}`, error);
+    }
+  }
+
+  if (dryRun) return report;
+
+  const removed = [...report.duplicates];
+  for (const { memoryIds, facts } of report.clusters) {
+    const sources = memories.filter(memory => memoryIds.includes(memory.id));
+    const topic = sources[0].metadata.topic || sources[0].context;
+    const importance = Math.max(...sources.map(memory => memory.importance));
+
+    let stored = 0;
+    for (const fact of facts) {
+      const memoryId = await userMemoryManager.storeMemory(userId, fact, `Consolidated: ${topic}`, undefined, importance, {
+        queryType: CONSOLIDATED_QUERY_TYPE,
+        topic,
+      });
+      if (memoryId) stored++;
+    }
+    report.factsStored += stored;
+
+    // A cluster's memories are only removed once all its facts are stored
+    if (stored === facts.length) removed.push(...memoryIds);
+  }
+  await userMemoryManager.deleteMemoriesById(userId, removed);
+  report.memoriesRemoved = removed.length;
+
+  // Users without a profile have not chosen memory settings; one is not created for them
+  const profile = await getUserProfile(userId);
+  if (profile && Object.values(report.preferences).some(Boolean)) {
+    await createOrUpdateUserProfile({
+      userId,
+      preferences: mergePreferences(profile.preferences ?? {}, report.preferences),
+      memorySettings: profile.memorySettings,
+    });
+  }
+
+  console.log(`[Consolidation] User ${userId}: ${report.factsStored} facts, ${report.memoriesRemoved} memories removed`);
+  return report;
+}
+
+/**
+ * Consolidate the memories of every user with a profile. A failing user is logged
+ * and skipped.
+ */
+export async function consolidateAllMemories(options: { dryRun?: boolean; now?: Date } = {}): Promise<ConsolidationReport[]> {
+  if (!userMemoryManager.isMemoryEnabled()) return [];
+
+  const reports: ConsolidationReport[] = [];
+  let profiles = await listUserProfiles();
+  while (profiles.length > 0) {
+    for (const profile of profiles) {
+      if (!profile.memorySettings?.enableMemory) continue;
+      try {
+        reports.push(await consolidateUserMemories(profile.userId, options));
+      } catch (error) {
+        console.error(`[Consolidation] Failed for user ${profile.userId}`, error);
+      }
+    }
+    profiles = await listUserProfiles(profiles[profiles.length - 1].$id);
+  }
+  return reports;
+}
@@ -0,0 +1,65 @@
+import { consolidateAllMemories } from "./consolidation";
+import { sweepExpiredMemories } from "./retention";
+
+// Periodic memory upkeep in the server process: expire memories past each user's
+// retention period, then consolidate what is left.
+
+const DEFAULT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * One maintenance pass. Consolidation calls the model, so it can be turned off
+ * with MEMORY_CONSOLIDATION=false.
+ */
+export async function runMemoryMaintenance(): Promise<void> {
+  const sweeps = await sweepExpiredMemories();
+  const expired = sweeps.reduce((total, report) => total + report.deleted, 0);
+  if (expired > 0) console.log(`[Memory] Deleted ${expired} expired ${expired === 1 ? "memory" : "memories"}`);
+
+  if (process.env.MEMORY_CONSOLIDATION === "false") return;
+
+  const consolidations = await consolidateAllMemories();
+  const facts = consolidations.reduce((total, report) => total + report.factsStored, 0);
+  const removed = consolidations.reduce((total, report) => total + report.memoriesRemoved, 0);
+  if (facts > 0 || removed > 0) console.log(`[Memory] Consolidated ${removed} memories into ${facts} facts`);
+}
+
+export interface MemoryMaintenanceHandle {
+  stop(): void;
+}
+
+let activeMaintenance: MemoryMaintenanceHandle | null = null;
+
+/**
+ * Run memory maintenance every `intervalMs` (MEMORY_MAINTENANCE_INTERVAL_MS, default
+ * six hours). A pass is skipped while the previous one is still running. Starting
+ * twice returns the running job.
+ */
+export function startMemoryMaintenance(
+  intervalMs: number = Number(process.env.MEMORY_MAINTENANCE_INTERVAL_MS) || DEFAULT_INTERVAL_MS
+): MemoryMaintenanceHandle {
+  if (activeMaintenance) return activeMaintenance;
+
+  let isRunning = false;
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runMemoryMaintenance();
+    } catch (error) {
+      console.error("[Memory] Maintenance failed", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  console.log(`[Memory] Running maintenance every ${Math.round(intervalMs / 60000)}min`);
+
+  activeMaintenance = {
+    stop() {
+      clearInterval(timer);
+      activeMaintenance = null;
+    },
+  };
+  return activeMaintenance;
+}
@@ -0,0 +1,64 @@
+import { listUserProfiles } from "@/lib/appwrite/database";
+import { userMemoryManager, type MemorySearchResult } from "./user-memory";
+
+// Applies each user's memorySettings.retentionDays: memories older than that are
+// deleted by the periodic memory maintenance. Pinned memories are never expired.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionReport {
+  userId: string;
+  retentionDays: number;
+  cutoff: string; // memories stored before this expire
+  dryRun: boolean;
+  expired: Array<Pick<MemorySearchResult, "id" | "content" | "context" | "timestamp" | "importance">>;
+  deleted: number; // 0 on a dry run
+}
+
+export function retentionCutoff(retentionDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
+
+/**
+ * Delete (or with `dryRun`, list) one user's memories older than their retention
+ * period.
+ */
+export async function sweepUserMemories(
+  userId: string,
+  retentionDays: number,
+  { dryRun = false, now = new Date() }: { dryRun?: boolean; now?: Date } = {}
+): Promise<RetentionReport> {
+  const cutoff = retentionCutoff(retentionDays, now).toISOString();
+  const expired = await userMemoryManager.deleteMemories(userId, { before: cutoff }, { dryRun });
+
+  return {
+    userId,
+    retentionDays,
+    cutoff,
+    dryRun,
+    expired: expired.map(({ id, content, context, timestamp, importance }) => ({ id, content, context, timestamp, importance })),
+    deleted: dryRun ? 0 : expired.length,
+  };
+}
+
+/**
+ * Sweep every user with a profile. Users without one have not chosen a retention
+ * period, so their memories are left alone. A failing user is logged and skipped.
+ */
+export async function sweepExpiredMemories(options: { dryRun?: boolean; now?: Date } = {}): Promise<RetentionReport[]> {
+  if (!userMemoryManager.isMemoryEnabled()) return [];
+
+  const reports: RetentionReport[] = [];
+  let profiles = await listUserProfiles();
+  while (profiles.length > 0) {
+    for (const profile of profiles) {
+      try {
+        reports.push(await sweepUserMemories(profile.userId, profile.memorySettings.retentionDays, options));
+      } catch (error) {
+        console.error(`[Retention] Sweep failed for user ${profile.userId}`, error);
+      }
+    }
+    profiles = await listUserProfiles(profiles[profiles.length - 1].$id);
+  }
+  return reports;
+}
@@ -1,7 +1,13 @@
-import { Pinecone } from "@pinecone-database/pinecone";
 import { OpenAIEmbeddings } from "@langchain/openai";
-import { updateMemoryAccess, saveMemoryMetadata } from "@/lib/appwrite/database";
+import {
+  updateMemoryAccess,
+  saveMemoryMetadata,
+  updateMemoryMetadata,
+  deleteMemoryMetadata,
+  listMemoryMetadata,
+} from "@/lib/appwrite/database";
 import { AlternativeEmbeddings } from "./alternative-embeddings";
+import { createVectorStoreFromEnv, type VectorFilter, type VectorMatch, type VectorStore } from "./vector-store";
 
 interface UserMemoryEntry {
   id: string;
@@ -11,6 +17,7 @@ interface UserMemoryEntry {
   timestamp: string;
   sessionId?: string;
   importance: number; // 1-10 scale for memory importance
+  pinned: boolean; // Kept at full importance whatever its score
   metadata: {
     queryType?: string;
     entities?: string[]; // Named entities extracted
@@ -20,40 +27,86 @@ interface UserMemoryEntry {
 }
 
 interface MemorySearchResult {
+  id: string; // vector store record id
   content: string;
   context: string;
   similarity: number;
   timestamp: string;
+  importance: number; // effective importance: 10 while pinned
+  storedImportance: number; // the memory's own score, back in effect once unpinned
+  pinned: boolean;
   metadata: UserMemoryEntry['metadata'];
 }
 
-export type { MemorySearchResult };
+interface MemoryUpdate {
+  content?: string;
+  context?: string;
+  importance?: number;
+  pinned?: boolean;
+}
+
+interface MemoryVector extends MemorySearchResult {
+  values: number[]; // the stored embedding
+}
+
+interface MemoryPage {
+  memories: MemorySearchResult[];
+  nextCursor: string | null; // pass back for the following page; null on the last one
+}
+
+interface MemoryDeleteFilter {
+  topic?: string;
+  after?: string; // ISO timestamps bounding when the memory was stored
+  before?: string;
+}
+
+interface DocumentChunkInput {
+  text: string;
+  page?: number;
+}
+
+interface DocumentSearchResult {
+  documentId: string;
+  fileName: string;
+  page?: number;
+  content: string;
+  similarity: number;
+}
+
+export type { MemorySearchResult, MemoryVector, MemoryUpdate, MemoryPage, MemoryDeleteFilter, DocumentChunkInput, DocumentSearchResult };
+
+const DOCUMENT_EMBED_BATCH_SIZE = 32;
+const MAX_IMPORTANCE = 10;
+const MEMORY_SCAN_LIMIT = 1000; // Pinecone's topK ceiling when metadata is included
+const MEMORY_NAMESPACE = ""; // the store's default namespace
+const SCAN_CURSOR_PREFIX = "scan:";
+
+/**
+ * Importance as the rest of the memory system should see it: pinning overrides
+ * the stored score.
+ */
+export function effectiveImportance(memory: Pick<MemorySearchResult, "importance" | "pinned">): number {
+  return memory.pinned ? MAX_IMPORTANCE : memory.importance;
+}
+
+function storedWithin(timestamp: string, filter: MemoryDeleteFilter): boolean {
+  const time = Date.parse(timestamp);
+  if (filter.after && !(time >= Date.parse(filter.after))) return false;
+  if (filter.before && !(time < Date.parse(filter.before))) return false;
+  return true;
+}
 
 export class UserMemoryManager {
-  private pinecone: Pinecone | null;
+  private store: VectorStore | null;
   private embeddings: OpenAIEmbeddings | AlternativeEmbeddings;
-  private indexName = "orinai-user-memory"; // Use the existing index we created
-  private isEnabled: boolean;
 
-  constructor() {
-    this.isEnabled = !!process.env.PINECONE_API_KEY;
-    
-    if (this.isEnabled) {
-      try {
-        this.pinecone = new Pinecone({
-          apiKey: process.env.PINECONE_API_KEY!,
-        });
-        console.log("[UserMemory] Pinecone initialized successfully");
-      } catch (error) {
-        console.error("[UserMemory] Failed to initialize Pinecone:", error);
-        this.pinecone = null;
-        this.isEnabled = false;
-      }
-    } else {
-      console.warn("[UserMemory] Pinecone API key not found, memory features disabled");
-      this.pinecone = null;
+  // The store comes from VECTOR_STORE (see createVectorStoreFromEnv) unless one is given
+  constructor(store: VectorStore | null = createVectorStoreFromEnv()) {
+    this.store = store;
+    if (!store) {
+      console.warn("[UserMemory] No vector store configured, memory features disabled");
     }
-    
+
     // Prefer Hugging Face embeddings, then OpenAI, then fallback
     if (process.env.HUGGINGFACE_API_KEY) {
       console.log("[UserMemory] Using Hugging Face embeddings");
@@ -74,11 +127,11 @@ export class UserMemoryManager {
    * Check if memory system is enabled and available
    */
   isMemoryEnabled(): boolean {
-    return this.isEnabled && this.pinecone !== null;
+    return this.store !== null;
   }
 
   /**
-   * Store a new memory for a user
+   * Store a new memory for a user, returning its id
    */
   async storeMemory(
     userId: string,
@@ -87,15 +140,13 @@ export class UserMemoryManager {
     sessionId?: string,
     importance: number = 5,
     metadata: UserMemoryEntry['metadata'] = {}
-  ): Promise<void> {
+  ): Promise<string | null> {
     if (!this.isMemoryEnabled()) {
       console.log("[UserMemory] Memory storage disabled, skipping");
-      return;
+      return null;
     }
     
     try {
-      const index = this.pinecone!.index(this.indexName);
-      
       // Generate embedding for the content
       const embedding = await this.embeddings.embedQuery(content);
       
@@ -107,11 +158,11 @@ export class UserMemoryManager {
         timestamp: new Date().toISOString(),
         sessionId,
         importance,
+        pinned: false,
         metadata,
       };
 
-      // Store in Pinecone
-      await index.upsert([
+      await this.store!.upsert(MEMORY_NAMESPACE, [
         {
           id: memoryEntry.id,
           values: embedding,
@@ -120,16 +171,30 @@ export class UserMemoryManager {
             content,
             context,
             timestamp: memoryEntry.timestamp,
+            storedAt: Date.parse(memoryEntry.timestamp), // numeric, so date ranges can be filtered on
             sessionId: sessionId || "",
             importance,
+            pinned: false,
             ...metadata,
           },
         },
       ]);
 
+      await saveMemoryMetadata({
+        userId,
+        memoryId: memoryEntry.id,
+        topic: metadata.topic || context,
+        importance,
+        pinned: false,
+        lastAccessed: memoryEntry.timestamp,
+        accessCount: 0,
+      });
+
       console.log(`[UserMemory] Stored memory for user ${userId}: ${context}`);
+      return memoryEntry.id;
     } catch (error) {
       console.error("[UserMemory] Failed to store memory:", error);
+      return null;
     }
   }
 
@@ -148,37 +213,22 @@ export class UserMemoryManager {
     }
     
     try {
-      const index = this.pinecone!.index(this.indexName);
-      
       // Generate embedding for the query
       const queryEmbedding = await this.embeddings.embedQuery(query);
-      
-      // Search in Pinecone
-      const searchResults = await index.query({
+
+      const matches = await this.store!.query(MEMORY_NAMESPACE, {
         vector: queryEmbedding,
         topK: limit * 2, // Get more results to filter by similarity
         filter: {
           userId: { $eq: userId },
         },
-        includeMetadata: true,
       });
 
       // Filter by similarity threshold and format results
-      const memories: MemorySearchResult[] = searchResults.matches
-        ?.filter((match) => (match.score || 0) >= minSimilarity)
+      const memories: MemorySearchResult[] = matches
+        .filter((match) => match.score >= minSimilarity)
         .slice(0, limit)
-        .map((match) => ({
-          content: match.metadata?.content as string || "",
-          context: match.metadata?.context as string || "",
-          similarity: match.score || 0,
-          timestamp: match.metadata?.timestamp as string || "",
-          metadata: {
-            queryType: match.metadata?.queryType as string,
-            entities: match.metadata?.entities as string[],
-            keywords: match.metadata?.keywords as string[],
-            topic: match.metadata?.topic as string,
-          },
-        })) || [];
+        .map((match) => this.toMemoryResult(match));
 
       console.log(`[UserMemory] Found ${memories.length} relevant memories for user ${userId}`);
       return memories;
@@ -189,68 +239,418 @@ export class UserMemoryManager {
   }
 
   /**
-   * Get user's recent memories for context
+   * Get user's most recent memories, newest first
    */
   async getRecentMemories(
     userId: string,
     limit: number = 10
   ): Promise<MemorySearchResult[]> {
+    return (await this.listMemories(userId, { limit })).memories;
+  }
+
+  /**
+   * The user's memories newest first, a page at a time. The order comes from the
+   * Appwrite metadata rows. Without Appwrite, or when none of the user's memories
+   * has a row yet, up to 1000 memories are read from the vector store and sorted
+   * instead.
+   */
+  async listMemories(
+    userId: string,
+    { limit = 10, cursor }: { limit?: number; cursor?: string } = {}
+  ): Promise<MemoryPage> {
     if (!this.isMemoryEnabled()) {
       console.log("[UserMemory] Memory retrieval disabled, returning empty results");
+      return { memories: [], nextCursor: null };
+    }
+
+    try {
+      if (!cursor?.startsWith(SCAN_CURSOR_PREFIX)) {
+        // One extra row tells whether there is another page
+        const rows = await listMemoryMetadata(userId, limit + 1, cursor);
+        if (rows.length > 0 || cursor) {
+          const page = rows.slice(0, limit);
+          if (page.length === 0) {
+            return { memories: [], nextCursor: null };
+          }
+          const records = await this.store!.fetch(MEMORY_NAMESPACE, page.map(row => row.memoryId));
+
+          return {
+            // Rows whose vector is gone are skipped
+            memories: page.filter(row => records[row.memoryId]).map(row => this.toMemoryResult(records[row.memoryId])),
+            nextCursor: rows.length > limit ? page[page.length - 1].$id ?? null : null,
+          };
+        }
+      }
+
+      const offset = cursor ? Number(cursor.slice(SCAN_CURSOR_PREFIX.length)) || 0 : 0;
+      const memories = (await this.scanMemories(userId, {}, MEMORY_SCAN_LIMIT))
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+      return {
+        memories: memories.slice(offset, offset + limit),
+        nextCursor: offset + limit < memories.length ? `${SCAN_CURSOR_PREFIX}${offset + limit}` : null,
+      };
+    } catch (error) {
+      console.error("[UserMemory] Failed to list memories:", error);
+      return { memories: [], nextCursor: null };
+    }
+  }
+
+  /**
+   * Fetch one of the user's memories by its id. This and the other management
+   * calls let vector store errors propagate so they can be reported.
+   */
+  async getMemory(userId: string, memoryId: string): Promise<MemorySearchResult | null> {
+    if (!this.isMemoryEnabled()) {
+      return null;
+    }
+
+    const record = (await this.store!.fetch(MEMORY_NAMESPACE, [memoryId]))[memoryId];
+    // Another user's memory reads as missing
+    if (!record || record.metadata.userId !== userId) {
+      return null;
+    }
+    return this.toMemoryResult(record);
+  }
+
+  /**
+   * Edit a memory's text, context, importance or pin. New text is re-embedded so
+   * searches find the memory by what it now says.
+   */
+  async updateMemory(userId: string, memoryId: string, changes: MemoryUpdate): Promise<MemorySearchResult | null> {
+    const existing = await this.getMemory(userId, memoryId);
+    if (!existing) {
+      return null;
+    }
+
+    const metadata: Record<string, string | number | boolean> = {};
+    for (const [key, value] of Object.entries(changes)) {
+      if (value !== undefined) metadata[key] = value;
+    }
+    const contentChanged = changes.content !== undefined && changes.content !== existing.content;
+
+    await this.store!.update(MEMORY_NAMESPACE, memoryId, {
+      values: contentChanged ? await this.embeddings.embedQuery(changes.content!) : undefined,
+      metadata,
+    });
+
+    const storedImportance = changes.importance ?? existing.storedImportance;
+    const updated: MemorySearchResult = {
+      ...existing,
+      ...metadata,
+      storedImportance,
+      importance: effectiveImportance({ importance: storedImportance, pinned: changes.pinned ?? existing.pinned }),
+    };
+    await this.syncMemoryMetadata(userId, updated);
+    console.log(`[UserMemory] Updated memory ${memoryId} for user ${userId}`);
+    return updated;
+  }
+
+  /**
+   * Delete one memory. False when the user has no memory with this id.
+   */
+  async deleteMemory(userId: string, memoryId: string): Promise<boolean> {
+    const existing = await this.getMemory(userId, memoryId);
+    if (!existing) {
+      return false;
+    }
+
+    await this.store!.delete(MEMORY_NAMESPACE, [memoryId]);
+    await deleteMemoryMetadata(userId, [memoryId]);
+    console.log(`[UserMemory] Deleted memory ${memoryId} for user ${userId}`);
+    return true;
+  }
+
+  /**
+   * Delete the user's memories on a topic and/or stored within a date range,
+   * returning the ones deleted, or with `dryRun` the ones that would be. Pinned
+   * memories are kept. Every matching memory is found, however many the user has.
+   */
+  async deleteMemories(
+    userId: string,
+    filter: MemoryDeleteFilter,
+    options: { dryRun?: boolean } = {}
+  ): Promise<MemorySearchResult[]> {
+    if (!filter.topic && !filter.after && !filter.before) {
+      throw new Error("Bulk deletes need a topic or a date range");
+    }
+    if (!this.isMemoryEnabled()) {
       return [];
     }
-    
+
+    const candidates = await this.scanMemoriesStoredWithin(userId, filter);
+    const matches = candidates.filter(memory => !memory.pinned);
+    if (!options.dryRun) {
+      await this.deleteMemoriesById(userId, matches.map(memory => memory.id));
+    }
+    return matches;
+  }
+
+  /**
+   * Delete memories by id, e.g. ones found by a scan. The ids are not checked
+   * against the user, so they must come from the user's own memories.
+   */
+  async deleteMemoriesById(userId: string, ids: string[]): Promise<void> {
+    if (!this.isMemoryEnabled() || ids.length === 0) {
+      return;
+    }
+
+    await this.store!.delete(MEMORY_NAMESPACE, ids);
+    await deleteMemoryMetadata(userId, ids);
+    console.log(`[UserMemory] Deleted ${ids.length} memories for user ${userId}`);
+  }
+
+  /**
+   * Up to 1000 of the user's memories with their embeddings, for jobs that compare
+   * memories with each other
+   */
+  async listMemoryVectors(userId: string): Promise<MemoryVector[]> {
+    if (!this.isMemoryEnabled()) {
+      return [];
+    }
+
+    const vector = await this.embeddings.embedQuery("user conversation history");
+    const matches = await this.store!.query(MEMORY_NAMESPACE, {
+      vector,
+      topK: MEMORY_SCAN_LIMIT,
+      filter: { userId: { $eq: userId } },
+      includeValues: true,
+    });
+    return matches.map((match) => ({ ...this.toMemoryResult(match), values: match.values }));
+  }
+
+  /**
+   * The user's pinned memories, nearest to the query first
+   */
+  async getPinnedMemories(userId: string, query: string, limit: number = 5): Promise<MemorySearchResult[]> {
+    if (!this.isMemoryEnabled()) {
+      return [];
+    }
+
     try {
-      const index = this.pinecone!.index(this.indexName);
-      
-      // We'll use a generic query to get recent memories
-      const genericEmbedding = await this.embeddings.embedQuery("user conversation history");
-      
-      const searchResults = await index.query({
-        vector: genericEmbedding,
-        topK: limit,
-        filter: {
-          userId: { $eq: userId },
-        },
-        includeMetadata: true,
+      return await this.scanMemories(userId, { pinned: { $eq: true } }, limit, query);
+    } catch (error) {
+      console.error("[UserMemory] Failed to get pinned memories:", error);
+      return [];
+    }
+  }
+
+  // Memories matching a metadata filter; the query only decides their order
+  private async scanMemories(
+    userId: string,
+    filter: VectorFilter,
+    topK: number,
+    query: string = "user conversation history"
+  ): Promise<MemorySearchResult[]> {
+    const vector = await this.embeddings.embedQuery(query);
+    const matches = await this.store!.query(MEMORY_NAMESPACE, {
+      vector,
+      topK,
+      filter: { userId: { $eq: userId }, ...filter },
+    });
+    return matches.map((match) => this.toMemoryResult(match));
+  }
+
+  // Every memory matching the filter's topic and date range. A query returns at most
+  // MEMORY_SCAN_LIMIT matches, so a full window is split in two by storedAt until
+  // each half fits.
+  private async scanMemoriesStoredWithin(userId: string, filter: MemoryDeleteFilter): Promise<MemorySearchResult[]> {
+    const vector = await this.embeddings.embedQuery("user conversation history");
+    const base: VectorFilter = { userId: { $eq: userId }, ...(filter.topic ? { topic: { $eq: filter.topic } } : {}) };
+    const found: VectorMatch[] = [];
+
+    const windows: Array<[number, number]> = [[
+      filter.after ? Date.parse(filter.after) : 0,
+      filter.before ? Date.parse(filter.before) : Number.MAX_SAFE_INTEGER,
+    ]];
+    while (windows.length > 0) {
+      const [start, end] = windows.pop()!;
+      const matches = await this.store!.query(MEMORY_NAMESPACE, {
+        vector,
+        topK: MEMORY_SCAN_LIMIT,
+        filter: { ...base, storedAt: { $gte: start, $lt: end } },
       });
+      if (matches.length < MEMORY_SCAN_LIMIT || end - start <= 1) {
+        found.push(...matches);
+      } else {
+        const middle = Math.floor(start / 2 + end / 2);
+        windows.push([start, middle], [middle, end]);
+      }
+    }
+
+    // Memories stored before storedAt was recorded only have the ISO timestamp, so
+    // for them this falls back to the nearest MEMORY_SCAN_LIMIT
+    const legacy = (await this.store!.query(MEMORY_NAMESPACE, { vector, topK: MEMORY_SCAN_LIMIT, filter: base })).filter(
+      match => typeof match.metadata.storedAt !== "number" && storedWithin(String(match.metadata.timestamp ?? ""), filter)
+    );
+
+    return [...found, ...legacy].map(match => this.toMemoryResult(match));
+  }
+
+  // Keeps the Appwrite row in step with the vector store, creating it for memories stored
+  // before rows were recorded
+  private async syncMemoryMetadata(userId: string, memory: MemorySearchResult): Promise<void> {
+    const changes = {
+      topic: memory.metadata.topic || memory.context,
+      importance: effectiveImportance(memory),
+      pinned: memory.pinned,
+    };
+    const updated = await updateMemoryMetadata(memory.id, userId, changes);
+    if (!updated) {
+      await saveMemoryMetadata({
+        userId,
+        memoryId: memory.id,
+        ...changes,
+        lastAccessed: memory.timestamp,
+        accessCount: 0,
+      });
+    }
+  }
+
+  private toMemoryResult(record: { id: string; score?: number; metadata?: Record<string, unknown> }): MemorySearchResult {
+    const storedImportance = record.metadata?.importance as number ?? 5;
+    const pinned = record.metadata?.pinned === true;
+    return {
+      id: record.id,
+      content: record.metadata?.content as string || "",
+      context: record.metadata?.context as string || "",
+      similarity: record.score || 0,
+      timestamp: record.metadata?.timestamp as string || "",
+      importance: effectiveImportance({ importance: storedImportance, pinned }),
+      storedImportance,
+      pinned,
+      metadata: {
+        queryType: record.metadata?.queryType as string,
+        entities: record.metadata?.entities as string[],
+        keywords: record.metadata?.keywords as string[],
+        topic: record.metadata?.topic as string,
+      },
+    };
+  }
+
+  /**
+   * Embed and store uploaded document chunks in the user's document namespace.
+   * Unlike conversation memories, failures propagate so the upload can be reported.
+   */
+  async storeDocumentChunks(
+    userId: string,
+    documentId: string,
+    fileName: string,
+    chunks: DocumentChunkInput[]
+  ): Promise<number> {
+    if (!this.isMemoryEnabled()) {
+      throw new Error("Document storage requires a vector store (VECTOR_STORE is off)");
+    }
+
+    const namespace = this.documentNamespace(userId);
 
-      const memories: MemorySearchResult[] = searchResults.matches
-        ?.map((match) => ({
-          content: match.metadata?.content as string || "",
-          context: match.metadata?.context as string || "",
-          similarity: match.score || 0,
-          timestamp: match.metadata?.timestamp as string || "",
+    for (let start = 0; start < chunks.length; start += DOCUMENT_EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(start, start + DOCUMENT_EMBED_BATCH_SIZE);
+      const embeddings = await this.embeddings.embedDocuments(batch.map(chunk => chunk.text));
+
+      await this.store!.upsert(
+        namespace,
+        batch.map((chunk, offset) => ({
+          id: this.documentChunkId(documentId, start + offset),
+          values: embeddings[offset],
           metadata: {
-            queryType: match.metadata?.queryType as string,
-            entities: match.metadata?.entities as string[],
-            keywords: match.metadata?.keywords as string[],
-            topic: match.metadata?.topic as string,
+            userId,
+            documentId,
+            fileName,
+            chunkIndex: start + offset,
+            content: chunk.text,
+            // Vector stores reject null metadata values
+            ...(chunk.page !== undefined ? { page: chunk.page } : {}),
           },
         }))
-        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()) || [];
+      );
+    }
 
-      return memories;
+    console.log(`[UserMemory] Stored ${chunks.length} chunks of ${fileName} for user ${userId}`);
+    return chunks.length;
+  }
+
+  /**
+   * Search the user's uploaded documents
+   */
+  async searchDocuments(
+    userId: string,
+    query: string,
+    limit: number = 5,
+    minSimilarity: number = 0.5
+  ): Promise<DocumentSearchResult[]> {
+    if (!this.isMemoryEnabled()) {
+      return [];
+    }
+
+    try {
+      const queryEmbedding = await this.embeddings.embedQuery(query);
+
+      const matches = await this.store!.query(this.documentNamespace(userId), {
+        vector: queryEmbedding,
+        topK: limit,
+      });
+
+      const documents: DocumentSearchResult[] = matches
+        .filter((match) => match.score >= minSimilarity)
+        .map((match) => ({
+          documentId: match.metadata.documentId as string || "",
+          fileName: match.metadata.fileName as string || "",
+          page: match.metadata.page as number | undefined,
+          content: match.metadata.content as string || "",
+          similarity: match.score,
+        }));
+
+      console.log(`[UserMemory] Found ${documents.length} relevant document chunks for user ${userId}`);
+      return documents;
     } catch (error) {
-      console.error("[UserMemory] Failed to get recent memories:", error);
+      console.error("[UserMemory] Failed to search documents:", error);
       return [];
     }
   }
 
   /**
-   * Process and store conversation as memories
+   * Remove every chunk of an uploaded document
+   */
+  async deleteDocumentChunks(userId: string, documentId: string, chunkCount: number): Promise<void> {
+    if (!this.isMemoryEnabled() || chunkCount === 0) {
+      return;
+    }
+
+    const ids = Array.from({ length: chunkCount }, (_, index) => this.documentChunkId(documentId, index));
+    await this.store!.delete(this.documentNamespace(userId), ids);
+  }
+
+  private documentNamespace(userId: string): string {
+    return `documents-${userId}`;
+  }
+
+  private documentChunkId(documentId: string, chunkIndex: number): string {
+    return `${documentId}#${chunkIndex}`;
+  }
+
+  /**
+   * Process and store conversation as memories, unless it scores below the
+   * importance threshold
    */
   async processConversation(
     userId: string,
     userMessage: string,
     assistantResponse: string,
     sessionId?: string,
-    context?: string
+    context?: string,
+    options: { importanceThreshold?: number } = {}
   ): Promise<void> {
     try {
       // Extract context and importance from the conversation
       const conversationContext = context || this.extractContext(userMessage);
       const importance = this.calculateImportance(userMessage, assistantResponse);
+
+      // The user's memorySettings.importanceThreshold
+      if (options.importanceThreshold !== undefined && importance < options.importanceThreshold) {
+        console.log(`[UserMemory] Not storing conversation for user ${userId}: importance ${importance} is below ${options.importanceThreshold}`);
+        return;
+      }
       const entities = this.extractEntities(userMessage);
       const keywords = this.extractKeywords(userMessage);
       
@@ -293,11 +693,22 @@ export class UserMemoryManager {
    */
   async buildUserContext(userId: string, currentQuery: string): Promise<string> {
     try {
-      const relevantMemories = await this.searchMemories(userId, currentQuery, 3);
-      const recentMemories = await this.getRecentMemories(userId, 5);
+      const pinnedMemories = await this.getPinnedMemories(userId, currentQuery, 5);
+      const pinnedIds = new Set(pinnedMemories.map(memory => memory.id));
+      const relevantMemories = (await this.searchMemories(userId, currentQuery, 3))
+        .filter(memory => !pinnedIds.has(memory.id));
+      const recentMemories = await this.getRecentMemories(userId, 3);
 
       let context = "";
 
+      if (pinnedMemories.length > 0) {
+        context += "## Pinned Memories:\n";
+        pinnedMemories.forEach((memory, index) => {
+          context += `${index + 1}. ${memory.content}\n`;
+        });
+        context += "\n";
+      }
+
       if (relevantMemories.length > 0) {
         context += "## Relevant Previous Conversations:\n";
         relevantMemories.forEach((memory, index) => {
@@ -306,8 +717,8 @@ export class UserMemoryManager {
       }
 
       if (recentMemories.length > 0) {
-        context += "## Recent Conversation Context:\n";
-        recentMemories.slice(0, 3).forEach((memory, index) => {
+        context += "## Recent Conversation Context (newest first):\n";
+        recentMemories.forEach((memory, index) => {
           context += `${index + 1}. ${memory.context}\n`;
         });
       }
@@ -0,0 +1,49 @@
+import path from "path";
+import { createLocalVectorStore } from "./local";
+import { createPineconeVectorStore } from "./pinecone";
+import type { VectorStore } from "./types";
+
+export type { VectorCondition, VectorFilter, VectorMatch, VectorMetadata, VectorQuery, VectorRecord, VectorStore } from "./types";
+export { cosineSimilarity, createLocalVectorStore } from "./local";
+export { createPineconeVectorStore } from "./pinecone";
+
+export const PINECONE_INDEX_NAME = "orinai-user-memory";
+const DEFAULT_LOCAL_PATH = ".data/vector-store.json";
+
+/**
+ * The store named by VECTOR_STORE: "pinecone", "local" or "off". Without it,
+ * Pinecone is used when PINECONE_API_KEY is set and the local store otherwise.
+ * The local store is kept in LOCAL_VECTOR_STORE_PATH, or in process memory only
+ * when that is ":memory:". Null turns memory and document search off.
+ */
+export function createVectorStoreFromEnv(): VectorStore | null {
+  const backend = (process.env.VECTOR_STORE || (process.env.PINECONE_API_KEY ? "pinecone" : "local")).toLowerCase();
+
+  switch (backend) {
+    case "pinecone":
+      if (!process.env.PINECONE_API_KEY) {
+        console.warn("[VectorStore] VECTOR_STORE=pinecone but PINECONE_API_KEY is not set, memory features disabled");
+        return null;
+      }
+      try {
+        const store = createPineconeVectorStore({ apiKey: process.env.PINECONE_API_KEY, indexName: PINECONE_INDEX_NAME });
+        console.log("[VectorStore] Using Pinecone");
+        return store;
+      } catch (error) {
+        console.error("[VectorStore] Failed to initialize Pinecone:", error);
+        return null;
+      }
+    case "local": {
+      const location = process.env.LOCAL_VECTOR_STORE_PATH || DEFAULT_LOCAL_PATH;
+      const file = location === ":memory:" ? undefined : path.resolve(location);
+      console.log(`[VectorStore] Using the local store${file ? ` (${file})` : " in memory"}`);
+      return createLocalVectorStore({ file });
+    }
+    case "off":
+      console.warn("[VectorStore] VECTOR_STORE=off, memory features disabled");
+      return null;
+    default:
+      console.warn(`[VectorStore] Unknown VECTOR_STORE "${backend}"; expected pinecone, local or off. Memory features disabled`);
+      return null;
+  }
+}
@@ -0,0 +1,151 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { VectorCondition, VectorFilter, VectorMetadata, VectorMetadataValue, VectorRecord, VectorStore } from "./types";
+
+export interface LocalVectorStoreOptions {
+  /** JSON file the records are kept in. Without one they live in process memory only. */
+  file?: string;
+}
+
+type Namespaces = Map<string, Map<string, VectorRecord>>;
+
+interface StoreFile {
+  namespaces: Record<string, VectorRecord[]>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function matchesCondition(value: VectorMetadataValue | undefined, condition: VectorCondition): boolean {
+  if ("$eq" in condition) return value === condition.$eq;
+  if (typeof value !== "number") return false;
+  return (condition.$gte === undefined || value >= condition.$gte) && (condition.$lt === undefined || value < condition.$lt);
+}
+
+function matchesFilter(metadata: VectorMetadata, filter: VectorFilter = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => matchesCondition(metadata[key], condition));
+}
+
+// Pinecone rejects undefined metadata values; here they are dropped the same way
+// JSON would drop them
+function cleanMetadata(metadata: VectorMetadata): VectorMetadata {
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined && value !== null));
+}
+
+/**
+ * An in-process backend for running without cloud services: records are kept in
+ * memory, searched by brute-force cosine similarity and, with a `file`, written
+ * back to it after every change. Suits a laptop's worth of memories and documents,
+ * not a shared deployment: each process has its own copy.
+ */
+export function createLocalVectorStore({ file }: LocalVectorStoreOptions = {}): VectorStore {
+  let namespaces: Promise<Namespaces> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    namespaces ??= (async () => {
+      const loaded: Namespaces = new Map();
+      if (!file) return loaded;
+
+      let stored: StoreFile;
+      try {
+        stored = JSON.parse(await readFile(file, "utf8"));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return loaded;
+        throw error;
+      }
+      for (const [name, records] of Object.entries(stored.namespaces ?? {})) {
+        loaded.set(name, new Map(records.map(record => [record.id, record])));
+      }
+      return loaded;
+    })().catch(error => {
+      namespaces = null;
+      throw error;
+    });
+    return namespaces;
+  };
+
+  const namespaceRecords = async (namespace: string, create = false) => {
+    const loaded = await load();
+    let records = loaded.get(namespace);
+    if (!records && create) {
+      records = new Map();
+      loaded.set(namespace, records);
+    }
+    return records;
+  };
+
+  // Writes are queued so an older snapshot never replaces a newer one
+  const persist = async () => {
+    if (!file) return;
+    const loaded = await load();
+    // A failed write is reported to its caller and does not block later ones
+    writing = writing.catch(() => undefined).then(async () => {
+      const contents: StoreFile = {
+        namespaces: Object.fromEntries([...loaded].map(([name, records]) => [name, [...records.values()]])),
+      };
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(`${file}.tmp`, JSON.stringify(contents));
+      await rename(`${file}.tmp`, file);
+    });
+    await writing;
+  };
+
+  return {
+    id: "local",
+    async upsert(namespace, records) {
+      if (records.length === 0) return;
+      const stored = (await namespaceRecords(namespace, true))!;
+      for (const record of records) {
+        stored.set(record.id, { id: record.id, values: [...record.values], metadata: cleanMetadata(record.metadata) });
+      }
+      await persist();
+    },
+    async query(namespace, { vector, topK, filter, includeValues = false }) {
+      const stored = await namespaceRecords(namespace);
+      if (!stored) return [];
+
+      return [...stored.values()]
+        .filter(record => matchesFilter(record.metadata, filter))
+        .map(record => ({
+          id: record.id,
+          score: cosineSimilarity(vector, record.values),
+          values: includeValues ? [...record.values] : [],
+          metadata: { ...record.metadata },
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+    async fetch(namespace, ids) {
+      const stored = await namespaceRecords(namespace);
+      const found: Record<string, VectorRecord> = {};
+      for (const id of ids) {
+        const record = stored?.get(id);
+        if (record) found[id] = { id, values: [...record.values], metadata: { ...record.metadata } };
+      }
+      return found;
+    },
+    async update(namespace, id, { values, metadata }) {
+      const record = (await namespaceRecords(namespace))?.get(id);
+      if (!record) return; // Pinecone ignores updates to missing records too
+      if (values) record.values = [...values];
+      if (metadata) record.metadata = cleanMetadata({ ...record.metadata, ...metadata });
+      await persist();
+    },
+    async delete(namespace, ids) {
+      const stored = await namespaceRecords(namespace);
+      if (!stored) return;
+      for (const id of ids) stored.delete(id);
+      await persist();
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { Pinecone, type Index } from "@pinecone-database/pinecone";
+import type { VectorMetadata, VectorStore } from "./types";
+
+export interface PineconeVectorStoreOptions {
+  apiKey: string;
+  indexName: string;
+}
+
+// deleteMany accepts at most 1000 ids per call
+const MAX_DELETE_IDS = 1000;
+
+/**
+ * The hosted backend: one Pinecone index (cosine metric), namespaces map to
+ * Pinecone namespaces.
+ */
+export function createPineconeVectorStore({ apiKey, indexName }: PineconeVectorStoreOptions): VectorStore {
+  const index = new Pinecone({ apiKey }).index(indexName);
+  const target = (namespace: string): Index => (namespace ? index.namespace(namespace) : index);
+
+  return {
+    id: "pinecone",
+    async upsert(namespace, records) {
+      if (records.length > 0) {
+        await target(namespace).upsert(records);
+      }
+    },
+    async query(namespace, { vector, topK, filter, includeValues = false }) {
+      const results = await target(namespace).query({ vector, topK, filter, includeMetadata: true, includeValues });
+      return (results.matches ?? []).map(match => ({
+        id: match.id,
+        score: match.score ?? 0,
+        values: match.values ?? [],
+        metadata: (match.metadata ?? {}) as VectorMetadata,
+      }));
+    },
+    async fetch(namespace, ids) {
+      if (ids.length === 0) return {};
+      const { records } = await target(namespace).fetch(ids);
+      return Object.fromEntries(
+        Object.entries(records).map(([id, record]) => [
+          id,
+          { id, values: record.values ?? [], metadata: (record.metadata ?? {}) as VectorMetadata },
+        ])
+      );
+    },
+    async update(namespace, id, { values, metadata }) {
+      await target(namespace).update({ id, values, metadata });
+    },
+    async delete(namespace, ids) {
+      for (let start = 0; start < ids.length; start += MAX_DELETE_IDS) {
+        await target(namespace).deleteMany(ids.slice(start, start + MAX_DELETE_IDS));
+      }
+    },
+  };
+}
@@ -0,0 +1,45 @@
+export type VectorMetadataValue = string | number | boolean | string[];
+
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch extends VectorRecord {
+  score: number; // cosine similarity
+}
+
+/**
+ * Equality and numeric ranges on metadata fields, the subset of Pinecone's filter
+ * language every backend supports. Range conditions never match a missing field.
+ */
+export type VectorCondition = { $eq: string | number | boolean } | { $gte?: number; $lt?: number };
+
+export type VectorFilter = Record<string, VectorCondition>;
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: VectorFilter;
+  /** Return the stored embeddings with the matches (values is empty otherwise). */
+  includeValues?: boolean;
+}
+
+/**
+ * Where memories and document chunks are embedded. Records live in namespaces;
+ * "" is the default one.
+ */
+export interface VectorStore {
+  id: string;
+  upsert(namespace: string, records: VectorRecord[]): Promise<void>;
+  /** Nearest records first. */
+  query(namespace: string, query: VectorQuery): Promise<VectorMatch[]>;
+  /** The records that exist, keyed by id. */
+  fetch(namespace: string, ids: string[]): Promise<Record<string, VectorRecord>>;
+  /** Replace the embedding and/or merge metadata fields into an existing record. */
+  update(namespace: string, id: string, changes: { values?: number[]; metadata?: VectorMetadata }): Promise<void>;
+  delete(namespace: string, ids: string[]): Promise<void>;
+}
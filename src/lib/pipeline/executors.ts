@@ -0,0 +1,38 @@
+import type { PipelineContext, PipelineExecutor } from "./types";
+
+// Only the orchestrator can answer from datasets and SQL sources
+const usesGeneratedData = (context: PipelineContext) => !context.options.datasetId && !context.options.sqlSourceId;
+
+// Classifier → retriever → summarizer → validator, with phase events for streaming
+export const orchestratorExecutor: PipelineExecutor = {
+  id: "orchestrator",
+  async execute(context) {
+    const { executeMultiAgentPipeline } = await import("@/lib/langchain/agents/orchestrator");
+    return executeMultiAgentPipeline(context.input, context.userId, {
+      onEvent: context.options.onEvent,
+      datasetId: context.options.datasetId,
+      sqlSourceId: context.options.sqlSourceId,
+      useMemory: context.useMemory,
+    });
+  },
+};
+
+// LangChain tool-calling agent, falling back to its direct tool chain
+export const langchainExecutor: PipelineExecutor = {
+  id: "langchain",
+  supports: usesGeneratedData,
+  async execute(context) {
+    const { executeLangChainAgent } = await import("@/lib/langchain/agents/langchain-agent");
+    return executeLangChainAgent(context.input, context.userId, { useMemory: context.useMemory });
+  },
+};
+
+// Single Gemini call; the last resort
+export const geminiExecutor: PipelineExecutor = {
+  id: "gemini",
+  supports: usesGeneratedData,
+  async execute(context) {
+    const { executeGeminiAgent } = await import("@/lib/langchain/agents/gemini-agent");
+    return executeGeminiAgent(context.input, context.userId);
+  },
+};
@@ -0,0 +1,77 @@
+import type { DashboardOutput } from "@/types";
+import { geminiExecutor, langchainExecutor, orchestratorExecutor } from "./executors";
+import { Pipeline } from "./pipeline";
+import {
+  logQueryStage,
+  memoryContextStage,
+  normalizeTitleStage,
+  recordQueryStage,
+  refineStage,
+  rememberConversationStage,
+  validateSchemaStage,
+} from "./stages";
+import type { PipelineExecutor, PipelineRunOptions } from "./types";
+
+export { Pipeline, PipelineError, type PipelineConfig } from "./pipeline";
+export type { PipelineContext, PipelineExecutor, PipelineRunOptions, PipelineStage } from "./types";
+
+const DEFAULT_EXECUTOR_CHAIN = ["orchestrator", "langchain", "gemini"];
+
+const executors = new Map<string, PipelineExecutor>();
+
+/**
+ * Register (or replace) a pipeline executor under its id.
+ */
+export function registerPipelineExecutor(executor: PipelineExecutor): void {
+  executors.set(executor.id, executor);
+}
+
+export function listPipelineExecutors(): PipelineExecutor[] {
+  return [...executors.values()];
+}
+
+/**
+ * The declared fallback chain: PIPELINE_EXECUTORS (comma separated ids), else
+ * orchestrator → langchain → gemini.
+ */
+export function resolveExecutorChain(): PipelineExecutor[] {
+  const ids = process.env.PIPELINE_EXECUTORS
+    ? process.env.PIPELINE_EXECUTORS.split(",").map(id => id.trim()).filter(Boolean)
+    : DEFAULT_EXECUTOR_CHAIN;
+
+  return ids.map(id => {
+    const executor = executors.get(id);
+    if (!executor) {
+      throw new Error(`Unknown pipeline executor "${id}". Registered executors: ${[...executors.keys()].join(", ")}`);
+    }
+    return executor;
+  });
+}
+
+/**
+ * A pipeline with the standard stages: refinement of an existing dashboard and
+ * memory context before generation, then
+ * title normalisation, recording the query, schema validation, query logging and memory storage.
+ */
+export function createDefaultPipeline(): Pipeline {
+  return new Pipeline({
+    stages: [
+      refineStage,
+      memoryContextStage,
+      normalizeTitleStage,
+      recordQueryStage,
+      validateSchemaStage,
+      logQueryStage,
+      rememberConversationStage,
+    ],
+    executors: resolveExecutorChain(),
+  });
+}
+
+export async function runPipeline(query: string, userId: string, options: PipelineRunOptions = {}): Promise<DashboardOutput> {
+  return createDefaultPipeline().run(query, userId, options);
+}
+
+registerPipelineExecutor(orchestratorExecutor);
+registerPipelineExecutor(langchainExecutor);
+registerPipelineExecutor(geminiExecutor);
@@ -0,0 +1,108 @@
+import type { DashboardOutput } from "@/types";
+import type { PipelineContext, PipelineExecutor, PipelineRunOptions, PipelineStage } from "./types";
+
+export class PipelineError extends Error {
+  constructor(public readonly failures: PipelineContext["failures"]) {
+    super(
+      failures.length > 0
+        ? `All pipeline executors failed: ${failures.map(failure => `${failure.executor}: ${failure.error}`).join("; ")}`
+        : "No pipeline executor supports this request"
+    );
+    this.name = "PipelineError";
+  }
+}
+
+export interface PipelineConfig {
+  stages: PipelineStage[];
+  /** Executors in fallback order: the first one that succeeds produces the dashboard. */
+  executors: PipelineExecutor[];
+}
+
+/**
+ * Query → dashboard with pluggable stages around a fallback chain of executors.
+ * Every executor's output goes through the same "after" stages (validation,
+ * logging, memory), whichever one produced it.
+ */
+export class Pipeline {
+  private stages: PipelineStage[];
+  private executors: PipelineExecutor[];
+
+  constructor({ stages, executors }: PipelineConfig) {
+    this.stages = [...stages];
+    this.executors = [...executors];
+  }
+
+  /**
+   * Insert a stage, by default at the end of its phase. Use `before`/`after` with a
+   * stage id to place it, e.g. fact checking before "validate".
+   */
+  addStage(stage: PipelineStage, position: { before?: string; after?: string } = {}): this {
+    const anchor = position.before ?? position.after;
+    const index = anchor ? this.stages.findIndex(existing => existing.id === anchor) : -1;
+
+    if (anchor && index === -1) {
+      throw new Error(`Unknown pipeline stage "${anchor}"`);
+    }
+    if (index === -1) {
+      this.stages.push(stage);
+    } else {
+      this.stages.splice(position.before ? index : index + 1, 0, stage);
+    }
+    return this;
+  }
+
+  getStageIds(): string[] {
+    return this.stages.map(stage => stage.id);
+  }
+
+  getExecutorIds(): string[] {
+    return this.executors.map(executor => executor.id);
+  }
+
+  async run(query: string, userId: string, options: PipelineRunOptions = {}): Promise<DashboardOutput> {
+    const context: PipelineContext = {
+      query,
+      userId,
+      options,
+      input: query,
+      useMemory: options.useMemory ?? false,
+      failures: [],
+    };
+
+    await this.runStages("before", context);
+
+    if (!context.dashboard) {
+      await this.execute(context);
+    }
+
+    await this.runStages("after", context);
+    return context.dashboard!;
+  }
+
+  private async runStages(when: PipelineStage["when"], context: PipelineContext): Promise<void> {
+    for (const stage of this.stages) {
+      if (stage.when !== when || (stage.appliesTo && !stage.appliesTo(context))) continue;
+      await stage.run(context);
+      if (when === "before" && context.dashboard) return;
+    }
+  }
+
+  private async execute(context: PipelineContext): Promise<void> {
+    for (const executor of this.executors) {
+      if (executor.supports && !executor.supports(context)) continue;
+
+      try {
+        console.log(`[Pipeline] Running executor "${executor.id}" for user ${context.userId}`);
+        context.dashboard = await executor.execute(context);
+        context.executorId = executor.id;
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[Pipeline] Executor "${executor.id}" failed:`, message);
+        context.failures.push({ executor: executor.id, error: message });
+      }
+    }
+
+    throw new PipelineError(context.failures);
+  }
+}
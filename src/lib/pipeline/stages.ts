@@ -0,0 +1,139 @@
+import { cleanCitations, dashboardSchema } from "@/lib/schemas/dashboard";
+import { logQuery } from "@/lib/appwrite/database";
+import { userMemoryManager } from "@/lib/memory/user-memory";
+import { describeDashboardForMemory } from "@/lib/memory/consolidation";
+import { refinerAgent } from "@/lib/langchain/agents/refiner";
+import type { PipelineContext, PipelineStage } from "./types";
+
+const MAX_TITLE_LENGTH = 120;
+const MEMORY_ANSWER_SIMILARITY = 0.9;
+
+const generated = (context: PipelineContext) => context.executorId !== "memory";
+
+/**
+ * Follow-ups on the dashboard the user is looking at ("make it a line chart") edit
+ * that dashboard instead of going through the executors.
+ */
+export const refineStage: PipelineStage = {
+  id: "refine",
+  when: "before",
+  appliesTo: context => Boolean(context.options.refine),
+  async run(context) {
+    context.dashboard = await refinerAgent({ dashboard: context.options.refine!, instruction: context.query });
+    context.executorId = "refine";
+  },
+};
+
+/**
+ * Answer near-duplicate questions from memory, otherwise add the user's context to
+ * the executor input. Dataset and SQL questions are answered from the data source only.
+ */
+export const memoryContextStage: PipelineStage = {
+  id: "memory-context",
+  when: "before",
+  appliesTo: context => context.useMemory && !context.options.datasetId && !context.options.sqlSourceId,
+  async run(context) {
+    try {
+      const userContext = await userMemoryManager.buildUserContext(context.userId, context.query);
+      const similarMemories = await userMemoryManager.searchMemories(context.userId, context.query, 3, 0.75);
+      const match = similarMemories.find(memory => memory.similarity > MEMORY_ANSWER_SIMILARITY);
+
+      if (match) {
+        console.log(`[Pipeline] Answering from memory for user ${context.userId}: ${match.similarity}`);
+        context.executorId = "memory";
+        context.memoryMatch = match.context;
+        context.dashboard = {
+          type: "text",
+          title: "From Memory",
+          summary: `Based on our previous conversation: ${match.context}`,
+          isFromMemory: true,
+          data: [],
+          config: {},
+        };
+        return;
+      }
+
+      if (userContext) {
+        context.input = `${context.query}\n\n## User Context:\n${userContext}`;
+      }
+    } catch (error) {
+      console.error("[Pipeline] Memory operations failed, continuing without memory:", error);
+    }
+  },
+};
+
+export const normalizeTitleStage: PipelineStage = {
+  id: "normalize-title",
+  when: "after",
+  appliesTo: generated,
+  async run(context) {
+    const dashboard = context.dashboard!;
+    if (dashboard.title && dashboard.title.length > MAX_TITLE_LENGTH) {
+      dashboard.title = dashboard.title.substring(0, MAX_TITLE_LENGTH - 3) + "...";
+    }
+  },
+};
+
+// Keeps the question with the dashboard so exports and saved copies can show it
+export const recordQueryStage: PipelineStage = {
+  id: "record-query",
+  when: "after",
+  appliesTo: generated,
+  async run(context) {
+    context.dashboard!.query ??= context.query;
+  },
+};
+
+export const validateSchemaStage: PipelineStage = {
+  id: "validate",
+  when: "after",
+  appliesTo: generated,
+  async run(context) {
+    context.dashboard = dashboardSchema.parse(cleanCitations(context.dashboard));
+  },
+};
+
+export const logQueryStage: PipelineStage = {
+  id: "log-query",
+  when: "after",
+  appliesTo: generated,
+  async run(context) {
+    await logQuery({
+      userId: context.userId,
+      query: context.query,
+      responseType: context.dashboard!.type,
+    });
+  },
+};
+
+export const rememberConversationStage: PipelineStage = {
+  id: "remember",
+  when: "after",
+  appliesTo: context => context.useMemory,
+  async run(context) {
+    const dashboard = context.dashboard!;
+    try {
+      if (context.executorId === "memory") {
+        await userMemoryManager.processConversation(
+          context.userId,
+          context.query,
+          dashboard.summary ?? "",
+          undefined,
+          `memory_retrieval: ${context.memoryMatch}`,
+          { importanceThreshold: context.options.importanceThreshold }
+        );
+      } else {
+        await userMemoryManager.processConversation(
+          context.userId,
+          context.query,
+          describeDashboardForMemory(dashboard),
+          undefined,
+          `${dashboard.type}: ${dashboard.title}`,
+          { importanceThreshold: context.options.importanceThreshold }
+        );
+      }
+    } catch (error) {
+      console.error("[Pipeline] Failed to store conversation in memory:", error);
+    }
+  },
+};
@@ -0,0 +1,45 @@
+import type { DashboardOutput } from "@/types";
+import type { OrchestratorEvent } from "@/lib/langchain/agents/orchestrator";
+
+export interface PipelineRunOptions {
+  useMemory?: boolean;
+  datasetId?: string; // answer from an uploaded dataset
+  sqlSourceId?: string; // answer with a generated query against a SQL source
+  refine?: DashboardOutput; // edit this dashboard following the query instead of answering it afresh
+  importanceThreshold?: number; // conversations scoring below this (1-10) are not remembered
+  onEvent?: (event: OrchestratorEvent) => void;
+}
+
+export interface PipelineContext {
+  readonly query: string; // what the user asked; used for logging and memory
+  readonly userId: string;
+  readonly options: PipelineRunOptions;
+  input: string; // what executors see; stages may enrich it (e.g. with user context)
+  useMemory: boolean;
+  dashboard?: DashboardOutput;
+  executorId?: string; // who produced `dashboard`; "memory" for answers from memory, "refine" for edits
+  memoryMatch?: string; // the remembered exchange when answered from memory
+  failures: Array<{ executor: string; error: string }>;
+}
+
+/**
+ * A step around dashboard generation. "before" stages run ahead of the executor chain
+ * and may answer the query themselves by setting `dashboard`; "after" stages run once
+ * a dashboard exists, in order, and may change it.
+ */
+export interface PipelineStage {
+  id: string;
+  when: "before" | "after";
+  appliesTo?(context: PipelineContext): boolean;
+  run(context: PipelineContext): Promise<void>;
+}
+
+/**
+ * Something that turns a query into a dashboard. The pipeline tries executors in
+ * the order of its fallback chain until one succeeds.
+ */
+export interface PipelineExecutor {
+  id: string;
+  supports?(context: PipelineContext): boolean;
+  execute(context: PipelineContext): Promise<DashboardOutput>;
+}
@@ -0,0 +1,125 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Record/replay layer for model calls.
+ *
+ * LLM_REPLAY_MODE=record  call the real service and write the response to a fixture file
+ * LLM_REPLAY_MODE=replay  serve responses from fixture files only, never touch the network
+ * LLM_REPLAY_MODE=off     (default) pass straight through
+ *
+ * Fixtures live in LLM_REPLAY_DIR (default tests/fixtures/llm), one JSON file per request,
+ * named by a SHA-256 hash of the request so identical prompts replay identical answers.
+ */
+
+export type ReplayMode = "off" | "record" | "replay";
+
+const DEFAULT_FIXTURE_DIR = path.join("tests", "fixtures", "llm");
+
+export class ReplayFixtureMissingError extends Error {
+  constructor(public readonly namespace: string, public readonly key: string) {
+    super(`No replay fixture for ${namespace}/${key}. Re-run with LLM_REPLAY_MODE=record to capture it.`);
+    this.name = "ReplayFixtureMissingError";
+  }
+}
+
+interface ReplayFixture<T> {
+  namespace: string;
+  key: string;
+  request: unknown;
+  response: T;
+  recordedAt: string;
+}
+
+type ReplayStats = { hits: number; misses: number; recorded: number };
+
+// Kept on globalThis: under tsx this module can be loaded twice (once through
+// require, once through import) and both copies must count into the same stats
+const statsKey = Symbol.for("orinai.replay.stats");
+const globalStats = globalThis as typeof globalThis & { [statsKey]?: ReplayStats };
+const stats: ReplayStats = (globalStats[statsKey] ??= { hits: 0, misses: 0, recorded: 0 });
+
+export function getReplayMode(): ReplayMode {
+  const mode = process.env.LLM_REPLAY_MODE?.toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+export function getReplayStats(): Readonly<ReplayStats> {
+  return { ...stats };
+}
+
+function fixtureDir(): string {
+  return path.resolve(process.env.LLM_REPLAY_DIR || DEFAULT_FIXTURE_DIR);
+}
+
+// JSON.stringify with sorted keys so property order never changes the hash
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function fixtureKey(request: unknown): string {
+  return createHash("sha256").update(stableStringify(request)).digest("hex").slice(0, 32);
+}
+
+function fixturePath(namespace: string, key: string): string {
+  return path.join(fixtureDir(), namespace, `${key}.json`);
+}
+
+/**
+ * Wrap a network call so it can be recorded to, or replayed from, a fixture file.
+ * `request` is what identifies the call; keep volatile values (timestamps, ids) out of it.
+ */
+export async function withReplay<T>(
+  namespace: string,
+  request: unknown,
+  execute: () => Promise<T>
+): Promise<T> {
+  const mode = getReplayMode();
+  if (mode === "off") {
+    return execute();
+  }
+
+  const key = fixtureKey(request);
+  const file = fixturePath(namespace, key);
+
+  if (mode === "replay") {
+    try {
+      const fixture = JSON.parse(await fs.readFile(file, "utf8")) as ReplayFixture<T>;
+      stats.hits++;
+      console.log(`[Replay] Serving ${namespace}/${key}`);
+      return fixture.response;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        stats.misses++;
+        throw new ReplayFixtureMissingError(namespace, key);
+      }
+      throw error;
+    }
+  }
+
+  const response = await execute();
+  const fixture: ReplayFixture<T> = {
+    namespace,
+    key,
+    request,
+    response,
+    recordedAt: new Date().toISOString(),
+  };
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fixture, null, 2) + "\n", "utf8");
+  stats.recorded++;
+  console.log(`[Replay] Recorded ${namespace}/${key}`);
+
+  return response;
+}
@@ -0,0 +1,74 @@
+import { fetchJson, getPath, snippet, toPlainText } from "./http";
+import type { ConnectorRequest, RetrievalConnector } from "./types";
+
+/**
+ * Arbitrary JSON endpoint (internal APIs, knowledge bases, search services).
+ *
+ * HTTP_JSON_URL           endpoint; "{query}" is replaced with the encoded query
+ * HTTP_JSON_HEADERS       optional JSON object of request headers
+ * HTTP_JSON_RESULTS_PATH  dotted path to the result array (default: the response itself)
+ * HTTP_JSON_TITLE_FIELD / HTTP_JSON_TEXT_FIELD / HTTP_JSON_URL_FIELD
+ *                         dotted paths inside each result (default title / text / url)
+ * HTTP_JSON_SOURCE_NAME   label used for chunk sources when a result has no URL
+ */
+
+function parseHeaders(): Record<string, string> {
+  const raw = process.env.HTTP_JSON_HEADERS;
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw) as Record<string, string>;
+  } catch {
+    console.warn("[HTTP JSON] HTTP_JSON_HEADERS is not valid JSON, ignoring");
+    return {};
+  }
+}
+
+function readString(value: unknown, path: string): string {
+  const field = getPath(value, path);
+  return typeof field === "string" || typeof field === "number" ? String(field) : "";
+}
+
+export const httpJsonConnector: RetrievalConnector = {
+  id: "http-json",
+
+  isConfigured() {
+    return !!process.env.HTTP_JSON_URL;
+  },
+
+  async retrieve({ query, limit }: ConnectorRequest) {
+    const url = process.env.HTTP_JSON_URL!.replace(/\{query\}/g, encodeURIComponent(query));
+    const json = await fetchJson<unknown>(url, { headers: parseHeaders() });
+
+    const results = getPath(json, process.env.HTTP_JSON_RESULTS_PATH);
+    if (!Array.isArray(results)) {
+      throw new Error(`HTTP JSON connector expected an array at "${process.env.HTTP_JSON_RESULTS_PATH || "<root>"}"`);
+    }
+
+    const sourceName = process.env.HTTP_JSON_SOURCE_NAME || new URL(url).hostname;
+    const items = results
+      .map(result => ({
+        title: toPlainText(readString(result, process.env.HTTP_JSON_TITLE_FIELD || "title")),
+        text: toPlainText(readString(result, process.env.HTTP_JSON_TEXT_FIELD || "text")),
+        url: readString(result, process.env.HTTP_JSON_URL_FIELD || "url"),
+      }))
+      .filter(item => item.text || item.title)
+      .slice(0, limit);
+
+    return {
+      chunks: items.map((item, index) => ({
+        text: item.title && item.text ? `${item.title}: ${item.text}` : item.text || item.title,
+        source: item.url || sourceName,
+        relevance: Math.max(0.5, 0.85 - index * 0.05),
+      })),
+      // Only results with a real URL become citations
+      citations: items
+        .filter(item => item.url.startsWith("http"))
+        .map(item => ({
+          title: item.title || sourceName,
+          url: item.url,
+          snippet: snippet(item.text),
+        })),
+    };
+  },
+};
@@ -0,0 +1,81 @@
+// Shared fetch/text helpers for the retrieval connectors
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const MAX_CHUNK_LENGTH = 1200;
+
+function resolveTimeout(): number {
+  const timeout = Number(process.env.RETRIEVAL_TIMEOUT_MS);
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS;
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(resolveTimeout()) });
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    throw new Error(`Request to ${url} failed with ${response.status}: ${errorText.slice(0, 200)}`);
+  }
+  return response;
+}
+
+export async function fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetchWithTimeout(url, {
+    ...init,
+    headers: { Accept: "application/json", ...init.headers },
+  });
+  return (await response.json()) as T;
+}
+
+export async function fetchText(url: string, init: RequestInit = {}): Promise<string> {
+  const response = await fetchWithTimeout(url, init);
+  return response.text();
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Strip markup and collapse whitespace so snippets are safe to feed into prompts.
+ */
+export function toPlainText(html: string): string {
+  const text = decodeEntities(
+    html
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<[^>]+>/g, " ")
+  );
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > MAX_CHUNK_LENGTH ? `${collapsed.slice(0, MAX_CHUNK_LENGTH)}…` : collapsed;
+}
+
+export function snippet(text: string, length = 200): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
+
+/**
+ * Resolve a dotted path ("data.items.0.title") inside a JSON value.
+ */
+export function getPath(value: unknown, path: string | undefined): unknown {
+  if (!path) return value;
+  return path.split(".").reduce<unknown>((current, key) => {
+    if (current === null || current === undefined) return undefined;
+    return (current as Record<string, unknown>)[key];
+  }, value);
+}
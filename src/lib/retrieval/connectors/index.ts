@@ -0,0 +1,82 @@
+import type { RetrievalResult } from "@/types";
+import { withReplay } from "@/lib/replay/fixtures";
+import { httpJsonConnector } from "./http-json";
+import { rssConnector } from "./rss";
+import type { RetrievalConnector } from "./types";
+import { webSearchConnector } from "./web-search";
+import { wikipediaConnector } from "./wikipedia";
+
+export type { ConnectorRequest, RetrievalConnector } from "./types";
+
+const DEFAULT_RESULTS_PER_CONNECTOR = 3;
+
+const connectors = new Map<string, RetrievalConnector>();
+
+/**
+ * Register (or replace) a retrieval connector under its id.
+ */
+export function registerRetrievalConnector(connector: RetrievalConnector): void {
+  connectors.set(connector.id, connector);
+}
+
+export function listRetrievalConnectors(): RetrievalConnector[] {
+  return [...connectors.values()];
+}
+
+/**
+ * Connectors that will be queried: RETRIEVAL_CONNECTORS (comma separated ids) narrows
+ * the registered set; each connector must also report itself configured.
+ */
+export function getActiveConnectors(): RetrievalConnector[] {
+  const allowList = process.env.RETRIEVAL_CONNECTORS?.split(",").map(id => id.trim()).filter(Boolean);
+
+  return listRetrievalConnectors().filter(connector =>
+    (!allowList || allowList.includes(connector.id)) && connector.isConfigured()
+  );
+}
+
+/**
+ * Query every active connector in parallel and merge the results, most relevant first.
+ * A failing connector is logged and skipped so one bad source never blocks retrieval.
+ */
+export async function retrieveExternalContext(
+  query: string,
+  limit = DEFAULT_RESULTS_PER_CONNECTOR
+): Promise<RetrievalResult> {
+  const active = getActiveConnectors();
+  console.log("[Retrieval] Querying connectors:", active.map(connector => connector.id));
+
+  const settled = await Promise.allSettled(
+    active.map(connector =>
+      withReplay("retrieval", { connector: connector.id, query, limit }, () =>
+        connector.retrieve({ query, limit })
+      )
+    )
+  );
+
+  const merged: RetrievalResult = { chunks: [], citations: [] };
+  const seenUrls = new Set<string>();
+
+  settled.forEach((outcome, index) => {
+    if (outcome.status === "rejected") {
+      console.warn(`[Retrieval] Connector ${active[index].id} failed:`, outcome.reason);
+      return;
+    }
+
+    merged.chunks.push(...outcome.value.chunks);
+    for (const citation of outcome.value.citations) {
+      if (!seenUrls.has(citation.url)) {
+        seenUrls.add(citation.url);
+        merged.citations.push(citation);
+      }
+    }
+  });
+
+  merged.chunks.sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0));
+  return merged;
+}
+
+registerRetrievalConnector(webSearchConnector);
+registerRetrievalConnector(wikipediaConnector);
+registerRetrievalConnector(rssConnector);
+registerRetrievalConnector(httpJsonConnector);
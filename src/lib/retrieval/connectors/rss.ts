@@ -0,0 +1,96 @@
+import { fetchText, snippet, toPlainText } from "./http";
+import type { ConnectorRequest, RetrievalConnector } from "./types";
+
+/**
+ * RSS 2.0 / Atom feeds listed in RSS_FEED_URLS (comma separated). Items are ranked by
+ * how many query terms they mention; items mentioning none are dropped.
+ */
+
+interface FeedItem {
+  title: string;
+  url: string;
+  text: string;
+  feedTitle: string;
+}
+
+function readTag(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+  return match ? match[1] : "";
+}
+
+function readLink(entry: string): string {
+  // Atom: <link rel="alternate" href="..."/>, RSS: <link>...</link>
+  const atomLinks = [...entry.matchAll(/<link\b([^>]*?)\/?>/gi)].map(match => match[1]);
+  const alternate = atomLinks.find(attrs => !/rel="(?!alternate)/i.test(attrs) && /href="/i.test(attrs));
+  if (alternate) {
+    return toPlainText(alternate.match(/href="([^"]+)"/i)![1]);
+  }
+  return toPlainText(readTag(entry, "link") || readTag(entry, "guid"));
+}
+
+export function parseFeed(xml: string): FeedItem[] {
+  const feedTitle = toPlainText(readTag(xml.replace(/<(item|entry)\b[\s\S]*$/i, ""), "title"));
+  const entries = xml.match(/<(item|entry)\b[\s\S]*?<\/\1>/gi) ?? [];
+
+  return entries.map(entry => ({
+    title: toPlainText(readTag(entry, "title")),
+    url: readLink(entry),
+    text: toPlainText(
+      readTag(entry, "description") || readTag(entry, "summary") || readTag(entry, "content")
+    ),
+    feedTitle,
+  }));
+}
+
+function scoreItem(item: FeedItem, terms: string[]): number {
+  const haystack = `${item.title} ${item.text}`.toLowerCase();
+  const matches = terms.filter(term => haystack.includes(term)).length;
+  return terms.length > 0 ? matches / terms.length : 0;
+}
+
+function resolveFeedUrls(): string[] {
+  return (process.env.RSS_FEED_URLS || "")
+    .split(",")
+    .map(url => url.trim())
+    .filter(Boolean);
+}
+
+export const rssConnector: RetrievalConnector = {
+  id: "rss",
+
+  isConfigured() {
+    return resolveFeedUrls().length > 0;
+  },
+
+  async retrieve({ query, limit }: ConnectorRequest) {
+    const terms = query.toLowerCase().split(/\W+/).filter(term => term.length > 2);
+
+    const feeds = await Promise.allSettled(resolveFeedUrls().map(url => fetchText(url)));
+    const items = feeds.flatMap((feed, index) => {
+      if (feed.status === "rejected") {
+        console.warn(`[RSS] Feed ${resolveFeedUrls()[index]} failed:`, feed.reason);
+        return [];
+      }
+      return parseFeed(feed.value);
+    });
+
+    const ranked = items
+      .map(item => ({ item, score: scoreItem(item, terms) }))
+      .filter(({ item, score }) => score > 0 && item.url)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    return {
+      chunks: ranked.map(({ item, score }) => ({
+        text: item.text ? `${item.title}: ${item.text}` : item.title,
+        source: item.feedTitle || item.url,
+        relevance: 0.5 + score * 0.4,
+      })),
+      citations: ranked.map(({ item }) => ({
+        title: item.title || item.url,
+        url: item.url,
+        snippet: snippet(item.text),
+      })),
+    };
+  },
+};
@@ -0,0 +1,16 @@
+import type { RetrievalResult } from "@/types";
+
+export interface ConnectorRequest {
+  query: string;
+  limit: number;
+}
+
+/**
+ * An external knowledge source. Connectors return chunks with real citations
+ * and throw on transport errors; the registry isolates failures per connector.
+ */
+export interface RetrievalConnector {
+  id: string;
+  isConfigured(): boolean;
+  retrieve(request: ConnectorRequest): Promise<RetrievalResult>;
+}
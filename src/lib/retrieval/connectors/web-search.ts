@@ -0,0 +1,83 @@
+import type { DashboardCitation } from "@/types";
+import { fetchJson, getPath, snippet, toPlainText } from "./http";
+import type { ConnectorRequest, RetrievalConnector } from "./types";
+
+/**
+ * Generic web search API. Works with SearXNG, Brave Search and Bing-style responses
+ * out of the box; anything else can point WEB_SEARCH_RESULTS_PATH at its result list.
+ *
+ * WEB_SEARCH_API_URL      search endpoint, queried as ?q=<query>
+ * WEB_SEARCH_API_KEY      optional, sent in WEB_SEARCH_API_KEY_HEADER (default Authorization: Bearer)
+ */
+
+interface SearchHit {
+  title?: string;
+  name?: string;
+  url?: string;
+  link?: string;
+  content?: string;
+  description?: string;
+  snippet?: string;
+}
+
+const KNOWN_RESULT_PATHS = ["results", "web.results", "webPages.value", "items", "organic_results"];
+
+function findResults(json: unknown): SearchHit[] {
+  const configuredPath = process.env.WEB_SEARCH_RESULTS_PATH;
+  for (const path of configuredPath ? [configuredPath] : KNOWN_RESULT_PATHS) {
+    const results = getPath(json, path);
+    if (Array.isArray(results)) {
+      return results as SearchHit[];
+    }
+  }
+  return [];
+}
+
+function buildHeaders(): Record<string, string> {
+  const apiKey = process.env.WEB_SEARCH_API_KEY;
+  if (!apiKey) return {};
+
+  const header = process.env.WEB_SEARCH_API_KEY_HEADER || "Authorization";
+  return { [header]: header === "Authorization" ? `Bearer ${apiKey}` : apiKey };
+}
+
+export const webSearchConnector: RetrievalConnector = {
+  id: "web-search",
+
+  isConfigured() {
+    return !!process.env.WEB_SEARCH_API_URL;
+  },
+
+  async retrieve({ query, limit }: ConnectorRequest) {
+    const url = new URL(process.env.WEB_SEARCH_API_URL!);
+    url.searchParams.set("q", query);
+    if (!url.searchParams.has("format")) {
+      url.searchParams.set("format", "json"); // SearXNG needs this, other APIs ignore it
+    }
+
+    const json = await fetchJson<unknown>(url.toString(), { headers: buildHeaders() });
+    const hits = findResults(json)
+      .map(hit => ({
+        title: toPlainText(hit.title || hit.name || ""),
+        url: hit.url || hit.link || "",
+        text: toPlainText(hit.content || hit.description || hit.snippet || ""),
+      }))
+      .filter(hit => hit.url.startsWith("http") && (hit.title || hit.text))
+      .slice(0, limit);
+
+    const citations: DashboardCitation[] = hits.map(hit => ({
+      title: hit.title || hit.url,
+      url: hit.url,
+      snippet: snippet(hit.text),
+    }));
+
+    return {
+      chunks: hits.map((hit, index) => ({
+        text: hit.title ? `${hit.title}: ${hit.text}` : hit.text,
+        source: hit.url,
+        relevance: Math.max(0.5, 0.9 - index * 0.05),
+      })),
+      citations,
+    };
+  },
+};
@@ -0,0 +1,74 @@
+import { fetchJson, snippet, toPlainText } from "./http";
+import type { ConnectorRequest, RetrievalConnector } from "./types";
+
+// Any MediaWiki with the REST API works, e.g. https://de.wikipedia.org
+const DEFAULT_BASE_URL = "https://en.wikipedia.org";
+
+interface WikipediaSearchResponse {
+  pages?: Array<{ key: string; title: string; excerpt?: string; description?: string | null }>;
+}
+
+interface WikipediaSummaryResponse {
+  title?: string;
+  extract?: string;
+  content_urls?: { desktop?: { page?: string } };
+}
+
+function resolveBaseUrl(): string {
+  return (process.env.WIKIPEDIA_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+export const wikipediaConnector: RetrievalConnector = {
+  id: "wikipedia",
+
+  // Public API, no key required
+  isConfigured() {
+    return true;
+  },
+
+  async retrieve({ query, limit }: ConnectorRequest) {
+    const baseUrl = resolveBaseUrl();
+    const search = await fetchJson<WikipediaSearchResponse>(
+      `${baseUrl}/w/rest.php/v1/search/page?q=${encodeURIComponent(query)}&limit=${limit}`
+    );
+    const pages = (search.pages ?? []).slice(0, limit);
+
+    const articles = await Promise.all(
+      pages.map(async page => {
+        const fallbackUrl = `${baseUrl}/wiki/${encodeURIComponent(page.key)}`;
+        try {
+          const summary = await fetchJson<WikipediaSummaryResponse>(
+            `${baseUrl}/api/rest_v1/page/summary/${encodeURIComponent(page.key)}`
+          );
+          return {
+            title: summary.title || page.title,
+            url: summary.content_urls?.desktop?.page || fallbackUrl,
+            text: toPlainText(summary.extract || page.excerpt || ""),
+          };
+        } catch (error) {
+          console.warn(`[Wikipedia] Summary failed for ${page.key}, using search excerpt:`, error);
+          return {
+            title: page.title,
+            url: fallbackUrl,
+            text: toPlainText(page.excerpt || page.description || ""),
+          };
+        }
+      })
+    );
+
+    const withText = articles.filter(article => article.text);
+
+    return {
+      chunks: withText.map((article, index) => ({
+        text: `${article.title}: ${article.text}`,
+        source: `Wikipedia: ${article.title}`,
+        relevance: Math.max(0.5, 0.85 - index * 0.05),
+      })),
+      citations: withText.map(article => ({
+        title: article.title,
+        url: article.url,
+        snippet: snippet(article.text),
+      })),
+    };
+  },
+};
@@ -0,0 +1,138 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated
+// in UTC. Supports "*", lists, ranges, steps and the @hourly/@daily/@weekly/@monthly
+// shorthands: enough for "every weekday at 9" without a scheduling dependency.
+
+/**
+ * Raised for schedules that cannot be parsed or run too often. API routes surface
+ * these as 400s.
+ */
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleError";
+  }
+}
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+const PRESETS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+export const MIN_SCHEDULE_INTERVAL_MINUTES = 15;
+const MINUTE = 60 * 1000;
+const SEARCH_LIMIT_DAYS = 366 * 5; // covers Feb 29 schedules
+
+function parseField(source: string, { name, min, max }: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of source.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw new ScheduleError(`Invalid ${name} "${part}"`);
+
+    const [, range, start, end, stepText] = match;
+    const from = range === "*" ? min : Number(start);
+    const to = range === "*" ? max : end !== undefined ? Number(end) : stepText ? max : from;
+    const step = stepText ? Number(stepText) : 1;
+    if (from < min || to > max || from > to || step < 1) {
+      throw new ScheduleError(`${name} "${part}" is outside ${min}-${max}`);
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = PRESETS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new ScheduleError(`Expected 5 fields (minute hour day month weekday), got "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: expression.trim(),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsDayOfMonth: parts[2] !== "*",
+    restrictsDayOfWeek: parts[4] !== "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` that the schedule fires.
+ */
+export function nextRun(schedule: CronSchedule | string, after: Date): Date {
+  const cron = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  const candidate = new Date(Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE);
+  const limit = after.getTime() + SEARCH_LIMIT_DAYS * 24 * 60 * MINUTE;
+
+  while (candidate.getTime() <= limit) {
+    if (!matchesDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setTime(candidate.getTime() + MINUTE);
+      continue;
+    }
+    return candidate;
+  }
+  throw new ScheduleError(`"${cron.expression}" never fires`);
+}
+
+/**
+ * Parse a schedule for saving: it must fire, and not more often than every
+ * MIN_SCHEDULE_INTERVAL_MINUTES (each run costs a full generation).
+ */
+export function validateSchedule(expression: string, now: Date = new Date()): CronSchedule {
+  const schedule = parseCron(expression);
+  let previous = nextRun(schedule, now);
+  for (let run = 0; run < 24; run++) {
+    const next = nextRun(schedule, previous);
+    if (next.getTime() - previous.getTime() < MIN_SCHEDULE_INTERVAL_MINUTES * MINUTE) {
+      throw new ScheduleError(`Schedules may run at most every ${MIN_SCHEDULE_INTERVAL_MINUTES} minutes`);
+    }
+    previous = next;
+  }
+  return schedule;
+}
@@ -0,0 +1,98 @@
+import type { DashboardSnapshot } from "@/types";
+import type { SavedQueryRecord } from "@/lib/appwrite/database";
+import { processQueryWithMemory } from "@/lib/langchain/pipeline-with-memory";
+import { nextRun } from "./cron";
+import { addSnapshot, listDueSavedQueries, recordSavedQueryRun } from "./store";
+
+// An in-process job runner for saved queries: a timer polls for due queries and
+// reruns them through the normal generation pipeline. No external scheduler.
+
+const DEFAULT_POLL_INTERVAL_MS = 60_000;
+const MAX_ERROR_LENGTH = 1000;
+
+/**
+ * Generate the saved query now and store the result as its next snapshot. Failures
+ * are recorded on the saved query rather than thrown.
+ */
+export async function runSavedQuery(savedQuery: SavedQueryRecord, now: Date = new Date()): Promise<DashboardSnapshot | null> {
+  try {
+    const dashboard = await processQueryWithMemory(savedQuery.query, savedQuery.userId, {
+      useMemory: savedQuery.useMemory,
+      datasetId: savedQuery.datasetId ?? undefined,
+      sqlSourceId: savedQuery.sqlSourceId ?? undefined,
+    });
+    const snapshot = await addSnapshot(savedQuery, dashboard);
+    await recordSavedQueryRun(savedQuery.savedQueryId, { lastRunAt: now.toISOString(), lastStatus: "success", lastError: null });
+    return snapshot;
+  } catch (error) {
+    console.error(`[Scheduler] Saved query ${savedQuery.savedQueryId} failed`, error);
+    await recordSavedQueryRun(savedQuery.savedQueryId, {
+      lastRunAt: now.toISOString(),
+      lastStatus: "error",
+      lastError: (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH),
+    });
+    return null;
+  }
+}
+
+/**
+ * Run every saved query whose next run is due, one at a time. Each query's next
+ * run is moved forward before it runs, so a slow or failing generation is not
+ * retried every tick, and missed runs (e.g. while the server was down) collapse
+ * into one.
+ */
+export async function runDueSavedQueries(now: Date = new Date()): Promise<number> {
+  const due = await listDueSavedQueries(now);
+  let runs = 0;
+
+  for (const savedQuery of due) {
+    const claimed = await recordSavedQueryRun(savedQuery.savedQueryId, {
+      nextRunAt: nextRun(savedQuery.schedule, now).toISOString(),
+    });
+    if (!claimed) continue;
+
+    await runSavedQuery(savedQuery, now);
+    runs++;
+  }
+  return runs;
+}
+
+export interface SchedulerHandle {
+  stop(): void;
+}
+
+let activeScheduler: SchedulerHandle | null = null;
+
+/**
+ * Poll for due saved queries every `intervalMs` (SCHEDULER_POLL_INTERVAL_MS, default
+ * one minute). A tick is skipped while the previous one is still running. Starting
+ * twice returns the running scheduler.
+ */
+export function startScheduler(intervalMs: number = Number(process.env.SCHEDULER_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS): SchedulerHandle {
+  if (activeScheduler) return activeScheduler;
+
+  let isRunning = false;
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      const runs = await runDueSavedQueries();
+      if (runs > 0) console.log(`[Scheduler] Ran ${runs} saved ${runs === 1 ? "query" : "queries"}`);
+    } catch (error) {
+      console.error("[Scheduler] Tick failed", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  console.log(`[Scheduler] Polling for due saved queries every ${Math.round(intervalMs / 1000)}s`);
+
+  activeScheduler = {
+    stop() {
+      clearInterval(timer);
+      activeScheduler = null;
+    },
+  };
+  return activeScheduler;
+}
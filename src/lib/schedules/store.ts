@@ -0,0 +1,275 @@
+import { randomUUID } from "crypto";
+import type { DashboardOutput, DashboardSnapshot, SavedQuery, SavedQueryRunStatus } from "@/types";
+import {
+  deleteDashboardSnapshots,
+  deleteSavedQuery,
+  getDashboardSnapshots,
+  getDueSavedQueries,
+  getSavedQuery,
+  getUserSavedQueries,
+  saveDashboardSnapshot,
+  saveSavedQuery,
+  updateSavedQuery,
+  type DashboardSnapshotRecord,
+  type SavedQueryRecord,
+} from "@/lib/appwrite/database";
+import { nextRun, ScheduleError, validateSchedule } from "./cron";
+
+export const MAX_SAVED_QUERY_LENGTH = 2000;
+const MAX_NAME_LENGTH = 120;
+
+export interface SavedQueryInput {
+  name?: unknown;
+  query?: unknown;
+  schedule?: unknown;
+  datasetId?: unknown;
+  sqlSourceId?: unknown;
+  useMemory?: unknown;
+  enabled?: unknown;
+}
+
+// Without Appwrite credentials saved queries and their history live in process memory
+const localSavedQueries = new Map<string, SavedQueryRecord>();
+const localSnapshots = new Map<string, DashboardSnapshotRecord[]>(); // by savedQueryId, oldest first
+
+function hasAppwriteConfig(): boolean {
+  return (
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY)
+  );
+}
+
+function toSavedQuery(record: SavedQueryRecord): SavedQuery {
+  return {
+    savedQueryId: record.savedQueryId,
+    name: record.name,
+    query: record.query,
+    schedule: record.schedule,
+    datasetId: record.datasetId ?? undefined,
+    sqlSourceId: record.sqlSourceId ?? undefined,
+    useMemory: record.useMemory,
+    enabled: record.enabled,
+    nextRunAt: record.nextRunAt ?? null,
+    lastRunAt: record.lastRunAt ?? null,
+    lastStatus: (record.lastStatus as SavedQueryRunStatus | null | undefined) ?? null,
+    lastError: record.lastError ?? null,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+function toSnapshot(record: DashboardSnapshotRecord): DashboardSnapshot {
+  return {
+    snapshotId: record.snapshotId,
+    savedQueryId: record.savedQueryId,
+    version: record.version,
+    dashboard: JSON.parse(record.dashboard) as DashboardOutput,
+    createdAt: record.createdAt,
+  };
+}
+
+function parseText(value: unknown, field: string, maxLength: number): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ScheduleError(`${field} is required`);
+  }
+  if (value.length > maxLength) {
+    throw new ScheduleError(`${field} must be at most ${maxLength} characters`);
+  }
+  return value.trim();
+}
+
+// null or "" clears the id; undefined leaves it alone
+function parseOptionalId(value: unknown, field: string): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  if (typeof value !== "string") throw new ScheduleError(`${field} must be a string`);
+  return value;
+}
+
+function parseBoolean(value: unknown, field: string): boolean | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "boolean") throw new ScheduleError(`${field} must be true or false`);
+  return value;
+}
+
+/**
+ * Save a query to rerun on `schedule`. Memory is off by default: a refresh that
+ * answers from memory would just repeat the previous snapshot.
+ */
+export async function createSavedQuery(userId: string, input: SavedQueryInput, now: Date = new Date()): Promise<SavedQuery> {
+  const query = parseText(input.query, "query", MAX_SAVED_QUERY_LENGTH);
+  const schedule = validateSchedule(parseText(input.schedule, "schedule", 100), now);
+  const enabled = parseBoolean(input.enabled, "enabled") ?? true;
+
+  const savedQuery = {
+    savedQueryId: randomUUID().replace(/-/g, ""),
+    userId,
+    name: input.name === undefined || input.name === "" ? query.slice(0, MAX_NAME_LENGTH) : parseText(input.name, "name", MAX_NAME_LENGTH),
+    query,
+    schedule: schedule.expression,
+    datasetId: parseOptionalId(input.datasetId, "datasetId") ?? null,
+    sqlSourceId: parseOptionalId(input.sqlSourceId, "sqlSourceId") ?? null,
+    useMemory: parseBoolean(input.useMemory, "useMemory") ?? false,
+    enabled,
+    nextRunAt: enabled ? nextRun(schedule, now).toISOString() : null,
+    lastRunAt: null,
+    lastStatus: null,
+    lastError: null,
+  };
+
+  if (!hasAppwriteConfig()) {
+    const timestamp = now.toISOString();
+    const record = { ...savedQuery, createdAt: timestamp, updatedAt: timestamp };
+    localSavedQueries.set(record.savedQueryId, record);
+    return toSavedQuery(record);
+  }
+
+  const record = await saveSavedQuery(savedQuery);
+  if (!record) {
+    throw new Error("Failed to save saved query");
+  }
+  return toSavedQuery(record);
+}
+
+// The raw record, for the runner; null when it does not exist or belongs to someone else
+export async function getSavedQueryRecord(savedQueryId: string, userId?: string): Promise<SavedQueryRecord | null> {
+  const record = hasAppwriteConfig() ? await getSavedQuery(savedQueryId) : localSavedQueries.get(savedQueryId) ?? null;
+  if (!record || (userId !== undefined && record.userId !== userId)) return null;
+  return record;
+}
+
+export async function listSavedQueries(userId: string): Promise<SavedQuery[]> {
+  const records = hasAppwriteConfig()
+    ? await getUserSavedQueries(userId)
+    : [...localSavedQueries.values()]
+        .filter(record => record.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return records.map(toSavedQuery);
+}
+
+export async function listDueSavedQueries(now: Date): Promise<SavedQueryRecord[]> {
+  if (hasAppwriteConfig()) return getDueSavedQueries(now.toISOString());
+  return [...localSavedQueries.values()]
+    .filter(record => record.enabled && record.nextRunAt && record.nextRunAt <= now.toISOString())
+    .sort((a, b) => (a.nextRunAt ?? "").localeCompare(b.nextRunAt ?? ""));
+}
+
+async function writeSavedQuery(
+  savedQueryId: string,
+  changes: Partial<Omit<SavedQueryRecord, "$id" | "savedQueryId" | "userId" | "createdAt" | "updatedAt">>
+): Promise<SavedQueryRecord | null> {
+  if (hasAppwriteConfig()) return updateSavedQuery(savedQueryId, changes);
+
+  const record = localSavedQueries.get(savedQueryId);
+  if (!record) return null;
+  const updated = { ...record, ...changes, updatedAt: new Date().toISOString() };
+  localSavedQueries.set(savedQueryId, updated);
+  return updated;
+}
+
+/**
+ * Change a saved query. Changing the schedule or re-enabling it recomputes the
+ * next run from `now`; pausing clears it. Returns null when the query does not
+ * exist or belongs to someone else.
+ */
+export async function editSavedQuery(
+  userId: string,
+  savedQueryId: string,
+  input: SavedQueryInput,
+  now: Date = new Date()
+): Promise<SavedQuery | null> {
+  const existing = await getSavedQueryRecord(savedQueryId, userId);
+  if (!existing) return null;
+
+  const changes: Partial<SavedQueryRecord> = {};
+  if (input.name !== undefined) changes.name = parseText(input.name, "name", MAX_NAME_LENGTH);
+  if (input.query !== undefined) changes.query = parseText(input.query, "query", MAX_SAVED_QUERY_LENGTH);
+  const datasetId = parseOptionalId(input.datasetId, "datasetId");
+  if (datasetId !== undefined) changes.datasetId = datasetId;
+  const sqlSourceId = parseOptionalId(input.sqlSourceId, "sqlSourceId");
+  if (sqlSourceId !== undefined) changes.sqlSourceId = sqlSourceId;
+  const useMemory = parseBoolean(input.useMemory, "useMemory");
+  if (useMemory !== undefined) changes.useMemory = useMemory;
+  const enabled = parseBoolean(input.enabled, "enabled");
+  if (enabled !== undefined) changes.enabled = enabled;
+
+  const schedule = input.schedule !== undefined ? validateSchedule(parseText(input.schedule, "schedule", 100), now) : null;
+  if (schedule) changes.schedule = schedule.expression;
+
+  const isEnabled = changes.enabled ?? existing.enabled;
+  if (!isEnabled) {
+    changes.nextRunAt = null;
+  } else if (schedule || !existing.enabled || !existing.nextRunAt) {
+    changes.nextRunAt = nextRun(schedule ?? existing.schedule, now).toISOString();
+  }
+
+  const record = await writeSavedQuery(savedQueryId, changes);
+  return record ? toSavedQuery(record) : null;
+}
+
+// Bookkeeping for the runner: claim the next slot, then record the outcome
+export async function recordSavedQueryRun(
+  savedQueryId: string,
+  changes: Pick<Partial<SavedQueryRecord>, "nextRunAt" | "lastRunAt" | "lastStatus" | "lastError">
+): Promise<SavedQueryRecord | null> {
+  return writeSavedQuery(savedQueryId, changes);
+}
+
+/**
+ * Delete a saved query together with its snapshot history.
+ */
+export async function removeSavedQuery(userId: string, savedQueryId: string): Promise<boolean> {
+  const existing = await getSavedQueryRecord(savedQueryId, userId);
+  if (!existing) return false;
+
+  if (!hasAppwriteConfig()) {
+    localSnapshots.delete(savedQueryId);
+    return localSavedQueries.delete(savedQueryId);
+  }
+
+  await deleteDashboardSnapshots(savedQueryId);
+  return deleteSavedQuery(savedQueryId);
+}
+
+/**
+ * Store `dashboard` as the next version in the saved query's history.
+ */
+export async function addSnapshot(savedQuery: SavedQueryRecord, dashboard: DashboardOutput): Promise<DashboardSnapshot> {
+  const [latest] = await listSnapshotRecords(savedQuery.savedQueryId, 1);
+  const snapshot = {
+    snapshotId: randomUUID().replace(/-/g, ""),
+    savedQueryId: savedQuery.savedQueryId,
+    userId: savedQuery.userId,
+    version: (latest?.version ?? 0) + 1,
+    dashboard: JSON.stringify(dashboard),
+  };
+
+  if (!hasAppwriteConfig()) {
+    const record = { ...snapshot, createdAt: new Date().toISOString() };
+    localSnapshots.set(snapshot.savedQueryId, [...(localSnapshots.get(snapshot.savedQueryId) ?? []), record]);
+    return toSnapshot(record);
+  }
+
+  const record = await saveDashboardSnapshot(snapshot);
+  if (!record) {
+    throw new Error("Failed to save dashboard snapshot");
+  }
+  return toSnapshot(record);
+}
+
+async function listSnapshotRecords(savedQueryId: string, limit: number): Promise<DashboardSnapshotRecord[]> {
+  if (hasAppwriteConfig()) return getDashboardSnapshots(savedQueryId, limit);
+  return [...(localSnapshots.get(savedQueryId) ?? [])].reverse().slice(0, limit);
+}
+
+/**
+ * The saved query's history, newest first. Null when the query does not exist or
+ * belongs to someone else.
+ */
+export async function listSnapshots(userId: string, savedQueryId: string, limit: number = 100): Promise<DashboardSnapshot[] | null> {
+  const savedQuery = await getSavedQueryRecord(savedQueryId, userId);
+  if (!savedQuery) return null;
+  const records = await listSnapshotRecords(savedQueryId, limit);
+  return records.map(toSnapshot);
+}
@@ -1,54 +1,320 @@
 import { z } from "zod";
+import type { DashboardConfig, DashboardDataPoint, DashboardOutput, VisualizationType } from "@/types";
+import { findLayoutProblems, LAYOUT_COLUMNS, MAX_DASHBOARD_KPIS, MAX_DASHBOARD_PANELS } from "@/lib/charts/layout";
 
-export const dashboardSchema = z.object({
-  type: z.enum([
-    "pie_chart",
-    "bar_chart",
-    "line_chart",
-    "table",
-    "text",
-    "timeline",
-    "comparison",
-    "infographic",
-  ]),
-  title: z.string().min(5).max(120),
-  data: z.array(z.record(z.any())).min(1).max(100),
-  config: z
+// The canonical dashboard schema: the classifier, summarizer, UI validator and
+// pipeline all validate against it, so every type a renderer can draw survives end to end.
+
+export const visualizationTypes = [
+  "pie_chart",
+  "bar_chart",
+  "line_chart",
+  "area_chart",
+  "scatter_plot",
+  "radar_chart",
+  "treemap",
+  "heatmap",
+  "funnel_chart",
+  "gauge_chart",
+  "waterfall_chart",
+  "sankey_diagram",
+  "bubble_chart",
+  "candlestick_chart",
+  "histogram",
+  "table",
+  "text",
+  "timeline",
+  "comparison",
+  "infographic",
+  "analytics_summary",
+] as const satisfies readonly VisualizationType[];
+
+export const visualizationTypeSchema = z.enum(visualizationTypes);
+
+export const dashboardDataPointSchema = z
+  .object({
+    label: z.string().optional(),
+    value: z.number().optional(),
+    category: z.string().optional(),
+  })
+  .catchall(z.unknown());
+
+export const dashboardConfigSchema = z
+  .object({
+    xAxis: z.string().optional(),
+    yAxis: z.string().optional(),
+    colors: z.array(z.string()).optional(),
+    legend: z.boolean().optional(),
+    animation: z.boolean().optional(),
+    responsive: z.boolean().optional(),
+    gridLines: z.boolean().optional(),
+    dataLabels: z.boolean().optional(),
+    zoom: z.boolean().optional(),
+    brush: z.boolean().optional(),
+    tooltip: z
+      .object({
+        enabled: z.boolean(),
+        format: z.string().optional(),
+        backgroundColor: z.string().optional(),
+      })
+      .optional(),
+    chartSpecific: z
+      .object({
+        polarAngleAxis: z.string().optional(),
+        polarRadiusAxis: z.string().optional(),
+        intensity: z.string().optional(),
+        size: z.string().optional(),
+        min: z.number().optional(),
+        max: z.number().optional(),
+        gaugeTarget: z.number().optional(),
+        hierarchy: z.array(z.string()).optional(),
+        sankeySource: z.string().optional(),
+        sankeyTarget: z.string().optional(),
+        sankeyValue: z.string().optional(),
+      })
+      .optional(),
+  })
+  .catchall(z.unknown());
+
+export const dashboardSublinkSchema = z.object({
+  label: z.string(),
+  route: z.string().startsWith("/"),
+  context: z.record(z.unknown()),
+  category: z.string().optional(),
+  priority: z.number().optional(),
+  analytics: z
     .object({
-      xAxis: z.string().optional(),
-      yAxis: z.string().optional(),
-      colors: z.array(z.string()).optional(),
-      legend: z.boolean().optional(),
+      clickable: z.boolean(),
+      trackingId: z.string().optional(),
     })
-    .partial()
     .optional(),
-  sublinks: z
+});
+
+// In-app citations (uploaded documents, user memory) use relative routes or anchors
+export const isCitationUrl = (url: string) => url.startsWith("/") || url.startsWith("#") || URL.canParse(url);
+
+// Bare domains ("example.com/report") become https URLs
+const BARE_DOMAIN = /^[\w-]+(\.[\w-]+)+(\/\S*)?$/;
+
+/**
+ * Fix up or drop citations the model returned with an unusable URL (often just
+ * the source's name), here and in nested charts, so one bad citation never fails
+ * the whole dashboard. Works on unvalidated drafts and returns a copy.
+ */
+export function cleanCitations<T>(draft: T): T {
+  if (!draft || typeof draft !== "object") return draft;
+  const { citations, charts } = draft as { citations?: unknown; charts?: unknown };
+  const cleaned: Record<string, unknown> = { ...(draft as Record<string, unknown>) };
+
+  if (Array.isArray(citations)) {
+    const kept = citations.flatMap(citation => {
+      const url = typeof citation?.url === "string" ? citation.url.trim() : "";
+      if (isCitationUrl(url)) return [{ ...citation, url }];
+      if (BARE_DOMAIN.test(url)) return [{ ...citation, url: `https://${url}` }];
+      return [];
+    });
+    if (kept.length < citations.length) {
+      console.warn(`[Schema] Dropped ${citations.length - kept.length} citation(s) without a usable URL`);
+    }
+    cleaned.citations = kept.length > 0 ? kept : undefined;
+  }
+  if (Array.isArray(charts)) {
+    cleaned.charts = charts.map(chart => cleanCitations(chart));
+  }
+  return cleaned as T;
+}
+
+export const dashboardCitationSchema = z.object({
+  title: z.string(),
+  url: z.string().refine(isCitationUrl, "Invalid URL"),
+  snippet: z.string().optional(),
+  fileName: z.string().optional(),
+  page: z.number().int().positive().optional(),
+});
+
+export const dashboardKpiSchema = z.object({
+  label: z.string().min(1),
+  value: z.union([z.number(), z.string()]),
+  change: z.number().optional(),
+  unit: z.string().optional(),
+});
+
+export const dashboardLayoutSchema = z.object({
+  columns: z.number().int().min(1).max(LAYOUT_COLUMNS),
+  kpis: z.array(dashboardKpiSchema).max(MAX_DASHBOARD_KPIS).optional(),
+  panels: z
     .array(
       z.object({
-        label: z.string(),
-        route: z.string().startsWith("/"),
-        context: z.record(z.any()),
+        chart: z.number().int().nonnegative(),
+        x: z.number().int().nonnegative(),
+        y: z.number().int().nonnegative(),
+        w: z.number().int().positive(),
+        h: z.number().int().positive().max(4),
       })
     )
-    .optional(),
+    .max(MAX_DASHBOARD_PANELS),
+});
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isText = (value: unknown) => typeof value === "string" && value.trim().length > 0;
+
+type PointCheck = (point: DashboardDataPoint, config: DashboardConfig) => string | null;
+
+// Bar/line/area renderers plot `config.yAxis ?? "value"`
+const requireMeasure: PointCheck = (point, config) => {
+  const key = config.yAxis && config.yAxis in point ? config.yAxis : "value";
+  return isNumber(point[key]) ? null : `needs a numeric "${key}"`;
+};
+
+const requireLabelledMeasure: PointCheck = (point, config) =>
+  requireMeasure(point, config) ?? (isText(point.label) || isText(point.name) ? null : `needs a "label"`);
+
+const requireNumbers = (...keys: string[]): PointCheck => point => {
+  const missing = keys.filter(key => !isNumber(point[key]));
+  return missing.length === 0 ? null : `needs numeric ${missing.map(key => `"${key}"`).join(", ")}`;
+};
+
+/**
+ * Data shape each visualization type needs to render. Types missing from the
+ * map (tables, wiki content, KPI summaries) accept free-form objects.
+ */
+const DATA_SHAPE_CHECKS: Partial<Record<VisualizationType, PointCheck>> = {
+  bar_chart: requireMeasure,
+  line_chart: requireMeasure,
+  area_chart: requireMeasure,
+  histogram: requireMeasure,
+  waterfall_chart: requireMeasure,
+  heatmap: requireMeasure,
+  pie_chart: requireLabelledMeasure,
+  funnel_chart: requireLabelledMeasure,
+  treemap: requireLabelledMeasure,
+  scatter_plot: (point, config) => requireNumbers(config.xAxis ?? "x", config.yAxis ?? "y")(point, config),
+  bubble_chart: (point, config) =>
+    requireNumbers(config.xAxis ?? "x", config.yAxis ?? "y", config.chartSpecific?.size ?? "size")(point, config),
+  radar_chart: (point, config) => requireNumbers(config.chartSpecific?.polarRadiusAxis ?? "value")(point, config),
+  candlestick_chart: requireNumbers("open", "high", "low", "close"),
+  sankey_diagram: (point, config) => {
+    const source = config.chartSpecific?.sankeySource ?? "source";
+    const target = config.chartSpecific?.sankeyTarget ?? "target";
+    if (!isText(point[source]) || !isText(point[target])) {
+      return `needs "${source}" and "${target}" node names`;
+    }
+    return requireNumbers(config.chartSpecific?.sankeyValue ?? "value")(point, config);
+  },
+};
+
+/**
+ * One-line description of the data points a type expects, for LLM prompts.
+ */
+export function describeDataShape(type: VisualizationType): string {
+  switch (type) {
+    case "scatter_plot":
+      return `{"label": "Point", "x": 10, "y": 20}`;
+    case "bubble_chart":
+      return `{"label": "Point", "x": 10, "y": 20, "size": 5}`;
+    case "radar_chart":
+      return `{"subject": "Axis", "value": 80}`;
+    case "gauge_chart":
+      return `a single {"label": "Metric", "value": 72} with config.chartSpecific {"min": 0, "max": 100}`;
+    case "candlestick_chart":
+      return `{"label": "2024-01-02", "open": 10, "high": 12, "low": 9, "close": 11}`;
+    case "sankey_diagram":
+      return `{"source": "Node A", "target": "Node B", "value": 30}`;
+    case "table":
+    case "text":
+    case "timeline":
+    case "comparison":
+    case "infographic":
+    case "analytics_summary":
+      return `objects with any keys`;
+    default:
+      return `{"label": "Item", "value": 100}`;
+  }
+}
+
+function refineLayout(dashboard: z.infer<typeof dashboardObjectSchema>, ctx: z.RefinementCtx) {
+  if (!dashboard.layout) return;
+  for (const problem of findLayoutProblems(dashboard.layout, dashboard.charts?.length ?? 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["layout"], message: `Layout ${problem}` });
+  }
+}
+
+function refineDataShape(dashboard: z.infer<typeof dashboardObjectSchema>, ctx: z.RefinementCtx) {
+  // Memory answers are plain text and carry no data
+  if (dashboard.data.length === 0 && !dashboard.isFromMemory) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["data"], message: "At least one data point is required" });
+  }
+
+  const config: DashboardConfig = dashboard.config ?? {};
+
+  if (dashboard.type === "gauge_chart") {
+    if (dashboard.data.length > 0 && !isNumber(dashboard.data[0].value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["data", 0, "value"], message: "gauge_chart needs a numeric \"value\"" });
+    }
+    const { min, max } = config.chartSpecific ?? {};
+    if (isNumber(min) && isNumber(max) && min >= max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["config", "chartSpecific"], message: "gauge_chart min must be less than max" });
+    }
+    return;
+  }
+
+  const check = DATA_SHAPE_CHECKS[dashboard.type];
+  if (!check) return;
+
+  dashboard.data.forEach((point, index) => {
+    const problem = check(point, config);
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["data", index], message: `${dashboard.type} data point ${problem}` });
+    }
+  });
+}
+
+const dashboardObjectSchema = z.object({
+  type: visualizationTypeSchema,
+  title: z.string().min(5).max(120),
+  data: z.array(dashboardDataPointSchema).max(100),
+  config: dashboardConfigSchema.optional(),
+  sublinks: z.array(dashboardSublinkSchema).optional(),
   summary: z.string().optional(),
-  citations: z
+  citations: z.array(dashboardCitationSchema).optional(),
+  imageUrl: z.string().url().optional(),
+  imagePrompt: z.string().optional(),
+  mermaidDiagrams: z.array(z.string()).optional(),
+  charts: z.array(z.lazy(() => dashboardSchema)).max(MAX_DASHBOARD_PANELS).optional(),
+  layout: dashboardLayoutSchema.optional(),
+  isFromMemory: z.boolean().optional(),
+  columns: z
     .array(
       z.object({
-        title: z.string(),
-        url: z.string().min(1), // Accept any non-empty string, we'll validate URLs later
-        snippet: z.string().optional(),
+        name: z.string(),
+        type: z.enum(["number", "date", "category", "text", "boolean"]),
       })
     )
     .optional(),
-  imageUrl: z.string().url().optional(),
-  imagePrompt: z.string().optional(),
+  provenance: z
+    .object({
+      sourceType: z.enum(["dataset", "sql"]),
+      source: z.string(),
+      query: z.string(),
+      rowCount: z.number().int().nonnegative(),
+      dialect: z.enum(["sqlite", "postgres"]).optional(),
+      truncated: z.boolean().optional(),
+      generatedAt: z.string(),
+    })
+    .optional(),
+  query: z.string().optional(),
 });
 
+export const dashboardSchema: z.ZodType<DashboardOutput, z.ZodTypeDef, unknown> =
+  dashboardObjectSchema.superRefine((dashboard, ctx) => {
+    refineDataShape(dashboard, ctx);
+    refineLayout(dashboard, ctx);
+  });
+
 export type DashboardSchema = z.infer<typeof dashboardSchema>;
 
 export const classificationSchema = z.object({
-  type: dashboardSchema.shape.type,
+  type: visualizationTypeSchema,
   complexity: z.enum(["simple", "multi_chart", "dashboard"]),
   requiresRAG: z.boolean(),
   requiresExternal: z.boolean(),
@@ -0,0 +1,85 @@
+import type { ShareVisibility } from "@/types";
+
+// Options and snippets for embedding a published dashboard in another page. The
+// embed route reads the same options from its query string that the snippets write.
+
+export type EmbedTheme = "dark" | "light";
+
+export interface EmbedOptions {
+  theme: EmbedTheme;
+  width?: number; // px; the frame is fluid (100%) without it
+  height?: number; // px; the frame resizes to its content without it
+}
+
+// Sent to the host page whenever the embedded dashboard changes height
+export const EMBED_RESIZE_MESSAGE = "orinai:embed-resize";
+
+export interface EmbedResizeMessage {
+  type: typeof EMBED_RESIZE_MESSAGE;
+  shareId: string;
+  height: number;
+}
+
+const MIN_EMBED_SIZE = 120;
+const MAX_EMBED_SIZE = 4000;
+export const DEFAULT_EMBED_HEIGHT = 480;
+
+function parseSize(value: string | string[] | undefined): number | undefined {
+  const size = Number(Array.isArray(value) ? value[0] : value);
+  if (!Number.isFinite(size) || size <= 0) return undefined;
+  return Math.round(Math.min(Math.max(size, MIN_EMBED_SIZE), MAX_EMBED_SIZE));
+}
+
+/**
+ * Read `theme`, `width` and `height` from the embed route's query string. Unknown
+ * themes fall back to dark and sizes are clamped to something renderable.
+ */
+export function parseEmbedOptions(params: Record<string, string | string[] | undefined>): EmbedOptions {
+  const theme = Array.isArray(params.theme) ? params.theme[0] : params.theme;
+  return {
+    theme: theme === "light" ? "light" : "dark",
+    width: parseSize(params.width),
+    height: parseSize(params.height),
+  };
+}
+
+export function embedPath(shareId: string, options: Partial<EmbedOptions> = {}): string {
+  const query = new URLSearchParams();
+  if (options.theme && options.theme !== "dark") query.set("theme", options.theme);
+  if (options.width) query.set("width", String(options.width));
+  if (options.height) query.set("height", String(options.height));
+  const search = query.toString();
+  return `/embed/${shareId}${search ? `?${search}` : ""}`;
+}
+
+// Private shares need the owner's session, which third-party frames rarely get
+export function isEmbeddable(visibility: ShareVisibility): boolean {
+  return visibility !== "private";
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+/**
+ * A plain iframe: works where scripts are not allowed (wikis, Notion), but keeps
+ * the height it was given.
+ */
+export function iframeSnippet(origin: string, shareId: string, title: string, options: Partial<EmbedOptions> = {}): string {
+  const src = `${origin}${embedPath(shareId, { ...options, height: undefined })}`;
+  const width = options.width ? String(options.width) : "100%";
+  const height = String(options.height ?? DEFAULT_EMBED_HEIGHT);
+  return `<iframe src="${escapeAttribute(src)}" title="${escapeAttribute(title)}" width="${width}" height="${height}" style="border:0" loading="lazy"></iframe>`;
+}
+
+/**
+ * A placeholder plus the loader script, which creates the iframe and keeps its
+ * height in sync with the dashboard.
+ */
+export function scriptSnippet(origin: string, shareId: string, options: Partial<EmbedOptions> = {}): string {
+  const attributes = [`data-orinai-dashboard="${escapeAttribute(shareId)}"`];
+  if (options.theme) attributes.push(`data-theme="${options.theme}"`);
+  if (options.width) attributes.push(`data-width="${options.width}"`);
+  if (options.height) attributes.push(`data-height="${options.height}"`);
+  return `<div ${attributes.join(" ")}></div>\n<script src="${escapeAttribute(origin)}/embed.js" async></script>`;
+}
@@ -0,0 +1,185 @@
+import { randomUUID } from "crypto";
+import type { DashboardOutput, SharedDashboardSummary, ShareVisibility } from "@/types";
+import { dashboardSchema } from "@/lib/schemas/dashboard";
+import {
+  getSharedDashboard,
+  getUserSharedDashboards,
+  saveSharedDashboard,
+  updateSharedDashboard,
+  type SharedDashboardRecord,
+} from "@/lib/appwrite/database";
+
+export const SHARE_VISIBILITIES: ShareVisibility[] = ["private", "link", "public"];
+export const MAX_SHARED_DASHBOARD_BYTES = 1_000_000;
+
+/**
+ * Raised for share requests that can never succeed (bad visibility, expiry in the
+ * past, oversized dashboard). API routes surface these as 400s.
+ */
+export class ShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareError";
+  }
+}
+
+export type ShareAccess =
+  | { status: "ok"; dashboard: DashboardOutput; share: SharedDashboardSummary }
+  | { status: "not_found" | "forbidden" | "expired" | "revoked" };
+
+// Without Appwrite credentials shares live in process memory (local development)
+const localShares = new Map<string, SharedDashboardRecord>();
+
+function hasAppwriteConfig(): boolean {
+  return (
+    Boolean(process.env.APPWRITE_ENDPOINT) &&
+    Boolean(process.env.APPWRITE_PROJECT_ID) &&
+    Boolean(process.env.APPWRITE_API_KEY)
+  );
+}
+
+export function sharePath(shareId: string): string {
+  return `/d/${shareId}`;
+}
+
+function toSummary(record: SharedDashboardRecord): SharedDashboardSummary {
+  return {
+    shareId: record.shareId,
+    title: record.title,
+    visibility: record.visibility as ShareVisibility,
+    path: sharePath(record.shareId),
+    expiresAt: record.expiresAt ?? null,
+    revokedAt: record.revokedAt ?? null,
+    createdAt: record.createdAt,
+  };
+}
+
+function parseVisibility(value: unknown): ShareVisibility {
+  if (!SHARE_VISIBILITIES.includes(value as ShareVisibility)) {
+    throw new ShareError(`visibility must be one of ${SHARE_VISIBILITIES.join(", ")}`);
+  }
+  return value as ShareVisibility;
+}
+
+// null clears the expiry; undefined leaves it alone
+function parseExpiry(value: unknown, now: Date): string | null | undefined {
+  if (value === undefined || value === null) return value;
+  const date = typeof value === "string" ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new ShareError("expiresAt must be an ISO date");
+  }
+  if (date.getTime() <= now.getTime()) {
+    throw new ShareError("expiresAt must be in the future");
+  }
+  return date.toISOString();
+}
+
+/**
+ * Decide whether `viewerId` (null for anonymous visitors) may open the share.
+ * Anonymous visitors to a private share are asked to sign in; any other signed-in
+ * user is told it does not exist.
+ */
+export function checkShareAccess(record: SharedDashboardRecord | null, viewerId: string | null, now: Date = new Date()): ShareAccess {
+  if (!record) return { status: "not_found" };
+  if (record.visibility === "private" && record.userId !== viewerId) {
+    return { status: viewerId ? "not_found" : "forbidden" };
+  }
+  if (record.revokedAt) return { status: "revoked" };
+  if (record.expiresAt && new Date(record.expiresAt).getTime() <= now.getTime()) return { status: "expired" };
+
+  return { status: "ok", dashboard: JSON.parse(record.dashboard) as DashboardOutput, share: toSummary(record) };
+}
+
+/**
+ * Publish a snapshot of the dashboard under a new, unguessable id. Later changes
+ * to the chat do not affect the published copy.
+ */
+export async function publishDashboard({
+  userId,
+  dashboard,
+  visibility,
+  expiresAt,
+}: {
+  userId: string;
+  dashboard: unknown;
+  visibility: unknown;
+  expiresAt?: unknown;
+}): Promise<SharedDashboardSummary> {
+  const parsed = dashboardSchema.safeParse(dashboard);
+  if (!parsed.success) {
+    throw new ShareError(`dashboard is not valid: ${parsed.error.issues[0]?.message ?? "unknown error"}`);
+  }
+  const json = JSON.stringify(parsed.data);
+  if (Buffer.byteLength(json) > MAX_SHARED_DASHBOARD_BYTES) {
+    throw new ShareError(`dashboard is larger than ${MAX_SHARED_DASHBOARD_BYTES / 1_000_000} MB`);
+  }
+
+  const share = {
+    shareId: randomUUID().replace(/-/g, ""),
+    userId,
+    title: parsed.data.title,
+    dashboard: json,
+    visibility: parseVisibility(visibility),
+    expiresAt: parseExpiry(expiresAt, new Date()) ?? null,
+    revokedAt: null,
+  };
+
+  if (!hasAppwriteConfig()) {
+    const now = new Date().toISOString();
+    const record = { ...share, createdAt: now, updatedAt: now };
+    localShares.set(record.shareId, record);
+    return toSummary(record);
+  }
+
+  const record = await saveSharedDashboard(share);
+  if (!record) {
+    throw new Error("Failed to save shared dashboard");
+  }
+  return toSummary(record);
+}
+
+export async function loadSharedDashboard(shareId: string, viewerId: string | null): Promise<ShareAccess> {
+  const record = hasAppwriteConfig() ? await getSharedDashboard(shareId) : localShares.get(shareId) ?? null;
+  return checkShareAccess(record, viewerId);
+}
+
+export async function listSharedDashboards(userId: string): Promise<SharedDashboardSummary[]> {
+  const records = hasAppwriteConfig()
+    ? await getUserSharedDashboards(userId)
+    : [...localShares.values()]
+        .filter(record => record.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return records.map(toSummary);
+}
+
+/**
+ * Change who can see a share or when it expires, or revoke it. Revoking is final:
+ * the id stays reserved and the link reports it was revoked. Returns null when
+ * the share does not exist or belongs to someone else.
+ */
+export async function updateShare(
+  userId: string,
+  shareId: string,
+  changes: { visibility?: unknown; expiresAt?: unknown; revoke?: boolean }
+): Promise<SharedDashboardSummary | null> {
+  const update: Partial<Pick<SharedDashboardRecord, "visibility" | "expiresAt" | "revokedAt">> = {};
+  if (changes.visibility !== undefined) update.visibility = parseVisibility(changes.visibility);
+  const expiresAt = parseExpiry(changes.expiresAt, new Date());
+  if (expiresAt !== undefined) update.expiresAt = expiresAt;
+  if (changes.revoke) update.revokedAt = new Date().toISOString();
+
+  if (!hasAppwriteConfig()) {
+    const record = localShares.get(shareId);
+    if (!record || record.userId !== userId) return null;
+    const updated = { ...record, ...update, revokedAt: record.revokedAt ?? update.revokedAt ?? null, updatedAt: new Date().toISOString() };
+    localShares.set(shareId, updated);
+    return toSummary(updated);
+  }
+
+  const existing = await getSharedDashboard(shareId);
+  if (!existing || existing.userId !== userId) return null;
+  if (existing.revokedAt) delete update.revokedAt;
+
+  const record = await updateSharedDashboard(userId, shareId, update);
+  return record ? toSummary(record) : null;
+}
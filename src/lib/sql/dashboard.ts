@@ -0,0 +1,112 @@
+import type {
+  ClassificationResult,
+  ColumnType,
+  DashboardDataPoint,
+  DashboardOutput,
+  DataColumn,
+  SqlQueryResult,
+  VisualizationType,
+} from "@/types";
+import { detectChartConfig, detectOptimalChartType } from "@/lib/charts/detection";
+import { parseDate, parseNumber } from "@/lib/datasets/schema";
+import type { SqlRows } from "./types";
+
+const SERIES_CHART_TYPES: VisualizationType[] = ["bar_chart", "line_chart", "area_chart", "pie_chart", "funnel_chart"];
+
+// Drivers return dates as Date objects and Postgres numeric/bigint as strings
+function normalizeCell(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString().replace("T00:00:00.000Z", "");
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "number" || typeof value === "boolean" || typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function columnType(values: Array<string | number | boolean | null>): ColumnType {
+  const present = values.filter(value => value !== null);
+  if (present.length === 0) return "text";
+  if (present.every(value => typeof value === "boolean")) return "boolean";
+  if (present.every(value => parseNumber(value) !== null)) return "number";
+  if (present.every(value => parseDate(value) !== null)) return "date";
+  return "category";
+}
+
+/**
+ * Type the result columns and add the generic label/value keys the renderers fall
+ * back to: the first non-numeric column is the label, the first numeric one the value.
+ */
+export function toSqlDataPoints(result: SqlRows): { columns: DataColumn[]; rows: DashboardDataPoint[] } {
+  const cells = result.rows.map(row => Object.fromEntries(result.columns.map(name => [name, normalizeCell(row[name])])));
+
+  const columns: DataColumn[] = result.columns.map(name => ({
+    name,
+    type: columnType(cells.map(row => row[name])),
+  }));
+  for (const column of columns) {
+    if (column.type !== "number") continue;
+    for (const row of cells) {
+      row[column.name] = parseNumber(row[column.name]);
+    }
+  }
+
+  // A leading numeric column (e.g. a year) is still the label when others follow it
+  const labelColumn = columns.find(column => column.type !== "number") ?? (columns.length > 1 ? columns[0] : undefined);
+  if (labelColumn?.type === "number") labelColumn.type = "category";
+  const valueColumn = columns.find(column => column.type === "number" && column !== labelColumn);
+
+  const rows = cells.map(row => ({
+    ...row,
+    label: labelColumn ? String(row[labelColumn.name] ?? "") : undefined,
+    value: valueColumn ? (row[valueColumn.name] as number | null) ?? 0 : undefined,
+  }));
+
+  return { columns, rows };
+}
+
+/**
+ * Build a dashboard from SQL results. The numbers come straight from the database;
+ * the executed query is attached as provenance so they can be audited.
+ */
+export function buildSqlDashboard(
+  query: string,
+  classification: ClassificationResult,
+  result: SqlQueryResult
+): DashboardOutput {
+  const { rows, columns } = result;
+  const type = SERIES_CHART_TYPES.includes(classification.type)
+    ? classification.type
+    : detectOptimalChartType(rows, columns);
+
+  const valueColumn = columns.find(column => column.type === "number");
+  const summary = rows.length === 0
+    ? `The query returned no rows from ${result.sourceLabel}.`
+    : `${result.rowCount} row${result.rowCount === 1 ? "" : "s"} from ${result.sourceLabel}` +
+      (result.truncated ? ` (first ${rows.length} shown)` : "") +
+      (valueColumn ? `, showing ${valueColumn.name}` : "") +
+      ".";
+
+  return {
+    type,
+    title: (result.title.length >= 5 ? result.title : `${result.title} — ${query}`).slice(0, 120),
+    data: rows.length > 0 ? rows : [{ label: "No rows", value: 0 }],
+    columns,
+    config: detectChartConfig(rows, type, columns),
+    summary,
+    citations: [
+      {
+        title: `${result.sourceLabel} (${result.dialect === "postgres" ? "PostgreSQL" : "SQLite"})`,
+        url: "#provenance",
+        snippet: result.sql,
+      },
+    ],
+    provenance: {
+      sourceType: "sql",
+      source: result.sourceLabel,
+      query: result.sql,
+      rowCount: result.rowCount,
+      dialect: result.dialect,
+      truncated: result.truncated,
+      generatedAt: new Date().toISOString(),
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { invokeAzureChat } from "@/lib/azure/model-router";
+import type { SqlSource, SqlTable } from "./types";
+
+export interface GeneratedSql {
+  sql: string;
+  title: string;
+}
+
+function describeTables(tables: SqlTable[]): string {
+  return tables
+    .map(table => `${table.name}(${table.columns.map(column => `${column.name} ${column.type}`).join(", ")})`)
+    .join("\n");
+}
+
+function parseGeneratedSql(raw: string, question: string): GeneratedSql {
+  const text = raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/```\s*$/, "").trim();
+
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed?.sql === "string") {
+      return {
+        sql: parsed.sql,
+        title: typeof parsed.title === "string" && parsed.title.trim() ? parsed.title.trim() : question,
+      };
+    }
+  } catch {
+    // Fall through: some models answer with a bare SQL block
+  }
+
+  const block = raw.match(/```sql\s*([\s\S]*?)```/i)?.[1] ?? raw.match(/\b(?:with|select)\b[\s\S]*/i)?.[0];
+  if (!block) {
+    throw new Error("The model did not return a SQL query");
+  }
+  return { sql: block.trim(), title: question };
+}
+
+/**
+ * Ask the model for one read-only query that answers the question against the
+ * described tables. `previous` feeds back the last attempt's error for a retry.
+ */
+export async function generateSql(
+  question: string,
+  source: SqlSource,
+  tables: SqlTable[],
+  previous?: { sql: string; error: string }
+): Promise<GeneratedSql> {
+  const dialect = source.dialect === "postgres" ? "PostgreSQL" : "SQLite";
+
+  const response = await invokeAzureChat(
+    [
+      {
+        role: "system",
+        content: `You write a single read-only ${dialect} SELECT statement that answers a question for a chart.
+
+TABLES:
+${describeTables(tables)}
+
+RULES:
+- Use only the tables and columns listed above
+- One SELECT (CTEs allowed); never modify data
+- Aggregate in SQL. Return the label column first (category or date) and the numeric value column(s) after it
+- Use readable column aliases, order the rows meaningfully and return at most 100 rows
+- Respond with JSON only: {"sql": "...", "title": "short chart title"}`,
+      },
+      {
+        role: "user",
+        content: previous
+          ? `${question}\n\nYour previous query failed:\n${previous.sql}\nError: ${previous.error}\nReturn a corrected query.`
+          : question,
+      },
+    ],
+    { intent: "generation", responseFormat: "json", temperature: 0 }
+  );
+
+  return parseGeneratedSql(response.choices[0]?.message?.content ?? "", question);
+}
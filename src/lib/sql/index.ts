@@ -0,0 +1,118 @@
+import path from "path";
+import type { SqlQueryResult } from "@/types";
+import { toSqlDataPoints } from "./dashboard";
+import { generateSql } from "./generate";
+import { createPostgresSource } from "./postgres";
+import { createSqliteSource } from "./sqlite";
+import type { SqlSource } from "./types";
+import { SqlValidationError, limitSql, validateReadOnlySql } from "./validate";
+
+export type { SqlSource, SqlTable, SqlRows } from "./types";
+export { SqlValidationError, validateReadOnlySql } from "./validate";
+
+export const SAMPLE_SQL_SOURCE_ID = "sample";
+
+// dashboardSchema accepts at most 100 data points
+const MAX_ROWS = Math.min(Number(process.env.SQL_MAX_ROWS) || 100, 100);
+const TIMEOUT_MS = Number(process.env.SQL_TIMEOUT_MS) || 10_000;
+const MAX_ATTEMPTS = 2;
+
+const sources = new Map<string, SqlSource>();
+
+/**
+ * Register (or replace) a SQL source under its id.
+ */
+export function registerSqlSource(source: SqlSource): void {
+  sources.set(source.id, source);
+}
+
+export function getSqlSource(id: string): SqlSource | undefined {
+  return sources.get(id);
+}
+
+export function listSqlSources(): SqlSource[] {
+  return [...sources.values()];
+}
+
+/**
+ * Build a source from SQL_DATABASE_URL: postgres://... / postgresql://... for Postgres,
+ * sqlite:<path> or a path ending in .db/.sqlite/.sqlite3 for SQLite.
+ */
+function sourceFromUrl(id: string, label: string, url: string): SqlSource | null {
+  if (/^postgres(ql)?:\/\//i.test(url)) {
+    return createPostgresSource({ id, label, connectionString: url });
+  }
+  if (/^sqlite:/i.test(url) || /\.(db|sqlite3?)$/i.test(url)) {
+    return createSqliteSource({ id, label, file: url.replace(/^sqlite:(\/\/)?/i, "") });
+  }
+  console.warn(`[SQL] Unsupported SQL_DATABASE_URL for source "${id}"; expected postgres:// or sqlite:`);
+  return null;
+}
+
+/**
+ * Generate, validate and run a read-only query that answers the question. A failed
+ * attempt (invalid or erroring SQL) is retried once with the error fed back.
+ */
+export async function runSqlQuery(sourceId: string, question: string): Promise<SqlQueryResult> {
+  const source = getSqlSource(sourceId);
+  if (!source) {
+    throw new Error(`SQL source "${sourceId}" not found`);
+  }
+
+  const tables = await source.describe();
+  if (tables.length === 0) {
+    throw new Error(`SQL source "${source.label}" has no tables to query`);
+  }
+
+  let previous: { sql: string; error: string } | undefined;
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const generated = await generateSql(question, source, tables, previous);
+    console.log(`[SQL] Attempt ${attempt} on ${source.id}:`, generated.sql);
+
+    try {
+      const sql = validateReadOnlySql(generated.sql, source.dialect);
+      const result = await source.execute(limitSql(sql, MAX_ROWS), { timeoutMs: TIMEOUT_MS });
+      const truncated = result.rows.length > MAX_ROWS;
+      const { columns, rows } = toSqlDataPoints({ columns: result.columns, rows: result.rows.slice(0, MAX_ROWS) });
+
+      return {
+        sourceId: source.id,
+        sourceLabel: source.label,
+        dialect: source.dialect,
+        sql,
+        title: generated.title,
+        columns,
+        rows,
+        rowCount: rows.length,
+        truncated,
+      };
+    } catch (error) {
+      lastError = error;
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[SQL] Attempt ${attempt} failed:`, message);
+      previous = { sql: generated.sql, error: message };
+    }
+  }
+
+  if (lastError instanceof SqlValidationError) {
+    throw lastError;
+  }
+  throw new Error(`Could not answer from ${source.label}: ${lastError instanceof Error ? lastError.message : String(lastError)}`);
+}
+
+if (process.env.SQL_SAMPLE_DATABASE !== "false") {
+  registerSqlSource(
+    createSqliteSource({
+      id: SAMPLE_SQL_SOURCE_ID,
+      label: "Sample sales database",
+      seedFile: path.join(process.cwd(), "src/lib/sql/sample/sales.sql"),
+    })
+  );
+}
+
+if (process.env.SQL_DATABASE_URL) {
+  const source = sourceFromUrl("default", process.env.SQL_DATABASE_LABEL || "Database", process.env.SQL_DATABASE_URL);
+  if (source) registerSqlSource(source);
+}
@@ -0,0 +1,58 @@
+import { Pool } from "pg";
+import type { SqlSource, SqlTable } from "./types";
+
+export interface PostgresSourceOptions {
+  id: string;
+  label: string;
+  connectionString: string;
+}
+
+const MAX_DESCRIBED_TABLES = 50;
+
+/**
+ * Postgres through node-postgres. Generated SQL always runs inside a READ ONLY
+ * transaction with a statement timeout, and the transaction is rolled back.
+ */
+export function createPostgresSource({ id, label, connectionString }: PostgresSourceOptions): SqlSource {
+  const pool = new Pool({ connectionString, max: 3 });
+
+  return {
+    id,
+    label,
+    dialect: "postgres",
+    async describe() {
+      const { rows } = await pool.query<{ table_schema: string; table_name: string; column_name: string; data_type: string }>(
+        `SELECT table_schema, table_name, column_name, data_type
+           FROM information_schema.columns
+          WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+          ORDER BY table_schema, table_name, ordinal_position`
+      );
+
+      const tables = new Map<string, SqlTable>();
+      for (const row of rows) {
+        const name = row.table_schema === "public" ? row.table_name : `${row.table_schema}.${row.table_name}`;
+        if (!tables.has(name)) {
+          if (tables.size >= MAX_DESCRIBED_TABLES) break;
+          tables.set(name, { name, columns: [] });
+        }
+        tables.get(name)!.columns.push({ name: row.column_name, type: row.data_type });
+      }
+      return [...tables.values()];
+    },
+    async execute(sql, { timeoutMs }) {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN TRANSACTION READ ONLY");
+        await client.query(`SET LOCAL statement_timeout = ${Math.max(1, Math.floor(timeoutMs))}`);
+        const result = await client.query(sql);
+        return {
+          columns: result.fields.map(field => field.name),
+          rows: result.rows as Array<Record<string, unknown>>,
+        };
+      } finally {
+        await client.query("ROLLBACK").catch(() => undefined);
+        client.release();
+      }
+    },
+  };
+}
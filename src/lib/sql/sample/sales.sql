@@ -0,0 +1,62 @@
+-- Bundled sample database for the SQL connector: a small, deterministic sales dataset.
+-- Built in memory by sql.js; edit this script to change the sample.
+
+CREATE TABLE products (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  unit_price REAL NOT NULL
+);
+
+INSERT INTO products (id, name, category, unit_price) VALUES
+  (1, 'Starter Plan', 'Subscriptions', 29.0),
+  (2, 'Team Plan', 'Subscriptions', 99.0),
+  (3, 'Enterprise Plan', 'Subscriptions', 499.0),
+  (4, 'Onboarding Package', 'Services', 750.0),
+  (5, 'Training Workshop', 'Services', 1200.0),
+  (6, 'Analytics Add-on', 'Add-ons', 49.0),
+  (7, 'Storage Add-on', 'Add-ons', 19.0),
+  (8, 'Priority Support', 'Add-ons', 149.0);
+
+CREATE TABLE customers (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  region TEXT NOT NULL,
+  segment TEXT NOT NULL,
+  signup_date TEXT NOT NULL
+);
+
+INSERT INTO customers (id, name, region, segment, signup_date)
+WITH RECURSIVE seq(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM seq WHERE n < 120)
+SELECT
+  n,
+  'Customer ' || printf('%03d', n),
+  CASE n % 5 WHEN 0 THEN 'North America' WHEN 1 THEN 'Europe' WHEN 2 THEN 'Asia Pacific' WHEN 3 THEN 'Latin America' ELSE 'Middle East & Africa' END,
+  CASE n % 3 WHEN 0 THEN 'Enterprise' WHEN 1 THEN 'SMB' ELSE 'Startup' END,
+  date('2022-01-01', '+' || (n * 6) || ' days')
+FROM seq;
+
+CREATE TABLE orders (
+  id INTEGER PRIMARY KEY,
+  customer_id INTEGER NOT NULL REFERENCES customers(id),
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  order_date TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  revenue REAL NOT NULL
+);
+
+-- 2,400 orders across 2023-2024; volume grows over time so trends are visible
+INSERT INTO orders (id, customer_id, product_id, order_date, quantity, revenue)
+WITH RECURSIVE seq(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM seq WHERE n < 2400),
+generated AS (
+  SELECT
+    n,
+    (n * 37) % 120 + 1 AS customer_id,
+    (n * 13 + n / 7) % 8 + 1 AS product_id,
+    date('2023-01-01', '+' || ((n * 731) / 2400) || ' days') AS order_date,
+    (n * 7) % 5 + 1 + n / 800 AS quantity
+  FROM seq
+)
+SELECT g.n, g.customer_id, g.product_id, g.order_date, g.quantity, round(g.quantity * p.unit_price, 2)
+FROM generated g
+JOIN products p ON p.id = g.product_id;
@@ -0,0 +1,76 @@
+import { readFile } from "fs/promises";
+import initSqlJs, { type Database } from "sql.js";
+import type { SqlRows, SqlSource, SqlTable } from "./types";
+
+export interface SqliteSourceOptions {
+  id: string;
+  label: string;
+  /** Path to a SQLite database file. */
+  file?: string;
+  /** SQL script that builds the database in memory (used for the bundled sample). */
+  seedFile?: string;
+}
+
+/**
+ * SQLite through sql.js (WebAssembly), so no native build is needed. The database is
+ * loaded into memory and switched to query_only before any generated SQL runs.
+ */
+export function createSqliteSource({ id, label, file, seedFile }: SqliteSourceOptions): SqlSource {
+  let database: Promise<Database> | null = null;
+
+  const open = () => {
+    database ??= (async () => {
+      const SQL = await initSqlJs();
+      const db = file ? new SQL.Database(await readFile(file)) : new SQL.Database();
+      if (seedFile) {
+        db.exec(await readFile(seedFile, "utf8"));
+      }
+      db.exec("PRAGMA query_only = ON");
+      return db;
+    })().catch(error => {
+      database = null;
+      throw error;
+    });
+    return database;
+  };
+
+  const run = async (sql: string): Promise<SqlRows> => {
+    const db = await open();
+    const statement = db.prepare(sql);
+    try {
+      const rows: Array<Record<string, unknown>> = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return { columns: statement.getColumnNames(), rows };
+    } finally {
+      statement.free();
+    }
+  };
+
+  return {
+    id,
+    label,
+    dialect: "sqlite",
+    async describe() {
+      const { rows: tables } = await run(
+        "SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name"
+      );
+
+      const result: SqlTable[] = [];
+      for (const { name } of tables) {
+        const { rows: columns } = await run(`SELECT name, type FROM pragma_table_info('${String(name).replace(/'/g, "''")}')`);
+        result.push({
+          name: String(name),
+          columns: columns.map(column => ({ name: String(column.name), type: String(column.type || "TEXT") })),
+        });
+      }
+      return result;
+    },
+    // sql.js runs synchronously in process, so there is no statement timeout to apply;
+    // validateReadOnlySql refuses recursive CTEs for SQLite instead
+    async execute(sql) {
+      return run(sql);
+    },
+  };
+}
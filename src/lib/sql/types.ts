@@ -0,0 +1,25 @@
+import type { SqlDialect } from "@/types";
+
+export interface SqlTable {
+  name: string;
+  columns: Array<{ name: string; type: string }>;
+}
+
+export interface SqlRows {
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+}
+
+export interface SqlExecuteOptions {
+  timeoutMs: number;
+}
+
+export interface SqlSource {
+  id: string;
+  label: string;
+  dialect: SqlDialect;
+  /** Tables and columns the generated SQL may use. */
+  describe(): Promise<SqlTable[]>;
+  /** Run an already validated SELECT without allowing writes. */
+  execute(sql: string, options: SqlExecuteOptions): Promise<SqlRows>;
+}
@@ -0,0 +1,92 @@
+import type { SqlDialect } from "@/types";
+
+export class SqlValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SqlValidationError";
+  }
+}
+
+// Statements and clauses that change data, schema or session state
+const FORBIDDEN_KEYWORDS = [
+  "insert", "update", "delete", "merge", "upsert", "drop", "alter", "create", "truncate",
+  "grant", "revoke", "attach", "detach", "pragma", "vacuum", "reindex", "copy", "call",
+  "execute", "exec", "do", "lock", "set", "reset", "load", "into", "returning", "begin",
+  "commit", "rollback", "savepoint", "listen", "notify", "refresh",
+];
+
+// Functions that read the server's filesystem, sleep or reach other databases
+const FORBIDDEN_FUNCTIONS = [
+  "pg_read_file", "pg_read_binary_file", "pg_ls_dir", "pg_stat_file", "pg_sleep", "pg_terminate_backend",
+  "pg_cancel_backend", "pg_reload_conf", "lo_import", "lo_export", "set_config", "ts_stat",
+  "load_extension", "readfile", "writefile",
+];
+
+// Function families that run SQL passed to them as a string (query_to_xml,
+// dblink_exec, ...) or export whole schemas; any name starting with these is refused
+const FORBIDDEN_FUNCTION_PREFIXES = [
+  "query_to_xml", "cursor_to_xml", "table_to_xml", "schema_to_xml", "database_to_xml", "dblink",
+  "pg_ls_", "pg_read_", "pg_file_", "lo_", "pg_advisory",
+];
+
+function stripComments(sql: string): string {
+  return sql.replace(/--[^\n]*/g, " ").replace(/\/\*[\s\S]*?\*\//g, " ");
+}
+
+// Blank out literals and quoted identifiers so their contents are not mistaken for keywords
+function stripQuoted(sql: string): string {
+  return sql
+    .replace(/'(?:[^']|'')*'/g, "''")
+    .replace(/"(?:[^"]|"")*"/g, '""')
+    .replace(/\$(\w*)\$[\s\S]*?\$\1\$/g, "''");
+}
+
+/**
+ * Accept a single read-only SELECT (optionally with CTEs) and return it without
+ * comments or a trailing semicolon. Everything else raises SqlValidationError.
+ * For SQLite, recursive CTEs are refused too: sql.js runs in the server process
+ * with no statement timeout, so an unbounded recursion would block it.
+ */
+export function validateReadOnlySql(sql: string, dialect?: SqlDialect): string {
+  const statement = stripComments(sql).trim().replace(/;\s*$/, "").trim();
+  if (!statement) {
+    throw new SqlValidationError("The generated query is empty");
+  }
+
+  const scan = stripQuoted(statement).toLowerCase();
+  if (scan.includes(";")) {
+    throw new SqlValidationError("Only a single statement is allowed");
+  }
+  if (!/^(select|with)\b/.test(scan)) {
+    throw new SqlValidationError("Only SELECT queries are allowed");
+  }
+
+  const keyword = FORBIDDEN_KEYWORDS.find(word => new RegExp(`\\b${word}\\b`).test(scan));
+  if (keyword) {
+    throw new SqlValidationError(`"${keyword.toUpperCase()}" is not allowed in a read-only query`);
+  }
+
+  if (dialect === "sqlite" && /\brecursive\b/.test(scan)) {
+    throw new SqlValidationError("Recursive queries are not allowed on SQLite sources");
+  }
+
+  // Functions are looked for in the literals too: query_to_xml('select pg_read_file(...)')
+  // would otherwise hide the call it runs. Quotes are dropped so "pg_sleep"(1) is caught.
+  const calls = statement.toLowerCase().replace(/"/g, "");
+  const fn =
+    FORBIDDEN_FUNCTIONS.find(name => new RegExp(`\\b${name}\\s*\\(`).test(calls)) ??
+    FORBIDDEN_FUNCTION_PREFIXES.find(prefix => new RegExp(`\\b${prefix}\\w*\\s*\\(`).test(calls));
+  if (fn) {
+    throw new SqlValidationError(`${fn}() is not allowed`);
+  }
+
+  return statement;
+}
+
+/**
+ * Cap the rows a validated query can return. One extra row is fetched so callers
+ * can tell whether the result was cut off.
+ */
+export function limitSql(sql: string, maxRows: number): string {
+  return `SELECT * FROM (\n${sql}\n) AS orinai_result LIMIT ${maxRows + 1}`;
+}
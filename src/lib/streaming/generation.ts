@@ -0,0 +1,47 @@
+import { processQueryWithMemory, type GenerationStreamEvent } from "@/lib/langchain/pipeline-with-memory";
+import type { PipelineRunOptions } from "@/lib/pipeline";
+import { encodeSSEMessage } from "./sse";
+
+/**
+ * Run the pipeline for one query as an SSE body: phase and partial events while it
+ * runs, then one `complete` (or `error`) frame, after which the stream closes.
+ */
+export function createGenerationStream(
+  query: string,
+  userId: string,
+  options: Omit<PipelineRunOptions, "onEvent">
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+
+      const send = (event: GenerationStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(encodeSSEMessage(event.type, event)));
+        } catch {
+          // Client disconnected, keep the pipeline running so memory/logging still happen
+          closed = true;
+        }
+      };
+
+      try {
+        const dashboard = await processQueryWithMemory(query, userId, { ...options, onEvent: send });
+        send({ type: "complete", dashboard });
+      } catch (cause) {
+        console.error("[API] Streaming generation failed", cause);
+        send({
+          type: "error",
+          message: cause instanceof Error ? cause.message : String(cause),
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+}
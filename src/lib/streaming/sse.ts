@@ -0,0 +1,79 @@
+// Minimal Server-Sent Events helpers shared by the streaming API routes and the chat client
+
+export interface SSEMessage<T = unknown> {
+  event: string;
+  data: T;
+}
+
+/**
+ * Serialize a single SSE frame. Data is always JSON encoded on one line.
+ */
+export function encodeSSEMessage(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse a raw SSE frame (the text between two blank lines).
+ */
+function parseSSEFrame(frame: string): SSEMessage | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of frame.split("\n")) {
+    if (line.startsWith(":")) continue; // comment / keep-alive
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  const raw = dataLines.join("\n");
+  try {
+    return { event, data: JSON.parse(raw) };
+  } catch {
+    return { event, data: raw };
+  }
+}
+
+/**
+ * Read an SSE response body frame by frame.
+ */
+export async function* readSSEStream(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // Normalised after joining so a CRLF split across two chunks is caught too
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n/g, "\n");
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const message = parseSSEFrame(frame);
+        if (message) {
+          yield message;
+        }
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+
+    const trailing = parseSSEFrame(buffer.trim());
+    if (trailing) {
+      yield trailing;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
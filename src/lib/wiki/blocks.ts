@@ -0,0 +1,97 @@
+import type { VisualizationType } from "@/types";
+
+// Wiki-style text blocks: shared by the wiki renderer and the dashboard exporters
+
+export const HEADING_KEYS = ["heading", "title", "label", "name", "category"] as const;
+export const PARAGRAPH_KEYS = ["description", "summary", "text", "content", "body", "details"] as const;
+export const LIST_KEYS = ["bullets", "points", "items", "highlights", "list", "entries"] as const;
+
+export type TextBlock = Record<string, unknown>;
+
+export function pickFirstString(block: TextBlock, keys: readonly string[]): string | undefined {
+  for (const key of keys) {
+    const value = block[key];
+    if (typeof value === "string" && value.trim().length > 0) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function toBulletStrings(value: unknown): string[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    return undefined;
+  }
+
+  if (value.every((entry) => typeof entry === "string")) {
+    return value as string[];
+  }
+
+  if (value.every((entry) => typeof entry === "number")) {
+    return (value as number[]).map((num) => num.toString());
+  }
+
+  if (value.every((entry) => entry && typeof entry === "object")) {
+    return (value as Array<Record<string, unknown>>)
+      .map((entry) => {
+        const label = pickFirstString(entry, ["label", "title", "name"]);
+        const desc = pickFirstString(entry, ["description", "text", "summary", "details"]);
+        const rawValue = entry.value;
+
+        if (label && desc) {
+          const statement = `${label} – ${desc}`.trim();
+          return statement.length > 0 ? statement : undefined;
+        }
+
+        if (label && (typeof rawValue === "string" || typeof rawValue === "number")) {
+          const valueText = typeof rawValue === "number" ? rawValue.toLocaleString() : rawValue;
+          const statement = `${label}: ${valueText}`.trim();
+          return statement.length > 0 ? statement : undefined;
+        }
+
+        if (typeof desc === "string") {
+          const statement = desc.trim();
+          return statement.length > 0 ? statement : undefined;
+        }
+
+        return undefined;
+      })
+      .filter((item): item is string => typeof item === "string");
+  }
+
+  return undefined;
+}
+
+export function pickList(block: TextBlock): string[] | undefined {
+  for (const key of LIST_KEYS) {
+    const value = block[key];
+    const list = toBulletStrings(value);
+    if (list && list.length > 0) {
+      return list;
+    }
+  }
+  return undefined;
+}
+
+export interface TextSection {
+  heading?: string;
+  paragraph?: string;
+  bullets: string[];
+}
+
+// Dashboard types whose data points are prose blocks rather than chart rows
+export const TEXT_BLOCK_TYPES: VisualizationType[] = ["text", "timeline", "comparison", "infographic"];
+
+/**
+ * Read wiki-style data blocks ({ heading, description, bullets }) as sections.
+ */
+export function toTextSections(data: unknown[]): TextSection[] {
+  return data
+    .filter((entry): entry is TextBlock => !!entry && typeof entry === "object")
+    .map(block => ({
+      heading: pickFirstString(block, HEADING_KEYS),
+      paragraph: pickFirstString(block, PARAGRAPH_KEYS),
+      bullets: pickList(block) ?? [],
+    }))
+    .filter(section => section.heading || section.paragraph || section.bullets.length > 0);
+}
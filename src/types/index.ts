@@ -37,6 +37,8 @@ export interface DashboardCitation {
   title: string;
   url: string;
   snippet?: string;
+  fileName?: string; // set for citations from uploaded documents
+  page?: number;
 }
 
 export interface DashboardDataPoint {
@@ -84,6 +86,92 @@ export interface DashboardConfig {
   [key: string]: unknown;
 }
 
+export type ColumnType = "number" | "date" | "category" | "text" | "boolean";
+
+export interface DataColumn {
+  name: string;
+  type: ColumnType;
+}
+
+export interface DatasetColumn extends DataColumn {
+  nullCount: number;
+  distinctCount: number;
+  sample: Array<string | number | boolean>;
+  min?: number | string; // numbers, or ISO strings for dates
+  max?: number | string;
+}
+
+export interface DatasetSchema {
+  columns: DatasetColumn[];
+  rowCount: number;
+}
+
+export type DatasetAggregation = "sum" | "avg" | "count" | "min" | "max";
+
+export interface DatasetQueryPlan {
+  measure?: string; // omitted for count
+  groupBy?: string;
+  aggregation: DatasetAggregation;
+  dateGrain?: "day" | "month" | "quarter" | "year";
+  limit?: number;
+}
+
+export interface DatasetQueryResult {
+  datasetId: string;
+  datasetName: string;
+  plan: DatasetQueryPlan;
+  columns: DataColumn[]; // schema of `rows`
+  rows: DashboardDataPoint[];
+  totalRows: number; // rows scanned before aggregation
+}
+
+export type SqlDialect = "sqlite" | "postgres";
+
+export interface SqlQueryResult {
+  sourceId: string;
+  sourceLabel: string;
+  dialect: SqlDialect;
+  sql: string; // the validated statement that was executed
+  title: string;
+  columns: DataColumn[]; // schema of `rows`
+  rows: DashboardDataPoint[];
+  rowCount: number;
+  truncated: boolean; // more rows matched than the dashboard can hold
+}
+
+// Where the numbers of a data-backed dashboard came from, so they can be audited
+export interface DashboardProvenance {
+  sourceType: "dataset" | "sql";
+  source: string; // dataset file name or SQL source label
+  query: string; // executed SQL, or the aggregation applied to the dataset
+  rowCount: number; // rows returned by the SQL query, or rows read from the dataset
+  dialect?: SqlDialect;
+  truncated?: boolean;
+  generatedAt: string;
+}
+
+export interface DashboardKpi {
+  label: string;
+  value: number | string;
+  change?: number; // relative change as a percentage, e.g. 12.5 for +12.5%
+  unit?: string;
+}
+
+// Placement of one entry of `DashboardOutput.charts` on the layout grid, in grid cells
+export interface DashboardPanelPlacement {
+  chart: number;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface DashboardLayout {
+  columns: number;
+  kpis?: DashboardKpi[];
+  panels: DashboardPanelPlacement[];
+}
+
 export interface DashboardOutput {
   type: VisualizationType;
   title: string;
@@ -96,6 +184,52 @@ export interface DashboardOutput {
   imagePrompt?: string;
   mermaidDiagrams?: string[];
   charts?: DashboardOutput[];
+  isFromMemory?: boolean; // Answered directly from user memory, no visualization
+  columns?: DataColumn[]; // Column types of `data` when known (dataset-backed dashboards)
+  provenance?: DashboardProvenance;
+  query?: string; // The question that produced the dashboard
+  layout?: DashboardLayout; // Multi-panel boards: where each of `charts` goes
+}
+
+// Who can open a dashboard permalink: only its owner, anyone with the link, or
+// anyone (and search engines may index it)
+export type ShareVisibility = "private" | "link" | "public";
+
+export interface SharedDashboardSummary {
+  shareId: string;
+  title: string;
+  visibility: ShareVisibility;
+  path: string; // read-only view, e.g. /d/<shareId>
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export type SavedQueryRunStatus = "success" | "error";
+
+export interface SavedQuery {
+  savedQueryId: string;
+  name: string;
+  query: string;
+  schedule: string; // five-field cron expression or @hourly/@daily/@weekly/@monthly, UTC
+  datasetId?: string;
+  sqlSourceId?: string;
+  useMemory: boolean;
+  enabled: boolean;
+  nextRunAt: string | null; // null while paused
+  lastRunAt: string | null;
+  lastStatus: SavedQueryRunStatus | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DashboardSnapshot {
+  snapshotId: string;
+  savedQueryId: string;
+  version: number; // 1 for the first run, incrementing per saved query
+  dashboard: DashboardOutput;
+  createdAt: string;
 }
 
 export interface ClassificationResult {
@@ -109,4 +243,6 @@ export interface ClassificationResult {
 export interface RetrievalResult {
   chunks: Array<{ text: string; source?: string; relevance?: number }>;
   citations: DashboardCitation[];
+  data?: DatasetQueryResult; // Aggregated rows from an uploaded dataset
+  sql?: SqlQueryResult; // Rows returned by a generated SQL query
 }
@@ -62,6 +62,54 @@ describe('Chart Auto-Detection System', () => {
     expect(chartType).toBe('heatmap');
   });
 
+  test('detects candlestick chart for OHLC data', () => {
+    const data = [
+      { label: 'Mon', open: 10, high: 12, low: 9, close: 11 },
+      { label: 'Tue', open: 11, high: 13, low: 10, close: 10 }
+    ];
+    
+    const chartType = detectOptimalChartType(data);
+    expect(chartType).toBe('candlestick_chart');
+  });
+
+  test('detects sankey diagram for source/target flows', () => {
+    const data = [
+      { source: 'Visits', target: 'Signups', value: 40 },
+      { source: 'Signups', target: 'Paid', value: 10 }
+    ];
+    
+    const chartType = detectOptimalChartType(data);
+    expect(chartType).toBe('sankey_diagram');
+  });
+
+  test('detects bubble chart for XY data with size', () => {
+    const data = [
+      { x: 10, y: 20, size: 5 },
+      { x: 15, y: 25, size: 8 }
+    ];
+    
+    const chartType = detectOptimalChartType(data);
+    expect(chartType).toBe('bubble_chart');
+  });
+
+  test('detects waterfall chart when totals are flagged', () => {
+    const data = [
+      { label: 'Revenue', value: 100 },
+      { label: 'Costs', value: -40 },
+      { label: 'Profit', value: 60, isTotal: true }
+    ];
+    
+    const chartType = detectOptimalChartType(data);
+    expect(chartType).toBe('waterfall_chart');
+  });
+
+  test('detects histogram for raw numeric samples', () => {
+    const data = Array.from({ length: 30 }, (_, i) => ({ value: (i * 7) % 23 }));
+    
+    const chartType = detectOptimalChartType(data);
+    expect(chartType).toBe('histogram');
+  });
+
   test('detects analytics summary as fallback', () => {
     const data = [{ someProperty: 'test' }];
     